@@ -16,6 +16,10 @@ import VaultView from './views/VaultView';
 import ComparatorView from './views/ComparatorView';
 import TerminalView from './views/TerminalView';
 import ProfileView from './views/ProfileView';
+import AnalyticsView from './views/AnalyticsView';
+import LogsView from './views/LogsView';
+import { installLogSinks } from './services/logStoreService';
+import { storage } from './services/storageService';
 import { Loader2 } from 'lucide-react';
 
 const App: React.FC = () => {
@@ -23,16 +27,21 @@ const App: React.FC = () => {
   const [activeBlueprint, setActiveBlueprint] = useState<AutomationResult | null>(null);
 
   useEffect(() => {
-    // Initialize Theme
-    const saved = localStorage.getItem('aa_user_profile');
-    if (saved) {
-      const { preferences } = JSON.parse(saved);
+    // Persist logs from here on; console-only until the sinks are installed
+    installLogSinks().catch(err => console.warn('[Logger] Log sinks unavailable', err));
+  }, []);
+
+  useEffect(() => {
+    // Initialize Theme (also runs the one-time localStorage migration)
+    storage.getProfile().then(saved => {
+      if (!saved) return;
+      const { preferences } = saved;
       const root = window.document.documentElement;
       root.classList.remove('dark');
       if (preferences.theme === 'dark' || (preferences.theme === 'system' && window.matchMedia('(prefers-color-scheme: dark)').matches)) {
         root.classList.add('dark');
       }
-    }
+    });
   }, []);
 
   const handleNavigateWithBlueprint = (view: AppView, blueprint?: AutomationResult) => {
@@ -57,6 +66,8 @@ const App: React.FC = () => {
       case AppView.VAULT: return <VaultView onNavigate={handleNavigateWithBlueprint} />;
       case AppView.COMPARATOR: return <ComparatorView />;
       case AppView.TERMINAL: return <TerminalView />;
+      case AppView.ANALYTICS: return <AnalyticsView />;
+      case AppView.LOGS: return <LogsView />;
       case AppView.PROFILE: return <ProfileView />;
       default: return <AutomationGeneratorView />;
     }
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import { Card } from './ui/Card';
+import { SavedBlueprint } from '../types';
+import { RevisionRecord } from '../services/storageService';
+import { blueprintStore } from '../services/blueprintService';
+import { LineChange, StepChange, diffBlueprints } from '../utils/blueprintDiff';
+import { describeEdge } from '../utils/blueprintGraph';
+
+interface Props {
+  blueprint: SavedBlueprint;
+  onClose: () => void;
+  /** Called with the new head after a rollback */
+  onRestored: (head: SavedBlueprint) => void;
+}
+
+const BUMP_STYLES = {
+  major: 'bg-red-50 text-red-600 border-red-100',
+  minor: 'bg-amber-50 text-amber-600 border-amber-100',
+  patch: 'bg-slate-50 text-slate-500 border-slate-100'
+};
+
+const STEP_STYLES = {
+  added: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  removed: 'bg-red-50 text-red-700 border-red-100',
+  changed: 'bg-amber-50 text-amber-700 border-amber-100'
+};
+
+const LINE_STYLES = {
+  same: 'text-slate-400',
+  added: 'bg-emerald-500/10 text-emerald-300',
+  removed: 'bg-red-500/10 text-red-300'
+};
+
+const LINE_MARKS = { same: ' ', added: '+', removed: '-' };
+
+const UnifiedDiff: React.FC<{ title: string; lines: LineChange[] }> = ({ title, lines }) => {
+  if (!lines.some(line => line.type !== 'same')) return null;
+  return (
+    <div className="space-y-2">
+      <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{title}</h5>
+      <pre className="bg-slate-900 rounded-2xl p-4 text-[11px] font-mono overflow-auto max-h-72">
+        {lines.map((line, i) => (
+          <div key={i} className={`px-2 whitespace-pre-wrap ${LINE_STYLES[line.type]}`}>{LINE_MARKS[line.type]} {line.text}</div>
+        ))}
+      </pre>
+    </div>
+  );
+};
+
+/**
+ * Revision list for one vault blueprint, with a structural diff of each
+ * revision against its predecessor and one-click rollback.
+ */
+export const BlueprintHistory: React.FC<Props> = ({ blueprint, onClose, onRestored }) => {
+  const [revisions, setRevisions] = useState<RevisionRecord[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const history = await blueprintStore.history(blueprint.id);
+    setRevisions(history);
+    setSelected(history[0]?.revision ?? null);
+  };
+
+  useEffect(() => {
+    load().catch(err => setError(err.message));
+  }, [blueprint.id]);
+
+  const current = revisions.find(r => r.revision === selected);
+  const previous = current && revisions.find(r => r.revision < current.revision);
+  const diff = useMemo(
+    () => current && previous ? diffBlueprints(previous.snapshot, current.snapshot) : null,
+    [current, previous]
+  );
+  // The first revision lists its steps as added
+  const stepChanges: StepChange[] = diff ? diff.steps : (current?.snapshot.steps || []).map(step => ({ type: 'added', id: step.id, after: step }));
+  const headRevision = revisions[0]?.revision;
+
+  const restore = async (revision: number) => {
+    setRestoring(true);
+    setError(null);
+    try {
+      const head = await blueprintStore.rollback(blueprint.id, revision);
+      await load();
+      onRestored(head);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4">
+      <Card
+        title={`${blueprint.name} History`}
+        subtitle={`${revisions.length} revision${revisions.length === 1 ? '' : 's'}`}
+        className="w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+        headerAction={<button onClick={onClose}><X size={20} className="text-slate-400" /></button>}
+      >
+        {error && <div className="mb-6 p-4 bg-red-50 border border-red-100 rounded-2xl text-red-600 text-xs font-bold">{error}</div>}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div className="space-y-2">
+            {revisions.map(r => (
+              <button
+                key={r.revision}
+                onClick={() => setSelected(r.revision)}
+                className={`w-full text-left p-4 rounded-2xl border transition-all ${r.revision === selected ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-slate-100 hover:bg-slate-50'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-black text-slate-900">r{r.revision} • v{r.version}</span>
+                  {r.revision === headRevision && <span className="text-[9px] font-black uppercase tracking-widest text-indigo-500">Current</span>}
+                </div>
+                <div className="text-[10px] font-bold text-slate-400 mt-1">
+                  {new Date(r.createdAt).toLocaleString()}
+                  {r.restoredFrom !== undefined && ` • restored r${r.restoredFrom}`}
+                  {r.portedFrom !== undefined && ` • ported r${r.portedFrom} to ${r.snapshot.platform}`}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2 space-y-6">
+            {!current ? (
+              <div className="flex items-center gap-2 text-xs font-bold text-slate-400"><Loader2 size={14} className="animate-spin" /> Loading history...</div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <History size={16} className="text-indigo-500" />
+                    <span className="text-xs font-black text-slate-700 uppercase tracking-widest">
+                      {previous ? `r${previous.revision} → r${current.revision}` : 'Initial revision'}
+                    </span>
+                    {diff && <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full border ${BUMP_STYLES[diff.bump]}`}>{diff.bump}</span>}
+                  </div>
+                  {current.revision !== headRevision && (
+                    <button
+                      onClick={() => restore(current.revision)}
+                      disabled={restoring}
+                      className="flex items-center gap-2 px-4 py-2.5 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all disabled:opacity-50"
+                    >
+                      {restoring ? <Loader2 size={14} className="animate-spin" /> : <RotateCcw size={14} />} Restore r{current.revision}
+                    </button>
+                  )}
+                </div>
+
+                {diff && !diff.changed && <p className="text-xs font-bold text-slate-400">No changes from the previous revision.</p>}
+                {diff?.platformChanged && (
+                  <p className="text-xs font-bold text-red-600">Platform changed: {previous!.snapshot.platform} → {current.snapshot.platform}</p>
+                )}
+
+                {stepChanges.length > 0 && (
+                  <div className="space-y-2">
+                    <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Steps</h5>
+                    {stepChanges.map(change => (
+                      <div key={`${change.type}-${change.id}`} className="flex items-center gap-3 text-xs">
+                        <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full border ${STEP_STYLES[change.type]}`}>{change.type}</span>
+                        <span className="font-bold text-slate-700">#{change.id} {(change.after ?? change.before)?.title}</span>
+                        {change.fields && <span className="text-slate-400">({change.fields.join(', ')})</span>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {diff && diff.edges.length > 0 && (
+                  <div className="space-y-2">
+                    <h5 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Flow</h5>
+                    {diff.edges.map((change, i) => (
+                      <div key={i} className="flex items-center gap-3 text-xs">
+                        <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full border ${STEP_STYLES[change.type]}`}>{change.type}</span>
+                        <span className="font-mono text-slate-700">{describeEdge((change.after ?? change.before)!)}</span>
+                        {change.type === 'changed' && <span className="text-slate-400">(was: {change.before!.condition || 'unconditional'})</span>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {diff && (
+                  <>
+                    <UnifiedDiff title="Code Snippet" lines={diff.code} />
+                    <UnifiedDiff title="Documentation" lines={diff.docs} />
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, GitBranch, Loader2, X } from 'lucide-react';
+import { Card } from './ui/Card';
+import { Platform, SavedBlueprint } from '../types';
+import { blueprintStore } from '../services/blueprintService';
+import { MappingStatus, PLATFORM_PROFILES, portBlueprint } from '../services/transpilerService';
+
+interface Props {
+  blueprint: SavedBlueprint;
+  onClose: () => void;
+  /** Called with the new head once the port is saved */
+  onPorted: (head: SavedBlueprint) => void;
+}
+
+const STATUS_STYLES: Record<MappingStatus, string> = {
+  native: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  partial: 'bg-amber-50 text-amber-700 border-amber-100',
+  unsupported: 'bg-red-50 text-red-700 border-red-100'
+};
+
+/**
+ * "Port to…" dialog: pick a target platform, review how each step maps
+ * across, and save the port as the blueprint's next revision.
+ */
+export const BlueprintPort: React.FC<Props> = ({ blueprint, onClose, onPorted }) => {
+  const targets = (Object.keys(PLATFORM_PROFILES) as Platform[]).filter(p => p !== blueprint.platform);
+  const [target, setTarget] = useState<Platform>(targets[0]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const result = useMemo(() => portBlueprint(blueprint, target), [blueprint, target]);
+  const from = PLATFORM_PROFILES[blueprint.platform];
+  const to = PLATFORM_PROFILES[target];
+  const flagged = result.mappings.filter(m => m.status !== 'native').length;
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      onPorted(await blueprintStore.commit(blueprint.id, result.blueprint, { portedFrom: blueprint.revision ?? 1 }));
+    } catch (err: any) {
+      setError(err.message);
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4">
+      <Card
+        title={`Port ${blueprint.name}`}
+        subtitle={`${from.label} → ${to.label}`}
+        className="w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+        headerAction={<button onClick={onClose}><X size={20} className="text-slate-400" /></button>}
+      >
+        {error && <div className="mb-6 p-4 bg-red-50 border border-red-100 rounded-2xl text-red-600 text-xs font-bold">{error}</div>}
+        <div className="space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {targets.map(p => (
+              <button
+                key={p}
+                onClick={() => setTarget(p)}
+                className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${p === target ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-100 hover:bg-slate-50'}`}
+              >
+                {PLATFORM_PROFILES[p].label}
+              </button>
+            ))}
+          </div>
+
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <th className="py-2 pr-4">Step</th>
+                <th className="py-2 pr-4">{from.label}</th>
+                <th className="py-2 pr-4"></th>
+                <th className="py-2 pr-4">{to.label}</th>
+                <th className="py-2">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.mappings.map(m => (
+                <tr key={m.stepId} className="border-t border-slate-100 align-top">
+                  <td className="py-3 pr-4 font-bold text-slate-700">#{m.stepId} {m.title}</td>
+                  <td className="py-3 pr-4 text-slate-500">{m.source}</td>
+                  <td className="py-3 pr-4 text-slate-300"><ArrowRight size={14} /></td>
+                  <td className="py-3 pr-4">
+                    <div className="font-bold text-slate-700">{m.target ?? '—'}</div>
+                    <span className={`inline-block mt-1 text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full border ${STATUS_STYLES[m.status]}`}>{m.status}</span>
+                  </td>
+                  <td className="py-3 text-slate-500 space-y-1">
+                    {m.notes.map((note, i) => <div key={i}>{note}</div>)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {result.notes.length > 0 && (
+            <ul className="space-y-1 text-[11px] font-bold text-slate-400">
+              {result.notes.map((note, i) => <li key={i}>{note}</li>)}
+            </ul>
+          )}
+
+          <div className="flex items-center justify-between gap-4 pt-2 border-t border-slate-100">
+            <span className="text-xs font-bold text-slate-500">
+              {flagged === 0 ? 'Every step has a native equivalent.' : `${flagged} of ${result.mappings.length} steps need attention on ${to.label}.`}
+            </span>
+            <button
+              onClick={save}
+              disabled={saving}
+              className="flex items-center gap-2 px-5 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition-all disabled:opacity-50"
+            >
+              {saving ? <Loader2 size={14} className="animate-spin" /> : <GitBranch size={14} />} Save as new revision
+            </button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
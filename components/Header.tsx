@@ -1,12 +1,35 @@
 
 import React from 'react';
 import { AppView } from '../types';
+import { useDegradedProviders } from '../hooks/useDegradedProviders';
+import { useQueueStats } from '../hooks/useQueueStats';
+import { useBudgetStatus } from '../hooks/useBudgetStatus';
+import { useVaultStatus } from '../hooks/useVaultStatus';
+import { formatCost } from '../services/budgetService';
 
 interface HeaderProps {
   activeView: AppView;
 }
 
 const Header: React.FC<HeaderProps> = ({ activeView }) => {
+  const degraded = useDegradedProviders();
+  const queue = useQueueStats();
+  const budgetStatus = useBudgetStatus();
+  const vaultStatus = useVaultStatus();
+
+  const getDegradedDetail = () => degraded.map(s =>
+    s.state === 'open' && s.retryAt
+      ? `${s.key} paused · retry in ${Math.max(0, Math.ceil((s.retryAt - Date.now()) / 1000))}s`
+      : `${s.key} probing`
+  ).join(' · ');
+
+  const getBudgetDetail = () => budgetStatus ? [
+    { name: 'Today', window: budgetStatus.daily },
+    { name: 'Month', window: budgetStatus.monthly }
+  ].filter(({ window }) => window.level !== 'ok')
+    .map(({ name, window }) => `${name} ${formatCost(window.spent)} / ${formatCost(window.limit!)}`)
+    .join(' · ') : '';
+
   const getTitle = () => {
     switch (activeView) {
       case AppView.GENERATOR: return 'Automation Generator';
@@ -17,6 +40,8 @@ const Header: React.FC<HeaderProps> = ({ activeView }) => {
       case AppView.LOGIC_SANDBOX: return 'Logic Sandbox';
       case AppView.AUDIT: return 'Audit Hub';
       case AppView.DEPLOYMENT: return 'Deployment Hub';
+      case AppView.ANALYTICS: return 'Usage Analytics';
+      case AppView.LOGS: return 'System Logs';
       default: return 'Architect Console';
     }
   };
@@ -31,6 +56,8 @@ const Header: React.FC<HeaderProps> = ({ activeView }) => {
       case AppView.LOGIC_SANDBOX: return 'Stress-test logical branches in a dry-run kernel.';
       case AppView.AUDIT: return 'Security analysis and estimated monthly ROI / Cost.';
       case AppView.DEPLOYMENT: return 'Configure secrets and export production-ready assets.';
+      case AppView.ANALYTICS: return 'Requests, cost, cache efficiency and latency across AI tasks.';
+      case AppView.LOGS: return 'Persisted application logs with filters and NDJSON export for bug reports.';
       default: return '';
     }
   };
@@ -51,13 +78,56 @@ const Header: React.FC<HeaderProps> = ({ activeView }) => {
            <span className="text-[8px] font-bold text-slate-300 uppercase tracking-widest mt-1">Multi-Agent Synthesis Engine</span>
         </div>
         
-        <div className="flex items-center gap-3 bg-slate-50 px-4 py-2 rounded-2xl border border-slate-100 shadow-inner group cursor-default">
-           <div className="relative">
-             <div className="w-2.5 h-2.5 bg-green-500 rounded-full animate-pulse-soft" />
-             <div className="absolute inset-0 bg-green-400 rounded-full animate-ping opacity-20" />
-           </div>
-           <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Ready</span>
-        </div>
+        {(queue.active > 0 || queue.queued > 0) && (
+          <div
+            className="hidden sm:flex flex-col items-end cursor-default"
+            title={queue.lanes.filter(l => l.active || l.queued).map(l => `${l.key}: ${l.active}/${l.limit} running, ${l.queued} queued`).join('\n')}
+          >
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest leading-none">{queue.active} In Flight</span>
+            <span className={`text-[8px] font-bold uppercase tracking-widest mt-1 ${queue.queued > 0 ? 'text-orange-500' : 'text-slate-300'}`}>{queue.queued} Queued</span>
+          </div>
+        )}
+
+        {budgetStatus && budgetStatus.level !== 'ok' && (
+          <div
+            className={`hidden sm:flex flex-col items-end cursor-default ${budgetStatus.level === 'exceeded' ? 'text-red-600' : 'text-orange-500'}`}
+            title={budgetStatus.level === 'exceeded' ? 'Spending limit reached: new AI requests are blocked' : 'Approaching the spending limit'}
+          >
+            <span className="text-[10px] font-black uppercase tracking-widest leading-none">{budgetStatus.level === 'exceeded' ? 'Budget Reached' : 'Budget Warning'}</span>
+            <span className="text-[8px] font-bold uppercase tracking-widest mt-1 opacity-70">{getBudgetDetail()}</span>
+          </div>
+        )}
+
+        {vaultStatus?.locked && (
+          <div
+            className="hidden sm:flex flex-col items-end cursor-default text-slate-500"
+            title="Stored API keys are encrypted. Run 'unlock <passphrase>' in the API Terminal."
+          >
+            <span className="text-[10px] font-black uppercase tracking-widest leading-none">Vault Locked</span>
+            <span className="text-[8px] font-bold uppercase tracking-widest mt-1 opacity-70">Keys Unavailable</span>
+          </div>
+        )}
+
+        {degraded.length > 0 ? (
+          <div
+            className="flex items-center gap-3 bg-amber-50 px-4 py-2 rounded-2xl border border-amber-100 shadow-inner group cursor-default"
+            title="Circuit breaker engaged after repeated provider failures"
+          >
+             <div className="w-2.5 h-2.5 bg-amber-500 rounded-full animate-pulse-soft" />
+             <div className="flex flex-col">
+               <span className="text-[10px] font-black text-amber-700 uppercase tracking-widest">Degraded</span>
+               <span className="text-[8px] font-bold text-amber-600/70 uppercase tracking-widest">{getDegradedDetail()}</span>
+             </div>
+          </div>
+        ) : (
+          <div className="flex items-center gap-3 bg-slate-50 px-4 py-2 rounded-2xl border border-slate-100 shadow-inner group cursor-default">
+             <div className="relative">
+               <div className="w-2.5 h-2.5 bg-green-500 rounded-full animate-pulse-soft" />
+               <div className="absolute inset-0 bg-green-400 rounded-full animate-ping opacity-20" />
+             </div>
+             <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Ready</span>
+          </div>
+        )}
       </div>
     </header>
   );
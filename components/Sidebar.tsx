@@ -15,6 +15,8 @@ import {
   Library,
   Scale,
   Terminal,
+  BarChart3,
+  ScrollText,
   UserCircle
 } from 'lucide-react';
 
@@ -29,6 +31,8 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, onNavigate }) => {
     { id: AppView.VAULT, label: 'Blueprint Vault', icon: Library, color: 'text-indigo-600' },
     { id: AppView.COMPARATOR, label: 'Benchmarker', icon: Scale, color: 'text-emerald-600' },
     { id: AppView.TERMINAL, label: 'API Terminal', icon: Terminal, color: 'text-slate-700' },
+    { id: AppView.ANALYTICS, label: 'Analytics', icon: BarChart3, color: 'text-orange-500' },
+    { id: AppView.LOGS, label: 'System Logs', icon: ScrollText, color: 'text-slate-600' },
     { id: AppView.AUDIT, label: 'Audit Hub', icon: ShieldAlert, color: 'text-orange-500' },
     { id: AppView.LOGIC_SANDBOX, label: 'Logic Sandbox', icon: FlaskConical, color: 'text-pink-500' },
     { id: AppView.DEPLOYMENT, label: 'Deploy & Export', icon: Rocket, color: 'text-indigo-600' },
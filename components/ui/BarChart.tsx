@@ -0,0 +1,60 @@
+import React from 'react';
+
+export interface BarDatum {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarDatum[];
+  /** Formats values for the axis maximum and bar tooltips */
+  format?: (value: number) => string;
+  color?: string;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * Dependency-free SVG column chart; labels are thinned so at most ~8 show
+ */
+export const BarChart: React.FC<BarChartProps> = ({ data, format = String, color = '#6366f1', height = 160, className = '' }) => {
+  const max = Math.max(0, ...data.map(d => d.value));
+  const width = 600;
+  const slot = data.length > 0 ? width / data.length : width;
+  const labelEvery = Math.max(1, Math.ceil(data.length / 8));
+
+  return (
+    <div className={className}>
+      <div className="flex justify-between text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">
+        <span>Max {format(max)}</span>
+        <span>{data.length} points</span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height + 20}`} className="w-full h-auto" role="img" aria-label="Bar chart">
+        <line x1="0" y1={height} x2={width} y2={height} stroke="#e2e8f0" strokeWidth="1" />
+        {data.map((d, i) => {
+          const barHeight = max > 0 ? (d.value / max) * (height - 4) : 0;
+          return (
+            <g key={d.label}>
+              <rect
+                x={i * slot + slot * 0.15}
+                y={height - barHeight}
+                width={slot * 0.7}
+                height={barHeight}
+                rx="3"
+                fill={color}
+                fillOpacity={d.value > 0 ? 0.85 : 0}
+              >
+                <title>{`${d.label}: ${format(d.value)}`}</title>
+              </rect>
+              {i % labelEvery === 0 && (
+                <text x={i * slot + slot / 2} y={height + 14} textAnchor="middle" className="fill-slate-400" fontSize="10">
+                  {d.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
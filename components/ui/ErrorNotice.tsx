@@ -0,0 +1,45 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ApiError } from '../../types';
+import { SchemaViolation } from '../../utils/schemaValidator';
+
+interface ErrorNoticeProps {
+  error: ApiError;
+  title?: string;
+  onRetry?: () => void;
+  className?: string;
+}
+
+/**
+ * Inline error panel for AsyncState errors.
+ * Shows the error code and, for INVALID_RESPONSE, the first schema violations.
+ */
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, title = 'Synthesis Fault', onRetry, className = '' }) => {
+  const violations: SchemaViolation[] = error.details?.violations || [];
+
+  return (
+    <div className={`p-6 bg-red-50 border border-red-100 rounded-[2rem] text-red-700 animate-in ${className}`}>
+      <div className="flex items-start gap-4">
+        <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+        <div className="flex-1 space-y-1 min-w-0">
+          <div className="flex items-center gap-3">
+            <h4 className="font-black uppercase tracking-widest text-xs">{title}</h4>
+            {error.code && (
+              <span className="text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full bg-red-100 border border-red-200">{error.code}</span>
+            )}
+          </div>
+          <p className="text-xs font-bold opacity-70">{error.message}</p>
+          {violations.length > 0 && (
+            <ul className="mt-3 space-y-1 font-mono text-[10px] opacity-70">
+              {violations.slice(0, 5).map((v, i) => <li key={i} className="truncate">{v.path}: {v.message}</li>)}
+              {violations.length > 5 && <li>...and {violations.length - 5} more</li>}
+            </ul>
+          )}
+        </div>
+        {onRetry && (
+          <button onClick={onRetry} className="px-4 py-2 bg-red-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shrink-0">Retry</button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { AlertCircle, CheckCircle2 } from 'lucide-react';
+import { ExportFile } from '../../services/exporters';
+
+interface ExportReportProps {
+  file: ExportFile;
+  className?: string;
+}
+
+/**
+ * Result of a native export: the file name and the steps that were left as
+ * placeholders for the user to finish on the target platform.
+ */
+export const ExportReport: React.FC<ExportReportProps> = ({ file, className = '' }) => {
+  if (file.unmapped.length === 0) {
+    return (
+      <div className={`flex items-center gap-2 text-[11px] font-bold text-emerald-600 ${className}`}>
+        <CheckCircle2 size={14} /> {file.filename}: every step mapped to a native module
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-5 bg-amber-50 border border-amber-100 rounded-2xl text-amber-700 space-y-2 ${className}`}>
+      <h4 className="text-[10px] font-black uppercase tracking-widest">
+        {file.filename}: {file.unmapped.length} step{file.unmapped.length === 1 ? '' : 's'} to finish by hand
+      </h4>
+      <ul className="space-y-1">
+        {file.unmapped.map((entry, i) => (
+          <li key={i} className="flex items-start gap-2 text-xs font-bold">
+            <AlertCircle size={14} className="shrink-0 mt-0.5" />
+            <span><span className="font-black">#{entry.stepId} {entry.title}</span>: {entry.reason}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Owns the AbortController for a view's in-flight AI call.
+ * `begin()` cancels any previous call and returns a fresh signal, so a
+ * second click never races the first; the pending call is aborted on unmount.
+ */
+export function useAbortController() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const begin = useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { begin, cancel };
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { BudgetStatus, budget } from '../services/budgetService';
+
+/**
+ * Spend against the workspace budget, refreshed after every metered call
+ */
+export function useBudgetStatus(): BudgetStatus | null {
+  const [status, setStatus] = useState<BudgetStatus | null>(null);
+
+  useEffect(() => {
+    budget.status().then(setStatus).catch(() => {});
+    return budget.subscribe(setStatus);
+  }, []);
+
+  return status;
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { CircuitSnapshot, circuitBreakers } from '../utils/circuitBreaker';
+
+/**
+ * Providers whose circuit is not closed, kept current as breakers change.
+ * Re-renders once a second while a circuit is open so countdowns stay live.
+ */
+export function useDegradedProviders(): CircuitSnapshot[] {
+  const [snapshots, setSnapshots] = useState<CircuitSnapshot[]>(() => circuitBreakers.snapshot());
+  const [, setTick] = useState(0);
+
+  useEffect(() => circuitBreakers.subscribe(setSnapshots), []);
+
+  const degraded = snapshots.filter(s => s.state !== 'closed');
+  const hasOpen = degraded.some(s => s.state === 'open');
+
+  useEffect(() => {
+    if (!hasOpen) return;
+    const timer = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [hasOpen]);
+
+  return degraded;
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { QueueStats, requestScheduler } from '../utils/scheduler';
+
+/**
+ * Totals across all providers of AI calls running and waiting in the
+ * scheduler, kept current as requests start and finish
+ */
+export function useQueueStats(): { active: number; queued: number; lanes: QueueStats[] } {
+  const [lanes, setLanes] = useState<QueueStats[]>(() => requestScheduler.getStats());
+
+  useEffect(() => requestScheduler.subscribe(setLanes), []);
+
+  return {
+    active: lanes.reduce((sum, lane) => sum + lane.active, 0),
+    queued: lanes.reduce((sum, lane) => sum + lane.queued, 0),
+    lanes
+  };
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { VaultStatus, vault } from '../services/storageService';
+
+/**
+ * Key vault lock state, updated on lock, unlock and auto-lock
+ */
+export function useVaultStatus(): VaultStatus | null {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+
+  useEffect(() => {
+    vault.status().then(setStatus).catch(() => {});
+    return vault.subscribe(setStatus);
+  }, []);
+
+  return status;
+}
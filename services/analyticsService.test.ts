@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { UsageRecord } from './storageService';
+import { summarizeUsage } from './usageService';
+import { LogLevel } from '../utils/logger';
+import { dailySeries, errorRates, taskLatencies, toCsv, topBlueprints, usageCsv } from './analyticsService';
+
+const record = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  timestamp: new Date(2026, 9, 2, 12).getTime(),
+  day: '2026-10-02',
+  task: 'generate',
+  provider: 'gemini',
+  model: 'big',
+  inputTokens: 100,
+  outputTokens: 50,
+  cost: 0.01,
+  estimated: 0,
+  cached: 0,
+  ...overrides
+});
+
+const log = (message: string, context?: Record<string, any>) => ({ level: LogLevel.INFO, message, timestamp: 0, context });
+
+describe('dailySeries', () => {
+  it('should zero-fill days without usage', () => {
+    const summary = summarizeUsage([record(), record({ day: '2026-10-04', cost: 0.02 })]);
+    const series = dailySeries(summary, new Date(2026, 9, 1, 9).getTime(), new Date(2026, 9, 4, 18).getTime());
+    expect(series.map(p => p.day)).toEqual(['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-04']);
+    expect(series.map(p => p.requests)).toEqual([0, 1, 0, 1]);
+    expect(series[3].cost).toBe(0.02);
+  });
+});
+
+describe('errorRates', () => {
+  it('should group failures by code and rate them against finished requests', () => {
+    const rates = errorRates([
+      log('AI request completed'),
+      log('AI request completed'),
+      log('AI request failed', { errorCode: 'INVALID_RESPONSE' }),
+      log('AI request failed', { errorStatus: 429 }),
+      log('AI request failed', { errorStatus: 429 }),
+      log('Cache hit')
+    ]);
+    expect(rates).toEqual([
+      { code: 'HTTP_429', count: 2, rate: 0.4 },
+      { code: 'INVALID_RESPONSE', count: 1, rate: 0.2 }
+    ]);
+  });
+});
+
+describe('taskLatencies', () => {
+  it('should read percentiles from the per-task metrics', () => {
+    const monitor = {
+      getMetrics: (name?: string) => name === 'ai.chat' ? [{ name, value: 10, unit: 'ms', timestamp: 0 }] : [],
+      getPercentile: (name: string, p: number) => name === 'ai.chat' ? p : null
+    };
+    const chat = taskLatencies(monitor).find(l => l.task === 'chat');
+    expect(chat).toEqual({ task: 'chat', count: 1, p50: 50, p95: 95 });
+  });
+});
+
+describe('topBlueprints', () => {
+  it('should rank blueprints by cost', () => {
+    const summary = summarizeUsage([
+      record({ blueprint: 'cheap', cost: 0.01 }),
+      record({ blueprint: 'pricey', cost: 0.5 }),
+      record()
+    ]);
+    expect(topBlueprints(summary).map(b => b.blueprint)).toEqual(['pricey', 'cheap']);
+  });
+});
+
+describe('CSV export', () => {
+  it('should quote cells containing separators or quotes', () => {
+    expect(toCsv(['a', 'b'], [['x,y', 'say "hi"'], [1, undefined]])).toBe('a,b\r\n"x,y","say ""hi"""\r\n1,');
+  });
+
+  it('should write one row per ledger record', () => {
+    const csv = usageCsv([record({ blueprint: 'bp-1' })]).split('\r\n');
+    expect(csv[0]).toBe('timestamp,day,task,provider,model,inputTokens,outputTokens,cost,estimated,cached,blueprint');
+    expect(csv[1]).toContain(',2026-10-02,generate,gemini,big,100,50,0.010000,0,0,bp-1');
+  });
+});
@@ -0,0 +1,152 @@
+import { AiTask } from '../types';
+import { UsageRecord } from './storageService';
+import { AI_TASKS } from './routingService';
+import { UsageBreakdown, UsageSummary, dayKey, emptyBreakdown, usageLedger, summarizeUsage } from './usageService';
+import { LogEntry, logger } from '../utils/logger';
+import { performanceMonitor } from '../utils/performance';
+import { aiCache } from '../utils/cache';
+import { usageTracker } from '../utils/tokens';
+
+/**
+ * Aggregations behind the Analytics view.
+ *
+ * Requests, tokens, cost, cache hits and blueprint spend come from the
+ * persistent usage ledger. Latency percentiles (`performanceMonitor`) and
+ * error rates (`logger`) only cover the current session, as do the memory
+ * cache and `usageTracker` figures.
+ */
+
+export interface DailyPoint extends UsageBreakdown {
+  day: string;
+}
+
+export interface TaskLatency {
+  task: AiTask;
+  count: number;
+  p50: number | null;
+  p95: number | null;
+}
+
+export interface ErrorRate {
+  code: string;
+  count: number;
+  /** Share of all finished (completed or failed) requests this session */
+  rate: number;
+}
+
+export interface AnalyticsReport {
+  since: number;
+  summary: UsageSummary;
+  daily: DailyPoint[];
+  /** Share of ledger requests served from cache */
+  cacheHitRate: number;
+  memoryCache: ReturnType<typeof aiCache.getStats>;
+  session: ReturnType<typeof usageTracker.getMetrics>;
+  latency: TaskLatency[];
+  errors: ErrorRate[];
+  topBlueprints: { blueprint: string; usage: UsageBreakdown }[];
+  records: UsageRecord[];
+}
+
+/**
+ * Performance metric name under which `executeAiTask` records a task's latency
+ */
+export const latencyMetric = (task: AiTask): string => `ai.${task}`;
+
+/**
+ * One point per local day from `since` to `now`, zero-filled
+ */
+export function dailySeries(summary: UsageSummary, since: number, now: number = Date.now()): DailyPoint[] {
+  const points: DailyPoint[] = [];
+  const cursor = new Date(since);
+  cursor.setHours(0, 0, 0, 0);
+  for (; cursor.getTime() <= now; cursor.setDate(cursor.getDate() + 1)) {
+    const day = dayKey(cursor.getTime());
+    points.push({ day, ...(summary.byDay[day] ?? emptyBreakdown()) });
+  }
+  return points;
+}
+
+export function taskLatencies(monitor: Pick<typeof performanceMonitor, 'getMetrics' | 'getPercentile'> = performanceMonitor): TaskLatency[] {
+  return AI_TASKS.map(task => {
+    const metric = latencyMetric(task);
+    return {
+      task,
+      count: monitor.getMetrics(metric).length,
+      p50: monitor.getPercentile(metric, 50),
+      p95: monitor.getPercentile(metric, 95)
+    };
+  });
+}
+
+/**
+ * Failed AI requests grouped by error code (HTTP status when there is no
+ * code), most frequent first
+ */
+export function errorRates(logs: LogEntry[]): ErrorRate[] {
+  const completed = logs.filter(log => log.message === 'AI request completed').length;
+  const failed = logs.filter(log => log.message === 'AI request failed');
+  const counts: Record<string, number> = {};
+  for (const log of failed) {
+    const code = log.context?.errorCode ?? (log.context?.errorStatus ? `HTTP_${log.context.errorStatus}` : 'UNKNOWN');
+    counts[code] = (counts[code] || 0) + 1;
+  }
+  const finished = completed + failed.length;
+  return Object.entries(counts)
+    .map(([code, count]) => ({ code, count, rate: count / finished }))
+    .sort((a, b) => b.count - a.count);
+}
+
+export function topBlueprints(summary: UsageSummary, limit: number = 5): AnalyticsReport['topBlueprints'] {
+  return Object.entries(summary.byBlueprint)
+    .map(([blueprint, usage]) => ({ blueprint, usage }))
+    .sort((a, b) => b.usage.cost - a.usage.cost || b.usage.requests - a.usage.requests)
+    .slice(0, limit);
+}
+
+const csvCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV with a header row
+ */
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Ledger records as CSV, one row per metered call or cache hit
+ */
+export function usageCsv(records: UsageRecord[]): string {
+  return toCsv(
+    ['timestamp', 'day', 'task', 'provider', 'model', 'inputTokens', 'outputTokens', 'cost', 'estimated', 'cached', 'blueprint'],
+    records.map(r => [
+      new Date(r.timestamp).toISOString(), r.day, r.task, r.provider, r.model,
+      r.inputTokens, r.outputTokens, r.cost.toFixed(6), r.estimated, r.cached, r.blueprint
+    ])
+  );
+}
+
+export const analytics = {
+  /**
+   * Everything the dashboard shows for the window starting at `since`
+   */
+  async report(since: number, now: number = Date.now()): Promise<AnalyticsReport> {
+    const records = await usageLedger.list(since);
+    const summary = summarizeUsage(records);
+    return {
+      since,
+      summary,
+      daily: dailySeries(summary, since, now),
+      cacheHitRate: summary.totals.requests > 0 ? summary.totals.cachedRequests / summary.totals.requests : 0,
+      memoryCache: aiCache.getStats(),
+      session: usageTracker.getMetrics(),
+      latency: taskLatencies(),
+      errors: errorRates(logger.getLogs()),
+      topBlueprints: topBlueprints(summary),
+      records
+    };
+  }
+};
@@ -0,0 +1,204 @@
+import { Dexie } from 'dexie';
+import { AutomationResult, Platform, SavedBlueprint } from '../types';
+import { RevisionRecord, db, migrateLegacyStorage } from './storageService';
+import { bumpVersion, suggestBump } from '../utils/blueprintDiff';
+import { upgradeBlueprint } from '../utils/blueprintGraph';
+
+/**
+ * Blueprint repository over the `blueprints` and `revisions` tables.
+ *
+ * Views read and write saved blueprints only through `blueprintStore`.
+ * Listings are served newest first from the `timestamp` index, or from
+ * `[platform+timestamp]` when filtered by platform; free-text search is
+ * applied on top. Every call first awaits the one-time localStorage
+ * migration.
+ *
+ * Each save of an existing blueprint appends an immutable revision and
+ * moves the `blueprints` row (the head) to it. Rollback never rewrites
+ * history: it appends a new revision restoring the old content. Records
+ * saved before revision history get their first revision on first use.
+ * Blueprints and snapshots are upgraded to the graph model as they are
+ * read and written, so flat legacy records need no migration.
+ */
+
+export interface BlueprintQuery {
+  platform?: Platform;
+  /** Case-insensitive match on name, platform and explanation */
+  search?: string;
+  limit?: number;
+}
+
+export interface RevisionOptions {
+  version?: string;
+  name?: string;
+  /** Revision number this one restores */
+  restoredFrom?: number;
+  /** Revision number this one ports to another platform */
+  portedFrom?: number;
+}
+
+/**
+ * Write `snapshot` as the next revision and make it the head. Must run
+ * inside a rw transaction over `blueprints` and `revisions`.
+ */
+const appendRevision = async (snapshot: SavedBlueprint, links: Pick<RevisionOptions, 'restoredFrom' | 'portedFrom'> = {}): Promise<SavedBlueprint> => {
+  const last = await db.revisions.where('[blueprintId+revision]').between([snapshot.id, 0], [snapshot.id, Infinity]).last();
+  const head: SavedBlueprint = upgradeBlueprint({ ...snapshot, revision: (last?.revision ?? 0) + 1 });
+  await db.revisions.add({
+    blueprintId: head.id,
+    revision: head.revision!,
+    version: head.version,
+    snapshot: head,
+    createdAt: head.timestamp ?? Date.now(),
+    ...(links.restoredFrom !== undefined && { restoredFrom: links.restoredFrom }),
+    ...(links.portedFrom !== undefined && { portedFrom: links.portedFrom })
+  });
+  await db.blueprints.put(head);
+  return head;
+};
+
+/**
+ * Give a pre-history record its first revision
+ */
+const ensureHistory = async (id: string): Promise<SavedBlueprint | undefined> => {
+  const head = await db.blueprints.get(id);
+  if (head && !(await db.revisions.where('blueprintId').equals(id).count())) {
+    return appendRevision(head);
+  }
+  return head;
+};
+
+/**
+ * Version to propose when `next` replaces `head`
+ */
+export function suggestVersion(head: SavedBlueprint, next: AutomationResult): string {
+  return bumpVersion(head.version, suggestBump(head, next));
+}
+
+const matchesSearch = (blueprint: SavedBlueprint, search: string): boolean => {
+  const needle = search.toLowerCase();
+  return blueprint.name.toLowerCase().includes(needle)
+    || blueprint.platform.includes(needle)
+    || (blueprint.explanation || '').toLowerCase().includes(needle);
+};
+
+export const blueprintStore = {
+  /**
+   * Saved blueprints, newest first
+   */
+  async list(query: BlueprintQuery = {}): Promise<SavedBlueprint[]> {
+    await migrateLegacyStorage();
+    let collection = query.platform
+      ? db.blueprints.where('[platform+timestamp]').between([query.platform, Dexie.minKey], [query.platform, Dexie.maxKey]).reverse()
+      : db.blueprints.orderBy('timestamp').reverse();
+    if (query.search) {
+      const search = query.search;
+      collection = collection.filter(b => matchesSearch(b, search));
+    }
+    const blueprints = await (query.limit ? collection.limit(query.limit) : collection).toArray();
+    return blueprints.map(upgradeBlueprint);
+  },
+
+  async get(id: string): Promise<SavedBlueprint | undefined> {
+    await migrateLegacyStorage();
+    const blueprint = await db.blueprints.get(id);
+    return blueprint && upgradeBlueprint(blueprint);
+  },
+
+  async count(): Promise<number> {
+    await migrateLegacyStorage();
+    return db.blueprints.count();
+  },
+
+  /**
+   * Blueprint names by id, for labelling usage and analytics
+   */
+  async names(): Promise<Record<string, string>> {
+    await migrateLegacyStorage();
+    const names: Record<string, string> = {};
+    await db.blueprints.each(b => { names[b.id] = b.name; });
+    return names;
+  },
+
+  /**
+   * Save a generated result as a new blueprint at revision 1
+   */
+  async create(result: AutomationResult, name: string, version: string): Promise<SavedBlueprint> {
+    await migrateLegacyStorage();
+    const { revision, ...content } = result as SavedBlueprint;
+    return db.transaction('rw', db.blueprints, db.revisions, () => appendRevision({
+      ...content,
+      id: crypto.randomUUID(),
+      name,
+      version,
+      timestamp: Date.now()
+    }));
+  },
+
+  /**
+   * Save `result` as the next revision of blueprint `id`. The version
+   * defaults to the suggested semver bump.
+   */
+  async commit(id: string, result: AutomationResult, options: RevisionOptions = {}): Promise<SavedBlueprint> {
+    await migrateLegacyStorage();
+    return db.transaction('rw', db.blueprints, db.revisions, async () => {
+      const head = await ensureHistory(id);
+      if (!head) throw new Error(`Blueprint '${id}' not found.`);
+      const { id: _id, name: _name, version: _version, revision: _revision, ...content } = result as SavedBlueprint;
+      return appendRevision({
+        ...content,
+        id,
+        name: options.name || head.name,
+        version: options.version || suggestVersion(head, result),
+        timestamp: Date.now()
+      }, options);
+    });
+  },
+
+  /**
+   * Revisions of a blueprint, newest first
+   */
+  async history(id: string): Promise<RevisionRecord[]> {
+    await migrateLegacyStorage();
+    await db.transaction('rw', db.blueprints, db.revisions, () => ensureHistory(id));
+    const revisions = await db.revisions.where('[blueprintId+revision]').between([id, 0], [id, Infinity]).reverse().toArray();
+    return revisions.map(r => ({ ...r, snapshot: upgradeBlueprint(r.snapshot) }));
+  },
+
+  /**
+   * Restore the content of an earlier revision as a new head revision
+   */
+  async rollback(id: string, revision: number): Promise<SavedBlueprint> {
+    await migrateLegacyStorage();
+    const target = await db.revisions.where('[blueprintId+revision]').equals([id, revision]).first();
+    if (!target) throw new Error(`Revision ${revision} of blueprint '${id}' not found.`);
+    return this.commit(id, target.snapshot, { restoredFrom: revision });
+  },
+
+  /**
+   * Delete a blueprint with its whole history
+   */
+  async remove(id: string): Promise<void> {
+    await migrateLegacyStorage();
+    await db.transaction('rw', db.blueprints, db.revisions, async () => {
+      await db.revisions.where('blueprintId').equals(id).delete();
+      await db.blueprints.delete(id);
+    });
+  },
+
+  /**
+   * Add imported blueprints, skipping entries without an id or whose id is
+   * already stored. Returns the number added.
+   */
+  async import(items: unknown[]): Promise<number> {
+    await migrateLegacyStorage();
+    const candidates = items.filter((item): item is SavedBlueprint =>
+      !!item && typeof (item as SavedBlueprint).id === 'string' && typeof (item as SavedBlueprint).platform === 'string');
+    return db.transaction('rw', db.blueprints, async () => {
+      const existing = new Set(await db.blueprints.where('id').anyOf(candidates.map(b => b.id)).primaryKeys());
+      const fresh = candidates.filter((b, i) => !existing.has(b.id) && candidates.findIndex(c => c.id === b.id) === i);
+      await db.blueprints.bulkAdd(fresh.map(b => upgradeBlueprint({ ...b, name: b.name || 'Imported Blueprint', version: b.version || '1.0.0', timestamp: b.timestamp ?? Date.now() })));
+      return fresh.length;
+    });
+  }
+};
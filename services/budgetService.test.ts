@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const settings = new Map<string, unknown>();
+
+vi.mock('./storageService', () => ({
+  storage: {
+    getSetting: async (key: string, fallback: unknown) => settings.has(key) ? settings.get(key) : fallback,
+    saveSetting: async (key: string, value: unknown) => { settings.set(key, value); }
+  },
+  db: {}
+}));
+
+import { evaluateBudget, getBudgetLimits, getPricingTable, priceCall, pricingKey, resetPrice, saveBudgetLimits, savePrice, startOfMonth } from './budgetService';
+import { DEFAULT_PRICING } from '../utils/tokens';
+
+describe('evaluateBudget', () => {
+  it('should be ok without limits', () => {
+    expect(evaluateBudget({ warnAt: 0.8 }, 100, 1000).level).toBe('ok');
+  });
+
+  it('should warn at the threshold and block at the limit', () => {
+    expect(evaluateBudget({ daily: 10, warnAt: 0.8 }, 7.99, 7.99).level).toBe('ok');
+    expect(evaluateBudget({ daily: 10, warnAt: 0.8 }, 8, 8).level).toBe('warning');
+    expect(evaluateBudget({ daily: 10, warnAt: 0.8 }, 10, 10).level).toBe('exceeded');
+  });
+
+  it('should report the more severe window', () => {
+    const status = evaluateBudget({ daily: 10, monthly: 50, warnAt: 0.8 }, 1, 55);
+    expect(status.daily.level).toBe('ok');
+    expect(status.monthly.level).toBe('exceeded');
+    expect(status.level).toBe('exceeded');
+  });
+});
+
+describe('startOfMonth', () => {
+  it('should return local midnight on the first', () => {
+    const start = new Date(startOfMonth(new Date(2026, 9, 19, 15, 30).getTime()));
+    expect([start.getDate(), start.getHours(), start.getMinutes()]).toEqual([1, 0, 0]);
+    expect(start.getMonth()).toBe(9);
+  });
+});
+
+describe('pricing', () => {
+  beforeEach(() => settings.clear());
+
+  it('should price by model id, then cost key, then default', () => {
+    const table = { 'gpt-4o': { input: 1, output: 2 }, 'openai-pro': { input: 3, output: 4 }, default: { input: 5, output: 6 } };
+    expect(pricingKey(table, 'gpt-4o', 'openai-pro')).toBe('gpt-4o');
+    expect(pricingKey(table, 'custom', 'openai-pro')).toBe('openai-pro');
+    expect(pricingKey(table, 'custom', 'openai-custom')).toBe('default');
+    expect(priceCall(table, { model: 'gpt-4o', costKey: 'openai-pro', inputTokens: 1_000_000, outputTokens: 500_000 })).toBe(2);
+  });
+
+  it('should overlay workspace prices on the defaults and reset them', async () => {
+    await savePrice('gpt-4o', { input: 9, output: 9 });
+    await savePrice('my-model', { input: 1, output: 1 });
+    expect((await getPricingTable())['gpt-4o']).toEqual({ input: 9, output: 9 });
+
+    await resetPrice('gpt-4o');
+    await resetPrice('my-model');
+    const table = await getPricingTable();
+    expect(table['gpt-4o']).toEqual(DEFAULT_PRICING['gpt-4o']);
+    expect(table['my-model']).toBeUndefined();
+  });
+
+  it('should reject negative prices', async () => {
+    await expect(savePrice('gpt-4o', { input: -1, output: 1 })).rejects.toThrow('non-negative');
+  });
+});
+
+describe('budget limits', () => {
+  beforeEach(() => settings.clear());
+
+  it('should default to no limits with a warning at 80%', async () => {
+    expect(await getBudgetLimits()).toEqual({ warnAt: 0.8 });
+  });
+
+  it('should validate limits and threshold', async () => {
+    await expect(saveBudgetLimits({ daily: 0, warnAt: 0.8 })).rejects.toThrow('positive');
+    await expect(saveBudgetLimits({ daily: 5, warnAt: 1.5 })).rejects.toThrow('between 0 and 1');
+    await saveBudgetLimits({ daily: 5, monthly: 100, warnAt: 0.9 });
+    expect(await getBudgetLimits()).toEqual({ daily: 5, monthly: 100, warnAt: 0.9 });
+  });
+});
@@ -0,0 +1,216 @@
+import { db, storage } from './storageService';
+import { DEFAULT_PRICING, ModelPrice, PricingTable, estimateCost } from '../utils/tokens';
+import { AiServiceError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Spending limits and model pricing.
+ *
+ * Prices (USD per 1M tokens) and daily/monthly limits are stored per
+ * workspace in the settings table; spend is summed from the usage ledger.
+ * Crossing `warnAt` of a limit raises a soft warning. Reaching a limit
+ * blocks further provider calls in `executeAiTask` until the window rolls
+ * over or the limit is raised. Cache hits and mock calls are never blocked.
+ */
+
+const PRICING_SETTING = 'pricing.table';
+const BUDGET_SETTING = 'budget.limits';
+
+export interface BudgetLimits {
+  /** USD per local calendar day; unset means unlimited */
+  daily?: number;
+  /** USD per calendar month; unset means unlimited */
+  monthly?: number;
+  /** Fraction of a limit at which the soft warning starts */
+  warnAt: number;
+}
+
+export const DEFAULT_BUDGET: BudgetLimits = { warnAt: 0.8 };
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetWindow {
+  limit?: number;
+  spent: number;
+  level: BudgetLevel;
+}
+
+export interface BudgetStatus {
+  daily: BudgetWindow;
+  monthly: BudgetWindow;
+  /** The more severe of the two windows */
+  level: BudgetLevel;
+}
+
+/** Tokens of one call, priced by model id first, then by `costKey` */
+export interface PricedCall {
+  model: string;
+  costKey: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CostEstimate extends PricedCall {
+  cost: number;
+  status: BudgetStatus;
+  /** Spending this much would cross a limit */
+  exceedsBudget: boolean;
+}
+
+const LEVEL_ORDER: Record<BudgetLevel, number> = { ok: 0, warning: 1, exceeded: 2 };
+
+const isNonNegative = (value: number) => Number.isFinite(value) && value >= 0;
+
+export async function getPricingTable(): Promise<PricingTable> {
+  const stored = await storage.getSetting<PricingTable>(PRICING_SETTING, {});
+  return { ...DEFAULT_PRICING, ...stored };
+}
+
+export async function savePrice(model: string, price: ModelPrice): Promise<void> {
+  if (!model.trim()) {
+    throw new Error('Model id is required.');
+  }
+  if (!isNonNegative(price.input) || !isNonNegative(price.output)) {
+    throw new Error('Prices must be non-negative numbers (USD per 1M tokens).');
+  }
+  const stored = await storage.getSetting<PricingTable>(PRICING_SETTING, {});
+  await storage.saveSetting(PRICING_SETTING, { ...stored, [model.trim()]: { input: price.input, output: price.output } });
+}
+
+/**
+ * Drop a workspace price: built-in models revert to their default, custom
+ * models fall back to `default`
+ */
+export async function resetPrice(model: string): Promise<void> {
+  const { [model]: _removed, ...rest } = await storage.getSetting<PricingTable>(PRICING_SETTING, {});
+  await storage.saveSetting(PRICING_SETTING, rest);
+}
+
+/**
+ * Table entry a call is billed at: its model id, then its provider/tier key
+ */
+export function pricingKey(pricing: PricingTable, model: string, costKey: string): string {
+  if (pricing[model]) return model;
+  return pricing[costKey] ? costKey : 'default';
+}
+
+export function priceCall(pricing: PricingTable, call: PricedCall): number {
+  return estimateCost(call.inputTokens, call.outputTokens, pricingKey(pricing, call.model, call.costKey), pricing);
+}
+
+export async function getBudgetLimits(): Promise<BudgetLimits> {
+  return { ...DEFAULT_BUDGET, ...await storage.getSetting<Partial<BudgetLimits>>(BUDGET_SETTING, {}) };
+}
+
+export async function saveBudgetLimits(limits: BudgetLimits): Promise<void> {
+  for (const limit of [limits.daily, limits.monthly]) {
+    if (limit !== undefined && !(Number.isFinite(limit) && limit > 0)) {
+      throw new Error('Budget limits must be positive amounts in USD.');
+    }
+  }
+  if (!(limits.warnAt > 0 && limits.warnAt <= 1)) {
+    throw new Error('Warning threshold must be between 0 and 1.');
+  }
+  await storage.saveSetting(BUDGET_SETTING, limits);
+}
+
+export function startOfDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+export function startOfMonth(now: number): number {
+  const date = new Date(startOfDay(now));
+  date.setDate(1);
+  return date.getTime();
+}
+
+const windowLevel = (spent: number, limit: number | undefined, warnAt: number): BudgetLevel => {
+  if (limit === undefined) return 'ok';
+  if (spent >= limit) return 'exceeded';
+  return spent >= limit * warnAt ? 'warning' : 'ok';
+};
+
+/**
+ * Classify spend against the limits
+ */
+export function evaluateBudget(limits: BudgetLimits, dailySpent: number, monthlySpent: number): BudgetStatus {
+  const daily: BudgetWindow = { limit: limits.daily, spent: dailySpent, level: windowLevel(dailySpent, limits.daily, limits.warnAt) };
+  const monthly: BudgetWindow = { limit: limits.monthly, spent: monthlySpent, level: windowLevel(monthlySpent, limits.monthly, limits.warnAt) };
+  return { daily, monthly, level: LEVEL_ORDER[daily.level] >= LEVEL_ORDER[monthly.level] ? daily.level : monthly.level };
+}
+
+/**
+ * Dollar amounts as shown to users; sub-cent costs keep four decimals
+ */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
+
+const spentSince = async (since: number): Promise<number> => {
+  const records = await db.usage.where('timestamp').aboveOrEqual(since).toArray();
+  return records.reduce((sum, record) => sum + record.cost, 0);
+};
+
+type Listener = (status: BudgetStatus) => void;
+
+const listeners = new Set<Listener>();
+let lastLevel: BudgetLevel = 'ok';
+
+export const budget = {
+  async status(now: number = Date.now()): Promise<BudgetStatus> {
+    const limits = await getBudgetLimits();
+    const [daily, monthly] = await Promise.all([spentSince(startOfDay(now)), spentSince(startOfMonth(now))]);
+    return evaluateBudget(limits, daily, monthly);
+  },
+
+  /**
+   * Throw BUDGET_EXCEEDED once a limit has been reached
+   */
+  async enforce(): Promise<void> {
+    const status = await this.status();
+    if (status.level !== 'exceeded') return;
+
+    const [window, name, resets] = status.daily.level === 'exceeded'
+      ? [status.daily, 'Daily', 'tomorrow']
+      : [status.monthly, 'Monthly', 'next month'];
+    throw new AiServiceError(
+      'BUDGET_EXCEEDED',
+      `${name} budget of ${formatCost(window.limit!)} reached (${formatCost(window.spent)} spent). Raise it under Budget & Pricing in your profile, or wait until ${resets}.`,
+      { status }
+    );
+  },
+
+  /**
+   * Re-evaluate after spending and notify subscribers; warns once each
+   * time the level rises
+   */
+  async refresh(): Promise<BudgetStatus> {
+    const status = await this.status();
+    if (LEVEL_ORDER[status.level] > LEVEL_ORDER[lastLevel]) {
+      logger.warn(status.level === 'exceeded' ? 'Budget limit reached' : 'Budget warning threshold crossed', {
+        daily: status.daily,
+        monthly: status.monthly
+      });
+    }
+    lastLevel = status.level;
+    listeners.forEach(listener => listener(status));
+    return status;
+  },
+
+  /**
+   * Pre-flight price of a call and whether it would cross a limit
+   */
+  async estimate(call: PricedCall): Promise<CostEstimate> {
+    const [pricing, status] = await Promise.all([getPricingTable(), this.status()]);
+    const cost = priceCall(pricing, call);
+    const exceedsBudget = [status.daily, status.monthly].some(w => w.limit !== undefined && w.spent + cost > w.limit);
+    return { ...call, cost, status, exceedsBudget };
+  },
+
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  }
+};
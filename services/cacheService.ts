@@ -0,0 +1,220 @@
+import { AiTask } from '../types';
+import { CacheRecord, db, storage } from './storageService';
+import { aiCache, hashKey, planEviction } from '../utils/cache';
+import { SpanContext, tracer } from '../utils/tracing';
+
+/**
+ * Two-tier AI response cache.
+ *
+ * The in-memory `aiCache` LRU sits in front of the `cache` table in
+ * IndexedDB, so identical requests survive reloads without re-billing.
+ * Keys are SHA-256 hashes of the request fingerprint. Each task type has
+ * its own TTL; once the table exceeds its byte budget the least recently
+ * used entries are evicted. Pinned entries never expire or get evicted.
+ * Reads and writes run in `cache.get` / `cache.set` spans under the
+ * caller's trace.
+ */
+
+const TTL_SETTING = 'cache.ttl';
+const HOUR = 60 * 60 * 1000;
+
+/** Byte budget for the persistent tier */
+export const MAX_CACHE_BYTES = 5 * 1024 * 1024;
+
+export const DEFAULT_CACHE_TTL: Record<AiTask, number> = {
+  generate: 24 * HOUR,
+  docs: 24 * HOUR,
+  benchmark: 24 * HOUR,
+  chat: 1 * HOUR,
+  audit: 24 * HOUR,
+  simulate: 1 * HOUR,
+  secrets: 24 * HOUR,
+  image: 1 * HOUR,
+  tts: 24 * HOUR,
+  live: 0
+};
+
+export interface CacheEntryMeta {
+  task: AiTask;
+  provider: string;
+  model: string;
+}
+
+export interface CacheHit<T> {
+  value: T;
+  tier: 'memory' | 'persistent';
+}
+
+export interface CacheSummary {
+  entries: number;
+  pinned: number;
+  bytes: number;
+  maxBytes: number;
+  memory: ReturnType<typeof aiCache.getStats>;
+}
+
+export type PurgeTarget = 'all' | 'expired' | AiTask | { key: string };
+
+const isExpired = (record: CacheRecord, now = Date.now()) => !record.pinned && record.expiresAt <= now;
+
+const lookup = async <T>(key: string): Promise<CacheHit<T> | null> => {
+  const cached = aiCache.get(key);
+  if (cached !== null) return { value: cached as T, tier: 'memory' };
+
+  const record = await db.cache.get(key);
+  if (!record) return null;
+  if (isExpired(record)) {
+    await db.cache.delete(key);
+    return null;
+  }
+
+  const now = Date.now();
+  await db.cache.update(key, { lastAccessedAt: now, hits: record.hits + 1 });
+  aiCache.set(key, record.value, record.pinned ? Infinity : record.expiresAt - now);
+  return { value: record.value as T, tier: 'persistent' };
+};
+
+export async function getCacheTtls(): Promise<Record<AiTask, number>> {
+  const stored = await storage.getSetting<Partial<Record<AiTask, number>>>(TTL_SETTING, {});
+  return { ...DEFAULT_CACHE_TTL, ...stored };
+}
+
+export async function setCacheTtl(task: AiTask, ttl: number): Promise<void> {
+  if (!Number.isFinite(ttl) || ttl < 0) {
+    throw new Error('TTL must be a non-negative number of milliseconds.');
+  }
+  const stored = await storage.getSetting<Partial<Record<AiTask, number>>>(TTL_SETTING, {});
+  await storage.saveSetting(TTL_SETTING, { ...stored, [task]: ttl });
+}
+
+export const responseCache = {
+  /**
+   * Hash a request fingerprint into a cache key
+   */
+  key(fingerprint: string): Promise<string> {
+    return hashKey(fingerprint);
+  },
+
+  /**
+   * Memory first, then IndexedDB; a persistent hit is promoted to memory
+   * for the rest of its lifetime
+   */
+  get<T>(key: string, trace?: SpanContext): Promise<CacheHit<T> | null> {
+    return tracer.trace('cache.get', trace, async span => {
+      const hit = await lookup<T>(key);
+      span.setAttributes({ 'cache.hit': hit !== null, 'cache.tier': hit?.tier });
+      return hit;
+    }, { 'cache.key': key.slice(0, 12) });
+  },
+
+  /**
+   * Store a response in both tiers, then evict down to the byte budget.
+   * Tasks with a TTL of 0 are not cached.
+   */
+  set(key: string, value: unknown, meta: CacheEntryMeta, trace?: SpanContext): Promise<void> {
+    return tracer.trace('cache.set', trace, async span => {
+      const ttl = (await getCacheTtls())[meta.task];
+      span.setAttributes({ 'cache.ttl_ms': ttl });
+      if (ttl <= 0) return;
+
+      const now = Date.now();
+      const existing = await db.cache.get(key);
+      const size = JSON.stringify(value ?? null).length;
+      aiCache.set(key, value, existing?.pinned ? Infinity : ttl);
+      await db.cache.put({
+        key,
+        value,
+        ...meta,
+        size,
+        createdAt: now,
+        expiresAt: now + ttl,
+        lastAccessedAt: now,
+        hits: 0,
+        pinned: existing?.pinned ?? 0
+      });
+      span.setAttributes({ 'cache.bytes': size, 'cache.evicted': await this.evict() });
+    }, { 'cache.key': key.slice(0, 12) });
+  },
+
+  /**
+   * Drop expired entries and, if still over budget, the least recently used
+   */
+  async evict(maxBytes: number = MAX_CACHE_BYTES): Promise<number> {
+    const expired = await db.cache.where('expiresAt').belowOrEqual(Date.now()).filter(r => !r.pinned).primaryKeys();
+    await db.cache.bulkDelete(expired);
+
+    const remaining = await db.cache.toArray();
+    const overflow = planEviction(remaining, maxBytes);
+    await db.cache.bulkDelete(overflow);
+
+    [...expired, ...overflow].forEach(key => aiCache.delete(key));
+    return expired.length + overflow.length;
+  },
+
+  /**
+   * Entries, most recently used first (values omitted for listing)
+   */
+  async list(): Promise<Omit<CacheRecord, 'value'>[]> {
+    const records = await db.cache.orderBy('lastAccessedAt').reverse().toArray();
+    return records.map(({ value: _value, ...rest }) => rest);
+  },
+
+  /**
+   * Resolve a (possibly abbreviated) key as shown by the inspector
+   */
+  async find(prefix: string): Promise<CacheRecord | null> {
+    const matches = await db.cache.where('key').startsWith(prefix.toLowerCase()).limit(2).toArray();
+    if (matches.length > 1) {
+      throw new Error(`Key prefix '${prefix}' is ambiguous.`);
+    }
+    return matches[0] || null;
+  },
+
+  async setPinned(key: string, pinned: boolean): Promise<void> {
+    const record = await db.cache.get(key);
+    if (!record) {
+      throw new Error(`No cache entry '${key}'.`);
+    }
+    await db.cache.update(key, { pinned: pinned ? 1 : 0 });
+    aiCache.set(key, record.value, pinned ? Infinity : record.expiresAt - Date.now());
+  },
+
+  /**
+   * Remove entries from both tiers. Pinned entries survive everything but
+   * an explicit key or `all`.
+   */
+  async purge(target: PurgeTarget): Promise<number> {
+    if (target === 'all') {
+      const count = await db.cache.count();
+      await db.cache.clear();
+      aiCache.clear();
+      return count;
+    }
+
+    let keys: string[];
+    if (typeof target === 'object') {
+      keys = [target.key];
+    } else if (target === 'expired') {
+      const now = Date.now();
+      keys = (await db.cache.filter(r => isExpired(r, now)).toArray()).map(r => r.key);
+    } else {
+      keys = (await db.cache.where('task').equals(target).filter(r => !r.pinned).toArray()).map(r => r.key);
+    }
+
+    const existing = (await db.cache.bulkGet(keys)).filter(Boolean).length;
+    await db.cache.bulkDelete(keys);
+    keys.forEach(key => aiCache.delete(key));
+    return existing;
+  },
+
+  async summary(): Promise<CacheSummary> {
+    const records = await db.cache.toArray();
+    return {
+      entries: records.length,
+      pinned: records.filter(r => r.pinned).length,
+      bytes: records.reduce((sum, r) => sum + r.size, 0),
+      maxBytes: MAX_CACHE_BYTES,
+      memory: aiCache.getStats()
+    };
+  }
+};
@@ -0,0 +1,126 @@
+import { AutomationResult, AutomationStep, SecretRequirement } from "../../types";
+import { outgoing } from "../../utils/blueprintGraph";
+
+/**
+ * Helpers shared by the platform exporters: layout, naming, secret lookup
+ * and `{{...}}` template parsing.
+ */
+
+export const DEFAULT_WORKFLOW_NAME = 'AutoArchitect Workflow';
+
+export function workflowName(blueprint: AutomationResult, name?: string): string {
+  const source = (name || blueprint.explanation || DEFAULT_WORKFLOW_NAME).trim();
+  return source.length > 60 ? `${source.slice(0, 57).trimEnd()}...` : source;
+}
+
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workflow';
+
+/**
+ * `base`, or the first of "base 1", "base 2", ... not in `taken`; the
+ * result is added to `taken`
+ */
+export function uniqueName(base: string, taken: Set<string>): string {
+  let name = base;
+  for (let n = 1; taken.has(name); n++) name = `${base} ${n}`;
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Step titles made unique the way platform editors do: "Slack", "Slack 1", ...
+ * Pass `taken` to allocate further node names from the same pool.
+ */
+export function uniqueNames(steps: AutomationStep[], taken: Set<string> = new Set()): Map<number, string> {
+  return new Map(steps.map(step => [step.id, uniqueName(step.title.trim() || `Step ${step.id}`, taken)]));
+}
+
+export interface GridCell {
+  /** Distance from the nearest trigger */
+  column: number;
+  /** Position within the column, centred on 0 */
+  row: number;
+}
+
+/**
+ * Left-to-right layered layout: each step's column is its shortest distance
+ * from a trigger. Unreachable steps go in a column after the rest.
+ */
+export function layoutGrid(blueprint: AutomationResult): Map<number, GridCell> {
+  const steps = blueprint.steps;
+  const depth = new Map<number, number>();
+  const roots = steps.filter(step => step.type === 'trigger');
+  const queue = (roots.length > 0 ? roots : steps.slice(0, 1)).map(step => step.id);
+  queue.forEach(id => depth.set(id, 0));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of outgoing(blueprint, id)) {
+      if (!depth.has(edge.to)) {
+        depth.set(edge.to, depth.get(id)! + 1);
+        queue.push(edge.to);
+      }
+    }
+  }
+  const last = Math.max(-1, ...depth.values()) + 1;
+  const columns = new Map<number, number[]>();
+  for (const step of steps) {
+    const column = depth.get(step.id) ?? last;
+    columns.set(column, [...(columns.get(column) || []), step.id]);
+  }
+
+  const cells = new Map<number, GridCell>();
+  for (const [column, ids] of columns) {
+    ids.forEach((id, i) => cells.set(id, { column, row: i - (ids.length - 1) / 2 }));
+  }
+  return cells;
+}
+
+/**
+ * First secret whose key mentions one of the keywords, e.g. SLACK_BOT_TOKEN
+ * for `slack`
+ */
+export function findSecret(secrets: SecretRequirement[] = [], keywords: string[]): SecretRequirement | undefined {
+  const needles = keywords.map(k => k.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  return secrets.find(secret => {
+    const key = secret.key.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return needles.some(needle => key.includes(needle));
+  });
+}
+
+export const matchesKeywords = (step: AutomationStep, keywords: string[]) => {
+  const text = `${step.inputs?.app || ''} ${step.title}`.toLowerCase();
+  return keywords.some(keyword => text.includes(keyword));
+};
+
+export type TemplateRef =
+  | { kind: 'step'; stepId: number; path: string }
+  | { kind: 'expression'; expression: string };
+
+const TEMPLATE = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+/**
+ * Rewrite each `{{...}}` in `value` with `render`; returns null when the
+ * value has no templates
+ */
+export function rewriteTemplates(value: string, render: (ref: TemplateRef) => string): string | null {
+  if (!TEMPLATE.test(value)) return null;
+  TEMPLATE.lastIndex = 0;
+  return value.replace(TEMPLATE, (_, expression: string) => {
+    const stepRef = /^(\d+)(?:\.(.+))?$/.exec(expression);
+    return render(stepRef ? { kind: 'step', stepId: Number(stepRef[1]), path: stepRef[2] || '' } : { kind: 'expression', expression });
+  });
+}
+
+/**
+ * `5m`, `10 minutes`, `2h`... as an amount and unit; defaults to one minute
+ */
+export function parseDuration(value: string | undefined): { amount: number; unit: 'seconds' | 'minutes' | 'hours' | 'days' } {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]*)/i.exec(value || '');
+  if (!match) return { amount: 1, unit: 'minutes' };
+  const unit = match[2].toLowerCase();
+  const amount = Number(match[1]);
+  if (unit.startsWith('s')) return { amount, unit: 'seconds' };
+  if (unit.startsWith('h')) return { amount, unit: 'hours' };
+  if (unit.startsWith('d')) return { amount, unit: 'days' };
+  return { amount, unit: 'minutes' };
+}
@@ -0,0 +1,22 @@
+import { Platform } from "../../types";
+import { PlatformExporter } from "./types";
+import { n8nExporter } from "./n8nExporter";
+import { makeExporter } from "./makeExporter";
+import { langchainExporter } from "./langchainExporter";
+
+export * from "./types";
+export { toN8nWorkflow } from "./n8nExporter";
+export { toMakeScenario } from "./makeExporter";
+export { toLangChainProject } from "./langchainExporter";
+
+/**
+ * Native exporters by target platform. Platforms without one only get the
+ * generated `codeSnippet`.
+ */
+export const EXPORTERS: Partial<Record<Platform, PlatformExporter>> = {
+  n8n: n8nExporter,
+  make: makeExporter,
+  langchain: langchainExporter
+};
+
+export const getExporter = (platform: Platform): PlatformExporter | undefined => EXPORTERS[platform];
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { langchainExporter, toLangChainProject } from './langchainExporter';
+import { AutomationResult, SecretRequirement } from '../../types';
+import { readZip } from '../../utils/zip';
+
+const blueprint: AutomationResult = {
+  platform: 'langchain',
+  explanation: 'Triage support tickets',
+  steps: [
+    { id: 1, title: 'New ticket', description: 'Zendesk ticket created', type: 'trigger', inputs: { app: 'zendesk' } },
+    { id: 2, title: 'Classify urgency', description: 'Ask the model for an urgency label', type: 'action', inputs: { app: 'openai', prompt: 'Classify: {{1.body}}' } },
+    { id: 3, title: 'Flag urgent', description: '', type: 'logic', inputs: { js: "data.text.includes('urgent')" } },
+    { id: 4, title: 'Page on-call', description: '', type: 'action', inputs: { app: 'slack', channel: '#oncall', text: '{{1.subject}}' } },
+    { id: 5, title: 'Wait', description: '', type: 'delay', inputs: { duration: '5 minutes' } },
+    { id: 6, title: 'Log failure', description: '', type: 'error-handler' }
+  ],
+  edges: [
+    { from: 1, to: 2, type: 'next' },
+    { from: 2, to: 3, type: 'next' },
+    { from: 3, to: 4, type: 'branch', condition: '$ = true' },
+    { from: 4, to: 5, type: 'next' },
+    { from: 4, to: 6, type: 'error' }
+  ],
+  documentation: {
+    purpose: 'Pages on-call for urgent tickets.',
+    inputSchema: { type: 'object', properties: { subject: { type: 'string' }, body: { type: 'string' } } },
+    outputSchema: { type: 'object' },
+    logicFlow: ['Classify the ticket', 'Page on-call when urgent'],
+    maintenanceGuide: 'Tune the prompt when labels drift.'
+  }
+};
+
+const secrets: SecretRequirement[] = [
+  { key: 'SLACK_BOT_TOKEN', description: 'Slack bot token', placeholder: 'xoxb-...' }
+];
+
+const project = (options = {}) => Object.fromEntries(
+  toLangChainProject(blueprint, { name: 'Ticket Triage', secrets, ...options }).map(file => [file.path, file.content as string])
+);
+
+describe('toLangChainProject', () => {
+  it('should lay out a project with one module per step', () => {
+    expect(Object.keys(project())).toEqual([
+      'ticket-triage/package.json',
+      'ticket-triage/tsconfig.json',
+      'ticket-triage/.gitignore',
+      'ticket-triage/.env.example',
+      'ticket-triage/README.md',
+      'ticket-triage/src/index.ts',
+      'ticket-triage/src/runtime.ts',
+      'ticket-triage/src/graph.ts',
+      'ticket-triage/src/llm.ts',
+      'ticket-triage/src/tools.ts',
+      'ticket-triage/src/steps/01-new-ticket.ts',
+      'ticket-triage/src/steps/02-classify-urgency.ts',
+      'ticket-triage/src/steps/03-flag-urgent.ts',
+      'ticket-triage/src/steps/04-page-on-call.ts',
+      'ticket-triage/src/steps/05-wait.ts',
+      'ticket-triage/src/steps/06-log-failure.ts',
+      'ticket-triage/test/workflow.test.ts'
+    ]);
+    const pkg = JSON.parse(project()['ticket-triage/package.json']);
+    expect(pkg.name).toBe('ticket-triage');
+    expect(Object.keys(pkg.dependencies)).toEqual(['@langchain/core', 'dotenv', 'jsonata', '@langchain/openai']);
+  });
+
+  it('should wire the steps with the blueprint edges', () => {
+    const graph = project()['ticket-triage/src/graph.ts'];
+    expect(graph).toContain("import step4 from './steps/04-page-on-call';");
+    expect(graph).toContain('"condition": "$ = true"');
+    expect(graph).toContain('triggers: [1]');
+  });
+
+  it('should generate step modules by kind', () => {
+    const files = project();
+    expect(files['ticket-triage/src/steps/02-classify-urgency.ts']).toContain('ctx.deps.llm.pipe(new StringOutputParser())');
+    expect(files['ticket-triage/src/steps/03-flag-urgent.ts']).toContain("return (data.text.includes('urgent'));");
+    expect(files['ticket-triage/src/steps/04-page-on-call.ts']).toContain('const tool = ctx.deps.tools["slack"];');
+    expect(files['ticket-triage/src/steps/05-wait.ts']).toContain('await ctx.deps.sleep(300000);');
+  });
+
+  it('should derive the env template from the deployment secrets', () => {
+    const env = project()['ticket-triage/.env.example'];
+    expect(env).toContain('OPENAI_API_KEY=\n');
+    expect(env).toContain('# Slack bot token (e.g. xoxb-...)\nSLACK_BOT_TOKEN=\n');
+    expect(project()['ticket-triage/src/tools.ts']).toContain('// Credentials: process.env.SLACK_BOT_TOKEN');
+  });
+
+  it('should test LLM steps against a stubbed model and app steps against stubbed tools', () => {
+    const test = project()['ticket-triage/test/workflow.test.ts'];
+    expect(test).toContain('llm: new FakeListChatModel({ responses })');
+    expect(test).toContain('"slack": vi.fn(');
+    expect(test).toContain('step 2 (Classify urgency) returns the model reply');
+    expect(test).toContain('"subject": "example"');
+  });
+
+  it('should build the README from the workflow documentation', () => {
+    const readme = project()['ticket-triage/README.md'];
+    expect(readme).toContain('# Ticket Triage\n\nPages on-call for urgent tickets.');
+    expect(readme).toContain('1. Classify the ticket\n2. Page on-call when urgent');
+    expect(readme).toContain('| 4 | Page on-call | action | `src/steps/04-page-on-call.ts` |');
+    expect(readme).toContain('## Maintenance\n\nTune the prompt when labels drift.');
+  });
+});
+
+describe('langchainExporter', () => {
+  it('should zip the project and report what is left to implement', () => {
+    const file = langchainExporter.export(blueprint, { name: 'Ticket Triage', secrets });
+    expect(file.filename).toBe('ticket-triage.zip');
+    expect(file.mimeType).toBe('application/zip');
+    expect(readZip(file.content as Uint8Array).map(entry => entry.path)).toEqual(Object.keys(project()));
+    expect(file.unmapped.map(entry => [entry.stepId, entry.reason])).toEqual([
+      [1, 'Runs on the input payload; subscribe to "zendesk" events and call run() from the handler'],
+      [4, 'No LangChain.js integration for "slack"; implement it in src/tools.ts']
+    ]);
+  });
+
+  it('should report scheduled triggers, approvals and sub-workflows and pick the model provider', () => {
+    const scheduled: AutomationResult = {
+      platform: 'langchain',
+      explanation: 'Weekly report',
+      steps: [
+        { id: 1, title: 'Every Monday', description: '', type: 'trigger' },
+        { id: 2, title: 'Draft with Claude', description: 'Write the report', type: 'action' },
+        { id: 3, title: 'Manager sign-off', description: '', type: 'human-approval' },
+        { id: 4, title: 'Publish', description: '', type: 'sub-workflow' }
+      ]
+    };
+    const file = langchainExporter.export(scheduled);
+    expect(file.unmapped.map(entry => [entry.stepId, entry.reason])).toEqual([
+      [1, 'Runs on demand; call run() from a cron job or scheduler'],
+      [3, 'Approvals follow AUTO_APPROVE; connect a reviewer in src/index.ts'],
+      [4, 'Sub-workflows are not exported; call the other workflow from the step module']
+    ]);
+    const files = Object.fromEntries(readZip(file.content as Uint8Array).map(entry => [entry.path, new TextDecoder().decode(entry.content as Uint8Array)]));
+    expect(files['weekly-report/src/llm.ts']).toContain("import { ChatAnthropic } from '@langchain/anthropic';");
+    expect(files['weekly-report/.env.example']).toContain('ANTHROPIC_API_KEY=\n');
+    expect(files['weekly-report/.env.example']).toContain('AUTO_APPROVE=false\n');
+  });
+});
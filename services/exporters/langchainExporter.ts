@@ -0,0 +1,685 @@
+import { AutomationResult, AutomationStep, SecretRequirement } from "../../types";
+import { ExportOptions, PlatformExporter, UnmappedStep } from "./types";
+import { findSecret, matchesKeywords, parseDuration, slugify, workflowName } from "./common";
+import { upgradeBlueprint } from "../../utils/blueprintGraph";
+import { ZipEntry, createZip } from "../../utils/zip";
+
+/**
+ * Blueprint -> LangChain.js TypeScript project, downloaded as a zip.
+ *
+ * Each step becomes a `RunnableLambda` module under `src/steps/`, and
+ * `src/graph.ts` wires them with the blueprint's edges. The generated
+ * `src/runtime.ts` walks that graph the way the Logic Sandbox interpreter
+ * does (same `{{...}}` templates, JSONata branch conditions, loop and
+ * error-edge semantics), so a local simulation predicts the project's
+ * behaviour. LLM steps call the injected chat model and app steps call
+ * `src/tools.ts`, which keeps the generated tests free of network access:
+ * they run against `FakeListChatModel` and stubbed tools.
+ */
+
+const LLM_KEYWORDS = ['openai', 'gpt', 'llm', 'anthropic', 'claude', 'gemini', 'langchain', 'summar', 'classif'];
+
+const ANTHROPIC_KEYWORDS = ['anthropic', 'claude'];
+
+const SCHEDULE_KEYWORDS = ['schedule', 'cron', 'every', 'daily', 'nightly', 'hourly', 'weekly'];
+
+/** Parameter keys that configure the step rather than the call */
+const RESERVED_INPUTS = ['app', 'js', 'jsonata'];
+
+const DURATION_MS = { seconds: 1000, minutes: 60_000, hours: 3_600_000, days: 86_400_000 };
+
+const PACKAGE_VERSIONS = {
+  dependencies: {
+    '@langchain/core': '^1.2.13',
+    dotenv: '^18.0.5',
+    jsonata: '^2.2.2'
+  },
+  devDependencies: {
+    '@types/node': '^22.14.0',
+    tsx: '^4.23.15',
+    typescript: '~5.8.2',
+    vitest: '^4.0.16'
+  }
+};
+
+const MODEL_PROVIDERS = {
+  openai: { package: '@langchain/openai', version: '^1.6.0', className: 'ChatOpenAI', key: 'OPENAI_API_KEY', modelVar: 'OPENAI_MODEL', model: 'gpt-4o-mini' },
+  anthropic: { package: '@langchain/anthropic', version: '^1.5.11', className: 'ChatAnthropic', key: 'ANTHROPIC_API_KEY', modelVar: 'ANTHROPIC_MODEL', model: 'claude-3-5-haiku-latest' }
+};
+
+type StepKind = 'trigger' | 'js' | 'jsonata' | 'llm' | 'tool' | 'logic' | 'loop' | 'delay' | 'approval' | 'error-handler' | 'sub-workflow';
+
+interface ProjectStep {
+  step: AutomationStep;
+  kind: StepKind;
+  /** Module path under `src/steps/`, without extension */
+  module: string;
+  /** App name for `tool` steps */
+  app?: string;
+}
+
+const literal = (value: unknown) => JSON.stringify(value);
+
+const comment = (text: string) => text.replace(/\*\//g, '*\\/');
+
+const indent = (text: string, prefix = '  ') => text.split('\n').map(line => line ? `${prefix}${line}` : line).join('\n');
+
+const params = (step: AutomationStep): Record<string, string> =>
+  Object.fromEntries(Object.entries(step.inputs || {}).filter(([key]) => !RESERVED_INPUTS.includes(key)));
+
+function kindOf(step: AutomationStep): StepKind {
+  if (step.type === 'trigger') return 'trigger';
+  if (step.inputs?.js) return 'js';
+  if (step.inputs?.jsonata) return 'jsonata';
+  switch (step.type) {
+    case 'loop': return 'loop';
+    case 'delay': return 'delay';
+    case 'human-approval': return 'approval';
+    case 'error-handler': return 'error-handler';
+    case 'sub-workflow': return 'sub-workflow';
+  }
+  if (step.inputs?.prompt !== undefined || matchesKeywords(step, LLM_KEYWORDS)) return 'llm';
+  return step.type === 'logic' ? 'logic' : 'tool';
+}
+
+const appOf = (step: AutomationStep) => (step.inputs?.app || '').trim().toLowerCase() || slugify(step.title);
+
+/** Example payload from a JSON schema, or the value itself when it is not one */
+function sampleFromSchema(schema: any): unknown {
+  if (!schema || typeof schema !== 'object') return {};
+  if (schema.example !== undefined) return schema.example;
+  if (schema.properties && typeof schema.properties === 'object') {
+    return Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, sampleFromSchema(value)]));
+  }
+  switch (schema.type) {
+    case 'string': return schema.format === 'email' ? 'user@example.com' : 'example';
+    case 'number':
+    case 'integer': return 1;
+    case 'boolean': return true;
+    case 'array': return schema.items ? [sampleFromSchema(schema.items)] : [];
+    case 'object': return {};
+  }
+  return Array.isArray(schema) || schema.type ? {} : schema;
+}
+
+function stepBody(entry: ProjectStep): { imports: string[]; body: string } {
+  const { step, kind } = entry;
+  const resolve = 'const params = await resolveParams(inputs, ctx);';
+  switch (kind) {
+    case 'trigger':
+      return { imports: [], body: 'return ctx.input;' };
+    case 'js': {
+      let code = step.inputs!.js!;
+      try {
+        new Function(`return (${code}\n);`);
+        // A trailing line comment would swallow the closing parenthesis
+        code = `return (${code.trim()}${code.includes('//') ? '\n' : ''});`;
+      } catch {
+        // A full function body; used as is
+      }
+      return {
+        imports: [],
+        body: [
+          resolve,
+          'const data: any = ctx.data, input: any = ctx.input, steps: any = ctx.steps, item: any = ctx.item;',
+          code
+        ].join('\n')
+      };
+    }
+    case 'jsonata':
+      return {
+        imports: ["import jsonata from 'jsonata';"],
+        body: `${resolve}\nreturn jsonata(${literal(step.inputs!.jsonata)}).evaluate(ctx.data, { input: ctx.input, steps: ctx.steps, item: ctx.item, params });`
+      };
+    case 'llm':
+      return {
+        imports: ["import { StringOutputParser } from '@langchain/core/output_parsers';"],
+        body: [
+          resolve,
+          `const prompt = String(params.prompt ?? params.text ?? params.message ?? ${literal(step.description || step.title)});`,
+          'const text = await ctx.deps.llm.pipe(new StringOutputParser()).invoke(prompt);',
+          'return { text };'
+        ].join('\n')
+      };
+    case 'tool':
+      return {
+        imports: [],
+        body: [
+          resolve,
+          `const tool = ctx.deps.tools[${literal(entry.app)}];`,
+          `if (!tool) throw new Error(${literal(`No "${entry.app}" integration; add it to src/tools.ts`)});`,
+          'return tool(params);'
+        ].join('\n')
+      };
+    case 'loop':
+      return { imports: [], body: `${resolve}\nreturn params.items ?? ctx.data;` };
+    case 'delay': {
+      const { amount, unit } = parseDuration(step.inputs?.duration);
+      return { imports: [], body: `await ctx.deps.sleep(${amount * DURATION_MS[unit]});\nreturn ctx.data;` };
+    }
+    case 'approval':
+      return {
+        imports: [],
+        body: `${resolve}\nconst approved = await ctx.deps.approve({ stepId: ${step.id}, params });\nreturn { approved };`
+      };
+    case 'error-handler':
+      return {
+        imports: [],
+        body: "const failure = ctx.data as { stepId?: number; error?: string };\nconsole.error('Step ' + failure.stepId + ' failed: ' + failure.error);\nreturn ctx.data;"
+      };
+    case 'sub-workflow':
+      return { imports: [], body: `throw new Error(${literal(`Sub-workflow "${step.title}" is not part of this project; call it here`)});` };
+    default:
+      return { imports: [], body: `${resolve}\nreturn Object.keys(params).length > 0 ? params : ctx.data;` };
+  }
+}
+
+function stepModule(entry: ProjectStep): string {
+  const { step } = entry;
+  const { imports, body } = stepBody(entry);
+  const usesInputs = body.includes('resolveParams');
+  const runtime = usesInputs ? 'StepContext, resolveParams' : 'StepContext';
+  return [
+    "import { RunnableLambda } from '@langchain/core/runnables';",
+    ...imports,
+    `import { ${runtime} } from '../runtime';`,
+    '',
+    '/**',
+    ` * #${step.id} ${comment(step.title)} (${step.type})`,
+    ...(step.description ? comment(step.description).split('\n').map(line => ` * ${line}`.trimEnd()) : []),
+    ' */',
+    ...(usesInputs ? [`const inputs: Record<string, string> = ${JSON.stringify(params(step), null, 2)};`, ''] : []),
+    'export default RunnableLambda.from(async (ctx: StepContext): Promise<unknown> => {',
+    indent(body),
+    `}).withConfig({ runName: ${literal(step.title)} });`,
+    ''
+  ].join('\n');
+}
+
+const RUNTIME_TS = String.raw`import jsonata from 'jsonata';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { Runnable } from '@langchain/core/runnables';
+
+/**
+ * Graph runtime: runs step modules from the triggers along the workflow
+ * edges. Steps reached by several paths run once; branch edges are taken
+ * when their JSONata condition holds; loop edges run their body once per
+ * item; a failing step follows its error edges, or stops the run.
+ */
+
+export type Tool = (params: Record<string, unknown>) => Promise<unknown>;
+
+export interface Dependencies {
+  llm: BaseChatModel;
+  /** App integrations by app name (see src/tools.ts) */
+  tools: Record<string, Tool>;
+  sleep: (ms: number) => Promise<void>;
+  approve: (request: { stepId: number; params: Record<string, unknown> }) => Promise<boolean>;
+}
+
+export interface StepContext {
+  /** Payload that started the run */
+  input: unknown;
+  /** Outputs of the steps run so far, by step id */
+  steps: Record<number, unknown>;
+  /** Output of the step that led here */
+  data: unknown;
+  /** Current element inside a loop body */
+  item?: unknown;
+  deps: Dependencies;
+}
+
+export type Step = Runnable<StepContext, unknown>;
+
+export interface Edge {
+  from: number;
+  to: number;
+  type: 'next' | 'branch' | 'loop' | 'error';
+  condition?: string;
+}
+
+export interface Workflow {
+  steps: Record<number, Step>;
+  edges: Edge[];
+  triggers: number[];
+}
+
+export interface RunResult {
+  outputs: Record<number, unknown>;
+  error?: { stepId: number; message: string };
+}
+
+class StepError extends Error {
+  constructor(readonly stepId: number, message: string) {
+    super(message);
+  }
+}
+
+const messageOf = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+export function getPath(value: unknown, path: string): unknown {
+  return path.split(/\.|\[(\d+)\]/).filter(Boolean).reduce<unknown>(
+    (current, key) => current == null ? undefined : (current as Record<string, unknown>)[key],
+    value
+  );
+}
+
+const bindings = (ctx: StepContext) => ({ input: ctx.input, steps: ctx.steps, item: ctx.item });
+
+/** ` + '`{{2.email}}`' + String.raw` reads step 2's output; anything else is JSONata */
+export async function evaluate(expression: string, ctx: StepContext): Promise<unknown> {
+  const ref = /^(\d+)(?:\.(.+))?$/.exec(expression);
+  if (ref) {
+    const output = ctx.steps[Number(ref[1])];
+    return ref[2] ? getPath(output, ref[2]) : output;
+  }
+  return jsonata(expression).evaluate(ctx.data, bindings(ctx));
+}
+
+/**
+ * Resolve ` + '`{{...}}`' + String.raw` references. A value that is exactly one
+ * reference keeps the referenced type; references inside text are
+ * interpolated.
+ */
+export async function render(value: string, ctx: StepContext): Promise<unknown> {
+  const whole = /^\{\{\s*([^}]+?)\s*\}\}$/.exec(value);
+  if (whole) return evaluate(whole[1], ctx);
+  let result = '';
+  let last = 0;
+  for (const match of value.matchAll(/\{\{\s*([^}]+?)\s*\}\}/g)) {
+    const resolved = await evaluate(match[1], ctx);
+    result += value.slice(last, match.index) + (typeof resolved === 'object' && resolved !== null ? JSON.stringify(resolved) : String(resolved ?? ''));
+    last = match.index! + match[0].length;
+  }
+  return result + value.slice(last);
+}
+
+export async function resolveParams(inputs: Record<string, string>, ctx: StepContext): Promise<Record<string, unknown>> {
+  const params: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(inputs)) params[key] = await render(value, ctx);
+  return params;
+}
+
+interface RunState {
+  workflow: Workflow;
+  input: unknown;
+  outputs: Record<number, unknown>;
+  deps: Dependencies;
+}
+
+interface Entry {
+  id: number;
+  data: unknown;
+}
+
+const outgoing = (workflow: Workflow, id: number) => workflow.edges.filter(edge => edge.from === id);
+
+async function walk(entries: Entry[], state: RunState, visited: Set<number>, item?: unknown): Promise<unknown> {
+  const queue = [...entries];
+  let last: unknown;
+
+  while (queue.length > 0) {
+    const { id, data } = queue.shift()!;
+    const step = state.workflow.steps[id];
+    if (!step || visited.has(id)) continue;
+    visited.add(id);
+
+    const ctx: StepContext = { input: state.input, steps: state.outputs, data, item, deps: state.deps };
+    let output: unknown;
+    try {
+      output = await step.invoke(ctx);
+      const body = outgoing(state.workflow, id).filter(edge => edge.type === 'loop');
+      if (body.length > 0) output = await runLoop(id, body, output, state, visited);
+    } catch (error) {
+      const handlers = outgoing(state.workflow, id).filter(edge => edge.type === 'error');
+      if (handlers.length === 0) throw error instanceof StepError ? error : new StepError(id, messageOf(error));
+      queue.push(...handlers.map(edge => ({ id: edge.to, data: { error: messageOf(error), stepId: id } })));
+      continue;
+    }
+
+    state.outputs[id] = output;
+    last = output;
+    for (const edge of outgoing(state.workflow, id)) {
+      if (edge.type === 'next') {
+        queue.push({ id: edge.to, data: output });
+      } else if (edge.type === 'branch') {
+        const condition = edge.condition?.replace(/^\{\{\s*|\s*\}\}$/g, '');
+        if (!condition || await jsonata(condition).evaluate(output, bindings(ctx))) queue.push({ id: edge.to, data: output });
+      }
+    }
+  }
+  return last;
+}
+
+async function runLoop(id: number, body: Edge[], items: unknown, state: RunState, visited: Set<number>): Promise<unknown[]> {
+  const list = Array.isArray(items) ? items : [items];
+  const results: unknown[] = [];
+  const executed = new Set<number>();
+  for (const item of list) {
+    const bodyVisited = new Set([id]);
+    results.push(await walk(body.map(edge => ({ id: edge.to, data: item })), state, bodyVisited, item));
+    bodyVisited.forEach(step => executed.add(step));
+  }
+  executed.forEach(step => visited.add(step));
+  return results;
+}
+
+/**
+ * Run the workflow from its triggers. Never rejects: a failure without an
+ * error edge is returned as ` + '`error`' + String.raw` next to the outputs produced so far.
+ */
+export async function runWorkflow(workflow: Workflow, input: unknown, deps: Dependencies): Promise<RunResult> {
+  const state: RunState = { workflow, input, outputs: {}, deps };
+  try {
+    await walk(workflow.triggers.map(id => ({ id, data: input })), state, new Set());
+    return { outputs: state.outputs };
+  } catch (error) {
+    const stepId = error instanceof StepError ? error.stepId : -1;
+    return { outputs: state.outputs, error: { stepId, message: messageOf(error) } };
+  }
+}
+`;
+
+function toolsModule(tools: { app: string; label: string }[], secrets: SecretRequirement[]): string {
+  const entries = tools.map(({ app, label }) => {
+    if (['http', 'webhook', 'api', 'request'].includes(app)) {
+      return [
+        `${literal(app)}: async (params) => {`,
+        "  const method = String(params.method ?? 'GET').toUpperCase();",
+        '  const response = await fetch(String(params.url), {',
+        '    method,',
+        "    headers: { 'content-type': 'application/json' },",
+        "    body: method === 'GET' ? undefined : JSON.stringify(params.body ?? params)",
+        '  });',
+        '  return { status: response.status, body: await response.json().catch(() => null) };',
+        '}'
+      ].join('\n');
+    }
+    const secret = findSecret(secrets, [app]);
+    return [
+      `${literal(app)}: async (params) => {`,
+      ...(secret ? [`  // Credentials: process.env.${secret.key}`] : []),
+      `  throw new Error(${literal(`${label} is not connected yet; implement it in src/tools.ts`)} + ' ' + JSON.stringify(params));`,
+      '}'
+    ].join('\n');
+  });
+  return [
+    "import type { Tool } from './runtime';",
+    '',
+    '/**',
+    " * App integrations used by the workflow, keyed by the blueprint's app",
+    ' * name. Replace each stub with a real client or LangChain tool; tests',
+    ' * substitute their own.',
+    ' */',
+    `export const tools: Record<string, Tool> = {${entries.length > 0 ? `\n${indent(entries.join(',\n'))}\n` : ''}};`,
+    ''
+  ].join('\n');
+}
+
+function graphModule(blueprint: AutomationResult, steps: ProjectStep[]): string {
+  const triggers = blueprint.steps.filter(step => step.type === 'trigger').map(step => step.id);
+  return [
+    "import type { Workflow } from './runtime';",
+    ...steps.map(({ step, module }) => `import step${step.id} from './steps/${module}';`),
+    '',
+    'export const workflow: Workflow = {',
+    '  steps: {',
+    steps.map(({ step }) => `    ${step.id}: step${step.id}`).join(',\n'),
+    '  },',
+    `  edges: ${JSON.stringify(blueprint.edges || [], null, 2).replace(/\n/g, '\n  ')},`,
+    `  triggers: ${literal(triggers.length > 0 ? triggers : blueprint.steps.slice(0, 1).map(step => step.id))}`,
+    '};',
+    ''
+  ].join('\n');
+}
+
+function llmModule(provider: typeof MODEL_PROVIDERS['openai']): string {
+  return [
+    `import { ${provider.className} } from '${provider.package}';`,
+    '',
+    `/** Chat model for the LLM steps; reads ${provider.key} from the environment */`,
+    'export function createModel() {',
+    `  return new ${provider.className}({ model: process.env.${provider.modelVar} ?? ${literal(provider.model)}, temperature: 0 });`,
+    '}',
+    ''
+  ].join('\n');
+}
+
+const INDEX_TS = `import 'dotenv/config';
+import { pathToFileURL } from 'node:url';
+import { workflow } from './graph';
+import { createModel } from './llm';
+import { tools } from './tools';
+import { Dependencies, RunResult, runWorkflow } from './runtime';
+
+export const defaultDependencies = (): Dependencies => ({
+  llm: createModel(),
+  tools,
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+  approve: async ({ stepId }) => {
+    console.warn('Step ' + stepId + ' needs approval; AUTO_APPROVE=' + (process.env.AUTO_APPROVE ?? 'false'));
+    return process.env.AUTO_APPROVE === 'true';
+  }
+});
+
+export const run = (input: unknown, deps: Dependencies = defaultDependencies()): Promise<RunResult> =>
+  runWorkflow(workflow, input, deps);
+
+// npm start -- '{"key": "value"}'
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  run(JSON.parse(process.argv[2] ?? '{}')).then(result => {
+    console.log(JSON.stringify(result, null, 2));
+    if (result.error) process.exitCode = 1;
+  });
+}
+`;
+
+function testModule(steps: ProjectStep[], tools: string[], sample: unknown): string {
+  const trigger = steps.find(entry => entry.kind === 'trigger') ?? steps[0];
+  const cases: string[] = [];
+  if (trigger) {
+    cases.push([
+      "it('runs from the trigger with the input payload', async () => {",
+      '  const result = await runWorkflow(workflow, sampleInput, stubDependencies());',
+      `  expect(result.outputs[${trigger.step.id}]).toEqual(sampleInput);`,
+      '});'
+    ].join('\n'));
+  }
+  for (const { step, kind, app } of steps) {
+    if (kind === 'llm') {
+      cases.push([
+        `it(${literal(`step ${step.id} (${step.title}) returns the model reply`)}, async () => {`,
+        `  const output = await workflow.steps[${step.id}].invoke(context(stubDependencies(['stubbed reply'])));`,
+        "  expect(output).toEqual({ text: 'stubbed reply' });",
+        '});'
+      ].join('\n'));
+    } else if (kind === 'tool') {
+      cases.push([
+        `it(${literal(`step ${step.id} (${step.title}) calls the ${app} integration`)}, async () => {`,
+        '  const deps = stubDependencies();',
+        `  await workflow.steps[${step.id}].invoke(context(deps));`,
+        `  expect(deps.tools[${literal(app)}]).toHaveBeenCalledTimes(1);`,
+        '});'
+      ].join('\n'));
+    }
+  }
+  return [
+    "import { describe, it, expect, vi } from 'vitest';",
+    "import { FakeListChatModel } from '@langchain/core/utils/testing';",
+    "import { workflow } from '../src/graph';",
+    "import { Dependencies, StepContext, runWorkflow } from '../src/runtime';",
+    '',
+    `const sampleInput = ${JSON.stringify(sample, null, 2)};`,
+    '',
+    '/** No network: a scripted chat model and tools that echo their parameters */',
+    "const stubDependencies = (responses: string[] = ['stubbed reply']): Dependencies => ({",
+    '  llm: new FakeListChatModel({ responses }),',
+    `  tools: {${tools.length > 0 ? `\n${tools.map(app => `    ${literal(app)}: vi.fn(async (params: Record<string, unknown>) => ({ ok: true, ...params }))`).join(',\n')}\n  ` : ''}},`,
+    '  sleep: async () => {},',
+    '  approve: async () => true',
+    '});',
+    '',
+    'const context = (deps: Dependencies): StepContext => ({ input: sampleInput, steps: {}, data: sampleInput, deps });',
+    '',
+    "describe('workflow', () => {",
+    indent(cases.join('\n\n')),
+    '});',
+    ''
+  ].join('\n');
+}
+
+function envTemplate(secrets: SecretRequirement[], provider: typeof MODEL_PROVIDERS['openai'], approvals: boolean): string {
+  const lines = [
+    '# Copy to .env and fill in the values',
+    '',
+    '# Chat model for the LLM steps',
+    ...(findSecret(secrets, [provider.key]) ? [] : [`${provider.key}=`]),
+    `${provider.modelVar}=${provider.model}`
+  ];
+  for (const secret of secrets) {
+    lines.push('', `# ${secret.description}${secret.placeholder ? ` (e.g. ${secret.placeholder})` : ''}`, `${secret.key}=`);
+  }
+  if (approvals) lines.push('', '# Approve human-approval steps without a reviewer', 'AUTO_APPROVE=false');
+  return `${lines.join('\n')}\n`;
+}
+
+function readme(name: string, blueprint: AutomationResult, steps: ProjectStep[], unmapped: UnmappedStep[], sample: unknown): string {
+  const docs = blueprint.documentation;
+  const json = (value: unknown) => ['```json', JSON.stringify(value, null, 2), '```'];
+  const flow = docs?.logicFlow?.length ? docs.logicFlow : blueprint.steps.map(step => `${step.title}${step.description ? `: ${step.description}` : ''}`);
+  const lines = [
+    `# ${name}`,
+    '',
+    docs?.purpose || blueprint.explanation,
+    '',
+    'A LangChain.js project generated by AutoArchitect. Each blueprint step is a runnable in `src/steps/`, wired together in `src/graph.ts`.',
+    '',
+    '## Setup',
+    '',
+    '```bash',
+    'npm install',
+    'cp .env.example .env   # then fill in the keys',
+    'npm test',
+    `npm start -- '${JSON.stringify(sample)}'`,
+    '```'
+  ];
+  if (docs?.inputSchema) lines.push('', '## Input', '', ...json(docs.inputSchema));
+  if (docs?.outputSchema) lines.push('', '## Output', '', ...json(docs.outputSchema));
+  lines.push('', '## Logic Flow', '', ...flow.map((line, i) => `${i + 1}. ${line}`));
+  lines.push('', '## Steps', '', '| # | Step | Kind | Module |', '| - | ---- | ---- | ------ |');
+  lines.push(...steps.map(({ step, module }) => `| ${step.id} | ${step.title.replace(/\|/g, '\\|')} | ${step.type} | \`src/steps/${module}.ts\` |`));
+  if (unmapped.length > 0) {
+    lines.push('', '## To Finish', '', ...unmapped.map(entry => `- **#${entry.stepId} ${entry.title}**: ${entry.reason}`));
+  }
+  if (docs?.maintenanceGuide) lines.push('', '## Maintenance', '', docs.maintenanceGuide);
+  if (!docs) lines.push('', '_Generate documentation for this blueprint in AutoArchitect to add input and output schemas here._');
+  return `${lines.join('\n')}\n`;
+}
+
+interface Project {
+  name: string;
+  files: ZipEntry[];
+  unmapped: UnmappedStep[];
+}
+
+function buildProject(source: AutomationResult, options: ExportOptions): Project {
+  const blueprint = upgradeBlueprint(source);
+  const name = workflowName(blueprint, options.name);
+  const slug = slugify(name);
+  const secrets = options.secrets || [];
+  const unmapped: UnmappedStep[] = [];
+  const report = (step: AutomationStep, reason: string) => unmapped.push({ stepId: step.id, title: step.title, reason });
+
+  const width = String(Math.max(0, ...blueprint.steps.map(step => step.id))).length;
+  const steps: ProjectStep[] = blueprint.steps.map(step => {
+    const kind = kindOf(step);
+    return {
+      step,
+      kind,
+      module: `${String(step.id).padStart(Math.max(2, width), '0')}-${slugify(step.title)}`,
+      ...(kind === 'tool' && { app: appOf(step) })
+    };
+  });
+
+  const usesAnthropic = blueprint.steps.some(step => matchesKeywords(step, ANTHROPIC_KEYWORDS)) || !!findSecret(secrets, ANTHROPIC_KEYWORDS);
+  const provider = MODEL_PROVIDERS[usesAnthropic ? 'anthropic' : 'openai'];
+
+  const tools: { app: string; label: string }[] = [];
+  for (const entry of steps) {
+    const { step, kind, app } = entry;
+    if (kind === 'tool') {
+      if (!tools.some(tool => tool.app === app)) tools.push({ app: app!, label: step.inputs?.app || step.title });
+      if (!['http', 'webhook', 'api', 'request'].includes(app!)) report(step, `No LangChain.js integration for "${app}"; implement it in src/tools.ts`);
+    } else if (kind === 'sub-workflow') {
+      report(step, 'Sub-workflows are not exported; call the other workflow from the step module');
+    } else if (kind === 'approval') {
+      report(step, 'Approvals follow AUTO_APPROVE; connect a reviewer in src/index.ts');
+    } else if (kind === 'trigger' && matchesKeywords(step, SCHEDULE_KEYWORDS)) {
+      report(step, 'Runs on demand; call run() from a cron job or scheduler');
+    } else if (kind === 'trigger' && step.inputs?.app && !['webhook', 'manual'].includes(step.inputs.app.toLowerCase())) {
+      report(step, `Runs on the input payload; subscribe to "${step.inputs.app}" events and call run() from the handler`);
+    }
+  }
+  unmapped.sort((a, b) => a.stepId - b.stepId);
+
+  const sample = sampleFromSchema(blueprint.documentation?.inputSchema);
+  const approvals = steps.some(entry => entry.kind === 'approval');
+  const packageJson = {
+    name: slug,
+    version: '1.0.0',
+    private: true,
+    description: blueprint.documentation?.purpose || blueprint.explanation,
+    type: 'module',
+    scripts: { start: 'tsx src/index.ts', test: 'vitest run', typecheck: 'tsc --noEmit' },
+    dependencies: { ...PACKAGE_VERSIONS.dependencies, [provider.package]: provider.version },
+    devDependencies: PACKAGE_VERSIONS.devDependencies
+  };
+  const tsconfig = {
+    compilerOptions: {
+      target: 'ES2022',
+      module: 'ESNext',
+      moduleResolution: 'Bundler',
+      strict: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      noEmit: true,
+      types: ['node']
+    },
+    include: ['src', 'test']
+  };
+
+  const files: ZipEntry[] = [
+    { path: 'package.json', content: `${JSON.stringify(packageJson, null, 2)}\n` },
+    { path: 'tsconfig.json', content: `${JSON.stringify(tsconfig, null, 2)}\n` },
+    { path: '.gitignore', content: 'node_modules\n.env\n' },
+    { path: '.env.example', content: envTemplate(secrets, provider, approvals) },
+    { path: 'README.md', content: readme(name, blueprint, steps, unmapped, sample) },
+    { path: 'src/index.ts', content: INDEX_TS },
+    { path: 'src/runtime.ts', content: RUNTIME_TS },
+    { path: 'src/graph.ts', content: graphModule(blueprint, steps) },
+    { path: 'src/llm.ts', content: llmModule(provider) },
+    { path: 'src/tools.ts', content: toolsModule(tools, secrets) },
+    ...steps.map(entry => ({ path: `src/steps/${entry.module}.ts`, content: stepModule(entry) })),
+    { path: 'test/workflow.test.ts', content: testModule(steps, tools.map(tool => tool.app), sample) }
+  ];
+  return { name: slug, files: files.map(file => ({ ...file, path: `${slug}/${file.path}` })), unmapped };
+}
+
+/**
+ * Project files, each path prefixed with the project folder
+ */
+export const toLangChainProject = (blueprint: AutomationResult, options: ExportOptions = {}): ZipEntry[] =>
+  buildProject(blueprint, options).files;
+
+export const langchainExporter: PlatformExporter = {
+  label: 'LangChain Project',
+  export(blueprint, options = {}) {
+    const { name, files, unmapped } = buildProject(blueprint, options);
+    return {
+      filename: `${name}.zip`,
+      mimeType: 'application/zip',
+      content: createZip(files),
+      unmapped
+    };
+  }
+};
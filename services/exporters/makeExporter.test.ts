@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { makeExporter, MakeModule, toMakeScenario } from './makeExporter';
+import { AutomationResult, SecretRequirement } from '../../types';
+import { UnmappedStep } from './types';
+import linear from './fixtures/make/linear.json';
+import graph from './fixtures/make/graph.json';
+
+interface Fixture {
+  blueprint: AutomationResult;
+  secrets?: SecretRequirement[];
+  expected: unknown;
+  unmapped: UnmappedStep[];
+}
+
+const fixtures = { linear, graph } as unknown as Record<string, Fixture>;
+
+const allModules = (flow: MakeModule[]): MakeModule[] => flow.flatMap(module => [
+  module,
+  ...allModules(module.onerror || []),
+  ...(module.routes || []).flatMap(route => allModules(route.flow))
+]);
+
+describe('toMakeScenario', () => {
+  it.each(Object.keys(fixtures))('should match the %s fixture scenario and report', (name) => {
+    const { blueprint, secrets, expected, unmapped } = fixtures[name];
+    expect(toMakeScenario(blueprint, { secrets })).toEqual(expected);
+    expect(makeExporter.export(blueprint, { secrets }).unmapped).toEqual(unmapped);
+  });
+
+  it('should give every module a unique id', () => {
+    for (const { blueprint } of Object.values(fixtures)) {
+      const ids = allModules(toMakeScenario(blueprint).flow).map(module => module.id);
+      expect(new Set(ids).size).toBe(ids.length);
+    }
+  });
+
+  it('should report schedule triggers, unparseable filters and merging paths', () => {
+    const file = makeExporter.export({
+      platform: 'make',
+      explanation: 'Nightly',
+      steps: [
+        { id: 1, title: 'Every night', description: '', type: 'trigger' },
+        { id: 2, title: 'Score', description: '', type: 'logic' },
+        { id: 3, title: 'Post to Slack', description: '', type: 'action' },
+        { id: 4, title: 'Send email', description: '', type: 'action' }
+      ],
+      edges: [
+        { from: 1, to: 2, type: 'next' },
+        { from: 2, to: 3, type: 'branch', condition: '$count(items) > 2' },
+        { from: 2, to: 4, type: 'next' },
+        { from: 3, to: 4, type: 'next' }
+      ]
+    });
+    const scenario = JSON.parse(file.content as string);
+
+    expect(scenario.metadata.instant).toBe(false);
+    expect(scenario.flow.map((module: MakeModule) => module.module)).toEqual(['builtin:BasicRouter']);
+    expect(file.unmapped.map(entry => [entry.stepId, entry.reason])).toEqual([
+      [1, 'Make schedules scenarios in the scenario settings; set the schedule there'],
+      [2, 'Branch condition "$count(items) > 2" needs a manual filter'],
+      [4, 'Reached from several paths; Make routes cannot merge, so it is only placed on the first one']
+    ]);
+  });
+});
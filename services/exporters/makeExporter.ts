@@ -0,0 +1,429 @@
+import { AutomationResult, AutomationStep, BlueprintEdge, SecretRequirement } from "../../types";
+import { outgoing, upgradeBlueprint } from "../../utils/blueprintGraph";
+import { ExportOptions, PlatformExporter, UnmappedStep } from "./types";
+import { findSecret, GridCell, layoutGrid, matchesKeywords, parseDuration, rewriteTemplates, slugify, workflowName } from "./common";
+
+/**
+ * Blueprint -> Make scenario blueprint JSON, importable via "Import
+ * Blueprint" in the scenario editor.
+ *
+ * Make scenarios are trees: a flow of modules where routers fan out into
+ * routes and never join again. Steps are walked from the trigger; branch
+ * edges become router routes with a filter on their first module, loops an
+ * Iterator (plus an Array Aggregator when the flow continues after it) and
+ * error edges an error-handler route ending in Ignore. Anything without a
+ * known module is exported as a Set Variable placeholder and listed in the
+ * report.
+ */
+
+export interface MakeFilterCondition {
+  a: string;
+  o: string;
+  b?: string;
+}
+
+export interface MakeFilter {
+  name: string;
+  /** OR of AND groups */
+  conditions: MakeFilterCondition[][];
+}
+
+export interface MakeModule {
+  id: number;
+  module: string;
+  version: number;
+  parameters: Record<string, unknown>;
+  mapper: Record<string, unknown> | null;
+  metadata: {
+    designer: { x: number; y: number; name?: string };
+    restore?: { parameters: Record<string, { label: string }> };
+  };
+  filter?: MakeFilter;
+  routes?: { flow: MakeModule[] }[];
+  onerror?: MakeModule[];
+}
+
+export interface MakeScenario {
+  name: string;
+  flow: MakeModule[];
+  metadata: {
+    instant: boolean;
+    version: 1;
+    scenario: Record<string, unknown>;
+    designer: { orphans: never[] };
+    zone: string;
+  };
+}
+
+interface AppModule {
+  module: string;
+  version: number;
+  keywords: string[];
+  label: string;
+  /** Whether the module needs a connection (`__IMTCONN__`) */
+  connection: boolean;
+}
+
+/** Checked in order; the first keyword match wins */
+const APP_MODULES: AppModule[] = [
+  { module: 'slack:CreateMessage', version: 4, keywords: ['slack'], label: 'Slack', connection: true },
+  { module: 'google-email:ActionSendEmail', version: 2, keywords: ['gmail'], label: 'Gmail', connection: true },
+  { module: 'google-sheets:addRow', version: 2, keywords: ['sheet'], label: 'Google Sheets', connection: true },
+  { module: 'airtable:ActionCreateRecord', version: 3, keywords: ['airtable'], label: 'Airtable', connection: true },
+  { module: 'telegram:SendReplyMessage', version: 1, keywords: ['telegram'], label: 'Telegram', connection: true },
+  { module: 'openai-gpt-3:CreateCompletion', version: 1, keywords: ['openai', 'gpt'], label: 'OpenAI', connection: true },
+  { module: 'email:ActionSendEmail', version: 7, keywords: ['email', 'mail', 'smtp'], label: 'Email', connection: true },
+  { module: 'http:ActionSendData', version: 3, keywords: ['http', 'api', 'request', 'fetch'], label: 'HTTP', connection: false }
+];
+
+const RESERVED_INPUTS = ['app', 'js', 'jsonata', 'items'];
+
+/** Make's Sleep module waits at most five minutes */
+const MAX_SLEEP_SECONDS = 300;
+
+const SPACING = 300;
+
+const SCENARIO_SETTINGS = {
+  roundtrips: 1,
+  maxErrors: 3,
+  autoCommit: true,
+  autoCommitTriggerLast: true,
+  sequential: false,
+  confidential: false,
+  dataloss: false,
+  dlq: false,
+  freshVariables: false
+};
+
+interface ExportContext {
+  blueprint: AutomationResult;
+  grid: Map<number, GridCell>;
+  secrets?: SecretRequirement[];
+  unmapped: UnmappedStep[];
+  /** Steps already placed; Make routes cannot join, so each appears once */
+  placed: Set<number>;
+  /** Steps that produced a module, i.e. can be referenced as `{{id.field}}` */
+  emitted: Set<number>;
+  triggerId?: number;
+  nextId: number;
+}
+
+/** Where bare paths in expressions read from while walking a flow */
+interface FlowScope {
+  /** Module whose output feeds the current one */
+  source?: number;
+  /** Enclosing Iterator, for `$item` */
+  iterator?: number;
+}
+
+const SIMPLE_PATH = /^[A-Za-z_]\w*(?:\.\w+|\[\d+\])*$/;
+
+function report(ctx: ExportContext, step: AutomationStep, reason: string) {
+  if (!ctx.unmapped.some(entry => entry.stepId === step.id && entry.reason === reason)) {
+    ctx.unmapped.push({ stepId: step.id, title: step.title, reason });
+  }
+}
+
+/**
+ * JSONata path -> Make `{{module.path}}` reference, or null when the
+ * expression has no Make equivalent
+ */
+function toMakeRef(expression: string, ctx: ExportContext, scope: FlowScope): string | null {
+  const binding = /^\$(input|item)(?:\.(.+))?$/.exec(expression);
+  if (binding) {
+    const module = binding[1] === 'input' ? ctx.triggerId : scope.iterator;
+    if (module === undefined || !ctx.emitted.has(module)) return null;
+    return binding[2] ? `{{${module}.${binding[2]}}}` : `{{${module}}}`;
+  }
+  if (SIMPLE_PATH.test(expression) && scope.source !== undefined) {
+    const [head, ...rest] = expression.split('.');
+    // `item.x` reads the iterated bundle, as in the local interpreter
+    if (head === 'item' && scope.iterator !== undefined) return `{{${scope.iterator}${rest.length ? `.${rest.join('.')}` : ''}}}`;
+    return `{{${scope.source}.${expression}}}`;
+  }
+  return null;
+}
+
+/**
+ * Parameter value with `{{...}}` templates rewritten as Make mapper
+ * expressions; step references keep their ids, since module ids are step ids
+ */
+function toMakeValue(value: string, step: AutomationStep, ctx: ExportContext, scope: FlowScope): string {
+  return rewriteTemplates(value, ref => {
+    if (ref.kind === 'step') {
+      if (ctx.emitted.has(ref.stepId)) return ref.path ? `{{${ref.stepId}.${ref.path}}}` : `{{${ref.stepId}}}`;
+      report(ctx, step, `References step ${ref.stepId}, which has no Make module`);
+      return `{{${ref.stepId}${ref.path ? `.${ref.path}` : ''}}}`;
+    }
+    const mapped = toMakeRef(ref.expression, ctx, scope);
+    if (mapped) return mapped;
+    report(ctx, step, `Expression "${ref.expression}" needs rewriting with Make functions`);
+    return `{{${ref.expression}}}`;
+  }) ?? value;
+}
+
+function mapperOf(step: AutomationStep, ctx: ExportContext, scope: FlowScope): Record<string, unknown> {
+  const mapper: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(step.inputs || {})) {
+    if (!RESERVED_INPUTS.includes(key)) mapper[key] = toMakeValue(value, step, ctx, scope);
+  }
+  return mapper;
+}
+
+const OPERATORS: Record<string, [text: string, number: string]> = {
+  '=': ['text:equal', 'number:equal'],
+  '==': ['text:equal', 'number:equal'],
+  '!=': ['text:notequal', 'number:notequal'],
+  '>': ['number:greater', 'number:greater'],
+  '>=': ['number:greaterorequal', 'number:greaterorequal'],
+  '<': ['number:less', 'number:less'],
+  '<=': ['number:lessorequal', 'number:lessorequal']
+};
+
+/**
+ * Operand of a condition: a literal, a template or a path. Returns null
+ * when it cannot be expressed in a filter.
+ */
+function operand(text: string, step: AutomationStep, ctx: ExportContext, scope: FlowScope): { value: string; numeric: boolean } | null {
+  const quoted = /^(['"])(.*)\1$/.exec(text);
+  if (quoted) return { value: quoted[2], numeric: false };
+  if (/^-?\d+(\.\d+)?$/.test(text)) return { value: text, numeric: true };
+  if (text === 'true' || text === 'false') return { value: text, numeric: false };
+  if (text.includes('{{')) return { value: toMakeValue(text, step, ctx, scope), numeric: false };
+  const ref = toMakeRef(text, ctx, scope);
+  return ref ? { value: ref, numeric: false } : null;
+}
+
+/**
+ * JSONata branch condition -> Make filter. Handles comparisons and bare
+ * boolean paths joined by `and` / `or`; anything else is reported.
+ */
+function toMakeFilter(edge: BlueprintEdge, step: AutomationStep, ctx: ExportContext, scope: FlowScope): MakeFilter | undefined {
+  const condition = (edge.condition || '').trim();
+  if (!condition || condition === 'true') return undefined;
+  const groups = condition.split(/\s+or\s+/).map(group => group.split(/\s+and\s+/).map(part => {
+    const comparison = /^(.+?)\s*(>=|<=|!=|==|=|>|<)\s*(.+)$/.exec(part.trim());
+    if (!comparison) {
+      const subject = operand(part.trim(), step, ctx, scope);
+      return subject && { a: subject.value, o: 'boolean:equal', b: 'true' };
+    }
+    const left = operand(comparison[1], step, ctx, scope);
+    const right = operand(comparison[3], step, ctx, scope);
+    if (!left || !right) return null;
+    const [text, number] = OPERATORS[comparison[2]];
+    return { a: left.value, o: right.numeric ? number : text, b: right.value };
+  }));
+  if (groups.some(group => group.some(c => c === null))) {
+    report(ctx, step, `Branch condition "${condition}" needs a manual filter`);
+    return { name: condition, conditions: [] };
+  }
+  return { name: condition, conditions: groups as MakeFilterCondition[][] };
+}
+
+function designer(ctx: ExportContext, stepId: number, offset = 0, name?: string): MakeModule['metadata'] {
+  const cell = ctx.grid.get(stepId) ?? { column: 0, row: 0 };
+  return { designer: { x: Math.round((cell.column + offset) * SPACING), y: Math.round(cell.row * SPACING), ...(name && { name }) } };
+}
+
+/** Designer position one slot to the right of `module` */
+function after(module: MakeModule | undefined, name?: string): MakeModule['metadata'] {
+  const { x, y } = module?.metadata.designer ?? { x: 0, y: 0 };
+  return { designer: { x: x + SPACING, y, ...(name && { name }) } };
+}
+
+function placeholder(step: AutomationStep, ctx: ExportContext, reason: string): MakeModule {
+  report(ctx, step, reason);
+  return {
+    id: step.id,
+    module: 'util:SetVariable2',
+    version: 1,
+    parameters: {},
+    mapper: { name: slugify(step.title), scope: 'roundtrip', value: '' },
+    metadata: designer(ctx, step.id, 0, step.title)
+  };
+}
+
+function appModule(step: AutomationStep, ctx: ExportContext, scope: FlowScope): MakeModule {
+  const app = APP_MODULES.find(candidate => matchesKeywords(step, candidate.keywords));
+  if (!app) return placeholder(step, ctx, 'No known Make module; exported as a Set Variable placeholder');
+  const module: MakeModule = {
+    id: step.id,
+    module: app.module,
+    version: app.version,
+    parameters: app.connection ? { __IMTCONN__: null } : {},
+    mapper: mapperOf(step, ctx, scope),
+    metadata: designer(ctx, step.id, 0, step.title)
+  };
+  if (app.connection) {
+    const secret = findSecret(ctx.secrets, [...app.keywords, app.label]);
+    module.metadata.restore = { parameters: { __IMTCONN__: { label: secret?.key ?? `${app.label} connection` } } };
+  }
+  return module;
+}
+
+const isPureRouter = (step: AutomationStep, branches: BlueprintEdge[]) =>
+  branches.length > 0 && step.type === 'logic' && !step.inputs?.js && !step.inputs?.jsonata;
+
+/**
+ * The module for a single step, or null when the step has no module of
+ * its own (schedule triggers, routing-only logic steps)
+ */
+function stepModule(step: AutomationStep, ctx: ExportContext, scope: FlowScope): MakeModule | null {
+  const params = step.inputs || {};
+  const branches = outgoing(ctx.blueprint, step.id).filter(edge => edge.type === 'branch');
+  if (isPureRouter(step, branches)) return null;
+
+  switch (step.type) {
+    case 'trigger': {
+      if (matchesKeywords(step, ['schedule', 'cron', 'every', 'daily', 'hourly', 'weekly'])) {
+        report(ctx, step, 'Make schedules scenarios in the scenario settings; set the schedule there');
+        return null;
+      }
+      if (!matchesKeywords(step, ['webhook', 'http', 'form', 'api'])) {
+        report(ctx, step, "Exported as a custom webhook; swap in the app's watch module if it has one");
+      }
+      return { id: step.id, module: 'gateway:CustomWebHook', version: 1, parameters: { hook: null, maxResults: 1 }, mapper: {}, metadata: designer(ctx, step.id, 0, step.title) };
+    }
+    case 'logic': {
+      if (params.js || params.jsonata) {
+        return placeholder(step, ctx, `${params.js ? 'JavaScript' : 'JSONata'} transform needs rebuilding with Make functions`);
+      }
+      const variables = Object.entries(mapperOf(step, ctx, scope)).map(([name, value]) => ({ name, value }));
+      if (variables.length === 0) return null;
+      return { id: step.id, module: 'util:SetVariables', version: 1, parameters: {}, mapper: { variables, scope: 'roundtrip' }, metadata: designer(ctx, step.id, 0, step.title) };
+    }
+    case 'loop': {
+      const array = params.items ? toMakeValue(params.items, step, ctx, scope) : '';
+      if (!array) report(ctx, step, 'Loop has no `items` to iterate; set the Iterator array');
+      return { id: step.id, module: 'builtin:BasicFeeder', version: 1, parameters: {}, mapper: { array }, metadata: designer(ctx, step.id, 0, step.title) };
+    }
+    case 'delay': {
+      const { amount, unit } = parseDuration(params.duration);
+      const seconds = amount * { seconds: 1, minutes: 60, hours: 3600, days: 86400 }[unit];
+      if (seconds > MAX_SLEEP_SECONDS) report(ctx, step, `Make's Sleep module waits at most ${MAX_SLEEP_SECONDS}s; split the scenario or use a data store for longer delays`);
+      return { id: step.id, module: 'util:FunctionSleep', version: 1, parameters: {}, mapper: { duration: String(Math.min(seconds, MAX_SLEEP_SECONDS)) }, metadata: designer(ctx, step.id, 0, step.title) };
+    }
+    case 'human-approval':
+      return placeholder(step, ctx, 'Make has no built-in approval step; add a webhook response or an app approval module');
+    case 'sub-workflow':
+      return placeholder(step, ctx, 'Call the sub-scenario with its own webhook or a scenario-call module');
+    default:
+      return appModule(step, ctx, scope);
+  }
+}
+
+/**
+ * Modules for the path starting at `id`, following `next` edges until the
+ * flow ends, branches or reaches a step already placed elsewhere
+ */
+function buildFlow(id: number, ctx: ExportContext, scope: FlowScope, filter?: MakeFilter): MakeModule[] {
+  const flow: MakeModule[] = [];
+  let pendingFilter = filter;
+  let current: number | undefined = id;
+  let source = scope.source;
+
+  const push = (module: MakeModule) => {
+    if (pendingFilter) module.filter = pendingFilter;
+    pendingFilter = undefined;
+    flow.push(module);
+  };
+
+  while (current !== undefined) {
+    const step = ctx.blueprint.steps.find(s => s.id === current);
+    if (!step) break;
+    if (ctx.placed.has(step.id)) {
+      report(ctx, step, 'Reached from several paths; Make routes cannot merge, so it is only placed on the first one');
+      break;
+    }
+    ctx.placed.add(step.id);
+
+    const module = stepModule(step, ctx, { ...scope, source });
+    if (module) {
+      ctx.emitted.add(step.id);
+      push(module);
+      source = module.id;
+    }
+
+    const edges = outgoing(ctx.blueprint, step.id);
+    const errorEdges = edges.filter(edge => edge.type === 'error');
+    if (module && errorEdges.length > 0) {
+      const handlers = errorEdges.flatMap(edge => buildFlow(edge.to, ctx, { ...scope, source }));
+      const ignore: MakeModule = { id: ctx.nextId++, module: 'builtin:Ignore', version: 1, parameters: {}, mapper: null, metadata: after(handlers[handlers.length - 1] ?? module) };
+      module.onerror = [...handlers, ignore];
+    }
+
+    if (step.type === 'loop' && module) {
+      const bodyScope = { ...scope, source: module.id, iterator: module.id };
+      for (const edge of edges.filter(e => e.type === 'loop')) flow.push(...buildFlow(edge.to, ctx, bodyScope));
+      if (edges.some(edge => edge.type === 'next')) {
+        push({ id: ctx.nextId++, module: 'builtin:BasicAggregator', version: 1, parameters: { feeder: module.id }, mapper: null, metadata: after(flow[flow.length - 1], `${step.title} (collect)`) });
+      }
+    }
+
+    const onward = edges.filter(edge => edge.type === 'next' || edge.type === 'branch');
+    if (onward.length === 1) {
+      if (onward[0].type === 'branch') pendingFilter = toMakeFilter(onward[0], step, ctx, { ...scope, source });
+      current = onward[0].to;
+      continue;
+    }
+    if (onward.length > 1) {
+      const routeScope = { ...scope, source };
+      const routes = onward.map(edge => ({
+        flow: buildFlow(edge.to, ctx, routeScope, edge.type === 'branch' ? toMakeFilter(edge, step, ctx, routeScope) : undefined)
+      }));
+      const routerId = module ? ctx.nextId++ : step.id;
+      push({ id: routerId, module: 'builtin:BasicRouter', version: 1, parameters: {}, mapper: null, metadata: designer(ctx, step.id, module ? 0.5 : 0, module ? undefined : step.title), routes });
+    }
+    current = undefined;
+  }
+  return flow;
+}
+
+function buildScenario(source: AutomationResult, options: ExportOptions): { scenario: MakeScenario; unmapped: UnmappedStep[] } {
+  const blueprint = upgradeBlueprint(source);
+  const trigger = blueprint.steps.find(step => step.type === 'trigger') ?? blueprint.steps[0];
+  const ctx: ExportContext = {
+    blueprint,
+    grid: layoutGrid(blueprint),
+    secrets: options.secrets,
+    unmapped: [],
+    placed: new Set(),
+    emitted: new Set(),
+    triggerId: trigger?.id,
+    nextId: Math.max(0, ...blueprint.steps.map(step => step.id)) + 1
+  };
+
+  const flow = trigger ? buildFlow(trigger.id, ctx, {}) : [];
+  for (const step of blueprint.steps) {
+    if (!ctx.placed.has(step.id)) report(ctx, step, 'Not reachable from the trigger; left out of the scenario');
+  }
+
+  const scenario: MakeScenario = {
+    name: workflowName(blueprint, options.name),
+    flow,
+    metadata: {
+      instant: flow[0]?.module === 'gateway:CustomWebHook',
+      version: 1,
+      scenario: SCENARIO_SETTINGS,
+      designer: { orphans: [] },
+      zone: 'us1.make.com'
+    }
+  };
+  return { scenario, unmapped: ctx.unmapped.sort((a, b) => a.stepId - b.stepId) };
+}
+
+export const toMakeScenario = (blueprint: AutomationResult, options: ExportOptions = {}): MakeScenario =>
+  buildScenario(blueprint, options).scenario;
+
+export const makeExporter: PlatformExporter = {
+  label: 'Make Scenario',
+  export(blueprint, options = {}) {
+    const { scenario, unmapped } = buildScenario(blueprint, options);
+    return {
+      filename: `${slugify(scenario.name)}.make.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify(scenario, null, 2),
+      unmapped
+    };
+  }
+};
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { n8nExporter, toN8nWorkflow } from './n8nExporter';
+import { AutomationResult, SecretRequirement } from '../../types';
+import linear from './fixtures/n8n/linear.json';
+import graph from './fixtures/n8n/graph.json';
+
+interface Fixture {
+  blueprint: AutomationResult;
+  secrets?: SecretRequirement[];
+  expected: unknown;
+}
+
+const fixtures = { linear, graph } as unknown as Record<string, Fixture>;
+
+describe('toN8nWorkflow', () => {
+  it.each(Object.keys(fixtures))('should match the %s fixture workflow', (name) => {
+    const { blueprint, secrets, expected } = fixtures[name];
+    expect(toN8nWorkflow(blueprint, { secrets })).toEqual(expected);
+  });
+
+  it('should only connect nodes that exist and keep node names unique', () => {
+    for (const { blueprint } of Object.values(fixtures)) {
+      const workflow = toN8nWorkflow(blueprint);
+      const names = workflow.nodes.map(node => node.name);
+      expect(new Set(names).size).toBe(names.length);
+      for (const [from, { main }] of Object.entries(workflow.connections)) {
+        expect(names).toContain(from);
+        main.flat().forEach(connection => expect(names).toContain(connection.node));
+      }
+    }
+  });
+
+  it('should insert a router after branching actions and map unknown steps to NoOp', () => {
+    const workflow = toN8nWorkflow({
+      platform: 'n8n',
+      explanation: 'Route',
+      steps: [
+        { id: 1, title: 'Start', description: '', type: 'trigger' },
+        { id: 2, title: 'Fetch lead', description: '', type: 'action', inputs: { app: 'hubspot' } },
+        { id: 3, title: 'Notify', description: '', type: 'action' },
+        { id: 4, title: 'Notify', description: '', type: 'action' }
+      ],
+      edges: [
+        { from: 1, to: 2, type: 'next' },
+        { from: 2, to: 3, type: 'branch', condition: 'score >= 50' },
+        { from: 2, to: 4, type: 'next' }
+      ]
+    });
+
+    expect(workflow.nodes.map(node => [node.name, node.type])).toEqual([
+      ['Start', 'n8n-nodes-base.manualTrigger'],
+      ['Fetch lead', 'n8n-nodes-base.hubspot'],
+      ['Fetch lead Router', 'n8n-nodes-base.switch'],
+      ['Notify', 'n8n-nodes-base.noOp'],
+      ['Notify 1', 'n8n-nodes-base.noOp']
+    ]);
+    expect(workflow.connections['Fetch lead'].main).toEqual([[{ node: 'Fetch lead Router', type: 'main', index: 0 }]]);
+    expect(workflow.connections['Fetch lead Router'].main.map(output => output.map(c => c.node))).toEqual([['Notify'], ['Notify 1']]);
+    expect(workflow.nodes[1].credentials).toEqual({ hubspotAppToken: { id: '', name: 'HubSpot account' } });
+  });
+
+  it('should keep router names distinct from step titles', () => {
+    const workflow = toN8nWorkflow({
+      platform: 'n8n',
+      explanation: 'Route',
+      steps: [
+        { id: 1, title: 'Start', description: '', type: 'trigger' },
+        { id: 2, title: 'Check', description: '', type: 'action' },
+        { id: 3, title: 'Check Router', description: '', type: 'action' }
+      ],
+      edges: [
+        { from: 1, to: 2, type: 'next' },
+        { from: 2, to: 3, type: 'branch', condition: 'ok' }
+      ]
+    });
+
+    expect(workflow.nodes.map(node => node.name)).toEqual(['Start', 'Check', 'Check Router 1', 'Check Router']);
+    expect(workflow.connections['Check'].main).toEqual([[{ node: 'Check Router 1', type: 'main', index: 0 }]]);
+    expect(workflow.connections['Check Router 1'].main.map(output => output.map(c => c.node))).toEqual([['Check Router']]);
+  });
+});
+
+describe('n8nExporter', () => {
+  it('should name the file after the workflow and report unmapped steps', () => {
+    const file = n8nExporter.export(fixtures.linear.blueprint, { name: 'Stripe → Slack' });
+    expect(file.filename).toBe('stripe-slack.n8n.json');
+    expect(JSON.parse(file.content as string).name).toBe('Stripe → Slack');
+    expect(file.unmapped).toEqual([{ stepId: 4, title: 'Update CRM', reason: 'No native n8n node; exported as a NoOp placeholder' }]);
+  });
+});
@@ -0,0 +1,406 @@
+import { AutomationResult, AutomationStep, BlueprintEdge, SecretRequirement } from "../../types";
+import { outgoing, upgradeBlueprint } from "../../utils/blueprintGraph";
+import { ExportOptions, PlatformExporter, UnmappedStep } from "./types";
+import { findSecret, layoutGrid, matchesKeywords, parseDuration, rewriteTemplates, slugify, TemplateRef, uniqueName, uniqueNames, workflowName } from "./common";
+
+/**
+ * Blueprint -> n8n workflow JSON, importable via "Import from File".
+ *
+ * Steps map to native nodes by kind and by app keywords in the title (or
+ * `inputs.app`). Branch edges become a Switch node, loops a Loop Over
+ * Items node whose body feeds back into it, and error edges use the
+ * node's error output. Credentials are left as named placeholders taken
+ * from the deployment secrets. Steps without a native node become NoOp
+ * nodes with a note.
+ */
+
+export interface N8nNode {
+  id: string;
+  name: string;
+  type: string;
+  typeVersion: number;
+  position: [number, number];
+  parameters: Record<string, unknown>;
+  credentials?: Record<string, { id: string; name: string }>;
+  webhookId?: string;
+  onError?: 'continueErrorOutput';
+  notes?: string;
+  notesInFlow?: boolean;
+}
+
+export interface N8nConnection {
+  node: string;
+  type: 'main';
+  index: number;
+}
+
+export interface N8nWorkflow {
+  name: string;
+  nodes: N8nNode[];
+  connections: Record<string, { main: N8nConnection[][] }>;
+  pinData: Record<string, never>;
+  settings: { executionOrder: 'v1' };
+  active: false;
+  tags: string[];
+  meta: { generatedBy: string };
+}
+
+interface AppNode {
+  type: string;
+  typeVersion: number;
+  keywords: string[];
+  /** n8n credential type, e.g. `slackApi` */
+  credential?: string;
+  label: string;
+}
+
+/** Checked in order; the first keyword match wins */
+const APP_NODES: AppNode[] = [
+  { type: 'n8n-nodes-base.slack', typeVersion: 2.2, keywords: ['slack'], credential: 'slackApi', label: 'Slack' },
+  { type: 'n8n-nodes-base.gmail', typeVersion: 2.1, keywords: ['gmail'], credential: 'gmailOAuth2', label: 'Gmail' },
+  { type: 'n8n-nodes-base.googleSheets', typeVersion: 4.5, keywords: ['sheet'], credential: 'googleSheetsOAuth2Api', label: 'Google Sheets' },
+  { type: 'n8n-nodes-base.airtable', typeVersion: 2.1, keywords: ['airtable'], credential: 'airtableTokenApi', label: 'Airtable' },
+  { type: 'n8n-nodes-base.notion', typeVersion: 2.2, keywords: ['notion'], credential: 'notionApi', label: 'Notion' },
+  { type: 'n8n-nodes-base.hubspot', typeVersion: 2.1, keywords: ['hubspot'], credential: 'hubspotAppToken', label: 'HubSpot' },
+  { type: 'n8n-nodes-base.stripe', typeVersion: 1, keywords: ['stripe'], credential: 'stripeApi', label: 'Stripe' },
+  { type: 'n8n-nodes-base.telegram', typeVersion: 1.2, keywords: ['telegram'], credential: 'telegramApi', label: 'Telegram' },
+  { type: '@n8n/n8n-nodes-langchain.openAi', typeVersion: 1.8, keywords: ['openai', 'gpt'], credential: 'openAiApi', label: 'OpenAI' },
+  { type: 'n8n-nodes-base.emailSend', typeVersion: 2.1, keywords: ['email', 'mail', 'smtp'], credential: 'smtp', label: 'SMTP' },
+  { type: 'n8n-nodes-base.httpRequest', typeVersion: 4.2, keywords: ['http', 'api', 'request', 'fetch'], label: 'HTTP' }
+];
+
+const RESERVED_INPUTS = ['app', 'js', 'jsonata'];
+
+const COLUMN_WIDTH = 260;
+const ROW_HEIGHT = 180;
+const ORIGIN: [number, number] = [260, 300];
+
+/** Deterministic UUID-shaped ids so re-exports diff cleanly */
+const nodeId = (n: number) => `00000000-0000-4000-8000-${n.toString(16).padStart(12, '0')}`;
+const ROUTER_ID_OFFSET = 0x10000;
+const WEBHOOK_ID_OFFSET = 0x20000;
+
+interface ExportContext {
+  blueprint: AutomationResult;
+  names: Map<number, string>;
+  triggerName: string;
+  secrets?: SecretRequirement[];
+  unmapped: UnmappedStep[];
+}
+
+const JS_KEYWORDS = new Set(['true', 'false', 'null', 'undefined', 'and', 'or', 'not', 'in', 'typeof']);
+
+/**
+ * JSONata-style path or expression -> n8n JavaScript expression. Bare
+ * identifiers read the incoming item (`$json`); `$input` is the trigger
+ * payload.
+ */
+function toN8nJs(expression: string, ctx: ExportContext): string {
+  return expression
+    .split(/('[^']*'|"[^"]*")/)
+    .map((part, i) => i % 2 === 1 ? part : part
+      .replace(/(?<![\w$.])([A-Za-z_]\w*(?:\.\w+)*)(?![\w(])/g, (match, path: string) =>
+        JS_KEYWORDS.has(path.split('.')[0]) ? match : `$json.${path}`)
+      .replace(/\$(?![\w(])/g, '$json')
+      .replace(/\$input\b/g, () => `$('${ctx.triggerName}').item.json`)
+      .replace(/\s+and\s+/g, ' && ')
+      .replace(/\s+or\s+/g, ' || ')
+      .replace(/(?<![=!<>])=(?!=)/g, '==='))
+    .join('');
+}
+
+const renderRef = (ctx: ExportContext) => (ref: TemplateRef) =>
+  ref.kind === 'step'
+    ? `{{ $('${ctx.names.get(ref.stepId) ?? ctx.triggerName}').item.json${ref.path ? `.${ref.path}` : ''} }}`
+    : `{{ ${toN8nJs(ref.expression, ctx)} }}`;
+
+/**
+ * Parameter value with `{{...}}` templates as an n8n expression (`=` prefix)
+ */
+function toN8nValue(value: string, ctx: ExportContext): string {
+  const rewritten = rewriteTemplates(value, renderRef(ctx));
+  return rewritten === null ? value : `=${rewritten}`;
+}
+
+function toN8nCondition(condition: string, ctx: ExportContext): string {
+  const rewritten = rewriteTemplates(condition, renderRef(ctx));
+  if (rewritten !== null) return `=${rewritten}`;
+  return `={{ ${toN8nJs(condition, ctx)} }}`;
+}
+
+function parametersOf(step: AutomationStep, ctx: ExportContext): Record<string, unknown> {
+  const parameters: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(step.inputs || {})) {
+    if (!RESERVED_INPUTS.includes(key)) parameters[key] = toN8nValue(value, ctx);
+  }
+  return parameters;
+}
+
+function jsCodeNode(step: AutomationStep, ctx: ExportContext): Pick<N8nNode, 'type' | 'typeVersion' | 'parameters' | 'notes'> {
+  const inputs = step.inputs || {};
+  if (inputs.jsonata) {
+    ctx.unmapped.push({ stepId: step.id, title: step.title, reason: 'JSONata transform needs porting to a JavaScript Code node' });
+    return {
+      type: 'n8n-nodes-base.code',
+      typeVersion: 2,
+      parameters: { jsCode: `// JSONata transform from the blueprint; port it to JavaScript:\n// ${inputs.jsonata.replace(/\n/g, '\n// ')}\nreturn $input.all();` },
+      notes: 'JSONata transform needs porting to JavaScript.'
+    };
+  }
+  let body = inputs.js!;
+  try {
+    new Function(`return (${body}\n);`);
+    body = `return ${body.trim()};`;
+  } catch {
+    // A full function body; used as is
+  }
+  const jsCode = [
+    'const data = $input.first().json;',
+    `const input = $('${ctx.triggerName}').first().json;`,
+    'const item = data;',
+    'const result = (() => {',
+    ...body.split('\n').map(line => `  ${line}`),
+    '})();',
+    'return [{ json: result !== null && typeof result === \'object\' && !Array.isArray(result) ? result : { value: result } }];'
+  ].join('\n');
+  return { type: 'n8n-nodes-base.code', typeVersion: 2, parameters: { jsCode } };
+}
+
+function appNode(step: AutomationStep, ctx: ExportContext): Omit<N8nNode, 'id' | 'name' | 'position'> {
+  const app = APP_NODES.find(node => matchesKeywords(step, node.keywords));
+  if (!app) {
+    ctx.unmapped.push({ stepId: step.id, title: step.title, reason: 'No native n8n node; exported as a NoOp placeholder' });
+    return {
+      type: 'n8n-nodes-base.noOp',
+      typeVersion: 1,
+      parameters: {},
+      notes: `No native n8n node for "${step.title}"; replace with the right app node. ${step.description}`.trim(),
+      notesInFlow: true
+    };
+  }
+  let parameters = parametersOf(step, ctx);
+  if (app.type === 'n8n-nodes-base.httpRequest') {
+    const { method = 'GET', url = '', ...rest } = parameters;
+    parameters = { method, url, ...rest };
+  }
+  const node: Omit<N8nNode, 'id' | 'name' | 'position'> = { type: app.type, typeVersion: app.typeVersion, parameters };
+  if (app.credential) {
+    const secret = findSecret(ctx.secrets, [...app.keywords, app.label]);
+    node.credentials = { [app.credential]: { id: '', name: secret?.key ?? `${app.label} account` } };
+  }
+  return node;
+}
+
+function triggerNode(step: AutomationStep, name: string): Omit<N8nNode, 'id' | 'name' | 'position'> {
+  if (matchesKeywords(step, ['schedule', 'cron', 'every', 'daily', 'hourly', 'weekly'])) {
+    return { type: 'n8n-nodes-base.scheduleTrigger', typeVersion: 1.2, parameters: { rule: { interval: [{}] } } };
+  }
+  if (matchesKeywords(step, ['webhook', 'http', 'form', 'api'])) {
+    return {
+      type: 'n8n-nodes-base.webhook',
+      typeVersion: 2,
+      parameters: { httpMethod: 'POST', path: slugify(name), options: {} },
+      webhookId: nodeId(WEBHOOK_ID_OFFSET + step.id)
+    };
+  }
+  return { type: 'n8n-nodes-base.manualTrigger', typeVersion: 1, parameters: {} };
+}
+
+const branchEdges = (blueprint: AutomationResult, id: number) => outgoing(blueprint, id).filter(edge => edge.type === 'branch');
+
+const isPureRouter = (step: AutomationStep, branches: BlueprintEdge[]) =>
+  branches.length > 0 && step.type === 'logic' && !step.inputs?.js && !step.inputs?.jsonata;
+
+function switchNode(branches: BlueprintEdge[], ctx: ExportContext): Omit<N8nNode, 'id' | 'name' | 'position'> {
+  return {
+    type: 'n8n-nodes-base.switch',
+    typeVersion: 3,
+    parameters: {
+      rules: {
+        values: branches.map(edge => ({
+          conditions: {
+            options: { caseSensitive: true, leftValue: '', typeValidation: 'loose' },
+            conditions: [{
+              leftValue: toN8nCondition(edge.condition || 'true', ctx),
+              rightValue: '',
+              operator: { type: 'boolean', operation: 'true', singleValue: true }
+            }],
+            combinator: 'and'
+          },
+          renameOutput: true,
+          outputKey: edge.condition || 'true'
+        }))
+      },
+      options: { fallbackOutput: 'extra' }
+    }
+  };
+}
+
+function stepNode(step: AutomationStep, ctx: ExportContext, name: string): Omit<N8nNode, 'id' | 'name' | 'position'> {
+  const params = step.inputs || {};
+  const branches = branchEdges(ctx.blueprint, step.id);
+  if (step.type === 'trigger') return triggerNode(step, name);
+  if (isPureRouter(step, branches)) return switchNode(branches, ctx);
+  if (params.js || params.jsonata) return jsCodeNode(step, ctx);
+
+  switch (step.type) {
+    case 'loop':
+      return {
+        type: 'n8n-nodes-base.splitInBatches',
+        typeVersion: 3,
+        parameters: { options: {} },
+        ...(params.items && { notes: `Items: ${params.items}` })
+      };
+    case 'delay': {
+      const { amount, unit } = parseDuration(params.duration);
+      return { type: 'n8n-nodes-base.wait', typeVersion: 1.1, parameters: { amount, unit } };
+    }
+    case 'human-approval':
+      return {
+        type: 'n8n-nodes-base.wait',
+        typeVersion: 1.1,
+        parameters: { resume: 'webhook', options: {} },
+        webhookId: nodeId(WEBHOOK_ID_OFFSET + step.id),
+        notes: 'Call the resume URL to approve.'
+      };
+    case 'sub-workflow':
+      return {
+        type: 'n8n-nodes-base.executeWorkflow',
+        typeVersion: 1.1,
+        parameters: { source: 'database', workflowId: params.workflowId ?? '' }
+      };
+    case 'logic': {
+      const assignments = Object.entries(parametersOf(step, ctx)).map(([key, value], i) => ({
+        id: nodeId(step.id * 100 + i + 1), name: key, value, type: 'string'
+      }));
+      return assignments.length > 0
+        ? { type: 'n8n-nodes-base.set', typeVersion: 3.4, parameters: { assignments: { assignments }, options: {} } }
+        : { type: 'n8n-nodes-base.noOp', typeVersion: 1, parameters: {} };
+    }
+    default:
+      return appNode(step, ctx);
+  }
+}
+
+/**
+ * Steps inside a loop body: reachable from the loop edges without passing
+ * back through the loop step
+ */
+function loopBody(blueprint: AutomationResult, loopId: number): number[] {
+  const body: number[] = [];
+  const queue = outgoing(blueprint, loopId).filter(edge => edge.type === 'loop').map(edge => edge.to);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === loopId || body.includes(id)) continue;
+    body.push(id);
+    queue.push(...outgoing(blueprint, id).filter(edge => edge.type !== 'error').map(edge => edge.to));
+  }
+  return body;
+}
+
+function buildWorkflow(source: AutomationResult, options: ExportOptions): { workflow: N8nWorkflow; unmapped: UnmappedStep[] } {
+  const blueprint = upgradeBlueprint(source);
+  // Connections are keyed by node name, so Switch nodes share the step names' pool
+  const taken = new Set<string>();
+  const names = uniqueNames(blueprint.steps, taken);
+  const trigger = blueprint.steps.find(step => step.type === 'trigger') ?? blueprint.steps[0];
+  const ctx: ExportContext = { blueprint, names, triggerName: trigger ? names.get(trigger.id)! : '', secrets: options.secrets, unmapped: [] };
+  const grid = layoutGrid(blueprint);
+
+  const nodes: N8nNode[] = [];
+  const connections: N8nWorkflow['connections'] = {};
+  const connect = (from: string, output: number, to: string) => {
+    const main = (connections[from] ??= { main: [] }).main;
+    while (main.length <= output) main.push([]);
+    if (!main[output].some(c => c.node === to)) main[output].push({ node: to, type: 'main', index: 0 });
+  };
+
+  // Where each step's edges leave from: the step itself, or a Switch node
+  // inserted after it when a non-router step branches
+  const exits = new Map<number, { name: string; branchOutputs: Map<BlueprintEdge, number>; fallback: number; mainOutputs: number }>();
+
+  for (const step of blueprint.steps) {
+    const name = names.get(step.id)!;
+    const cell = grid.get(step.id)!;
+    const position: [number, number] = [ORIGIN[0] + cell.column * COLUMN_WIDTH, ORIGIN[1] + Math.round(cell.row * ROW_HEIGHT)];
+    const node: N8nNode = { id: nodeId(step.id), name, position, ...stepNode(step, ctx, name) };
+    nodes.push(node);
+
+    const branches = branchEdges(blueprint, step.id);
+    const branchOutputs = new Map(branches.map((edge, i) => [edge, i]));
+    if (branches.length === 0 || isPureRouter(step, branches)) {
+      const mainOutputs = node.type === 'n8n-nodes-base.splitInBatches' ? 2 : branches.length > 0 ? branches.length + 1 : 1;
+      exits.set(step.id, { name, branchOutputs, fallback: branches.length, mainOutputs });
+    } else {
+      const routerName = uniqueName(`${name} Router`, taken);
+      nodes.push({
+        id: nodeId(ROUTER_ID_OFFSET + step.id),
+        name: routerName,
+        position: [position[0] + COLUMN_WIDTH / 2, position[1] + ROW_HEIGHT / 2],
+        ...switchNode(branches, ctx)
+      });
+      connect(name, 0, routerName);
+      exits.set(step.id, { name: routerName, branchOutputs, fallback: branches.length, mainOutputs: 1 });
+    }
+  }
+
+  for (const step of blueprint.steps) {
+    const exit = exits.get(step.id)!;
+    const isLoop = step.type === 'loop';
+    for (const edge of outgoing(blueprint, step.id)) {
+      const target = names.get(edge.to)!;
+      switch (edge.type) {
+        case 'loop':
+          connect(exit.name, 1, target);
+          break;
+        case 'branch':
+          connect(exit.name, exit.branchOutputs.get(edge)!, target);
+          break;
+        case 'error': {
+          const node = nodes.find(n => n.name === names.get(step.id))!;
+          node.onError = 'continueErrorOutput';
+          connect(node.name, exits.get(step.id)!.name === node.name ? exit.mainOutputs : 1, target);
+          break;
+        }
+        default:
+          // A Loop Over Items node continues on its "done" output (0)
+          connect(exit.name, isLoop ? 0 : exit.branchOutputs.size > 0 ? exit.fallback : 0, target);
+      }
+    }
+    if (isLoop) {
+      const body = loopBody(blueprint, step.id);
+      for (const id of body) {
+        const continues = outgoing(blueprint, id).some(edge => edge.type !== 'error' && body.includes(edge.to));
+        if (!continues) connect(exits.get(id)!.name, 0, names.get(step.id)!);
+      }
+    }
+  }
+
+  const workflow: N8nWorkflow = {
+    name: workflowName(blueprint, options.name),
+    nodes,
+    connections,
+    pinData: {},
+    settings: { executionOrder: 'v1' },
+    active: false,
+    tags: [],
+    meta: { generatedBy: 'AutoArchitect' }
+  };
+  return { workflow, unmapped: ctx.unmapped };
+}
+
+export const toN8nWorkflow = (blueprint: AutomationResult, options: ExportOptions = {}): N8nWorkflow =>
+  buildWorkflow(blueprint, options).workflow;
+
+export const n8nExporter: PlatformExporter = {
+  label: 'n8n Workflow',
+  export(blueprint, options = {}) {
+    const { workflow, unmapped } = buildWorkflow(blueprint, options);
+    return {
+      filename: `${slugify(workflow.name)}.n8n.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify(workflow, null, 2),
+      unmapped
+    };
+  }
+};
@@ -0,0 +1,36 @@
+import { AutomationResult, SecretRequirement } from "../../types";
+
+/**
+ * Contracts for native platform exporters.
+ * An exporter turns a blueprint into the file the target platform imports.
+ * Output is deterministic: the same blueprint always yields the same file.
+ */
+
+export interface ExportOptions {
+  /** Workflow name; defaults to a shortened explanation */
+  name?: string;
+  /** Deployment secrets, mapped onto credential placeholders */
+  secrets?: SecretRequirement[];
+}
+
+/** A step the exporter left as a placeholder for the user to finish */
+export interface UnmappedStep {
+  stepId: number;
+  title: string;
+  reason: string;
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  /** Text for single-file formats, bytes for archives */
+  content: string | Uint8Array;
+  /** Steps without a native equivalent; empty when everything mapped */
+  unmapped: UnmappedStep[];
+}
+
+export interface PlatformExporter {
+  /** Button label, e.g. "n8n Workflow" */
+  label: string;
+  export(blueprint: AutomationResult, options?: ExportOptions): ExportFile;
+}
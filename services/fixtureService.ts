@@ -0,0 +1,81 @@
+import { AiMode } from '../types';
+import { db, FixtureRecord, storage } from './storageService';
+
+/**
+ * Record/replay fixtures for offline and CI use.
+ *
+ * - live:   normal provider calls
+ * - record: provider calls, and every result is saved under its fingerprint
+ * - replay: results are served from saved fixtures with no network access
+ * - mock:   results are synthesized locally from the response schema
+ *
+ * The build-time AI_MODE variable wins over the stored setting so CI can
+ * force replay or mock without touching IndexedDB.
+ */
+
+const AI_MODE_SETTING = 'ai.mode';
+const AI_MODES: AiMode[] = ['live', 'record', 'replay', 'mock'];
+
+export const isAiMode = (value: string): value is AiMode =>
+  (AI_MODES as string[]).includes(value);
+
+export async function getAiMode(): Promise<AiMode> {
+  const forced = process.env.AI_MODE;
+  if (forced && isAiMode(forced)) return forced;
+  const mode = await storage.getSetting<string>(AI_MODE_SETTING, 'live');
+  return isAiMode(mode) ? mode : 'live';
+}
+
+export async function setAiMode(mode: AiMode): Promise<void> {
+  await storage.saveSetting(AI_MODE_SETTING, mode);
+}
+
+/**
+ * Portable fixture file format (exported/imported as JSON)
+ */
+export interface FixtureFile {
+  version: 1;
+  exportedAt: number;
+  fixtures: FixtureRecord[];
+}
+
+export const fixtures = {
+  async get(key: string): Promise<FixtureRecord | null> {
+    const record = await db.fixtures.get(key);
+    return record || null;
+  },
+
+  async record(key: string, value: unknown, provider: string): Promise<void> {
+    await db.fixtures.put({ key, value, provider, recordedAt: Date.now() });
+  },
+
+  async count(): Promise<number> {
+    return db.fixtures.count();
+  },
+
+  async clear(): Promise<void> {
+    await db.fixtures.clear();
+  },
+
+  async exportFile(): Promise<FixtureFile> {
+    const all = await db.fixtures.orderBy('recordedAt').toArray();
+    return { version: 1, exportedAt: Date.now(), fixtures: all };
+  },
+
+  /**
+   * Merge a fixture file into the store. Existing keys are overwritten.
+   */
+  async importFile(file: FixtureFile): Promise<number> {
+    if (!file || !Array.isArray(file.fixtures)) {
+      throw new Error('Invalid fixture file: expected a "fixtures" array.');
+    }
+    const valid = file.fixtures.filter(f => f && typeof f.key === 'string' && 'value' in f);
+    await db.fixtures.bulkPut(valid.map(f => ({
+      key: f.key,
+      value: f.value,
+      provider: f.provider || 'unknown',
+      recordedAt: f.recordedAt || Date.now()
+    })));
+    return valid.length;
+  }
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { requestScheduler } from '../utils/scheduler';
+import { analyzeImage, executePrompt } from './geminiService';
+
+vi.mock('./fixtureService', () => ({
+  getAiMode: async () => 'mock',
+  fixtures: { get: async () => null, record: async () => {} }
+}));
+vi.mock('./routingService', async importOriginal => ({
+  ...await importOriginal<typeof import('./routingService')>(),
+  getRoute: async () => ({ model: 'flash' })
+}));
+vi.mock('./usageService', async importOriginal => ({
+  ...await importOriginal<typeof import('./usageService')>(),
+  usageLedger: { record: async () => {}, recordCacheHit: async () => {} }
+}));
+vi.mock('./budgetService', async importOriginal => ({
+  ...await importOriginal<typeof import('./budgetService')>(),
+  budget: { enforce: async () => {}, refresh: async () => {} }
+}));
+
+describe('in-flight de-duplication', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const sharedKeys = () => {
+    const dedupe = vi.spyOn(requestScheduler, 'dedupe');
+    return () => dedupe.mock.calls.map(([key]) => key);
+  };
+
+  it('should not share calls between prompts that differ only in case', async () => {
+    const keys = sharedKeys();
+    await Promise.all([executePrompt('Post to #Sales'), executePrompt('post to #sales'), executePrompt('post to #sales')]);
+    const [upper, lower, repeat] = keys();
+    expect(upper).not.toBe(lower);
+    expect(lower).toBe(repeat);
+  });
+
+  it('should not share calls between images with the same size and edges', async () => {
+    const keys = sharedKeys();
+    const image = (middle: string) => `${'A'.repeat(64)}${middle}${'Z'.repeat(64)}`;
+    await Promise.all([analyzeImage(image('first'), 'Describe'), analyzeImage(image('other'), 'Describe')]);
+    const [first, other] = keys();
+    expect(first).not.toBe(other);
+  });
+});
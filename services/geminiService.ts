@@ -1,12 +1,30 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { Platform, AutomationResult, SimulationResponse, AuditResult, DeploymentConfig, ComparisonResult, WorkflowDocumentation } from "../types";
+import { GoogleGenAI, Type, Modality, type Schema } from "@google/genai";
+import { Platform, AutomationResult, SimulationResponse, AuditResult, DeploymentConfig, ComparisonResult, WorkflowDocumentation, AiProviderId, AiTask, DeepPartial } from "../types";
 import { storage } from "./storageService";
-import { aiCache, LRUCache } from "../utils/cache";
-import { retryWithBackoff } from "../utils/retry";
+import { AiPart, AiProvider, AiRequest, AiResponse, createProvider, getActiveProviderId, getProviderModels } from "./providers";
+import { extractJson, toParts } from "./providers/schema";
+import { MOCK_MODELS, createMockProvider } from "./providers/mockProvider";
+import { fixtures, getAiMode } from "./fixtureService";
+import { prompts } from "./promptService";
+import { GEMINI_MODELS } from "./providers/geminiProvider";
+import { ResolvedRoute, getRoute, resolveModel } from "./routingService";
+import { responseCache } from "./cacheService";
+import { MeteredUsage, blueprintRef, costKeyFor, estimateRequestTokens, meterProvider, usageLedger } from "./usageService";
+import { CostEstimate, budget } from "./budgetService";
+import { latencyMetric } from "./analyticsService";
+import { LRUCache, hashKey } from "../utils/cache";
+import { parsePartialJson } from "../utils/partialJson";
+import { SchemaViolation, formatViolations, validateAgainstSchema } from "../utils/schemaValidator";
+import { AiServiceError } from "../utils/errors";
+import { abortError, isAbortError, isRetryableError, retryBudget, retryWithBackoff } from "../utils/retry";
+import { circuitBreakers } from "../utils/circuitBreaker";
+import { RequestPriority, requestScheduler } from "../utils/scheduler";
 import { logger } from "../utils/logger";
+import { Span, SpanContext, tracer } from "../utils/tracing";
+import { performanceMonitor } from "../utils/performance";
 import { sanitizePrompt } from "../utils/sanitize";
-import { estimateTokenCount, usageTracker } from "../utils/tokens";
+import { EDGE_TYPES, STEP_TYPES, upgradeBlueprint } from "../utils/blueprintGraph";
 
 /**
  * Enhanced AI Service with caching, retry logic, and usage tracking
@@ -15,6 +33,8 @@ import { estimateTokenCount, usageTracker } from "../utils/tokens";
 
 /**
  * Creates and initializes the Google GenAI client.
+ * Only used for Gemini-specific capabilities (Live API); everything else
+ * goes through the provider abstraction in ./providers.
  * Priority order: 1) Local stored key, 2) Environment variable
  */
 const createAiClient = async (): Promise<GoogleGenAI> => {
@@ -34,64 +54,367 @@ const createAiClient = async (): Promise<GoogleGenAI> => {
 };
 
 /**
- * Execute AI task with enhanced error handling, retry logic, and observability
+ * Per-call options accepted by the exported AI functions
  */
-async function executeAiTask<T>(
-  task: (ai: GoogleGenAI) => Promise<T>,
-  options: {
-    cacheKey?: string;
-    cacheable?: boolean;
-    modelType?: string;
-  } = {}
+export interface AiCallOptions<P> {
+  /** Receives progressively more complete output while the response streams */
+  onPartial?: (partial: P) => void;
+  /** Cancels the call, including pending retries; the promise rejects with an AbortError */
+  signal?: AbortSignal;
+  /** Span of the user action this call belongs to; a new trace is started when omitted */
+  trace?: SpanContext;
+}
+
+export { isAbortError } from "../utils/retry";
+
+/**
+ * Send a request, streaming when the caller wants partial output and the
+ * provider supports it. `onPartial` receives the accumulated text so far.
+ */
+const runRequest = async (provider: AiProvider, request: AiRequest, options: AiCallOptions<string> = {}): Promise<AiResponse> => {
+  const { onPartial, signal } = options;
+  if (!onPartial || !provider.generateStream) {
+    return provider.generate({ ...request, signal });
+  }
+  let text = '';
+  return provider.generateStream({ ...request, signal }, (delta) => {
+    text += delta;
+    onPartial(text);
+  });
+};
+
+/**
+ * Adapt structured call options to accumulated text by repairing the
+ * incomplete JSON after each delta.
+ */
+const jsonOptions = <T>({ onPartial, signal }: AiCallOptions<T>): AiCallOptions<string> => ({
+  signal,
+  onPartial: onPartial && ((text: string) => {
+    const partial = parsePartialJson<T>(text);
+    if (partial !== undefined) onPartial(partial);
+  })
+});
+
+/** Re-prompts allowed when structured output fails validation */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const parseStructured = (text: string, schema: Schema): { value: unknown; violations: SchemaViolation[] } => {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(text));
+  } catch {
+    return { value: undefined, violations: [{ path: '$', message: 'response is not valid JSON' }] };
+  }
+  return { value, violations: validateAgainstSchema(value, schema) };
+};
+
+const repairContents = async (request: AiRequest, previous: string, violations: SchemaViolation[]): Promise<AiPart[]> => {
+  const repair = await prompts.resolve('structured.repair', {
+    violations: formatViolations(violations),
+    previous: previous.slice(0, 8000)
+  });
+  return [...toParts(request.contents), { text: repair.user }];
+};
+
+/**
+ * Request structured output and validate it against its response schema.
+ * Invalid output triggers up to MAX_REPAIR_ATTEMPTS re-prompts quoting the
+ * violations; output that still fails raises an INVALID_RESPONSE error.
+ */
+async function generateStructured<T>(
+  provider: AiProvider,
+  request: AiRequest & { responseSchema: Schema },
+  options: AiCallOptions<DeepPartial<T>>
 ): Promise<T> {
+  let response = await runRequest(provider, request, jsonOptions(options));
+
+  for (let repairs = 0; ; repairs++) {
+    const { value, violations } = parseStructured(response.text, request.responseSchema);
+    if (violations.length === 0) return value as T;
+
+    if (repairs >= MAX_REPAIR_ATTEMPTS) {
+      throw new AiServiceError(
+        'INVALID_RESPONSE',
+        `Model output did not match the expected structure after ${repairs} repair attempt(s).`,
+        { violations, repairAttempts: repairs }
+      );
+    }
+
+    logger.withTrace(options.trace).warn('Structured output failed validation', {
+      provider: provider.id,
+      repairAttempt: repairs + 1,
+      violations: violations.slice(0, 10)
+    });
+    response = await provider.generate({
+      ...request,
+      contents: await repairContents(request, response.text, violations),
+      signal: options.signal
+    });
+  }
+}
+
+/** Scheduler priority per task: what the user is watching goes first */
+const TASK_PRIORITY: Record<AiTask, RequestPriority> = {
+  chat: 'interactive',
+  generate: 'interactive',
+  image: 'interactive',
+  live: 'interactive',
+  benchmark: 'normal',
+  audit: 'normal',
+  simulate: 'normal',
+  secrets: 'normal',
+  tts: 'normal',
+  docs: 'background'
+};
+
+type AiTaskFn<T, P> = (provider: AiProvider, route: ResolvedRoute, call: AiCallOptions<P>) => Promise<T>;
+
+interface AiTaskOptions<T, P> {
+  taskType: AiTask;
+  cacheKey?: string;
+  /** Exact request parts (prompt version, raw inputs); keys the cache and in-flight sharing */
+  request?: unknown[];
+  cacheable?: boolean;
+  providerId?: AiProviderId;
+  priority?: RequestPriority;
+  blueprint?: string | ((result: T) => string | undefined);
+  call?: AiCallOptions<P>;
+}
+
+/**
+ * Execute AI task with enhanced error handling, retry logic, and observability.
+ * The task receives whichever provider is active (or the pinned `providerId`),
+ * the model settings routed to `taskType`, and the call options to forward
+ * to the provider. When the primary model still fails with a retryable error
+ * after all retries, the task runs once more (with its own retries) on the
+ * route's fallback model.
+ * Attempts are queued by the shared scheduler under the provider's
+ * concurrency limit, and identical in-flight requests (same `request`)
+ * share one underlying call.
+ * `cacheKey` doubles as the fixture key for record/replay even when the
+ * result itself is not cacheable. Being case-folded, it only names the
+ * request: cache entries and in-flight sharing key on the exact `request`.
+ * Every provider call (and cache hit) is metered into the usage ledger,
+ * attributed to `blueprint` when given (or derived from the result).
+ * Once a workspace spending limit is reached, uncached requests fail with
+ * BUDGET_EXCEEDED before any provider call is made.
+ * The request runs in an `ai.<task>` span (under `call.trace` when given)
+ * whose children cover the cache lookup, each retry attempt and backoff,
+ * the usage write and the cache write; its log entries carry the span ids.
+ */
+function executeAiTask<T, P = unknown>(task: AiTaskFn<T, P>, options: AiTaskOptions<T, P>): Promise<T> {
+  return tracer.trace(`ai.${options.taskType}`, options.call?.trace, span => runAiTask(task, options, span), {
+    'ai.task': options.taskType
+  });
+}
+
+/**
+ * Body of `executeAiTask`, run inside its request span
+ */
+async function runAiTask<T, P>(task: AiTaskFn<T, P>, options: AiTaskOptions<T, P>, span: Span): Promise<T> {
   const startTime = Date.now();
-  const { cacheKey, cacheable = false, modelType = 'default' } = options;
+  const log = logger.withTrace(span.context);
+  const { cacheable = false, taskType, call = {} } = options;
+  const { signal } = call;
+  if (signal?.aborted) {
+    log.info('AI request cancelled', { cacheKey: options.cacheKey });
+    throw abortError(signal);
+  }
+  const mode = await getAiMode();
+
+  span.setAttributes({ 'ai.mode': mode });
+
+  // Replay mode never touches the network
+  if (mode === 'replay') {
+    const fixture = options.cacheKey ? await fixtures.get(options.cacheKey) : null;
+    if (!fixture) {
+      log.warn('Fixture missing', { fixtureKey: options.cacheKey });
+      throw new Error("No recorded fixture for this request. Run it once in record mode first.");
+    }
+    log.info('Fixture replayed', { fixtureKey: options.cacheKey, duration: Date.now() - startTime });
+    return fixture.value as T;
+  }
+
+  const providerId = mode === 'mock' ? 'mock' : (options.providerId ?? await getActiveProviderId());
+  const route = await getRoute(taskType);
+  const priority = options.priority ?? TASK_PRIORITY[taskType];
+  span.setAttributes({ 'ai.provider': providerId, 'ai.route.model': route.model, 'ai.priority': priority });
+  let model = route.model;
+  let modelType = `${providerId}-${model}`;
+  // Scope cache entries per provider and model so rerouting never serves stale output
+  const requestKey = options.request && JSON.stringify([providerId, route.model, taskType, ...options.request]);
+  const cacheKey = cacheable && requestKey ? await responseCache.key(requestKey) : undefined;
+  const blueprintOf = (result?: T) =>
+    typeof options.blueprint === 'function' ? (result === undefined ? undefined : options.blueprint(result)) : options.blueprint;
+  // Metering must never fail the request itself
+  const meteringFailed = (error: any) => log.warn('Usage ledger write failed', { taskType, errorMessage: error.message });
 
   // Check cache if enabled
-  if (cacheable && cacheKey) {
-    const cached = aiCache.get(cacheKey);
+  if (cacheKey) {
+    const cached = await responseCache.get<T>(cacheKey, span.context).catch(error => {
+      log.warn('Cache read failed', { cacheKey, errorMessage: error.message });
+      return null;
+    });
     if (cached) {
-      logger.info('Cache hit', { cacheKey, duration: Date.now() - startTime });
-      return cached as T;
+      log.info('Cache hit', { cacheKey, tier: cached.tier, duration: Date.now() - startTime });
+      await usageLedger.recordCacheHit(taskType, providerId, route.model, blueprintOf(cached.value), span.context).catch(meteringFailed);
+      return cached.value;
     }
-    logger.info('Cache miss', { cacheKey });
+    log.info('Cache miss', { cacheKey });
   }
 
-  try {
-    // Execute with retry logic
-    const result = await retryWithBackoff(async () => {
-      const ai = await createAiClient();
-      return await task(ai);
-    }, {
+  // Mock calls cost nothing; an unreadable ledger must not block real ones
+  if (providerId !== 'mock') {
+    try {
+      await budget.enforce();
+    } catch (error: any) {
+      if (!(error instanceof AiServiceError)) {
+        log.warn('Budget check failed', { taskType, errorMessage: error.message });
+      } else {
+        log.warn('AI request blocked by budget', { taskType, modelType, errorMessage: error.message });
+        throw error;
+      }
+    }
+  }
+
+  // One underlying execution; `runSignal` aborts only when every caller sharing it has
+  const execute = async (runSignal?: AbortSignal): Promise<T> => {
+    // Partial output stops reaching a caller once it has cancelled
+    const runCall: AiCallOptions<P> = {
+      signal: runSignal,
+      onPartial: call.onPartial && ((partial: P) => { if (!signal?.aborted) call.onPartial!(partial); }),
+      trace: span.context
+    };
+
+    // Execute with retry logic against one model. Every attempt waits for a
+    // scheduler slot and passes through the provider's shared circuit
+    // breaker; retries draw on the shared budget. Each attempt has its own span.
+    const breaker = circuitBreakers.get(providerId);
+    const usages: MeteredUsage[] = [];
+    const attempt = (model: string) => retryWithBackoff(attemptSpan => requestScheduler.run(providerId, priority, async () => {
+      attemptSpan?.addEvent('scheduler.slot_acquired');
+      breaker.acquire();
+      try {
+        const provider = meterProvider(
+          providerId === 'mock' ? createMockProvider() : await createProvider(providerId),
+          usage => {
+            usages.push(usage);
+            attemptSpan?.addEvent('usage', { 'ai.model': usage.model, 'usage.input_tokens': usage.inputTokens, 'usage.output_tokens': usage.outputTokens });
+          }
+        );
+        const resolved = resolveModel(provider, model);
+        attemptSpan?.setAttributes({ 'ai.model': resolved });
+        const value = await task(provider, {
+          model: resolved,
+          temperature: route.temperature,
+          thinkingBudget: route.thinkingBudget
+        }, { ...runCall, trace: attemptSpan?.context ?? span.context });
+        breaker.recordSuccess();
+        return value;
+      } catch (error) {
+        breaker.recordFailure(error);
+        throw error;
+      }
+    }, runSignal), {
       maxRetries: 3,
       initialDelay: 1000,
       maxDelay: 10000,
-      backoffMultiplier: 2
+      backoffMultiplier: 2,
+      budget: retryBudget,
+      signal: runSignal,
+      trace: span.context
     });
 
-    // Track usage (approximate)
+    let result: T | undefined;
+    try {
+      try {
+        result = await attempt(route.model);
+      } catch (error: any) {
+        if (!route.fallbackModel || runSignal?.aborted || !isRetryableError(error)) {
+          throw error;
+        }
+        log.warn('AI request falling back', {
+          taskType,
+          modelType,
+          fallbackModel: route.fallbackModel,
+          errorStatus: error.status,
+          errorMessage: error.message
+        });
+        span.addEvent('ai.fallback', { 'ai.model': route.fallbackModel });
+        model = route.fallbackModel;
+        modelType = `${providerId}-${model}`;
+        result = await attempt(route.fallbackModel);
+      }
+    } finally {
+      // Calls that completed before a later failure (e.g. repair rounds) were still billed
+      if (usages.length > 0) {
+        await usageLedger.record(taskType, providerId, usages, blueprintOf(result), span.context)
+          .then(() => budget.refresh())
+          .catch(meteringFailed);
+      }
+    }
+
+    // Cache successful result if enabled
+    // (a full or unavailable IndexedDB must not fail the request itself)
+    if (cacheKey) {
+      await responseCache.set(cacheKey, result, { task: taskType, provider: providerId, model }, span.context)
+        .catch(error => log.warn('Cache write failed', { cacheKey, errorMessage: error.message }));
+    }
+
+    if (mode === 'record' && options.cacheKey) {
+      await fixtures.record(options.cacheKey, result, providerId);
+      log.info('Fixture recorded', { fixtureKey: options.cacheKey });
+    }
+
+    return result;
+  };
+
+  try {
+    let result: T;
+    if (requestKey) {
+      const shared = requestScheduler.sharedCount(requestKey) > 0;
+      if (shared) {
+        span.setAttributes({ 'ai.deduplicated': true });
+        log.info('AI request joined in-flight duplicate', { modelType, fixtureKey: options.cacheKey });
+      }
+      result = await requestScheduler.dedupe(requestKey, execute, signal);
+    } else {
+      result = await execute(signal);
+    }
+
     const duration = Date.now() - startTime;
-    logger.info('AI request completed', { 
+    performanceMonitor.record(latencyMetric(taskType), duration);
+    log.info('AI request completed', { 
+      taskType,
       modelType, 
       duration, 
       cached: false 
     });
 
-    // Cache successful result if enabled
-    if (cacheable && cacheKey) {
-      aiCache.set(cacheKey, result);
-    }
-
     return result;
   } catch (error: any) {
     const duration = Date.now() - startTime;
-    logger.error('AI request failed', error, { 
+
+    // A cancelled call is an expected outcome, not a failure
+    if (signal?.aborted || isAbortError(error)) {
+      log.info('AI request cancelled', { modelType, duration });
+      throw signal?.aborted ? abortError(signal) : error;
+    }
+
+    log.error('AI request failed', error, { 
+      taskType,
       modelType, 
       duration,
       errorStatus: error.status,
+      errorCode: error.code,
       errorMessage: error.message 
     });
     
+    // Typed service errors carry code/details for the view; pass them through
+    if (error instanceof AiServiceError) {
+      throw error;
+    }
+
     const message = error.status === 429 
       ? "Architectural load peak reached. Retrying synthesis..." 
       : (error.message || "Synthesis Engine Failure");
@@ -99,124 +422,145 @@ async function executeAiTask<T>(
   }
 }
 
-export const generateAutomation = async (platform: Platform, description: string): Promise<AutomationResult> => {
+export const generateAutomation = async (platform: Platform, description: string, options: AiCallOptions<DeepPartial<AutomationResult>> = {}): Promise<AutomationResult> => {
   // Sanitize input
   const sanitizedDesc = sanitizePrompt(description);
-  const cacheKey = LRUCache.generateFingerprint(`automation-${platform}-${sanitizedDesc}`);
-  
-  // Estimate tokens for tracking
-  const estimatedInputTokens = estimateTokenCount(sanitizedDesc);
+  const prompt = await prompts.resolve('automation.generate', { platform, description: sanitizedDesc });
+  const cacheKey = LRUCache.generateFingerprint(`automation-${prompt.ref.version}-${platform}-${sanitizedDesc}`);
   
-  return executeAiTask(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `Design a production-grade ${platform} automation for: "${sanitizedDesc}".`,
-      config: {
-        systemInstruction: "You are the Senior Automation Architect. Output structured JSON.",
-        responseMimeType: "application/json",
-        thinkingConfig: { thinkingBudget: 16000 },
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            platform: { type: Type.STRING },
-            explanation: { type: Type.STRING },
-            codeSnippet: { type: Type.STRING },
-            steps: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.INTEGER },
-                  title: { type: Type.STRING },
-                  description: { type: Type.STRING },
-                  type: { type: Type.STRING, enum: ['trigger', 'action', 'logic'] }
-                },
-                required: ["id", "title", "description", "type"]
-              }
+  return executeAiTask(async (provider, route, call) => {
+    const blueprint = await generateStructured<AutomationResult>(provider, {
+      ...route,
+      contents: prompt.user,
+      systemInstruction: prompt.system,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          platform: { type: Type.STRING },
+          explanation: { type: Type.STRING },
+          codeSnippet: { type: Type.STRING },
+          steps: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.INTEGER },
+                title: { type: Type.STRING },
+                description: { type: Type.STRING },
+                type: { type: Type.STRING, enum: STEP_TYPES },
+                inputs: { type: Type.OBJECT, description: "Parameter name -> literal or expression, e.g. {{1.email}}" },
+                outputs: { type: Type.OBJECT, description: "Parameter name -> description of the produced value" }
+              },
+              required: ["id", "title", "description", "type"]
             }
           },
-          required: ["platform", "explanation", "steps"]
-        }
+          edges: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                from: { type: Type.INTEGER },
+                to: { type: Type.INTEGER },
+                type: { type: Type.STRING, enum: EDGE_TYPES },
+                condition: { type: Type.STRING, description: "Guard expression for branch edges" }
+              },
+              required: ["from", "to", "type"]
+            }
+          }
+        },
+        required: ["platform", "explanation", "steps", "edges"]
       }
-    });
-    
-    const result = { ...JSON.parse(response.text || "{}"), timestamp: Date.now() };
+    }, call);
     
-    // Track usage
-    const outputTokens = estimateTokenCount(JSON.stringify(result));
-    usageTracker.track(estimatedInputTokens, outputTokens, 'gemini-pro');
-    
-    return result;
-  }, { cacheKey, cacheable: true, modelType: 'gemini-pro' });
+    return upgradeBlueprint({ ...blueprint, timestamp: Date.now(), prompt: prompt.ref });
+  }, { taskType: 'generate', cacheKey, request: [prompt.ref.version, platform, sanitizedDesc], cacheable: true, blueprint: blueprintRef, call: options });
+};
+
+/** Typical size of a generated blueprint, in output tokens */
+const BLUEPRINT_OUTPUT_TOKENS = 2000;
+
+/**
+ * Pre-flight price of `generateAutomation`: the prompt as it would be sent,
+ * plus the route's full thinking budget and a typical blueprint as output.
+ * An upper bound for guidance; cached, mock and replayed calls cost nothing.
+ */
+export const estimateAutomationCost = async (platform: Platform, description: string): Promise<CostEstimate> => {
+  const prompt = await prompts.resolve('automation.generate', { platform, description: sanitizePrompt(description) });
+  const mode = await getAiMode();
+  const id: AiProviderId | 'mock' = mode === 'mock' || mode === 'replay' ? 'mock' : await getActiveProviderId();
+  const provider = { id, models: id === 'mock' ? MOCK_MODELS : await getProviderModels(id) };
+  const route = await getRoute('generate');
+  const model = resolveModel(provider, route.model);
+
+  return budget.estimate({
+    model,
+    costKey: costKeyFor(provider, model),
+    inputTokens: estimateRequestTokens({ model, contents: prompt.user, systemInstruction: prompt.system }),
+    outputTokens: (route.thinkingBudget ?? 0) + BLUEPRINT_OUTPUT_TOKENS
+  });
 };
 
 /**
  * Generates technical documentation for a workflow blueprint.
  */
-export const generateWorkflowDocs = async (blueprint: AutomationResult): Promise<WorkflowDocumentation> => {
-  const cacheKey = LRUCache.generateFingerprint(`docs-${blueprint.platform}-${blueprint.timestamp}`);
+export const generateWorkflowDocs = async (blueprint: AutomationResult, options: AiCallOptions<DeepPartial<WorkflowDocumentation>> = {}): Promise<WorkflowDocumentation> => {
+  const prompt = await prompts.resolve('workflow.docs', { blueprint: JSON.stringify(blueprint) });
+  const cacheKey = LRUCache.generateFingerprint(`docs-${prompt.ref.version}-${blueprint.platform}-${blueprint.timestamp}`);
   
-  return executeAiTask(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Generate comprehensive technical documentation for this automation: ${JSON.stringify(blueprint)}`,
-      config: {
-        systemInstruction: "You are a Technical Documentation AI. Provide structured JSON documentation.",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            purpose: { type: Type.STRING },
-            inputSchema: { type: Type.OBJECT, description: "JSON Schema for inputs" },
-            outputSchema: { type: Type.OBJECT, description: "JSON Schema for outputs" },
-            logicFlow: { type: Type.ARRAY, items: { type: Type.STRING } },
-            maintenanceGuide: { type: Type.STRING }
-          },
-          required: ["purpose", "inputSchema", "outputSchema", "logicFlow", "maintenanceGuide"]
-        }
+  return executeAiTask(async (provider, route, call) => {
+    return generateStructured<WorkflowDocumentation>(provider, {
+      ...route,
+      contents: prompt.user,
+      systemInstruction: prompt.system,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          purpose: { type: Type.STRING },
+          inputSchema: { type: Type.OBJECT, description: "JSON Schema for inputs" },
+          outputSchema: { type: Type.OBJECT, description: "JSON Schema for outputs" },
+          logicFlow: { type: Type.ARRAY, items: { type: Type.STRING } },
+          maintenanceGuide: { type: Type.STRING }
+        },
+        required: ["purpose", "inputSchema", "outputSchema", "logicFlow", "maintenanceGuide"]
       }
-    });
-    return JSON.parse(response.text || "{}") as WorkflowDocumentation;
-  }, { cacheKey, cacheable: true, modelType: 'gemini-flash' });
+    }, call);
+  }, { taskType: 'docs', cacheKey, request: [prompt.ref.version, blueprint.platform, blueprint.timestamp], cacheable: true, blueprint: blueprintRef(blueprint), call: options });
 };
 
-export const benchmarkPlatforms = async (description: string, targetPlatforms: Platform[]): Promise<ComparisonResult> => {
+export const benchmarkPlatforms = async (description: string, targetPlatforms: Platform[], options: AiCallOptions<DeepPartial<ComparisonResult>> = {}): Promise<ComparisonResult> => {
   const sanitizedDesc = sanitizePrompt(description);
-  const cacheKey = LRUCache.generateFingerprint(`benchmark-${sanitizedDesc}-${targetPlatforms.join(',')}`);
+  const prompt = await prompts.resolve('platform.benchmark', { description: sanitizedDesc, platforms: targetPlatforms.join(', ') });
+  const cacheKey = LRUCache.generateFingerprint(`benchmark-${prompt.ref.version}-${sanitizedDesc}-${targetPlatforms.join(',')}`);
   
-  return executeAiTask(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `Compare implementations for: "${sanitizedDesc}" across: ${targetPlatforms.join(', ')}.`,
-      config: {
-        systemInstruction: "Analyze and benchmark multiple automation platforms. Output JSON.",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            task: { type: Type.STRING },
-            platforms: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  platform: { type: Type.STRING },
-                  complexity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
-                  pros: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  cons: { type: Type.ARRAY, items: { type: Type.STRING } },
-                  config: { type: Type.STRING }
-                },
-                required: ["platform", "complexity", "pros", "cons", "config"]
-              }
-            },
-            recommendation: { type: Type.STRING }
+  return executeAiTask(async (provider, route, call) => {
+    return generateStructured<ComparisonResult>(provider, {
+      ...route,
+      contents: prompt.user,
+      systemInstruction: prompt.system,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING },
+          platforms: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                platform: { type: Type.STRING },
+                complexity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+                pros: { type: Type.ARRAY, items: { type: Type.STRING } },
+                cons: { type: Type.ARRAY, items: { type: Type.STRING } },
+                config: { type: Type.STRING }
+              },
+              required: ["platform", "complexity", "pros", "cons", "config"]
+            }
           },
-          required: ["task", "platforms", "recommendation"]
-        }
+          recommendation: { type: Type.STRING }
+        },
+        required: ["task", "platforms", "recommendation"]
       }
-    });
-    return JSON.parse(response.text || "{}") as ComparisonResult;
-  }, { cacheKey, cacheable: true, modelType: 'gemini-pro' });
+    }, call);
+  }, { taskType: 'benchmark', cacheKey, request: [prompt.ref.version, sanitizedDesc, targetPlatforms], cacheable: true, call: options });
 };
 
 // Added missing resetChat export for ChatbotView compatibility
@@ -224,18 +568,45 @@ export const resetChat = (): void => {
   // Stateless implementation; clearing local message history in the UI is sufficient.
 };
 
-export const chatWithAssistant = async (message: string): Promise<string> => {
+export const chatWithAssistant = async (message: string, options: AiCallOptions<string> = {}): Promise<string> => {
   const sanitizedMessage = sanitizePrompt(message);
-  const cacheKey = LRUCache.generateFingerprint(`chat-${sanitizedMessage}`);
+  const prompt = await prompts.resolve('advisor.chat', { message: sanitizedMessage });
+  const cacheKey = LRUCache.generateFingerprint(`chat-${prompt.ref.version}-${sanitizedMessage}`);
   
-  return executeAiTask(async (ai) => {
-    const result = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: sanitizedMessage,
-      config: { systemInstruction: "Advisor AI mode." }
-    });
+  return executeAiTask(async (provider, route, call) => {
+    const result = await runRequest(provider, {
+      ...route,
+      contents: prompt.user,
+      systemInstruction: prompt.system
+    }, call);
     return result.text || "Advisor link timed out.";
-  }, { cacheKey, cacheable: true, modelType: 'gemini-flash' });
+  }, { taskType: 'chat', cacheKey, request: [prompt.ref.version, sanitizedMessage], cacheable: true, call: options });
+};
+
+/**
+ * Raw prompt execution for the API Terminal (no system instruction, no cache)
+ */
+export const executePrompt = async (prompt: string, options: AiCallOptions<string> = {}): Promise<string> => {
+  const cacheKey = LRUCache.generateFingerprint(`exec-${prompt}`);
+
+  return executeAiTask(async (provider, route, call) => {
+    const response = await runRequest(provider, { ...route, contents: prompt }, call);
+    return response.text || "Execution complete. No output payload.";
+  }, { taskType: 'chat', cacheKey, request: [prompt], call: options });
+};
+
+/**
+ * Verifies a stored key with a minimal round trip against its provider.
+ * Bypasses retry so a bad key fails fast.
+ */
+export const testProviderKey = async (providerId: AiProviderId, options: Pick<AiCallOptions<string>, 'signal'> = {}): Promise<string> => {
+  const apiKey = await storage.getSecureKey(providerId);
+  if (!apiKey && providerId !== 'local') {
+    throw new Error(`No API key found for provider '${providerId}'.`);
+  }
+  const provider = await createProvider(providerId, apiKey || undefined);
+  const response = await provider.generate({ model: provider.models.flash, contents: 'Respond with: OK', signal: options.signal });
+  return response.text;
 };
 
 export const encode = (bytes: Uint8Array) => {
@@ -276,191 +647,189 @@ export const decodeAudioData = async (
   return buffer;
 };
 
-export const analyzeImage = async (base64Data: string, prompt: string, mimeType: string = 'image/jpeg'): Promise<string> => {
+export const analyzeImage = async (base64Data: string, prompt: string, mimeType: string = 'image/jpeg', options: AiCallOptions<string> = {}): Promise<string> => {
   const sanitizedPrompt = sanitizePrompt(prompt);
+  // Fingerprint the image by size and edges rather than the full base64 payload
+  const cacheKey = LRUCache.generateFingerprint(`image-${mimeType}-${base64Data.length}-${base64Data.slice(0, 64)}-${base64Data.slice(-64)}-${sanitizedPrompt}`);
+  // ...but share in-flight calls only for the same image bytes
+  const request = [mimeType, await hashKey(base64Data), sanitizedPrompt];
   
-  return executeAiTask(async (ai) => {
-    const result = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: { parts: [{ inlineData: { mimeType, data: base64Data } }, { text: sanitizedPrompt }] }
-    });
+  return executeAiTask(async (provider, route, call) => {
+    const result = await runRequest(provider, {
+      ...route,
+      contents: [{ inlineData: { mimeType, data: base64Data } }, { text: sanitizedPrompt }]
+    }, call);
     return result.text || "Inconclusive scan.";
-  }, { cacheable: false, modelType: 'gemini-pro' }); // Don't cache image analysis
+  }, { taskType: 'image', cacheKey, request, cacheable: false, call: options }); // Don't cache image analysis
 };
 
-// Fixed generateSpeech to use executeAiTask for consistent client lifecycle
-export const generateSpeech = async (text: string, voice: string): Promise<string> => {
-  return executeAiTask(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: `Synthesize: ${text}` }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voice as any },
-          },
-        },
-      },
-    });
-    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || "";
-  });
+// Speech synthesis is pinned to Gemini, the only provider with native audio output
+export const generateSpeech = async (text: string, voice: string, options: Pick<AiCallOptions<string>, 'signal'> = {}): Promise<string> => {
+  const cacheKey = LRUCache.generateFingerprint(`speech-${voice}-${text}`);
+
+  return executeAiTask(async (provider, route, call) => {
+    if (!provider.synthesizeSpeech) {
+      throw new Error(`${provider.label} does not support speech synthesis.`);
+    }
+    return provider.synthesizeSpeech({ model: route.model, text, voice, signal: call.signal });
+  }, { taskType: 'tts', cacheKey, request: [voice, text], providerId: 'gemini', call: options });
 };
 
 // Added missing generateProcedureManual export for TTSView compatibility
-export const generateProcedureManual = async (text: string): Promise<string> => {
-  return executeAiTask(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Generate a comprehensive step-by-step procedure manual for this automation: ${text}`,
-      config: {
-        systemInstruction: "You are a Technical Documentation AI. Provide a clear, human-readable operator manual in markdown.",
-      }
-    });
+export const generateProcedureManual = async (text: string, options: AiCallOptions<string> = {}): Promise<string> => {
+  const prompt = await prompts.resolve('manual.generate', { text });
+  const cacheKey = LRUCache.generateFingerprint(`manual-${prompt.ref.version}-${text}`);
+
+  return executeAiTask(async (provider, route, call) => {
+    const response = await runRequest(provider, {
+      ...route,
+      contents: prompt.user,
+      systemInstruction: prompt.system
+    }, call);
     return response.text || "Manual synthesis failed.";
-  });
+  }, { taskType: 'docs', cacheKey, request: [prompt.ref.version, text], call: options });
 };
 
 export const connectToLiveArchitect = async (callbacks: any) => {
   const ai = await createAiClient();
+  const prompt = await prompts.resolve('live.architect');
+  const route = await getRoute('live');
   return ai.live.connect({
-    model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    model: resolveModel({ models: GEMINI_MODELS }, route.model),
     callbacks,
     config: {
       responseModalities: [Modality.AUDIO],
       speechConfig: {
         voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
       },
-      systemInstruction: 'You are a friendly and helpful senior automation architect.',
+      systemInstruction: prompt.system,
     },
   });
 };
 
-export const simulateAutomation = async (blueprint: AutomationResult, inputData: string): Promise<SimulationResponse> => {
-  return executeAiTask(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `Simulate this automation logic:\n${JSON.stringify(blueprint)}\n\nWith input data:\n${inputData}`,
-      config: {
-        systemInstruction: "You are the Sandbox Kernel. Dry-run the logic and output JSON results for each step.",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            overallStatus: { type: Type.STRING, enum: ['success', 'failure'] },
-            summary: { type: Type.STRING },
-            stepResults: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  stepId: { type: Type.INTEGER },
-                  status: { type: Type.STRING, enum: ['success', 'failure', 'skipped'] },
-                  output: { type: Type.STRING },
-                  reasoning: { type: Type.STRING }
-                },
-                required: ["stepId", "status", "output", "reasoning"]
-              }
+export const simulateAutomation = async (blueprint: AutomationResult, inputData: string, options: AiCallOptions<DeepPartial<SimulationResponse>> = {}): Promise<SimulationResponse> => {
+  const prompt = await prompts.resolve('sandbox.simulate', { blueprint: JSON.stringify(blueprint), input: inputData });
+  const cacheKey = LRUCache.generateFingerprint(`simulate-${prompt.ref.version}-${JSON.stringify(blueprint)}-${inputData}`);
+
+  return executeAiTask(async (provider, route, call) => {
+    return generateStructured<SimulationResponse>(provider, {
+      ...route,
+      contents: prompt.user,
+      systemInstruction: prompt.system,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          overallStatus: { type: Type.STRING, enum: ['success', 'failure'] },
+          summary: { type: Type.STRING },
+          stepResults: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                stepId: { type: Type.INTEGER },
+                status: { type: Type.STRING, enum: ['success', 'failure', 'skipped'] },
+                output: { type: Type.STRING },
+                reasoning: { type: Type.STRING }
+              },
+              required: ["stepId", "status", "output", "reasoning"]
             }
-          },
-          required: ["overallStatus", "summary", "stepResults"]
-        }
+          }
+        },
+        required: ["overallStatus", "summary", "stepResults"]
       }
-    });
-    return JSON.parse(response.text || "{}");
-  });
+    }, call);
+  }, { taskType: 'simulate', cacheKey, request: [prompt.ref.version, blueprint, inputData], blueprint: blueprintRef(blueprint), call: options });
 };
 
-export const auditAutomation = async (blueprint: AutomationResult): Promise<AuditResult> => {
-  return executeAiTask(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `Perform a deep security and ROI audit on this blueprint: ${JSON.stringify(blueprint)}`,
-      config: {
-        systemInstruction: "You are the Senior Security Auditor. Output structured JSON.",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            securityScore: { type: Type.INTEGER },
-            estimatedMonthlyCost: { type: Type.STRING },
-            roiAnalysis: { type: Type.STRING },
-            vulnerabilities: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
-                  issue: { type: Type.STRING },
-                  fix: { type: Type.STRING }
-                },
-                required: ["severity", "issue", "fix"]
-              }
-            },
-            optimizationTips: { type: Type.ARRAY, items: { type: Type.STRING } }
+export const auditAutomation = async (blueprint: AutomationResult, options: AiCallOptions<DeepPartial<AuditResult>> = {}): Promise<AuditResult> => {
+  const prompt = await prompts.resolve('blueprint.audit', { blueprint: JSON.stringify(blueprint) });
+  const cacheKey = LRUCache.generateFingerprint(`audit-${prompt.ref.version}-${JSON.stringify(blueprint)}`);
+
+  return executeAiTask(async (provider, route, call) => {
+    const audit = await generateStructured<AuditResult>(provider, {
+      ...route,
+      contents: prompt.user,
+      systemInstruction: prompt.system,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          securityScore: { type: Type.INTEGER },
+          estimatedMonthlyCost: { type: Type.STRING },
+          roiAnalysis: { type: Type.STRING },
+          vulnerabilities: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+                issue: { type: Type.STRING },
+                fix: { type: Type.STRING }
+              },
+              required: ["severity", "issue", "fix"]
+            }
           },
-          required: ["securityScore", "estimatedMonthlyCost", "vulnerabilities", "roiAnalysis", "optimizationTips"]
-        }
+          optimizationTips: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ["securityScore", "estimatedMonthlyCost", "vulnerabilities", "roiAnalysis", "optimizationTips"]
       }
-    });
-    return JSON.parse(response.text || "{}");
-  });
+    }, call);
+    return { ...audit, prompt: prompt.ref };
+  }, { taskType: 'audit', cacheKey, request: [prompt.ref.version, blueprint], blueprint: blueprintRef(blueprint), call: options });
 };
 
-export const identifySecrets = async (blueprint: AutomationResult): Promise<DeploymentConfig> => {
-  return executeAiTask(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Identify secrets and suggest a CI/CD pipeline for: ${JSON.stringify(blueprint)}`,
-      config: {
-        systemInstruction: "Analyze for secrets and CI/CD stages. Output JSON.",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            secrets: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  key: { type: Type.STRING },
-                  description: { type: Type.STRING },
-                  placeholder: { type: Type.STRING }
-                },
-                required: ["key", "description", "placeholder"]
-              }
-            },
-            exportFormats: { type: Type.ARRAY, items: { type: Type.STRING } },
-            readinessCheck: { type: Type.STRING },
-            suggestedPipeline: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  steps: {
-                    type: Type.ARRAY,
-                    items: {
-                      type: Type.OBJECT,
-                      properties: {
-                        id: { type: Type.STRING },
-                        name: { type: Type.STRING },
-                        type: { type: Type.STRING, enum: ['lint', 'test', 'build', 'deploy', 'security-scan'] },
-                        status: { type: Type.STRING }
-                      },
-                      required: ["id", "name", "type", "status"]
-                    }
-                  }
-                },
-                required: ["id", "name", "steps"]
-              }
+export const identifySecrets = async (blueprint: AutomationResult, options: AiCallOptions<DeepPartial<DeploymentConfig>> = {}): Promise<DeploymentConfig> => {
+  const prompt = await prompts.resolve('deployment.secrets', { blueprint: JSON.stringify(blueprint) });
+  const cacheKey = LRUCache.generateFingerprint(`secrets-${prompt.ref.version}-${JSON.stringify(blueprint)}`);
+
+  return executeAiTask(async (provider, route, call) => {
+    return generateStructured<DeploymentConfig>(provider, {
+      ...route,
+      contents: prompt.user,
+      systemInstruction: prompt.system,
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          secrets: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                key: { type: Type.STRING },
+                description: { type: Type.STRING },
+                placeholder: { type: Type.STRING }
+              },
+              required: ["key", "description", "placeholder"]
             }
           },
-          required: ["secrets", "exportFormats", "readinessCheck", "suggestedPipeline"]
-        }
+          exportFormats: { type: Type.ARRAY, items: { type: Type.STRING } },
+          readinessCheck: { type: Type.STRING },
+          suggestedPipeline: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING },
+                name: { type: Type.STRING },
+                steps: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      id: { type: Type.STRING },
+                      name: { type: Type.STRING },
+                      type: { type: Type.STRING, enum: ['lint', 'test', 'build', 'deploy', 'security-scan'] },
+                      status: { type: Type.STRING }
+                    },
+                    required: ["id", "name", "type", "status"]
+                  }
+                }
+              },
+              required: ["id", "name", "steps"]
+            }
+          }
+        },
+        required: ["secrets", "exportFormats", "readinessCheck", "suggestedPipeline"]
       }
-    });
-    return JSON.parse(response.text || "{}");
-  });
+    }, call);
+  }, { taskType: 'secrets', cacheKey, request: [prompt.ref.version, blueprint], blueprint: blueprintRef(blueprint), call: options });
 };
@@ -0,0 +1,57 @@
+import { AutomationResult, AutomationStep, BlueprintEdge, Platform } from "../../types";
+
+/**
+ * Helpers shared by the platform importers.
+ */
+
+export const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Source parameters as blueprint inputs: strings go through `convert`
+ * (expression syntax), objects are kept as converted JSON. Empty values
+ * are dropped.
+ */
+export function flattenInputs(params: unknown, convert: (value: string) => string = value => value): Record<string, string> {
+  const inputs: Record<string, string> = {};
+  if (!isRecord(params)) return inputs;
+  for (const [key, value] of Object.entries(params)) {
+    if (value === null || value === undefined || value === '') continue;
+    if (typeof value === 'string') inputs[key] = convert(value);
+    else if (typeof value === 'number' || typeof value === 'boolean') inputs[key] = String(value);
+    else if (Object.keys(value).length > 0) inputs[key] = convert(JSON.stringify(value));
+  }
+  return inputs;
+}
+
+/**
+ * App name from a node or module key, lower-cased for connector matching:
+ * `n8n-nodes-base.googleSheets` -> `googlesheets`, `slack:CreateMessage` -> `slack`
+ */
+export const appName = (key: string) =>
+  key.replace(/^.*[./]/, '').replace(/[:@].*$/, '').replace(/(CLI)?API$/, '').replace(/Trigger$/, '').toLowerCase();
+
+/** `sendEmail` / `send-email` / `send_email` -> `Send email` */
+export function humanize(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[-_:.]+/g, ' ').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** JSONata string literal */
+export const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * JSONata reference to an earlier step's output, e.g. `$steps.`2`.email`
+ */
+export const stepRef = (stepId: number, path: string) => `$steps.\`${stepId}\`${path ? `.${path}` : ''}`;
+
+export function toBlueprint(platform: Platform, name: string, steps: AutomationStep[], edges: BlueprintEdge[], source: unknown): AutomationResult {
+  return {
+    platform,
+    explanation: name,
+    steps,
+    edges,
+    // The original file, so nothing is lost even where mapping is lossy
+    codeSnippet: JSON.stringify(source, null, 2)
+  };
+}
@@ -0,0 +1,25 @@
+import { WorkflowImport, WorkflowImporter } from "./types";
+import { n8nImporter } from "./n8nImporter";
+import { makeImporter } from "./makeImporter";
+import { zapierImporter } from "./zapierImporter";
+
+export * from "./types";
+
+/**
+ * Importers checked in order against a parsed file
+ */
+export const IMPORTERS: WorkflowImporter[] = [n8nImporter, makeImporter, zapierImporter];
+
+export const findImporter = (json: unknown): WorkflowImporter | undefined =>
+  IMPORTERS.find(importer => importer.detect(json));
+
+/**
+ * Parses an exported n8n, Make or Zapier file into blueprints
+ */
+export function importWorkflows(json: unknown): WorkflowImport {
+  const importer = findImporter(json);
+  if (!importer) throw new Error('Unrecognized workflow file: expected an n8n workflow, a Make blueprint or a Zapier export.');
+  const workflows = importer.parse(json);
+  if (workflows.length === 0) throw new Error(`No workflows found in this ${importer.label} file.`);
+  return { importer, workflows };
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { makeImporter } from './makeImporter';
+import graph from '../exporters/fixtures/make/graph.json';
+
+describe('makeImporter', () => {
+  it('should rebuild routers, filters, iterators and error handlers', () => {
+    const [{ name, blueprint, warnings }] = makeImporter.parse({ blueprint: graph.expected });
+    const titleOf = (id: number) => blueprint.steps.find(step => step.id === id)!.title;
+
+    expect(name).toBe('Order digest');
+    expect(warnings).toEqual([]);
+    expect(blueprint.steps.map(step => step.type)).toEqual(['trigger', 'action', 'action', 'logic', 'loop', 'logic', 'delay', 'action', 'action']);
+    expect(blueprint.edges!.map(edge => [titleOf(edge.from), titleOf(edge.to), edge.type])).toEqual([
+      ['Order webhook', 'Fetch orders', 'next'],
+      ['Fetch orders', 'Alert on failure', 'error'],
+      ['Fetch orders', 'Has orders?', 'next'],
+      ['Has orders?', 'Each order', 'branch'],
+      ['Each order', 'Format line', 'loop'],
+      ['Format line', 'Wait', 'next'],
+      ['Each order', 'Email digest', 'next'],
+      ['Has orders?', 'Nothing to send', 'branch']
+    ]);
+    expect(blueprint.edges![3].condition).toBe("($steps.`2`.count > 0) and ($steps.`2`.status = 'ok')");
+    expect(blueprint.steps[4].inputs).toEqual({ items: '{{2.orders}}' });
+  });
+
+  it('should add a schedule trigger and renumber mappings', () => {
+    const [{ blueprint }] = makeImporter.parse({
+      name: 'Sync',
+      flow: [
+        { id: 7, module: 'http:ActionSendData', mapper: { url: 'https://api.example.com' } },
+        { id: 12, module: 'airtable:ActionCreateRecord', mapper: { fields: { name: '{{7.data.name}}' } }, filter: { name: 'Has name', conditions: [[{ a: '{{7.data.name}}', o: 'exist' }]] } }
+      ]
+    });
+
+    expect(blueprint.steps.map(step => step.title)).toEqual(['Schedule', 'Http: action send data', 'Airtable: action create record']);
+    expect(blueprint.steps[2].inputs).toEqual({ app: 'airtable', fields: '{"name":"{{2.data.name}}"}' });
+    expect(blueprint.edges).toEqual([
+      { from: 1, to: 2, type: 'next' },
+      { from: 2, to: 3, type: 'branch', condition: '$exists($steps.`2`.data.name)' }
+    ]);
+  });
+});
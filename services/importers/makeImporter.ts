@@ -0,0 +1,191 @@
+import { AutomationStep, BlueprintEdge, StepType } from "../../types";
+import { ImportedWorkflow, WorkflowImporter } from "./types";
+import { appName, flattenInputs, humanize, isRecord, quote, stepRef, toBlueprint } from "./common";
+
+/**
+ * Make scenario blueprint JSON -> blueprint. Accepts the file from "Export
+ * Blueprint" or the `{ blueprint }` envelope returned by the Make API.
+ *
+ * Modules are numbered in flow order and `{{moduleId.path}}` mappings are
+ * renumbered to match. Routers become logic steps with a `branch` edge per
+ * route, filters become the condition of the edge into their module, an
+ * Iterator becomes a `loop` whose body runs up to its Array Aggregator, and
+ * error-handler routes become `error` edges. Directives (Ignore, Resume,
+ * ...) have no step of their own.
+ */
+
+interface MakeSourceModule {
+  id: number;
+  module: string;
+  mapper?: Record<string, any> | null;
+  parameters?: Record<string, any>;
+  metadata?: { designer?: { name?: string }; restore?: { parameters?: Record<string, { label?: string }> } };
+  filter?: { name?: string; conditions?: { a?: string; o?: string; b?: string }[][] };
+  routes?: { flow: MakeSourceModule[] }[];
+  onerror?: MakeSourceModule[];
+}
+
+interface MakeSourceScenario {
+  name?: string;
+  flow: MakeSourceModule[];
+}
+
+const DIRECTIVES = ['builtin:Ignore', 'builtin:Resume', 'builtin:Rollback', 'builtin:Break', 'builtin:Commit'];
+
+const LOGIC_APPS = ['util', 'json', 'regexp', 'builtin', 'xml', 'csv', 'markdown', 'html'];
+
+const isScenario = (value: unknown): value is MakeSourceScenario =>
+  isRecord(value) && Array.isArray(value.flow);
+
+const unwrap = (json: unknown): unknown => (isRecord(json) && isRecord(json.blueprint) ? json.blueprint : json);
+
+function stepType(module: MakeSourceModule, first: boolean): StepType {
+  const key = module.module;
+  if (first && /^gateway:|:watch|trigger/i.test(key)) return 'trigger';
+  if (key === 'builtin:BasicFeeder') return 'loop';
+  if (key === 'util:FunctionSleep') return 'delay';
+  if (/subscenario|scenario-service/i.test(key)) return 'sub-workflow';
+  if (LOGIC_APPS.includes(appName(key))) return 'logic';
+  return 'action';
+}
+
+const appOf = (module: MakeSourceModule) => module.module.startsWith('gateway:') ? 'webhook' : appName(module.module);
+
+function title(module: MakeSourceModule): string {
+  if (module.metadata?.designer?.name) return module.metadata.designer.name;
+  if (module.module === 'builtin:BasicRouter') return 'Router';
+  const [app, action = ''] = module.module.split(':');
+  return `${humanize(app)}: ${humanize(action).toLowerCase()}`;
+}
+
+const OPERATORS: Record<string, (a: string, b: string) => string> = {
+  'text:equal': (a, b) => `${a} = ${b}`,
+  'text:equal:ci': (a, b) => `$lowercase(${a}) = $lowercase(${b})`,
+  'text:notequal': (a, b) => `${a} != ${b}`,
+  'text:contain': (a, b) => `$contains(${a}, ${b})`,
+  'text:notcontain': (a, b) => `$not($contains(${a}, ${b}))`,
+  'number:equal': (a, b) => `${a} = ${b}`,
+  'number:notequal': (a, b) => `${a} != ${b}`,
+  'number:greater': (a, b) => `${a} > ${b}`,
+  'number:greaterorequal': (a, b) => `${a} >= ${b}`,
+  'number:less': (a, b) => `${a} < ${b}`,
+  'number:lessorequal': (a, b) => `${a} <= ${b}`,
+  'boolean:equal': (a, b) => b === 'false' ? `$not(${a})` : a,
+  exist: a => `$exists(${a})`,
+  notexist: a => `$not($exists(${a}))`
+};
+
+function parseScenario(scenario: MakeSourceScenario): ImportedWorkflow {
+  const name = scenario.name || 'Imported Make scenario';
+  const warnings: string[] = [];
+  const steps: AutomationStep[] = [];
+  const edges: BlueprintEdge[] = [];
+  // Make module id -> step id
+  const ids = new Map<number, number>();
+  const pendingInputs = new Map<number, Record<string, unknown>>();
+
+  /** `{{2.email}}` with the module id renumbered */
+  const remap = (value: string) => value.replace(/\{\{(\d+)((?:\.[^}]*)?)\}\}/g, (match, id: string, path: string) =>
+    ids.has(Number(id)) ? `{{${ids.get(Number(id))}${path}}}` : match);
+
+  /** Filter operand: a single mapping becomes a JSONata step reference */
+  const operand = (value: string | undefined, numeric: boolean): string => {
+    const ref = /^\{\{(\d+)(?:\.([^}]+))?\}\}$/.exec(value ?? '');
+    if (ref && ids.has(Number(ref[1]))) return stepRef(ids.get(Number(ref[1]))!, ref[2] || '');
+    if (numeric && value !== '' && !isNaN(Number(value))) return String(value);
+    return quote(value ?? '');
+  };
+
+  const toCondition = (module: MakeSourceModule): string | undefined => {
+    const groups = module.filter?.conditions;
+    if (!groups || groups.length === 0) return undefined;
+    const unsupported = groups.flat().find(c => !OPERATORS[c.o ?? '']);
+    if (unsupported) {
+      warnings.push(`Filter "${module.filter?.name || title(module)}" uses "${unsupported.o}"; the condition was left out.`);
+      return undefined;
+    }
+    const join = (parts: string[], op: string) => parts.length === 1 ? parts[0] : parts.map(part => `(${part})`).join(` ${op} `);
+    return join(groups.map(group => join(group.map(c => OPERATORS[c.o!](operand(c.a, c.o!.startsWith('number')), operand(c.b, c.o!.startsWith('number')))), 'and')), 'or');
+  };
+
+  type Link = Omit<BlueprintEdge, 'to'>;
+  const loops: { feeder: number; step: number }[] = [];
+
+  const addStep = (module: MakeSourceModule, type: StepType): AutomationStep => {
+    const id = steps.length + 1;
+    ids.set(module.id, id);
+    const step: AutomationStep = { id, title: title(module), description: `Make ${module.module} module`, type };
+    const mapper = { ...module.parameters, ...module.mapper };
+    delete mapper.__IMTCONN__;
+    if (type === 'loop') pendingInputs.set(id, { items: module.mapper?.array });
+    else if (type === 'delay') pendingInputs.set(id, { duration: `${module.mapper?.duration ?? 1} seconds` });
+    else if (module.module !== 'builtin:BasicRouter') pendingInputs.set(id, type === 'action' || type === 'trigger' ? { app: appOf(module), ...mapper } : mapper);
+    const connection = module.metadata?.restore?.parameters?.__IMTCONN__?.label;
+    if (connection) pendingInputs.set(id, { ...pendingInputs.get(id), credential: connection });
+    steps.push(step);
+    return step;
+  };
+
+  /**
+   * Adds the modules of `flow`, connecting `links` into the first one.
+   * Returns the links left open at the end of the flow.
+   */
+  const walk = (flow: MakeSourceModule[], links: Link[], topLevel = false): Link[] => {
+    for (const [index, module] of flow.entries()) {
+      if (!isRecord(module) || typeof module.module !== 'string' || DIRECTIVES.includes(module.module)) continue;
+      const loop = loops.find(l => l.feeder === module.parameters?.feeder);
+      if (module.module === 'builtin:BasicAggregator' && loop) {
+        loops.splice(loops.indexOf(loop), 1);
+        links = [{ from: loop.step, type: 'next' }];
+        continue;
+      }
+
+      const step = addStep(module, stepType(module, topLevel && index === 0));
+      const condition = toCondition(module);
+      for (const link of links) {
+        edges.push(condition
+          ? { from: link.from, to: step.id, type: link.type === 'next' ? 'branch' : link.type, condition }
+          : { from: link.from, to: step.id, type: link.type, ...(link.condition && { condition: link.condition }) });
+      }
+      if (module.onerror?.length) walk(module.onerror, [{ from: step.id, type: 'error' }]);
+
+      if (module.routes) {
+        module.routes.forEach(route => walk(route.flow || [], [{ from: step.id, type: 'branch' }]));
+        return [];
+      }
+      if (step.type === 'loop') {
+        loops.push({ feeder: module.id, step: step.id });
+        links = [{ from: step.id, type: 'loop' }];
+      } else {
+        links = [{ from: step.id, type: 'next' }];
+      }
+    }
+    return links;
+  };
+
+  // Scheduled scenarios have no trigger module; the schedule is the trigger
+  const first = scenario.flow.find(module => isRecord(module) && !DIRECTIVES.includes(module.module));
+  if (first && stepType(first, true) !== 'trigger') {
+    steps.push({ id: 1, title: 'Schedule', description: 'Scenario schedule (set in the Make scenario settings)', type: 'trigger', inputs: { app: 'schedule' } });
+    walk(scenario.flow, [{ from: 1, type: 'next' }]);
+  } else {
+    walk(scenario.flow, [], true);
+  }
+
+  for (const step of steps) {
+    const inputs = flattenInputs(pendingInputs.get(step.id), remap);
+    if (Object.keys(inputs).length > 0) step.inputs = { ...step.inputs, ...inputs };
+  }
+  return { name, blueprint: toBlueprint('make', name, steps, edges, scenario), warnings };
+}
+
+export const makeImporter: WorkflowImporter = {
+  platform: 'make',
+  label: 'Make scenario',
+  detect: json => isScenario(unwrap(json)),
+  parse(json) {
+    const scenario = unwrap(json);
+    if (!isScenario(scenario)) throw new Error('Invalid Make blueprint: expected a "flow" array.');
+    return [parseScenario(scenario)];
+  }
+};
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { n8nImporter } from './n8nImporter';
+import { toN8nWorkflow } from '../exporters';
+import graph from '../exporters/fixtures/n8n/graph.json';
+import { AutomationResult } from '../../types';
+
+describe('n8nImporter', () => {
+  it('should round-trip an exported workflow back to the same graph', () => {
+    const source = graph.blueprint as AutomationResult;
+    const [imported] = n8nImporter.parse(toN8nWorkflow(source));
+    const { blueprint } = imported;
+    const titleOf = (id: number) => blueprint.steps.find(step => step.id === id)!.title;
+
+    expect(imported.name).toBe('Nightly order digest');
+    expect(blueprint.steps.map(step => [step.title, step.type])).toEqual([
+      ['Every night', 'trigger'],
+      ['Fetch orders', 'action'],
+      ['Has orders?', 'logic'],
+      ['Alert on failure', 'logic'],
+      ['Each order', 'loop'],
+      ['Email digest', 'action'],
+      ['Format line', 'logic'],
+      ['Wait', 'delay']
+    ]);
+    expect(blueprint.edges!.map(edge => [titleOf(edge.from), titleOf(edge.to), edge.type, edge.condition])).toEqual([
+      ['Every night', 'Fetch orders', 'next', undefined],
+      ['Fetch orders', 'Has orders?', 'next', undefined],
+      ['Fetch orders', 'Alert on failure', 'error', undefined],
+      ['Has orders?', 'Each order', 'branch', "count > 0 and status = 'ok'"],
+      ['Each order', 'Email digest', 'next', undefined],
+      ['Each order', 'Format line', 'loop', undefined],
+      ['Format line', 'Wait', 'next', undefined]
+    ]);
+    expect(blueprint.steps[5].inputs).toEqual({ app: 'emailsend', to: '{{1.owner}}', credential: 'SMTP account' });
+  });
+
+  it('should convert If nodes and references to other nodes', () => {
+    const [{ blueprint, warnings }] = n8nImporter.parse([{
+      name: 'Leads',
+      nodes: [
+        { name: 'Hook', type: 'n8n-nodes-base.webhook', parameters: { path: 'lead' } },
+        { name: 'Big deal?', type: 'n8n-nodes-base.if', parameters: { conditions: { number: [{ value1: '={{ $json.amount }}', operation: 'larger', value2: 1000 }] } } },
+        { name: 'Notify', type: 'n8n-nodes-base.slack', parameters: { text: "=Lead from {{ $('Hook').item.json.body.email }}" } },
+        { name: 'Note', type: 'n8n-nodes-base.stickyNote', parameters: {} }
+      ],
+      connections: {
+        Hook: { main: [[{ node: 'Big deal?', type: 'main', index: 0 }]] },
+        'Big deal?': { main: [[{ node: 'Notify', type: 'main', index: 0 }], []] }
+      }
+    }]);
+
+    expect(warnings).toEqual([]);
+    expect(blueprint.steps).toHaveLength(3);
+    expect(blueprint.edges![1]).toEqual({ from: 2, to: 3, type: 'branch', condition: 'amount > 1000' });
+    expect(blueprint.steps[2].inputs).toEqual({ app: 'slack', text: 'Lead from {{1.body.email}}' });
+  });
+
+  it('should only detect n8n workflows', () => {
+    expect(n8nImporter.detect({ nodes: [], connections: {} })).toBe(true);
+    expect(n8nImporter.detect({ flow: [] })).toBe(false);
+    expect(() => n8nImporter.parse({ nodes: [] })).toThrow('Invalid n8n workflow');
+  });
+});
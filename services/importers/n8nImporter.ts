@@ -0,0 +1,248 @@
+import { AutomationStep, BlueprintEdge, StepType } from "../../types";
+import { ImportedWorkflow, WorkflowImporter } from "./types";
+import { appName, flattenInputs, humanize, isRecord, quote, stepRef, toBlueprint } from "./common";
+
+/**
+ * n8n workflow JSON -> blueprint. Accepts a single workflow (editor
+ * "Download") or an array of them (`n8n export:workflow --all`).
+ *
+ * Nodes are ordered breadth-first from the triggers along their
+ * connections. If / Switch outputs become `branch` edges with JSONata
+ * conditions, Loop Over Items outputs become `loop` / `next` edges, and a
+ * node's error output becomes `error` edges. n8n expressions are rewritten
+ * to blueprint templates where they are plain references (`$json.x`,
+ * `$('Node').item.json.x`) and kept otherwise.
+ */
+
+interface N8nSourceNode {
+  name: string;
+  type: string;
+  typeVersion?: number;
+  parameters?: Record<string, any>;
+  credentials?: Record<string, { name?: string }>;
+  onError?: string;
+  notes?: string;
+}
+
+interface N8nSourceWorkflow {
+  name?: string;
+  nodes: N8nSourceNode[];
+  connections: Record<string, { main?: ({ node: string }[] | null)[] }>;
+}
+
+const SKIPPED_TYPES = ['n8n-nodes-base.stickyNote'];
+
+const LOGIC_NODES = [
+  'code', 'function', 'functionItem', 'set', 'if', 'switch', 'filter', 'merge', 'itemLists', 'aggregate',
+  'splitOut', 'sort', 'limit', 'removeDuplicates', 'summarize', 'dateTime', 'crypto', 'html', 'xml', 'markdown', 'noOp'
+];
+
+const shortType = (type: string) => type.replace(/^.*\./, '');
+
+const isWorkflow = (value: unknown): value is N8nSourceWorkflow =>
+  isRecord(value) && Array.isArray(value.nodes) && isRecord(value.connections);
+
+function stepType(node: N8nSourceNode): StepType {
+  const type = shortType(node.type);
+  if (/trigger$/i.test(type) || type === 'webhook') return 'trigger';
+  if (type === 'splitInBatches') return 'loop';
+  if (type === 'wait') return ['webhook', 'form'].includes(node.parameters?.resume) ? 'human-approval' : 'delay';
+  if (type === 'executeWorkflow') return 'sub-workflow';
+  if (LOGIC_NODES.includes(type)) return 'logic';
+  return 'action';
+}
+
+/**
+ * n8n JavaScript expression -> JSONata over the blueprint bindings
+ */
+function toJsonata(expression: string, ids: Map<string, number>): string {
+  return expression.trim()
+    .replace(/\$\(\s*['"](.+?)['"]\s*\)\.(?:item|first\(\)|last\(\))\.json/g, (match, name: string) =>
+      ids.has(name) ? stepRef(ids.get(name)!, '') : match)
+    .replace(/\$node\[\s*['"](.+?)['"]\s*\]\.json/g, (match, name: string) =>
+      ids.has(name) ? stepRef(ids.get(name)!, '') : match)
+    .replace(/\$json\./g, '')
+    .replace(/\$json\b/g, '$')
+    .replace(/\s*&&\s*/g, ' and ')
+    .replace(/\s*\|\|\s*/g, ' or ')
+    .replace(/\s*!==?\s*/g, ' != ')
+    .replace(/\s*===?\s*/g, ' = ');
+}
+
+/**
+ * Parameter value -> blueprint input. `={{ $('Fetch').item.json.id }}`
+ * becomes `{{2.id}}`; other expressions keep their (rewritten) text.
+ */
+function toInput(value: string, ids: Map<string, number>): string {
+  if (!value.startsWith('=')) return value;
+  return value.slice(1).replace(/\{\{\s*([\s\S]+?)\s*\}\}/g, (_, expression: string) => {
+    const converted = toJsonata(expression, ids);
+    const ref = /^\$steps\.`(\d+)`(?:\.(.+))?$/.exec(converted);
+    if (ref) return `{{${ref[1]}${ref[2] ? `.${ref[2]}` : ''}}}`;
+    return `{{${converted}}}`;
+  });
+}
+
+/** Condition operand: an expression, or a literal typed by the operator */
+function operand(value: unknown, ids: Map<string, number>, numeric: boolean): string {
+  if (typeof value === 'string' && value.startsWith('=')) {
+    const expression = /^=\{\{\s*([\s\S]+?)\s*\}\}$/.exec(value);
+    return expression ? toJsonata(expression[1], ids) : quote(value.slice(1));
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (numeric && value !== '' && !isNaN(Number(value))) return String(value);
+  return quote(String(value ?? ''));
+}
+
+const OPERATIONS: Record<string, (left: string, right: string) => string> = {
+  equals: (l, r) => `${l} = ${r}`,
+  equal: (l, r) => `${l} = ${r}`,
+  notEquals: (l, r) => `${l} != ${r}`,
+  notEqual: (l, r) => `${l} != ${r}`,
+  gt: (l, r) => `${l} > ${r}`,
+  larger: (l, r) => `${l} > ${r}`,
+  gte: (l, r) => `${l} >= ${r}`,
+  largerEqual: (l, r) => `${l} >= ${r}`,
+  lt: (l, r) => `${l} < ${r}`,
+  smaller: (l, r) => `${l} < ${r}`,
+  lte: (l, r) => `${l} <= ${r}`,
+  smallerEqual: (l, r) => `${l} <= ${r}`,
+  contains: (l, r) => `$contains(${l}, ${r})`,
+  notContains: (l, r) => `$not($contains(${l}, ${r}))`,
+  startsWith: (l, r) => `$substring(${l}, 0, $length(${r})) = ${r}`,
+  exists: l => `$exists(${l})`,
+  notExists: l => `$not($exists(${l}))`,
+  isEmpty: l => `$not($boolean(${l}))`,
+  isNotEmpty: l => `$boolean(${l})`,
+  // Branch conditions only need to be truthy
+  true: l => l,
+  false: l => `$not(${l})`
+};
+
+/**
+ * If / Switch condition block -> JSONata, or null when an operation is
+ * not supported. Handles the v2 filter format and the v1 typed lists.
+ */
+function toCondition(block: unknown, ids: Map<string, number>): string | null {
+  if (!isRecord(block)) return null;
+  const parts: (string | null)[] = [];
+  let combinator = 'and';
+  if (Array.isArray(block.conditions)) {
+    combinator = block.combinator === 'or' ? 'or' : 'and';
+    for (const c of block.conditions) {
+      const op = OPERATIONS[c.operator?.operation];
+      const numeric = c.operator?.type === 'number';
+      parts.push(op ? op(operand(c.leftValue, ids, numeric), operand(c.rightValue, ids, numeric)) : null);
+    }
+  } else {
+    for (const [kind, list] of Object.entries(block)) {
+      if (!Array.isArray(list)) continue;
+      for (const c of list) {
+        const op = OPERATIONS[c.operation ?? (kind === 'boolean' ? 'equal' : '')];
+        parts.push(op ? op(operand(c.value1, ids, kind === 'number'), operand(c.value2, ids, kind === 'number')) : null);
+      }
+    }
+  }
+  if (parts.length === 0 || parts.includes(null)) return null;
+  return parts.length === 1 ? parts[0] : parts.map(part => `(${part})`).join(` ${combinator} `);
+}
+
+function parseWorkflow(workflow: N8nSourceWorkflow): ImportedWorkflow {
+  const name = workflow.name || 'Imported n8n workflow';
+  const warnings: string[] = [];
+  const nodes = workflow.nodes.filter(node => isRecord(node) && !SKIPPED_TYPES.includes(node.type));
+  const byName = new Map(nodes.map(node => [node.name, node]));
+  const targets = (node: N8nSourceNode) => (workflow.connections[node.name]?.main || []).map(output => (output || []).map(c => c.node).filter(n => byName.has(n)));
+
+  // Breadth-first from the triggers, then anything left in file order
+  const order: N8nSourceNode[] = [];
+  const queue = nodes.filter(node => stepType(node) === 'trigger');
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (order.includes(node)) continue;
+    order.push(node);
+    targets(node).flat().forEach(n => queue.push(byName.get(n)!));
+  }
+  nodes.filter(node => !order.includes(node)).forEach(node => order.push(node));
+  const ids = new Map(order.map((node, i) => [node.name, i + 1]));
+
+  const steps: AutomationStep[] = order.map(node => {
+    const id = ids.get(node.name)!;
+    const type = stepType(node);
+    const kind = shortType(node.type);
+    const params = node.parameters || {};
+    let inputs: Record<string, string>;
+    if (kind === 'code' || kind === 'function' || kind === 'functionItem') {
+      const js = params.jsCode ?? params.functionCode ?? '';
+      inputs = js ? { js } : {};
+      if (/\$input|\$json|\$\(|\$node|items\b/.test(js)) warnings.push(`"${node.name}" uses n8n's Code node API; adapt it before running locally.`);
+    } else if (type === 'delay') {
+      inputs = { duration: `${params.amount ?? 1} ${params.unit ?? 'minutes'}` };
+    } else if (kind === 'if' || kind === 'switch') {
+      inputs = {};
+    } else {
+      inputs = flattenInputs(params, value => toInput(value, ids));
+    }
+    if (type === 'action' || type === 'trigger') inputs = { app: appName(node.type), ...inputs };
+    const credential = Object.values(node.credentials || {})[0]?.name;
+    if (credential) inputs.credential = credential;
+    return {
+      id,
+      title: node.name,
+      description: node.notes || `n8n ${humanize(kind)} node`,
+      type,
+      ...(Object.keys(inputs).length > 0 && { inputs })
+    };
+  });
+
+  const edges: BlueprintEdge[] = [];
+  const add = (edge: BlueprintEdge) => {
+    if (!edges.some(e => e.from === edge.from && e.to === edge.to && e.type === edge.type)) edges.push(edge);
+  };
+  for (const node of order) {
+    const from = ids.get(node.name)!;
+    const kind = shortType(node.type);
+    const params = node.parameters || {};
+    const outputs = targets(node);
+
+    // Conditions per output; undefined = plain `next`
+    let conditions: (string | undefined)[] = [];
+    if (kind === 'if') {
+      const condition = toCondition(params.conditions, ids);
+      if (condition === null) warnings.push(`"${node.name}" has a condition that could not be converted; both outputs are unconditional.`);
+      conditions = condition ? [condition, `$not(${condition})`] : ['true', 'true'];
+    } else if (kind === 'switch') {
+      const rules: any[] = params.rules?.values || params.rules?.rules || [];
+      conditions = rules.map((rule, i) => {
+        const condition = toCondition(rule.conditions, ids);
+        if (condition === null) warnings.push(`"${node.name}" rule ${i + 1} could not be converted; its output is unconditional.`);
+        return condition ?? 'true';
+      });
+    }
+    const mainCount = kind === 'if' ? 2 : kind === 'switch' ? conditions.length + (params.options?.fallbackOutput === 'extra' ? 1 : 0) : kind === 'splitInBatches' ? 2 : 1;
+
+    outputs.forEach((names, output) => names.forEach(target => {
+      const to = ids.get(target)!;
+      const targetNode = byName.get(target)!;
+      // Loop bodies feed back into their Loop Over Items node
+      if (shortType(targetNode.type) === 'splitInBatches' && to < from) return;
+      if (node.onError === 'continueErrorOutput' && output >= mainCount) return add({ from, to, type: 'error' });
+      if (kind === 'splitInBatches') return add({ from, to, type: output === 1 ? 'loop' : 'next' });
+      const condition = conditions[output];
+      add(condition ? { from, to, type: 'branch', condition } : { from, to, type: 'next' });
+    }));
+  }
+
+  return { name, blueprint: toBlueprint('n8n', name, steps, edges, workflow), warnings };
+}
+
+export const n8nImporter: WorkflowImporter = {
+  platform: 'n8n',
+  label: 'n8n workflow',
+  detect: json => isWorkflow(json) || (Array.isArray(json) && json.length > 0 && json.every(isWorkflow)),
+  parse(json) {
+    const workflows = Array.isArray(json) ? json : [json];
+    if (!workflows.every(isWorkflow)) throw new Error('Invalid n8n workflow: expected "nodes" and "connections".');
+    return workflows.map(parseWorkflow);
+  }
+};
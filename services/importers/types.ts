@@ -0,0 +1,31 @@
+import { AutomationResult, Platform } from "../../types";
+
+/**
+ * Contracts for platform importers.
+ * An importer turns a workflow exported from another tool into blueprints
+ * the rest of the app can audit, simulate, document and export.
+ */
+
+export interface ImportedWorkflow {
+  /** Name from the source file */
+  name: string;
+  blueprint: AutomationResult;
+  /** Things that did not carry over exactly, e.g. a condition kept verbatim */
+  warnings: string[];
+}
+
+export interface WorkflowImporter {
+  platform: Platform;
+  /** e.g. "n8n workflow" */
+  label: string;
+  /** Whether the parsed JSON looks like this importer's format */
+  detect(json: unknown): boolean;
+  /** One entry per workflow in the file; throws on malformed input */
+  parse(json: unknown): ImportedWorkflow[];
+}
+
+/** Workflows parsed from one file, with the importer that recognised it */
+export interface WorkflowImport {
+  importer: WorkflowImporter;
+  workflows: ImportedWorkflow[];
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { zapierImporter } from './zapierImporter';
+import { importWorkflows } from '.';
+import exported from './fixtures/zapier-export.json';
+
+describe('zapierImporter', () => {
+  it('should import every zap in an account export', () => {
+    const [leads, report] = zapierImporter.parse(exported);
+
+    expect(leads.name).toBe('New Typeform lead to HubSpot and Slack');
+    expect(leads.blueprint.platform).toBe('zapier');
+    expect(leads.blueprint.steps.map(step => [step.title, step.type])).toEqual([
+      ['Typeform: form response', 'trigger'],
+      ['Only business emails', 'logic'],
+      ['Create contact', 'action'],
+      ['Delay: delay for', 'delay'],
+      ['Slack: channel message', 'action']
+    ]);
+    expect(leads.blueprint.edges![1]).toEqual({ from: 2, to: 3, type: 'branch', condition: "$not($contains($steps.`1`.answers.email, 'gmail.com'))" });
+    expect(leads.blueprint.steps[3].inputs).toEqual({ duration: '5 minutes' });
+    expect(leads.blueprint.steps[4].inputs!.text).toBe('New lead {{1.answers.name}} (HubSpot id {{3.id}})');
+
+    expect(report.blueprint.steps[1].inputs).toEqual({ python: "output = {'ok': True}" });
+    expect(report.warnings).toEqual(['"Build report" is Python; the local runner only executes JavaScript.']);
+  });
+
+  it('should reject files no importer recognizes', () => {
+    expect(() => importWorkflows({ hello: 'world' })).toThrow('Unrecognized workflow file');
+    const { importer, workflows } = importWorkflows(exported);
+    expect(importer.platform).toBe('zapier');
+    expect(workflows).toHaveLength(2);
+  });
+});
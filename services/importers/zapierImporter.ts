@@ -0,0 +1,157 @@
+import { AutomationStep, BlueprintEdge, StepType } from "../../types";
+import { ImportedWorkflow, WorkflowImporter } from "./types";
+import { appName, flattenInputs, humanize, isRecord, quote, stepRef, toBlueprint } from "./common";
+
+/**
+ * Zapier export JSON -> blueprints. Accepts the account export
+ * (`{ zaps: [...] }`, one blueprint per zap) or a single zap.
+ *
+ * Zap steps form a tree through `parent_id`; they are numbered depth-first
+ * from the trigger. Children of a Paths step become `branch` edges and
+ * children of a Looping step `loop` edges. Filter rules become the
+ * condition on the edge out of the filter. Field mappings such as
+ * `{{123__customer__email}}` become `{{2.customer.email}}`.
+ */
+
+interface ZapNode {
+  id: number | string;
+  parent_id?: number | string | null;
+  type_of?: string;
+  selected_api?: string;
+  action?: string;
+  title?: string | null;
+  params?: Record<string, any>;
+}
+
+interface Zap {
+  id?: number | string;
+  title?: string;
+  /** Keyed by node id in account exports; an array in some older files */
+  nodes?: Record<string, ZapNode> | ZapNode[];
+  steps?: ZapNode[];
+}
+
+const isZap = (value: unknown): value is Zap =>
+  isRecord(value) && (isRecord(value.nodes) || Array.isArray(value.nodes) || Array.isArray(value.steps)) && !Array.isArray(value.flow) && !isRecord(value.connections);
+
+const zapsOf = (json: unknown): unknown[] | null => {
+  if (isRecord(json) && Array.isArray(json.zaps)) return json.zaps;
+  return isZap(json) ? [json] : null;
+};
+
+const apiOf = (node: ZapNode) => (node.selected_api || '').replace(/@.*$/, '');
+
+const MATCHES: Record<string, (key: string, value: string) => string> = {
+  text_contains: (k, v) => `$contains(${k}, ${quote(v)})`,
+  text_does_not_contain: (k, v) => `$not($contains(${k}, ${quote(v)}))`,
+  text_exactly_matches: (k, v) => `${k} = ${quote(v)}`,
+  text_does_not_exactly_match: (k, v) => `${k} != ${quote(v)}`,
+  number_greater_than: (k, v) => `${k} > ${Number(v)}`,
+  number_less_than: (k, v) => `${k} < ${Number(v)}`,
+  number_equals: (k, v) => `${k} = ${Number(v)}`,
+  boolean_is_true: k => k,
+  boolean_is_false: k => `$not(${k})`,
+  exists: k => `$exists(${k})`,
+  does_not_exist: k => `$not($exists(${k}))`
+};
+
+function stepType(node: ZapNode, isRoot: boolean): StepType {
+  const api = apiOf(node);
+  if (isRoot || node.type_of === 'read') return 'trigger';
+  if (/^Filter|^Branching|^Formatter|^Code/.test(api)) return 'logic';
+  if (/^Delay/.test(api)) return 'delay';
+  if (/^Looping/.test(api)) return 'loop';
+  if (/^SubZap/.test(api)) return 'sub-workflow';
+  return 'action';
+}
+
+function parseZap(zap: Zap, index: number): ImportedWorkflow {
+  const name = zap.title || `Imported zap ${zap.id ?? index + 1}`;
+  const warnings: string[] = [];
+  const nodes: ZapNode[] = (Array.isArray(zap.nodes) ? zap.nodes : Object.values(zap.nodes || {})).concat(zap.steps || []).filter(isRecord) as ZapNode[];
+  const key = (id: unknown) => String(id);
+  const known = new Set(nodes.map(node => key(node.id)));
+  const children = (parent: ZapNode | null) => nodes
+    .filter(node => parent ? key(node.parent_id) === key(parent.id) : node.parent_id == null || !known.has(key(node.parent_id)))
+    .sort((a, b) => Number(a.id) - Number(b.id));
+
+  // Depth-first from the root(s)
+  const order: ZapNode[] = [];
+  const visit = (node: ZapNode) => {
+    if (order.includes(node)) return;
+    order.push(node);
+    children(node).forEach(visit);
+  };
+  children(null).forEach(visit);
+  const ids = new Map(order.map((node, i) => [key(node.id), i + 1]));
+
+  const remap = (value: string) => value.replace(/\{\{(\w+?)__([^}]+)\}\}/g, (match, id: string, path: string) =>
+    ids.has(id) ? `{{${ids.get(id)}.${path.replace(/__/g, '.')}}}` : match);
+
+  /** `filter_criteria` (OR of AND groups) -> JSONata, or null if unsupported */
+  const toCondition = (criteria: unknown): string | null => {
+    if (!Array.isArray(criteria) || criteria.length === 0) return null;
+    const join = (parts: string[], op: string) => parts.length === 1 ? parts[0] : parts.map(part => `(${part})`).join(` ${op} `);
+    const groups = criteria.map(group => (Array.isArray(group) ? group : [group]).map((rule: any) => {
+      const ref = /^\{\{(\w+?)__([^}]+)\}\}$/.exec(rule?.key ?? '');
+      const match = MATCHES[rule?.match];
+      if (!ref || !ids.has(ref[1]) || !match) return null;
+      return match(stepRef(ids.get(ref[1])!, ref[2].replace(/__/g, '.')), String(rule.value ?? ''));
+    }));
+    if (groups.some(group => group.includes(null))) return null;
+    return join(groups.map(group => join(group as string[], 'and')), 'or');
+  };
+
+  const steps: AutomationStep[] = order.map(node => {
+    const id = ids.get(key(node.id))!;
+    const type = stepType(node, id === 1);
+    const api = apiOf(node);
+    const app = appName(api);
+    const params = node.params || {};
+    let inputs: Record<string, string>;
+    if (/^Code/.test(api)) {
+      const python = /python/i.test(node.action || '');
+      inputs = params.code ? { [python ? 'python' : 'js']: params.code } : {};
+      if (python) warnings.push(`"${node.title || 'Code'}" is Python; the local runner only executes JavaScript.`);
+    } else if (type === 'delay') {
+      inputs = { duration: `${params.delay_for_value ?? 1} ${params.delay_for_unit ?? 'minutes'}` };
+    } else {
+      inputs = flattenInputs(params, remap);
+      if (type === 'action' || type === 'trigger') inputs = { app, ...inputs };
+    }
+    return {
+      id,
+      title: node.title || `${humanize(app)}: ${humanize(node.action || node.type_of || 'step').toLowerCase()}`,
+      description: `Zapier ${api || 'step'}${node.action ? ` (${node.action})` : ''}`,
+      type,
+      ...(Object.keys(inputs).length > 0 && { inputs })
+    };
+  });
+
+  const edges: BlueprintEdge[] = [];
+  for (const node of order) {
+    const api = apiOf(node);
+    let condition: string | undefined;
+    if (/^Filter/.test(api)) {
+      condition = toCondition(node.params?.filter_criteria) ?? undefined;
+      if (!condition) warnings.push(`Filter rules of "${node.title || 'Filter'}" could not be converted; they are kept as inputs.`);
+    }
+    const type: BlueprintEdge['type'] = condition || /^Branching/.test(api) ? 'branch' : /^Looping/.test(api) ? 'loop' : 'next';
+    for (const child of children(node)) {
+      edges.push({ from: ids.get(key(node.id))!, to: ids.get(key(child.id))!, type, ...(condition && { condition }) });
+    }
+  }
+
+  return { name, blueprint: toBlueprint('zapier', name, steps, edges, zap), warnings };
+}
+
+export const zapierImporter: WorkflowImporter = {
+  platform: 'zapier',
+  label: 'Zapier zap',
+  detect: json => zapsOf(json) !== null,
+  parse(json) {
+    const zaps = zapsOf(json);
+    if (!zaps) throw new Error('Invalid Zapier export: expected "zaps" or a zap with "nodes".');
+    return zaps.filter(isZap).map(parseZap);
+  }
+};
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+const bulkAdd = vi.fn(async (_records: unknown[]) => {});
+
+vi.mock('./storageService', () => ({
+  storage: {
+    getSetting: async (_key: string, fallback: unknown) => fallback,
+    saveSetting: async () => {}
+  },
+  db: { logs: { bulkAdd: (records: unknown[]) => bulkAdd(records) } }
+}));
+
+import { DEFAULT_LOG_SETTINGS, HttpSink, IndexedDbSink, matchesFilter, saveLogSettings, toLogRecord, toNdjson } from './logStoreService';
+import { LogEntry, LogLevel } from '../utils/logger';
+
+const entry = (overrides: Partial<LogEntry> = {}): LogEntry => ({
+  level: LogLevel.INFO,
+  message: 'AI request completed',
+  timestamp: 1000,
+  ...overrides
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  bulkAdd.mockClear();
+});
+
+describe('toLogRecord', () => {
+  it('should flatten errors so entries survive serialization', () => {
+    const record = toLogRecord(entry({ level: LogLevel.ERROR, error: new TypeError('boom') }));
+    expect(record.error).toMatchObject({ name: 'TypeError', message: 'boom' });
+    expect(JSON.parse(JSON.stringify(record)).error.message).toBe('boom');
+  });
+});
+
+describe('toNdjson', () => {
+  it('should write one JSON object per line without store ids', () => {
+    const ndjson = toNdjson([{ ...toLogRecord(entry()), id: 7 }, toLogRecord(entry({ message: 'second' }))]);
+    const lines = ndjson.trimEnd().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(l => l.message)).toEqual(['AI request completed', 'second']);
+    expect(lines[0].id).toBeUndefined();
+    expect(ndjson.endsWith('\n')).toBe(true);
+    expect(toNdjson([])).toBe('');
+  });
+});
+
+describe('matchesFilter', () => {
+  it('should filter by minimum level, time and text', () => {
+    const record = toLogRecord(entry({ level: LogLevel.WARN, context: { provider: 'gemini' }, traceId: 'abc123' }));
+    expect(matchesFilter(record, { minLevel: LogLevel.INFO })).toBe(true);
+    expect(matchesFilter(record, { minLevel: LogLevel.ERROR })).toBe(false);
+    expect(matchesFilter(record, { since: 2000 })).toBe(false);
+    expect(matchesFilter(record, { text: 'GEMINI' })).toBe(true);
+    expect(matchesFilter(record, { text: 'abc1' })).toBe(true);
+    expect(matchesFilter(record, { text: 'openai' })).toBe(false);
+  });
+});
+
+describe('saveLogSettings', () => {
+  it('should reject non-http collector endpoints', async () => {
+    await expect(saveLogSettings({ ...DEFAULT_LOG_SETTINGS, httpEndpoint: 'file:///tmp/logs' })).rejects.toThrow('http(s)');
+    await expect(saveLogSettings({ ...DEFAULT_LOG_SETTINGS, retentionDays: 0 })).rejects.toThrow('Retention');
+  });
+});
+
+describe('IndexedDbSink', () => {
+  it('should batch entries at or above the persist level', async () => {
+    vi.useFakeTimers();
+    const sink = new IndexedDbSink(DEFAULT_LOG_SETTINGS, 1000);
+    sink.write(entry({ level: LogLevel.DEBUG }));
+    sink.write(entry());
+    sink.write(entry({ message: 'Cache hit' }));
+    expect(bulkAdd).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(bulkAdd).toHaveBeenCalledTimes(1);
+    expect((bulkAdd.mock.calls[0][0] as LogEntry[]).map(r => r.message)).toEqual(['AI request completed', 'Cache hit']);
+  });
+
+  it('should write errors immediately', async () => {
+    const sink = new IndexedDbSink(DEFAULT_LOG_SETTINGS, 60000);
+    sink.write(entry({ level: LogLevel.ERROR, message: 'React Error Boundary caught error' }));
+    await sink.flush();
+    expect(bulkAdd).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('HttpSink', () => {
+  it('should POST NDJSON batches to the collector', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const sink = new HttpSink('http://localhost:8080/logs', LogLevel.WARN, 60000, 2);
+
+    sink.write(entry());
+    sink.write(entry({ level: LogLevel.WARN, message: 'a' }));
+    sink.write(entry({ level: LogLevel.ERROR, message: 'b' }));
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:8080/logs');
+    expect(init.headers).toEqual({ 'Content-Type': 'application/x-ndjson' });
+    expect((init.body as string).trimEnd().split('\n').map(line => JSON.parse(line).message)).toEqual(['a', 'b']);
+  });
+
+  it('should drop a batch the collector rejects', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    const sink = new HttpSink('http://localhost:8080/logs', LogLevel.INFO);
+
+    sink.write(entry());
+    await sink.flush();
+    sink.write(entry());
+    await sink.flush();
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
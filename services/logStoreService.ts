@@ -0,0 +1,308 @@
+import { LogRecord, db, storage } from './storageService';
+import { LOG_LEVELS, LogEntry, LogLevel, LogSink, logger, meetsLevel } from '../utils/logger';
+
+/**
+ * Persistent and remote log sinks.
+ *
+ * `IndexedDbSink` batches entries at or above the persist level into the
+ * `logs` table; retention (age and entry count) is applied at startup and
+ * every few hundred writes. `HttpSink` POSTs NDJSON batches to an optional
+ * local collector. Both report their own failures to the console only, so
+ * a broken sink can never feed back into the logger.
+ */
+
+const SETTINGS_KEY = 'logs.settings';
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface LogSettings {
+  /** Lowest level written to IndexedDB */
+  persistLevel: LogLevel;
+  retentionDays: number;
+  maxEntries: number;
+  /** Collector URL; the HTTP sink is off when unset */
+  httpEndpoint?: string;
+  httpLevel: LogLevel;
+}
+
+export const DEFAULT_LOG_SETTINGS: LogSettings = {
+  persistLevel: LogLevel.INFO,
+  retentionDays: 7,
+  maxEntries: 10000,
+  httpLevel: LogLevel.WARN
+};
+
+export interface LogFilter {
+  minLevel?: LogLevel;
+  since?: number;
+  until?: number;
+  /** Case-insensitive match on message, context, error and trace id */
+  text?: string;
+  limit?: number;
+}
+
+export async function getLogSettings(): Promise<LogSettings> {
+  const stored = await storage.getSetting<Partial<LogSettings>>(SETTINGS_KEY, {});
+  return { ...DEFAULT_LOG_SETTINGS, ...stored };
+}
+
+export async function saveLogSettings(settings: LogSettings): Promise<void> {
+  if (!LOG_LEVELS.includes(settings.persistLevel) || !LOG_LEVELS.includes(settings.httpLevel)) {
+    throw new Error('Unknown log level.');
+  }
+  if (!Number.isInteger(settings.retentionDays) || settings.retentionDays < 1) {
+    throw new Error('Retention must be at least one day.');
+  }
+  if (!Number.isInteger(settings.maxEntries) || settings.maxEntries < 100) {
+    throw new Error('Keep at least 100 log entries.');
+  }
+  if (settings.httpEndpoint) {
+    const url = new URL(settings.httpEndpoint);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error('Collector endpoint must be an http(s) URL.');
+    }
+  }
+  await storage.saveSetting(SETTINGS_KEY, { ...settings, httpEndpoint: settings.httpEndpoint || undefined });
+}
+
+/**
+ * Flatten an entry for storage or export
+ */
+export function toLogRecord(entry: LogEntry): LogRecord {
+  const { error, ...rest } = entry;
+  return {
+    ...rest,
+    ...(error && { error: { name: error.name, message: error.message, stack: error.stack } })
+  };
+}
+
+/**
+ * Newline-delimited JSON, one entry per line
+ */
+export function toNdjson(records: LogRecord[]): string {
+  return records.map(({ id, ...record }) => JSON.stringify(record)).join('\n') + (records.length ? '\n' : '');
+}
+
+export function matchesFilter(record: LogRecord, filter: LogFilter): boolean {
+  if (filter.minLevel && !meetsLevel(record.level, filter.minLevel)) return false;
+  if (filter.since !== undefined && record.timestamp < filter.since) return false;
+  if (filter.until !== undefined && record.timestamp > filter.until) return false;
+  if (filter.text) {
+    const needle = filter.text.toLowerCase();
+    const haystack = [record.message, record.traceId, record.error?.message, record.context && JSON.stringify(record.context)];
+    if (!haystack.some(text => text?.toLowerCase().includes(needle))) return false;
+  }
+  return true;
+}
+
+/**
+ * Buffers entries and writes them to the `logs` table in batches. Errors
+ * are flushed immediately so a crash report is not lost with the page.
+ */
+export class IndexedDbSink implements LogSink {
+  readonly name = 'indexeddb';
+  private buffer: LogRecord[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sincePrune = 0;
+  private settings: LogSettings;
+  private flushDelay: number;
+
+  constructor(settings: LogSettings, flushDelay: number = 1000) {
+    this.settings = settings;
+    this.flushDelay = flushDelay;
+  }
+
+  write(entry: LogEntry): void {
+    if (!meetsLevel(entry.level, this.settings.persistLevel)) return;
+    this.buffer.push(toLogRecord(entry));
+    if (entry.level === LogLevel.ERROR) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.flushDelay);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.buffer.length === 0) return;
+
+    const batch = this.buffer;
+    this.buffer = [];
+    try {
+      await db.logs.bulkAdd(batch);
+      this.sincePrune += batch.length;
+      if (this.sincePrune >= 500) {
+        this.sincePrune = 0;
+        await logStore.prune(this.settings);
+      }
+    } catch (error) {
+      console.warn(`[Logger] Persisting ${batch.length} log entries failed`, error);
+    }
+  }
+}
+
+/**
+ * POSTs NDJSON batches to a collector. A failed batch is dropped rather
+ * than retried so an unreachable collector cannot grow memory.
+ */
+export class HttpSink implements LogSink {
+  readonly name = 'http';
+  private buffer: LogRecord[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private failing = false;
+  private endpoint: string;
+  private minLevel: LogLevel;
+  private flushDelay: number;
+  private batchSize: number;
+
+  constructor(endpoint: string, minLevel: LogLevel, flushDelay: number = 2000, batchSize: number = 20) {
+    this.endpoint = endpoint;
+    this.minLevel = minLevel;
+    this.flushDelay = flushDelay;
+    this.batchSize = batchSize;
+  }
+
+  write(entry: LogEntry): void {
+    if (!meetsLevel(entry.level, this.minLevel)) return;
+    this.buffer.push(toLogRecord(entry));
+    if (this.buffer.length >= this.batchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.flushDelay);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.buffer.length === 0) return;
+
+    const body = toNdjson(this.buffer);
+    const count = this.buffer.length;
+    this.buffer = [];
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-ndjson' },
+        body,
+        keepalive: body.length < 60000
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      this.failing = false;
+    } catch (error) {
+      // Warn once per outage rather than once per batch
+      if (!this.failing) console.warn(`[Logger] Log collector unreachable, dropped ${count} entries`, error);
+      this.failing = true;
+    }
+  }
+}
+
+let persistentSink: IndexedDbSink | null = null;
+let httpSink: HttpSink | null = null;
+
+const matching = async (filter: LogFilter) => {
+  await persistentSink?.flush();
+  return db.logs
+    .where('timestamp')
+    .between(filter.since ?? 0, filter.until ?? Infinity, true, true)
+    .reverse()
+    .filter(record => matchesFilter(record, filter));
+};
+
+export const logStore = {
+  /**
+   * Persisted entries matching `filter`, newest first
+   */
+  async query(filter: LogFilter = {}): Promise<LogRecord[]> {
+    return (await matching(filter)).limit(filter.limit ?? 500).toArray();
+  },
+
+  async count(): Promise<number> {
+    await persistentSink?.flush();
+    return db.logs.count();
+  },
+
+  /**
+   * Matching entries as NDJSON, oldest first; unlimited unless
+   * `filter.limit` is set
+   */
+  async export(filter: LogFilter = {}): Promise<string> {
+    const collection = await matching(filter);
+    const records = await (filter.limit ? collection.limit(filter.limit) : collection).toArray();
+    return toNdjson(records.reverse());
+  },
+
+  async clear(): Promise<void> {
+    await persistentSink?.flush();
+    await db.logs.clear();
+  },
+
+  /**
+   * Delete entries older than the retention window, then the oldest
+   * entries beyond the count limit. Returns the number removed.
+   */
+  async prune(settings?: LogSettings, now: number = Date.now()): Promise<number> {
+    const { retentionDays, maxEntries } = settings ?? await getLogSettings();
+    const expired = await db.logs.where('timestamp').below(now - retentionDays * DAY).delete();
+    const excess = (await db.logs.count()) - maxEntries;
+    if (excess <= 0) return expired;
+    const oldest = await db.logs.orderBy('timestamp').limit(excess).primaryKeys();
+    await db.logs.bulkDelete(oldest);
+    return expired + oldest.length;
+  },
+
+  /**
+   * Write out buffered entries from both sinks
+   */
+  async flush(): Promise<void> {
+    await Promise.all([persistentSink?.flush(), httpSink?.flush()]);
+  }
+};
+
+const flushOnHide = () => {
+  if (document.visibilityState === 'hidden') logStore.flush();
+};
+
+/**
+ * Install the persistent sink (and the HTTP sink when a collector is
+ * configured) from the saved settings. Safe to call again after the
+ * settings change. Uncaught errors and rejections are logged from here on.
+ */
+export async function installLogSinks(): Promise<void> {
+  const settings = await getLogSettings();
+
+  await persistentSink?.flush();
+  persistentSink = new IndexedDbSink(settings);
+  logger.addSink(persistentSink);
+
+  await httpSink?.flush();
+  httpSink = settings.httpEndpoint ? new HttpSink(settings.httpEndpoint, settings.httpLevel) : null;
+  if (httpSink) logger.addSink(httpSink);
+  else logger.removeSink('http');
+
+  document.removeEventListener('visibilitychange', flushOnHide);
+  document.addEventListener('visibilitychange', flushOnHide);
+  window.removeEventListener('error', logUncaughtError);
+  window.addEventListener('error', logUncaughtError);
+  window.removeEventListener('unhandledrejection', logUnhandledRejection);
+  window.addEventListener('unhandledrejection', logUnhandledRejection);
+
+  try {
+    const removed = await logStore.prune(settings);
+    if (removed > 0) logger.debug('Pruned log store', { removed });
+  } catch (error: any) {
+    console.warn('[Logger] Log retention failed', error);
+  }
+}
+
+function logUncaughtError(event: ErrorEvent): void {
+  logger.error('Uncaught error', event.error instanceof Error ? event.error : new Error(event.message), {
+    source: event.filename,
+    line: event.lineno
+  });
+}
+
+function logUnhandledRejection(event: PromiseRejectionEvent): void {
+  const reason = event.reason;
+  logger.error('Unhandled promise rejection', reason instanceof Error ? reason : new Error(String(reason)));
+}
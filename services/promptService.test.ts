@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const settings = new Map<string, unknown>();
+
+vi.mock('./storageService', () => ({
+  storage: {
+    getSetting: async (key: string, fallback: unknown) => settings.has(key) ? settings.get(key) : fallback,
+    saveSetting: async (key: string, value: unknown) => { settings.set(key, value); }
+  }
+}));
+
+import { PROMPT_TEMPLATES, interpolate, prompts, templateVariables } from './promptService';
+
+describe('interpolate', () => {
+  it('should replace placeholders, tolerating inner whitespace', () => {
+    expect(interpolate('Build {{platform}} for {{ description }}', { platform: 'n8n', description: 'leads' }))
+      .toBe('Build n8n for leads');
+  });
+
+  it('should not re-expand placeholders found in values', () => {
+    expect(interpolate('{{a}}', { a: '{{b}}', b: 'x' })).toBe('{{b}}');
+  });
+
+  it('should throw for a missing variable', () => {
+    expect(() => interpolate('Hi {{name}}', {})).toThrow("'name'");
+  });
+});
+
+describe('templateVariables', () => {
+  it('should list each placeholder once', () => {
+    expect(templateVariables('{{a}} {{b}} {{a}}')).toEqual(['a', 'b']);
+  });
+
+  it('should match the declared variables of every default template', () => {
+    for (const template of Object.values(PROMPT_TEMPLATES)) {
+      const used = templateVariables(`${template.system || ''}\n${template.user || ''}`);
+      expect(used.sort()).toEqual([...template.variables].sort());
+    }
+  });
+});
+
+describe('prompts', () => {
+  beforeEach(() => settings.clear());
+
+  it('should resolve defaults with the base version', async () => {
+    const resolved = await prompts.resolve('blueprint.audit', { blueprint: '{}' });
+    expect(resolved.ref).toEqual({ id: 'blueprint.audit', version: '1' });
+    expect(resolved.user).toBe('Perform a deep security and ROI audit on this blueprint: {}');
+    expect(resolved.system).toBe(PROMPT_TEMPLATES['blueprint.audit'].system);
+  });
+
+  it('should prefer overrides and tag the version with the revision', async () => {
+    await prompts.saveOverride('advisor.chat', { system: 'Be terse.', user: 'Q: {{message}}' });
+    const resolved = await prompts.resolve('advisor.chat', { message: 'hi' });
+    expect(resolved.ref.version).toBe('1+custom.1');
+    expect(resolved.system).toBe('Be terse.');
+    expect(resolved.user).toBe('Q: hi');
+  });
+
+  it('should reject overrides that use undeclared variables', async () => {
+    await expect(prompts.saveOverride('advisor.chat', { user: '{{secret}}' })).rejects.toThrow('secret');
+  });
+
+  it('should never reuse a revision after a reset', async () => {
+    await prompts.saveOverride('advisor.chat', { user: 'A {{message}}' });
+    await prompts.resetOverride('advisor.chat');
+    expect((await prompts.resolve('advisor.chat', { message: 'x' })).ref.version).toBe('1');
+
+    await prompts.saveOverride('advisor.chat', { user: 'B {{message}}' });
+    expect((await prompts.resolve('advisor.chat', { message: 'x' })).ref.version).toBe('1+custom.2');
+  });
+});
@@ -0,0 +1,231 @@
+import { PromptRef } from '../types';
+import { storage } from './storageService';
+
+/**
+ * Prompt template registry.
+ *
+ * Every system instruction and prompt sent by the AI service is a named,
+ * versioned template with `{{variable}}` placeholders. Bump `version`
+ * whenever a default template's wording changes so results (and cache
+ * keys) can be traced back to the text that produced them.
+ *
+ * Overrides are stored per workspace in the settings table and take
+ * precedence over the defaults. Each save increments the revision, and a
+ * reset keeps the counter so a revision number is never reused.
+ */
+
+export type PromptId =
+  | 'automation.generate'
+  | 'workflow.docs'
+  | 'platform.benchmark'
+  | 'advisor.chat'
+  | 'manual.generate'
+  | 'sandbox.simulate'
+  | 'blueprint.audit'
+  | 'deployment.secrets'
+  | 'structured.repair'
+  | 'live.architect';
+
+export interface PromptTemplate {
+  id: PromptId;
+  version: number;
+  label: string;
+  /** Placeholders the caller always supplies */
+  variables: string[];
+  system?: string;
+  user?: string;
+}
+
+export interface PromptOverride {
+  system?: string;
+  user?: string;
+  revision: number;
+  updatedAt: number;
+}
+
+export interface ResolvedPrompt {
+  ref: PromptRef;
+  system?: string;
+  user: string;
+}
+
+const OVERRIDES_SETTING = 'prompts.overrides';
+
+export const PROMPT_TEMPLATES: Record<PromptId, PromptTemplate> = {
+  'automation.generate': {
+    id: 'automation.generate',
+    version: 2,
+    label: 'Blueprint Generation',
+    variables: ['platform', 'description'],
+    system: 'You are the Senior Automation Architect. Output structured JSON. Model the workflow as a graph: steps are nodes with unique integer ids, edges connect them by id. Use branch edges with a condition for decisions, several next edges from one step for parallel paths, a loop step with a loop edge into its body, and error edges into error-handler steps. Give each step the input parameters it reads (literals or expressions such as {{1.email}}) and the outputs it produces.',
+    user: 'Design a production-grade {{platform}} automation for: "{{description}}".'
+  },
+  'workflow.docs': {
+    id: 'workflow.docs',
+    version: 1,
+    label: 'Workflow Documentation',
+    variables: ['blueprint'],
+    system: 'You are a Technical Documentation AI. Provide structured JSON documentation.',
+    user: 'Generate comprehensive technical documentation for this automation: {{blueprint}}'
+  },
+  'platform.benchmark': {
+    id: 'platform.benchmark',
+    version: 1,
+    label: 'Platform Benchmark',
+    variables: ['description', 'platforms'],
+    system: 'Analyze and benchmark multiple automation platforms. Output JSON.',
+    user: 'Compare implementations for: "{{description}}" across: {{platforms}}.'
+  },
+  'advisor.chat': {
+    id: 'advisor.chat',
+    version: 1,
+    label: 'Advisor Chat',
+    variables: ['message'],
+    system: 'Advisor AI mode.',
+    user: '{{message}}'
+  },
+  'manual.generate': {
+    id: 'manual.generate',
+    version: 1,
+    label: 'Procedure Manual',
+    variables: ['text'],
+    system: 'You are a Technical Documentation AI. Provide a clear, human-readable operator manual in markdown.',
+    user: 'Generate a comprehensive step-by-step procedure manual for this automation: {{text}}'
+  },
+  'sandbox.simulate': {
+    id: 'sandbox.simulate',
+    version: 1,
+    label: 'Logic Simulation',
+    variables: ['blueprint', 'input'],
+    system: 'You are the Sandbox Kernel. Dry-run the logic and output JSON results for each step.',
+    user: 'Simulate this automation logic:\n{{blueprint}}\n\nWith input data:\n{{input}}'
+  },
+  'blueprint.audit': {
+    id: 'blueprint.audit',
+    version: 1,
+    label: 'Security & ROI Audit',
+    variables: ['blueprint'],
+    system: 'You are the Senior Security Auditor. Output structured JSON.',
+    user: 'Perform a deep security and ROI audit on this blueprint: {{blueprint}}'
+  },
+  'deployment.secrets': {
+    id: 'deployment.secrets',
+    version: 1,
+    label: 'Secrets & CI/CD',
+    variables: ['blueprint'],
+    system: 'Analyze for secrets and CI/CD stages. Output JSON.',
+    user: 'Identify secrets and suggest a CI/CD pipeline for: {{blueprint}}'
+  },
+  'structured.repair': {
+    id: 'structured.repair',
+    version: 1,
+    label: 'Structured Output Repair',
+    variables: ['violations', 'previous'],
+    user: 'Your previous response did not match the required JSON structure:\n{{violations}}\n\nPrevious response:\n{{previous}}\n\nReturn the complete, corrected JSON only.'
+  },
+  'live.architect': {
+    id: 'live.architect',
+    version: 1,
+    label: 'Live Architect Session',
+    variables: [],
+    system: 'You are a friendly and helpful senior automation architect.'
+  }
+};
+
+export const PROMPT_IDS = Object.keys(PROMPT_TEMPLATES) as PromptId[];
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+/**
+ * Names of all placeholders used in a template string
+ */
+export function templateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER)].map(match => match[1]))];
+}
+
+/**
+ * Replace `{{name}}` placeholders. A placeholder without a value is a
+ * programming error and throws rather than leaking braces to the model.
+ */
+export function interpolate(template: string, vars: Record<string, string | number>): string {
+  return template.replace(PLACEHOLDER, (_, name: string) => {
+    if (!(name in vars)) {
+      throw new Error(`Prompt variable '${name}' was not provided.`);
+    }
+    return String(vars[name]);
+  });
+}
+
+/**
+ * Version string recorded on results: the default version, plus the
+ * override revision when a workspace override is active.
+ */
+export function promptVersion(template: PromptTemplate, override?: PromptOverride): string {
+  return override ? `${template.version}+custom.${override.revision}` : String(template.version);
+}
+
+type OverrideMap = Partial<Record<PromptId, PromptOverride>>;
+
+const isActive = (override?: PromptOverride): override is PromptOverride =>
+  !!override && (override.system !== undefined || override.user !== undefined);
+
+export const prompts = {
+  /**
+   * Overrides currently in effect, keyed by template id
+   */
+  async getOverrides(): Promise<OverrideMap> {
+    const stored = await storage.getSetting<OverrideMap>(OVERRIDES_SETTING, {});
+    return Object.fromEntries(Object.entries(stored).filter(([, o]) => isActive(o))) as OverrideMap;
+  },
+
+  /**
+   * Resolve a template (override first, then default) and interpolate it
+   */
+  async resolve(id: PromptId, vars: Record<string, string | number> = {}): Promise<ResolvedPrompt> {
+    const template = PROMPT_TEMPLATES[id];
+    const override = (await this.getOverrides())[id];
+    const system = override?.system ?? template.system;
+    const user = override?.user ?? template.user ?? '';
+
+    return {
+      ref: { id, version: promptVersion(template, override) },
+      system: system ? interpolate(system, vars) : undefined,
+      user: interpolate(user, vars)
+    };
+  },
+
+  /**
+   * Save a workspace override. Only the template's declared variables may be
+   * referenced, so an override can never request data the caller lacks.
+   */
+  async saveOverride(id: PromptId, text: { system?: string; user?: string }): Promise<PromptOverride> {
+    const template = PROMPT_TEMPLATES[id];
+    const unknown = templateVariables(`${text.system || ''}\n${text.user || ''}`)
+      .filter(name => !template.variables.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown variable(s) for '${id}': ${unknown.join(', ')}. Available: ${template.variables.join(', ') || 'none'}.`);
+    }
+
+    const stored = await storage.getSetting<OverrideMap>(OVERRIDES_SETTING, {});
+    const override: PromptOverride = {
+      system: text.system,
+      user: text.user,
+      revision: (stored[id]?.revision || 0) + 1,
+      updatedAt: Date.now()
+    };
+    await storage.saveSetting(OVERRIDES_SETTING, { ...stored, [id]: override });
+    return override;
+  },
+
+  /**
+   * Return a template to its default text
+   */
+  async resetOverride(id: PromptId): Promise<void> {
+    const stored = await storage.getSetting<OverrideMap>(OVERRIDES_SETTING, {});
+    if (!stored[id]) return;
+    await storage.saveSetting(OVERRIDES_SETTING, {
+      ...stored,
+      [id]: { revision: stored[id]!.revision, updatedAt: Date.now() }
+    });
+  }
+};
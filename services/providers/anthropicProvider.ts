@@ -0,0 +1,108 @@
+import { AiProvider, AiRequest, AiResponse, ModelTier } from "./types";
+import { postEventStream, postJson } from "./http";
+import { schemaInstruction, toParts } from "./schema";
+
+export const ANTHROPIC_MODELS: Record<ModelTier, string> = {
+  pro: 'claude-sonnet-4-5',
+  flash: 'claude-haiku-4-5'
+};
+
+export const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+
+const DEFAULT_MAX_TOKENS = 8192;
+
+/**
+ * Build the Messages API payload for a request.
+ * Anthropic has no schema-constrained decoding, so structured requests
+ * carry the JSON Schema in the system prompt.
+ */
+export function buildMessagesBody(request: AiRequest): Record<string, any> {
+  const system = [
+    request.systemInstruction,
+    request.responseSchema && schemaInstruction(request.responseSchema)
+  ].filter(Boolean).join('\n\n');
+
+  const content = toParts(request.contents).map(part => 'text' in part
+    ? { type: 'text', text: part.text }
+    : { type: 'image', source: { type: 'base64', media_type: part.inlineData.mimeType, data: part.inlineData.data } }
+  );
+
+  const body: Record<string, any> = {
+    model: request.model,
+    max_tokens: DEFAULT_MAX_TOKENS,
+    messages: [{ role: 'user', content }]
+  };
+  if (system) body.system = system;
+
+  if (request.thinkingBudget) {
+    // Extended thinking requires max_tokens above the budget and no temperature override
+    body.thinking = { type: 'enabled', budget_tokens: request.thinkingBudget };
+    body.max_tokens = request.thinkingBudget + DEFAULT_MAX_TOKENS;
+  } else if (request.temperature !== undefined) {
+    body.temperature = request.temperature;
+  }
+  return body;
+}
+
+/**
+ * Anthropic Messages API backend (direct browser access)
+ */
+export function createAnthropicProvider(apiKey: string, baseUrl: string = ANTHROPIC_BASE_URL, models: Record<ModelTier, string> = ANTHROPIC_MODELS): AiProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/messages`;
+  const headers = {
+    'x-api-key': apiKey,
+    'anthropic-version': '2023-06-01',
+    'anthropic-dangerous-direct-browser-access': 'true'
+  };
+
+  return {
+    id: 'anthropic',
+    label: 'Anthropic',
+    models,
+
+    async generate(request: AiRequest): Promise<AiResponse> {
+      const payload = await postJson('anthropic', endpoint, buildMessagesBody(request), headers, request.signal);
+
+      const text = (payload?.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+
+      return {
+        text,
+        usage: payload?.usage && {
+          inputTokens: payload.usage.input_tokens || 0,
+          outputTokens: payload.usage.output_tokens || 0
+        }
+      };
+    },
+
+    async generateStream(request: AiRequest, onDelta: (chunk: string) => void): Promise<AiResponse> {
+      let text = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      await postEventStream('anthropic', endpoint, { ...buildMessagesBody(request), stream: true }, headers, (event) => {
+        switch (event?.type) {
+          case 'message_start':
+            inputTokens = event.message?.usage?.input_tokens || 0;
+            break;
+          case 'content_block_delta':
+            // Thinking deltas are skipped; only visible text is streamed
+            if (event.delta?.type === 'text_delta' && event.delta.text) {
+              text += event.delta.text;
+              onDelta(event.delta.text);
+            }
+            break;
+          case 'message_delta':
+            outputTokens = event.usage?.output_tokens || outputTokens;
+            break;
+          case 'error':
+            throw new Error(`anthropic stream error: ${event.error?.message || 'unknown'}`);
+        }
+      }, request.signal);
+
+      return { text, usage: { inputTokens, outputTokens } };
+    }
+  };
+}
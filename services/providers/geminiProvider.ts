@@ -0,0 +1,107 @@
+import { GoogleGenAI, Modality, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { AiProvider, AiRequest, AiResponse, AiUsage, ModelTier, SpeechRequest } from "./types";
+
+export const GEMINI_MODELS: Record<ModelTier, string> = {
+  pro: 'gemini-3-pro-preview',
+  flash: 'gemini-3-flash-preview'
+};
+
+const toParams = (request: AiRequest): GenerateContentParameters => ({
+  model: request.model,
+  contents: typeof request.contents === 'string'
+    ? request.contents
+    : { parts: request.contents },
+  config: {
+    abortSignal: request.signal,
+    systemInstruction: request.systemInstruction,
+    temperature: request.temperature,
+    ...(request.responseSchema && {
+      responseMimeType: "application/json",
+      responseSchema: request.responseSchema
+    }),
+    ...(request.thinkingBudget !== undefined && {
+      thinkingConfig: { thinkingBudget: request.thinkingBudget }
+    })
+  }
+});
+
+const toUsage = (response: GenerateContentResponse): AiUsage | undefined =>
+  response.usageMetadata && {
+    inputTokens: response.usageMetadata.promptTokenCount || 0,
+    outputTokens: (response.usageMetadata.candidatesTokenCount || 0) + (response.usageMetadata.thoughtsTokenCount || 0)
+  };
+
+/**
+ * Quota errors from the Gemini API carry their reset delay as a RetryInfo
+ * detail (`"retryDelay": "17s"`) in the message rather than a header;
+ * surface it as `retryAfterMs` for the backoff and circuit breaker.
+ */
+const withRetryHint = async <T>(call: () => Promise<T>): Promise<T> => {
+  try {
+    return await call();
+  } catch (error: any) {
+    const match = typeof error?.message === 'string' && error.message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    if (match && error.retryAfterMs === undefined) {
+      error.retryAfterMs = Number(match[1]) * 1000;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Google Gemini backend using the official SDK.
+ * Supports native schema enforcement, thinking budgets and audio output.
+ */
+export function createGeminiProvider(apiKey: string, models: Record<ModelTier, string> = GEMINI_MODELS): AiProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    models,
+
+    async generate(request: AiRequest): Promise<AiResponse> {
+      const response = await withRetryHint(() => ai.models.generateContent(toParams(request)));
+
+      return {
+        text: response.text || '',
+        usage: toUsage(response)
+      };
+    },
+
+    async generateStream(request: AiRequest, onDelta: (chunk: string) => void): Promise<AiResponse> {
+      const stream = await withRetryHint(() => ai.models.generateContentStream(toParams(request)));
+      let text = '';
+      let usage: AiUsage | undefined;
+
+      for await (const chunk of stream) {
+        const delta = chunk.text || '';
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        // Usage metadata is cumulative; the last chunk carries the totals
+        usage = toUsage(chunk) || usage;
+      }
+
+      return { text, usage };
+    },
+
+    async synthesizeSpeech(request: SpeechRequest): Promise<string> {
+      const response = await withRetryHint(() => ai.models.generateContent({
+        model: request.model,
+        contents: [{ parts: [{ text: `Synthesize: ${request.text}` }] }],
+        config: {
+          abortSignal: request.signal,
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: request.voice },
+            },
+          },
+        },
+      }));
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || "";
+    }
+  };
+}
@@ -0,0 +1,105 @@
+import { AiProviderId } from "../../types";
+import { ProviderRequestError } from "./types";
+import { isAbortError, parseRetryAfter } from "../../utils/retry";
+
+/**
+ * POST a JSON body and parse the JSON reply.
+ * Non-2xx responses become ProviderRequestError with the HTTP status.
+ */
+export async function postJson<T = any>(
+  provider: AiProviderId,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await send(provider, url, body, headers, signal);
+  return await response.json() as T;
+}
+
+/**
+ * POST a JSON body and consume a Server-Sent Events reply.
+ * Each `data:` payload is parsed as JSON and handed to `onEvent`.
+ */
+export async function postEventStream(
+  provider: AiProviderId,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  onEvent: (event: any) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await send(provider, url, body, headers, signal);
+  if (!response.body) {
+    throw new Error(`${provider} returned an empty stream.`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return;
+    const data = trimmed.slice(5).trim();
+    if (!data || data === '[DONE]') return;
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      // Ignore keep-alive or malformed frames
+      return;
+    }
+    onEvent(event);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(flushLine);
+  }
+  flushLine(buffer);
+}
+
+async function send(
+  provider: AiProviderId,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    // Network failures have no status, so mark them retryable explicitly
+    throw Object.assign(new Error(`${provider} endpoint unreachable: ${error.message}`), { retryable: true });
+  }
+
+  if (!response.ok) {
+    let detail = response.statusText;
+    try {
+      const payload = await response.json();
+      detail = payload?.error?.message || payload?.message || detail;
+    } catch {
+      // Body was not JSON; keep the status text
+    }
+    throw new ProviderRequestError(
+      provider,
+      response.status,
+      `${provider} request failed (${response.status}): ${detail}`,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+
+  return response;
+}
@@ -0,0 +1,98 @@
+import { AiProviderId } from "../../types";
+import { storage } from "../storageService";
+import { AiProvider, ModelTier, ProviderSettings } from "./types";
+import { createGeminiProvider, GEMINI_MODELS } from "./geminiProvider";
+import { createOpenAiProvider, LOCAL_BASE_URL, LOCAL_MODELS, OPENAI_BASE_URL, OPENAI_MODELS } from "./openAiProvider";
+import { createAnthropicProvider, ANTHROPIC_BASE_URL, ANTHROPIC_MODELS } from "./anthropicProvider";
+
+export * from "./types";
+
+interface ProviderInfo {
+  label: string;
+  requiresKey: boolean;
+  defaultModels: Record<ModelTier, string>;
+  defaultBaseUrl?: string;
+}
+
+/**
+ * Static catalogue of supported inference backends
+ */
+export const PROVIDER_INFO: Record<AiProviderId, ProviderInfo> = {
+  gemini: { label: 'Google Gemini', requiresKey: true, defaultModels: GEMINI_MODELS },
+  openai: { label: 'OpenAI', requiresKey: true, defaultModels: OPENAI_MODELS, defaultBaseUrl: OPENAI_BASE_URL },
+  anthropic: { label: 'Anthropic', requiresKey: true, defaultModels: ANTHROPIC_MODELS, defaultBaseUrl: ANTHROPIC_BASE_URL },
+  local: { label: 'Local Endpoint', requiresKey: false, defaultModels: LOCAL_MODELS, defaultBaseUrl: LOCAL_BASE_URL }
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDER_INFO) as AiProviderId[];
+
+const ACTIVE_PROVIDER_SETTING = 'ai.provider';
+const providerSettingKey = (id: AiProviderId) => `ai.provider.${id}`;
+
+export const isProviderId = (value: string): value is AiProviderId =>
+  (PROVIDER_IDS as string[]).includes(value);
+
+export async function getActiveProviderId(): Promise<AiProviderId> {
+  const id = await storage.getSetting<string>(ACTIVE_PROVIDER_SETTING, 'gemini');
+  return isProviderId(id) ? id : 'gemini';
+}
+
+export async function setActiveProviderId(id: AiProviderId): Promise<void> {
+  await storage.saveSetting(ACTIVE_PROVIDER_SETTING, id);
+}
+
+export async function getProviderSettings(id: AiProviderId): Promise<ProviderSettings> {
+  return storage.getSetting<ProviderSettings>(providerSettingKey(id), {});
+}
+
+export async function saveProviderSettings(id: AiProviderId, settings: ProviderSettings): Promise<void> {
+  await storage.saveSetting(providerSettingKey(id), settings);
+}
+
+/**
+ * Tier models for a provider: its defaults with any saved overrides
+ */
+export async function getProviderModels(id: AiProviderId): Promise<Record<ModelTier, string>> {
+  const settings = await getProviderSettings(id);
+  return { ...PROVIDER_INFO[id].defaultModels, ...settings.models };
+}
+
+/**
+ * Environment fallback for deployment scenarios
+ */
+const envKeyFor = (id: AiProviderId): string | null => {
+  switch (id) {
+    case 'gemini': return process.env.API_KEY || null;
+    case 'openai': return process.env.OPENAI_API_KEY || null;
+    case 'anthropic': return process.env.ANTHROPIC_API_KEY || null;
+    default: return null;
+  }
+};
+
+/**
+ * Creates a provider client.
+ * Key priority order: 1) explicit override, 2) Local stored key, 3) Environment variable
+ */
+export async function createProvider(id?: AiProviderId, apiKeyOverride?: string): Promise<AiProvider> {
+  const providerId = id ?? await getActiveProviderId();
+  const info = PROVIDER_INFO[providerId];
+  const settings = await getProviderSettings(providerId);
+  const models = await getProviderModels(providerId);
+  const baseUrl = settings.baseUrl || info.defaultBaseUrl || '';
+
+  const apiKey = apiKeyOverride || await storage.getSecureKey(providerId) || envKeyFor(providerId);
+
+  if (!apiKey && info.requiresKey) {
+    throw new Error(`No API key configured. Use 'set-key ${providerId} YOUR_KEY' in Terminal to configure.`);
+  }
+
+  switch (providerId) {
+    case 'gemini':
+      return createGeminiProvider(apiKey!, models);
+    case 'anthropic':
+      return createAnthropicProvider(apiKey!, baseUrl, models);
+    case 'openai':
+    case 'local':
+      return createOpenAiProvider({ id: providerId, label: info.label, apiKey, baseUrl, models });
+  }
+}
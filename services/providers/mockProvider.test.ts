@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { Type } from '@google/genai';
+import { createMockProvider, synthesizeFromSchema, hashSeed } from './mockProvider';
+
+const auditSchema = {
+  type: Type.OBJECT,
+  properties: {
+    securityScore: { type: Type.INTEGER },
+    estimatedMonthlyCost: { type: Type.STRING },
+    vulnerabilities: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+          issue: { type: Type.STRING }
+        },
+        required: ['severity', 'issue']
+      }
+    }
+  },
+  required: ['securityScore', 'estimatedMonthlyCost', 'vulnerabilities']
+};
+
+describe('synthesizeFromSchema', () => {
+  it('should produce every declared property with the right type', () => {
+    const value = synthesizeFromSchema(auditSchema, 42);
+    expect(typeof value.securityScore).toBe('number');
+    expect(typeof value.estimatedMonthlyCost).toBe('string');
+    expect(Array.isArray(value.vulnerabilities)).toBe(true);
+    expect(value.vulnerabilities.length).toBeGreaterThan(0);
+  });
+
+  it('should only pick declared enum values', () => {
+    const value = synthesizeFromSchema(auditSchema, 7);
+    value.vulnerabilities.forEach((v: any) => {
+      expect(['low', 'medium', 'high']).toContain(v.severity);
+    });
+  });
+
+  it('should keep scores within 0-100', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      const { securityScore } = synthesizeFromSchema(auditSchema, seed);
+      expect(securityScore).toBeGreaterThanOrEqual(0);
+      expect(securityScore).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('should number array items as 1-based ids', () => {
+    const schema = { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { id: { type: Type.INTEGER } } } };
+    expect(synthesizeFromSchema(schema, 1).map((s: any) => s.id)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('createMockProvider', () => {
+  it('should be deterministic for identical prompts', async () => {
+    const provider = createMockProvider();
+    const request = { model: 'mock-pro', contents: 'audit this', responseSchema: auditSchema };
+    const a = await provider.generate(request);
+    const b = await provider.generate(request);
+    expect(a.text).toBe(b.text);
+    expect(() => JSON.parse(a.text)).not.toThrow();
+  });
+
+  it('should return placeholder text for unstructured requests', async () => {
+    const provider = createMockProvider();
+    const response = await provider.generate({ model: 'mock-flash', contents: 'hello' });
+    expect(response.text).toContain('hello');
+  });
+
+  it('should stream chunks that add up to the full response', async () => {
+    const provider = createMockProvider();
+    const request = { model: 'mock-pro', contents: 'audit this', responseSchema: auditSchema };
+    const chunks: string[] = [];
+    const streamed = await provider.generateStream!(request, chunk => chunks.push(chunk));
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(streamed.text);
+    expect(streamed.text).toBe((await provider.generate(request)).text);
+  });
+
+  it('should hash strings stably', () => {
+    expect(hashSeed('abc')).toBe(hashSeed('abc'));
+    expect(hashSeed('abc')).not.toBe(hashSeed('abd'));
+  });
+});
@@ -0,0 +1,110 @@
+import { Type, type Schema } from "@google/genai";
+import { AiProvider, AiRequest, AiResponse, ModelTier, SpeechRequest } from "./types";
+import { toParts } from "./schema";
+import { abortError } from "../../utils/retry";
+
+/**
+ * Deterministic offline provider.
+ * Structured requests get an object synthesized from the response schema;
+ * free-text requests get a stable placeholder. The same prompt always
+ * yields the same output, so views and tests behave reproducibly.
+ */
+
+export const MOCK_MODELS: Record<ModelTier, string> = {
+  pro: 'mock-pro',
+  flash: 'mock-flash'
+};
+
+const ARRAY_LENGTH = 3;
+const STREAM_CHUNK_SIZE = 24;
+
+/**
+ * FNV-1a string hash used to seed synthesized values
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const humanize = (name: string) =>
+  name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase();
+
+/**
+ * Build a value that satisfies `schema`.
+ * `name` is the property name (used for labels and score heuristics),
+ * `index` the position inside the enclosing array.
+ */
+export function synthesizeFromSchema(schema: Schema, seed: number, name: string = 'value', index: number = 0): any {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const result: Record<string, any> = {};
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        result[key] = synthesizeFromSchema(child, (seed + hashSeed(key)) >>> 0, key, index);
+      }
+      return result;
+    }
+    case Type.ARRAY:
+      return Array.from({ length: ARRAY_LENGTH }, (_, i) =>
+        synthesizeFromSchema(schema.items || { type: Type.STRING }, seed + i, name, i)
+      );
+    case Type.INTEGER:
+    case Type.NUMBER:
+      // Scores read as percentages; edge targets point at the next id so
+      // synthesized graphs form a chain; everything else behaves like a 1-based id
+      if (/score/i.test(name)) return 50 + (seed % 50);
+      return name === 'to' ? index + 2 : index + 1;
+    case Type.BOOLEAN:
+      return seed % 2 === 0;
+    case Type.STRING:
+    default:
+      if (schema.enum && schema.enum.length > 0) {
+        return schema.enum[(seed + index) % schema.enum.length];
+      }
+      return `Mock ${humanize(name)} ${index + 1}`;
+  }
+}
+
+const promptText = (request: AiRequest) =>
+  toParts(request.contents).map(p => 'text' in p ? p.text : `[${p.inlineData.mimeType}]`).join('\n');
+
+const mockResponse = (request: AiRequest): AiResponse => {
+  const prompt = promptText(request);
+  const seed = hashSeed(`${request.systemInstruction || ''}\n${prompt}`);
+
+  const text = request.responseSchema
+    ? JSON.stringify(synthesizeFromSchema(request.responseSchema, seed))
+    : `[mock] Deterministic response for: ${prompt.slice(0, 120)}`;
+
+  return { text, usage: { inputTokens: 0, outputTokens: 0 } };
+};
+
+export function createMockProvider(): AiProvider {
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+    models: MOCK_MODELS,
+
+    async generate(request: AiRequest): Promise<AiResponse> {
+      if (request.signal?.aborted) throw abortError(request.signal);
+      return mockResponse(request);
+    },
+
+    async generateStream(request: AiRequest, onDelta: (chunk: string) => void): Promise<AiResponse> {
+      const response = mockResponse(request);
+      for (let i = 0; i < response.text.length; i += STREAM_CHUNK_SIZE) {
+        if (request.signal?.aborted) throw abortError(request.signal);
+        onDelta(response.text.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+      return response;
+    },
+
+    async synthesizeSpeech(_request: SpeechRequest): Promise<string> {
+      // No audio offline; views treat an empty payload as "nothing to play"
+      return '';
+    }
+  };
+}
@@ -0,0 +1,115 @@
+import { AiProviderId } from "../../types";
+import { AiPart, AiProvider, AiRequest, AiResponse, AiUsage, ModelTier } from "./types";
+import { postEventStream, postJson } from "./http";
+import { schemaInstruction, toJsonSchema, toParts } from "./schema";
+
+export const OPENAI_MODELS: Record<ModelTier, string> = {
+  pro: 'gpt-4o',
+  flash: 'gpt-4o-mini'
+};
+
+export const LOCAL_MODELS: Record<ModelTier, string> = {
+  pro: 'llama3.1',
+  flash: 'llama3.1'
+};
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+interface OpenAiProviderOptions {
+  id: Extract<AiProviderId, 'openai' | 'local'>;
+  label: string;
+  apiKey: string | null;
+  baseUrl: string;
+  models: Record<ModelTier, string>;
+}
+
+const toOpenAiContent = (parts: AiPart[]) =>
+  parts.map(part => 'text' in part
+    ? { type: 'text', text: part.text }
+    : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+  );
+
+/**
+ * Build the Chat Completions payload for a request.
+ * Hosted OpenAI gets strict-free json_schema output; local servers
+ * (llama.cpp, Ollama) only reliably honour json_object, so the schema
+ * is also spelled out in the system prompt.
+ */
+export function buildChatCompletionBody(id: OpenAiProviderOptions['id'], request: AiRequest): Record<string, any> {
+  const parts = toParts(request.contents);
+  const isLocal = id === 'local';
+
+  let system = request.systemInstruction || '';
+  if (request.responseSchema && isLocal) {
+    system = [system, schemaInstruction(request.responseSchema)].filter(Boolean).join('\n\n');
+  }
+
+  const messages: Record<string, any>[] = [];
+  if (system) messages.push({ role: 'system', content: system });
+  messages.push({
+    role: 'user',
+    content: parts.every(p => 'text' in p)
+      ? parts.map(p => (p as { text: string }).text).join('\n')
+      : toOpenAiContent(parts)
+  });
+
+  const body: Record<string, any> = { model: request.model, messages };
+  if (request.temperature !== undefined) body.temperature = request.temperature;
+  if (request.responseSchema) {
+    body.response_format = isLocal
+      ? { type: 'json_object' }
+      : { type: 'json_schema', json_schema: { name: 'response', strict: false, schema: toJsonSchema(request.responseSchema) } };
+  }
+  return body;
+}
+
+/**
+ * OpenAI Chat Completions backend. Also used for self-hosted
+ * OpenAI-compatible endpoints, where the API key is optional.
+ */
+export function createOpenAiProvider(options: OpenAiProviderOptions): AiProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  const headers: Record<string, string> = {};
+  if (options.apiKey) headers.Authorization = `Bearer ${options.apiKey}`;
+
+  const toUsage = (usage: any): AiUsage | undefined => usage && {
+    inputTokens: usage.prompt_tokens || 0,
+    outputTokens: usage.completion_tokens || 0
+  };
+
+  return {
+    id: options.id,
+    label: options.label,
+    models: options.models,
+
+    async generate(request: AiRequest): Promise<AiResponse> {
+      const payload = await postJson(options.id, `${baseUrl}/chat/completions`, buildChatCompletionBody(options.id, request), headers, request.signal);
+
+      return {
+        text: payload?.choices?.[0]?.message?.content || '',
+        usage: toUsage(payload?.usage)
+      };
+    },
+
+    async generateStream(request: AiRequest, onDelta: (chunk: string) => void): Promise<AiResponse> {
+      const body: Record<string, any> = { ...buildChatCompletionBody(options.id, request), stream: true };
+      // Usage in the final chunk is an OpenAI extension that local servers may reject
+      if (options.id === 'openai') body.stream_options = { include_usage: true };
+
+      let text = '';
+      let usage: AiUsage | undefined;
+      await postEventStream(options.id, `${baseUrl}/chat/completions`, body, headers, (event) => {
+        const delta = event?.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        usage = toUsage(event?.usage) || usage;
+      }, request.signal);
+
+      return { text, usage };
+    }
+  };
+}
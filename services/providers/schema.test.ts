@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Type } from '@google/genai';
+import { toJsonSchema, extractJson } from './schema';
+import { buildChatCompletionBody } from './openAiProvider';
+import { buildMessagesBody } from './anthropicProvider';
+
+const stepSchema = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.INTEGER },
+    type: { type: Type.STRING, enum: ['trigger', 'action', 'logic'] },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['id', 'type']
+};
+
+describe('toJsonSchema', () => {
+  it('should lowercase Gemini types recursively', () => {
+    const schema = toJsonSchema(stepSchema);
+    expect(schema.type).toBe('object');
+    expect(schema.properties.id.type).toBe('integer');
+    expect(schema.properties.tags.items.type).toBe('string');
+  });
+
+  it('should preserve enums and required fields', () => {
+    const schema = toJsonSchema(stepSchema);
+    expect(schema.properties.type.enum).toEqual(['trigger', 'action', 'logic']);
+    expect(schema.required).toEqual(['id', 'type']);
+  });
+});
+
+describe('extractJson', () => {
+  it('should strip markdown fences', () => {
+    expect(extractJson('```json\n{"a":1}\n```')).toBe('{"a":1}');
+  });
+
+  it('should drop surrounding commentary', () => {
+    expect(extractJson('Here you go: {"a":{"b":2}} hope that helps')).toBe('{"a":{"b":2}}');
+  });
+
+  it('should return empty string for empty input', () => {
+    expect(extractJson('')).toBe('');
+  });
+});
+
+describe('provider request builders', () => {
+  const request = { model: 'm', contents: 'hello', systemInstruction: 'sys', responseSchema: stepSchema };
+
+  it('should request json_schema output from hosted OpenAI', () => {
+    const body = buildChatCompletionBody('openai', request);
+    expect(body.response_format.type).toBe('json_schema');
+    expect(body.response_format.json_schema.schema.type).toBe('object');
+    expect(body.messages[0]).toEqual({ role: 'system', content: 'sys' });
+  });
+
+  it('should fall back to json_object plus schema prompt for local endpoints', () => {
+    const body = buildChatCompletionBody('local', request);
+    expect(body.response_format).toEqual({ type: 'json_object' });
+    expect(body.messages[0].content).toContain('JSON Schema');
+  });
+
+  it('should inject the schema into the Anthropic system prompt', () => {
+    const body = buildMessagesBody(request);
+    expect(body.system).toContain('sys');
+    expect(body.system).toContain('"integer"');
+    expect(body.messages[0].content[0]).toEqual({ type: 'text', text: 'hello' });
+  });
+
+  it('should raise max_tokens above the Anthropic thinking budget', () => {
+    const body = buildMessagesBody({ ...request, thinkingBudget: 16000, temperature: 0.2 });
+    expect(body.thinking.budget_tokens).toBe(16000);
+    expect(body.max_tokens).toBeGreaterThan(16000);
+    expect(body.temperature).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import type { Schema } from "@google/genai";
+import { AiPart } from "./types";
+
+/**
+ * Schema helpers shared by the non-Gemini providers.
+ * The service declares response schemas with Gemini's `Type` enum;
+ * OpenAI-compatible and Anthropic backends expect plain JSON Schema.
+ */
+
+const TYPE_MAP: Record<string, string> = {
+  STRING: 'string',
+  NUMBER: 'number',
+  INTEGER: 'integer',
+  BOOLEAN: 'boolean',
+  ARRAY: 'array',
+  OBJECT: 'object',
+  NULL: 'null'
+};
+
+/**
+ * Convert a Gemini `Schema` into a standard JSON Schema object
+ */
+export function toJsonSchema(schema: Schema): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  if (schema.type) {
+    result.type = TYPE_MAP[schema.type] || String(schema.type).toLowerCase();
+  }
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = [...schema.enum];
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = [...schema.required];
+
+  return result;
+}
+
+/**
+ * Instruction appended to the system prompt for providers without
+ * native schema enforcement.
+ */
+export function schemaInstruction(schema: Schema): string {
+  return `Respond with a single JSON object only, no prose or markdown fences. It must conform to this JSON Schema:\n${JSON.stringify(toJsonSchema(schema))}`;
+}
+
+/**
+ * Extract the JSON payload from a model reply that may be wrapped in
+ * markdown fences or surrounded by commentary.
+ */
+export function extractJson(text: string): string {
+  if (!text) return '';
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.search(/[{[]/);
+  if (start === -1) return candidate.trim();
+  const open = candidate[start];
+  const end = candidate.lastIndexOf(open === '{' ? '}' : ']');
+  return end > start ? candidate.slice(start, end + 1) : candidate.slice(start).trim();
+}
+
+/**
+ * Normalize request contents into a list of parts
+ */
+export function toParts(contents: string | AiPart[]): AiPart[] {
+  return typeof contents === 'string' ? [{ text: contents }] : contents;
+}
@@ -0,0 +1,81 @@
+import type { Schema } from "@google/genai";
+import { AiProviderId } from "../../types";
+
+/**
+ * Provider-agnostic request and response contracts.
+ * Every backend translates these into its own wire format.
+ */
+
+export type ModelTier = 'pro' | 'flash';
+
+export type AiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface AiRequest {
+  model: string;
+  contents: string | AiPart[];
+  systemInstruction?: string;
+  /** Gemini-style schema; converted to JSON Schema for other providers */
+  responseSchema?: Schema;
+  thinkingBudget?: number;
+  temperature?: number;
+  /** Cancels the in-flight call; providers reject with an AbortError */
+  signal?: AbortSignal;
+}
+
+export interface AiUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AiResponse {
+  text: string;
+  usage?: AiUsage;
+}
+
+export interface SpeechRequest {
+  model: string;
+  text: string;
+  voice: string;
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  /** 'mock' is the offline provider used by mock mode, never user-selectable */
+  readonly id: AiProviderId | 'mock';
+  readonly label: string;
+  readonly models: Record<ModelTier, string>;
+  generate(request: AiRequest): Promise<AiResponse>;
+  /** Streams text deltas to `onDelta`, resolving with the complete response */
+  generateStream?(request: AiRequest, onDelta: (chunk: string) => void): Promise<AiResponse>;
+  /** Only implemented by providers with native audio output */
+  synthesizeSpeech?(request: SpeechRequest): Promise<string>;
+}
+
+/**
+ * Persisted per-provider overrides (custom endpoint, model names)
+ */
+export interface ProviderSettings {
+  baseUrl?: string;
+  models?: Partial<Record<ModelTier, string>>;
+}
+
+/**
+ * Error raised for non-2xx provider responses.
+ * Carries `status` so retryWithBackoff can classify it.
+ */
+export class ProviderRequestError extends Error {
+  status: number;
+  provider: AiProviderId;
+  /** Server-requested wait before retrying (Retry-After / quota reset) */
+  retryAfterMs?: number;
+
+  constructor(provider: AiProviderId, status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.provider = provider;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const settings = new Map<string, unknown>();
+
+vi.mock('./storageService', () => ({
+  storage: {
+    getSetting: async (key: string, fallback: unknown) => settings.has(key) ? settings.get(key) : fallback,
+    saveSetting: async (key: string, value: unknown) => { settings.set(key, value); }
+  }
+}));
+
+import { AI_TASKS, DEFAULT_ROUTES, getRoute, getRoutingConfig, resetRoute, resolveModel, saveRoute } from './routingService';
+
+describe('resolveModel', () => {
+  const provider = { models: { pro: 'big-model', flash: 'small-model' } };
+
+  it('should map tier aliases to the provider model', () => {
+    expect(resolveModel(provider, 'pro')).toBe('big-model');
+    expect(resolveModel(provider, 'flash')).toBe('small-model');
+  });
+
+  it('should pass concrete model ids through', () => {
+    expect(resolveModel(provider, 'gpt-4o')).toBe('gpt-4o');
+  });
+});
+
+describe('routing config', () => {
+  beforeEach(() => settings.clear());
+
+  it('should route every task by default', async () => {
+    const config = await getRoutingConfig();
+    expect(Object.keys(config).sort()).toEqual([...AI_TASKS].sort());
+    expect(config).toEqual(DEFAULT_ROUTES);
+  });
+
+  it('should replace the default route when one is saved', async () => {
+    await saveRoute('audit', { model: 'flash', temperature: 0.2 });
+    expect(await getRoute('audit')).toEqual({ model: 'flash', temperature: 0.2 });
+    expect(await getRoute('generate')).toEqual(DEFAULT_ROUTES.generate);
+  });
+
+  it('should restore the default on reset', async () => {
+    await saveRoute('chat', { model: 'pro', fallbackModel: 'flash' });
+    await resetRoute('chat');
+    expect(await getRoute('chat')).toEqual(DEFAULT_ROUTES.chat);
+  });
+
+  it('should reject invalid routes', async () => {
+    await expect(saveRoute('chat', { model: ' ' })).rejects.toThrow('model is required');
+    await expect(saveRoute('chat', { model: 'pro', temperature: Number('warm') })).rejects.toThrow('Temperature');
+    await expect(saveRoute('chat', { model: 'pro', thinkingBudget: 1.5 })).rejects.toThrow('Thinking budget');
+  });
+});
@@ -0,0 +1,99 @@
+import { AiTask } from '../types';
+import { storage } from './storageService';
+import { AiProvider, AiRequest, ModelTier } from './providers';
+
+/**
+ * Per-task model routing.
+ *
+ * Each AI task maps to a model, sampling temperature, thinking budget and
+ * an optional fallback model used once the primary has exhausted its
+ * retries. `model` and `fallbackModel` accept a tier alias (`pro` /
+ * `flash`), which resolves to the active provider's model for that tier,
+ * or a concrete model id.
+ */
+
+export interface ModelRoute {
+  model: string;
+  temperature?: number;
+  thinkingBudget?: number;
+  fallbackModel?: string;
+}
+
+export type RoutingConfig = Record<AiTask, ModelRoute>;
+
+/** Request fields a route controls; spread into each provider request */
+export type ResolvedRoute = Pick<AiRequest, 'model' | 'temperature' | 'thinkingBudget'>;
+
+const ROUTES_SETTING = 'ai.routes';
+
+export const TASK_LABELS: Record<AiTask, string> = {
+  generate: 'Blueprint Generation',
+  docs: 'Documentation',
+  benchmark: 'Benchmark',
+  chat: 'Advisor Chat',
+  audit: 'Audit',
+  simulate: 'Simulation',
+  secrets: 'Secrets & CI/CD',
+  image: 'Vision',
+  tts: 'Speech',
+  live: 'Live Session'
+};
+
+export const AI_TASKS = Object.keys(TASK_LABELS) as AiTask[];
+
+export const DEFAULT_ROUTES: RoutingConfig = {
+  generate: { model: 'pro', thinkingBudget: 16000, fallbackModel: 'flash' },
+  docs: { model: 'flash' },
+  benchmark: { model: 'pro', fallbackModel: 'flash' },
+  chat: { model: 'flash' },
+  audit: { model: 'pro', fallbackModel: 'flash' },
+  simulate: { model: 'pro', fallbackModel: 'flash' },
+  secrets: { model: 'flash' },
+  image: { model: 'pro', fallbackModel: 'flash' },
+  // Speech and live sessions are Gemini-only and take concrete model ids
+  tts: { model: 'gemini-2.5-flash-preview-tts' },
+  live: { model: 'gemini-2.5-flash-native-audio-preview-09-2025' }
+};
+
+const isTier = (model: string): model is ModelTier => model === 'pro' || model === 'flash';
+
+/**
+ * Map a tier alias to the provider's model; concrete ids pass through
+ */
+export function resolveModel(provider: Pick<AiProvider, 'models'>, model: string): string {
+  return isTier(model) ? provider.models[model] : model;
+}
+
+/**
+ * Saved routes replace the default for their task; tasks without one
+ * (including tasks added after the routes were saved) use the default.
+ */
+export async function getRoutingConfig(): Promise<RoutingConfig> {
+  const stored = await storage.getSetting<Partial<RoutingConfig>>(ROUTES_SETTING, {});
+  return Object.fromEntries(
+    AI_TASKS.map(task => [task, stored[task] ?? DEFAULT_ROUTES[task]])
+  ) as RoutingConfig;
+}
+
+export async function getRoute(task: AiTask): Promise<ModelRoute> {
+  return (await getRoutingConfig())[task];
+}
+
+export async function saveRoute(task: AiTask, route: ModelRoute): Promise<void> {
+  if (!route.model.trim()) {
+    throw new Error(`A model is required for '${task}'.`);
+  }
+  if (route.temperature !== undefined && !(route.temperature >= 0 && route.temperature <= 2)) {
+    throw new Error('Temperature must be between 0 and 2.');
+  }
+  if (route.thinkingBudget !== undefined && (!Number.isInteger(route.thinkingBudget) || route.thinkingBudget < 0)) {
+    throw new Error('Thinking budget must be a non-negative integer.');
+  }
+  const stored = await storage.getSetting<Partial<RoutingConfig>>(ROUTES_SETTING, {});
+  await storage.saveSetting(ROUTES_SETTING, { ...stored, [task]: route });
+}
+
+export async function resetRoute(task: AiTask): Promise<void> {
+  const { [task]: _removed, ...rest } = await storage.getSetting<Partial<RoutingConfig>>(ROUTES_SETTING, {});
+  await storage.saveSetting(ROUTES_SETTING, rest);
+}
@@ -0,0 +1,124 @@
+import { AutomationResult, SimulationResponse } from '../types';
+import { storage } from './storageService';
+import { ConnectorFixture, InterpreterOptions, executeBlueprint } from '../utils/interpreter';
+import type { InterpreterRequest } from '../utils/interpreter.worker';
+import { abortError } from '../utils/retry';
+
+/**
+ * Local execution for the Logic Sandbox.
+ *
+ * `runLocalSimulation` executes a blueprint with the deterministic
+ * interpreter in a Web Worker, so runs are free, repeatable and cannot
+ * freeze the UI. A run that outlives the timeout (usually an endless loop
+ * in a JS transform) is terminated. Connector fixtures are kept in
+ * settings and override the built-in mock connectors per app.
+ */
+
+const CONNECTORS_SETTING = 'sandbox.connectors';
+
+export const LOCAL_RUN_TIMEOUT_MS = 10000;
+
+export interface LocalRunOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxExecutions?: number;
+}
+
+type WorkerReply = { ok: true; result: SimulationResponse } | { ok: false; message: string };
+
+export async function getConnectorFixtures(): Promise<ConnectorFixture[]> {
+  return storage.getSetting<ConnectorFixture[]>(CONNECTORS_SETTING, []);
+}
+
+export async function saveConnectorFixtures(fixtures: unknown): Promise<void> {
+  if (!Array.isArray(fixtures)) throw new Error('Connector mocks must be a JSON array.');
+  for (const fixture of fixtures) {
+    if (!fixture || typeof fixture.app !== 'string' || !fixture.app.trim()) {
+      throw new Error('Each connector mock needs an "app" name.');
+    }
+    if (!('response' in fixture)) throw new Error(`Connector mock "${fixture.app}" has no "response".`);
+    if (fixture.keywords !== undefined && (!Array.isArray(fixture.keywords) || fixture.keywords.some((k: unknown) => typeof k !== 'string'))) {
+      throw new Error(`Connector mock "${fixture.app}" keywords must be strings.`);
+    }
+  }
+  await storage.saveSetting(CONNECTORS_SETTING, fixtures);
+}
+
+const runInWorker = (request: InterpreterRequest, timeoutMs: number, signal?: AbortSignal): Promise<SimulationResponse> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../utils/interpreter.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortError(signal));
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(`Local run exceeded ${timeoutMs / 1000}s and was stopped. Check JS transforms for endless loops.`));
+    }, timeoutMs);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.onmessage = (event: MessageEvent<WorkerReply>) => {
+      finish();
+      if (event.data.ok) resolve(event.data.result);
+      else reject(new Error(event.data.message));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Sandbox worker failed to start.'));
+    };
+    worker.postMessage(request);
+  });
+
+/**
+ * Execute `blueprint` locally against the JSON text in `inputData`.
+ * Falls back to the main thread where Web Workers are unavailable (tests),
+ * but only for blueprints without JS transforms: those cannot be stopped or
+ * isolated there.
+ */
+export async function runLocalSimulation(blueprint: AutomationResult, inputData: string, options: LocalRunOptions = {}): Promise<SimulationResponse> {
+  if (options.signal?.aborted) throw abortError(options.signal);
+  let input: unknown;
+  try {
+    input = JSON.parse(inputData);
+  } catch {
+    throw new Error('Mock payload is not valid JSON.');
+  }
+
+  const interpreterOptions: InterpreterOptions = { connectors: await getConnectorFixtures(), maxExecutions: options.maxExecutions };
+  if (typeof Worker === 'undefined') {
+    if (blueprint.steps.some(step => step.inputs?.js)) {
+      throw new Error('JS transforms only run in a Web Worker, which this browser does not provide.');
+    }
+    return executeBlueprint(blueprint, input, interpreterOptions);
+  }
+  // JSON round-trip strips values structured clone would reject
+  return runInWorker({ blueprint: JSON.parse(JSON.stringify(blueprint)), input, options: interpreterOptions }, options.timeoutMs ?? LOCAL_RUN_TIMEOUT_MS, options.signal);
+}
+
+export interface TraceComparison {
+  stepId: number;
+  local?: SimulationResponse['stepResults'][number];
+  ai?: SimulationResponse['stepResults'][number];
+  /** Both traces give the step the same status */
+  agrees: boolean;
+}
+
+/**
+ * Pair the local and AI traces step by step, in local order followed by
+ * any steps only the AI reported
+ */
+export function compareSimulations(local: SimulationResponse, ai: SimulationResponse): TraceComparison[] {
+  const aiById = new Map(ai.stepResults.map(result => [result.stepId, result]));
+  const rows: TraceComparison[] = local.stepResults.map(result => {
+    const other = aiById.get(result.stepId);
+    aiById.delete(result.stepId);
+    return { stepId: result.stepId, local: result, ai: other, agrees: other?.status === result.status };
+  });
+  for (const [stepId, result] of aiById) rows.push({ stepId, ai: result, agrees: false });
+  return rows;
+}
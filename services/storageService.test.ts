@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SavedBlueprint } from '../types';
+
+const blueprint = (id: string, overrides: Partial<SavedBlueprint> = {}): SavedBlueprint => ({
+  id,
+  name: `Blueprint ${id}`,
+  version: '1.0.0',
+  platform: 'zapier',
+  explanation: 'Sync leads',
+  steps: [],
+  timestamp: 1000,
+  ...overrides
+});
+
+/**
+ * Fresh module (the migration runs once per module instance) with its
+ * Dexie tables replaced by in-memory spies
+ */
+const load = async (stored: string[] = [], profile?: object) => {
+  vi.resetModules();
+  const module = await import('./storageService');
+  const { db } = module;
+  const written: SavedBlueprint[] = [];
+  const profiles: object[] = [];
+  vi.spyOn(db, 'transaction').mockImplementation(((...args: any[]) => args[args.length - 1]()) as any);
+  vi.spyOn(db.blueprints, 'where').mockReturnValue({
+    anyOf: (ids: string[]) => ({ primaryKeys: async () => ids.filter(id => stored.includes(id)) })
+  } as any);
+  vi.spyOn(db.blueprints, 'bulkPut').mockImplementation((async (items: SavedBlueprint[]) => { written.push(...items); }) as any);
+  vi.spyOn(db.profile, 'get').mockResolvedValue(profile as any);
+  vi.spyOn(db.profile, 'put').mockImplementation((async (p: object) => { profiles.push(p); }) as any);
+  return { ...module, written, profiles };
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
+
+describe('migrateLegacyStorage', () => {
+  it('should move the legacy vault and profile into Dexie and drop the keys', async () => {
+    localStorage.setItem('auto_architect_vault', JSON.stringify([blueprint('a'), blueprint('b', { timestamp: undefined })]));
+    localStorage.setItem('aa_user_profile', JSON.stringify({ name: 'Ada', role: 'Lead', avatarSeed: 'x', preferences: { theme: 'dark' } }));
+    const { migrateLegacyStorage, written, profiles } = await load();
+
+    await expect(migrateLegacyStorage()).resolves.toEqual({ blueprints: 2, profile: true });
+    expect(written.map(b => [b.id, b.timestamp])).toEqual([['a', 1000], ['b', 0]]);
+    expect(profiles[0]).toMatchObject({ id: 'current', name: 'Ada' });
+    expect(localStorage.getItem('auto_architect_vault')).toBeNull();
+    expect(localStorage.getItem('aa_user_profile')).toBeNull();
+  });
+
+  it('should keep rows already in the database', async () => {
+    localStorage.setItem('auto_architect_vault', JSON.stringify([blueprint('a'), blueprint('b')]));
+    localStorage.setItem('aa_user_profile', JSON.stringify({ name: 'Old' }));
+    const { migrateLegacyStorage, written, profiles } = await load(['a'], { id: 'current', name: 'New' });
+
+    await expect(migrateLegacyStorage()).resolves.toEqual({ blueprints: 1, profile: false });
+    expect(written.map(b => b.id)).toEqual(['b']);
+    expect(profiles).toHaveLength(0);
+  });
+
+  it('should leave unreadable data in place for the next load', async () => {
+    localStorage.setItem('auto_architect_vault', '{not json');
+    const { migrateLegacyStorage, written } = await load();
+
+    await expect(migrateLegacyStorage()).resolves.toEqual({ blueprints: 0, profile: false });
+    expect(written).toHaveLength(0);
+    expect(localStorage.getItem('auto_architect_vault')).toBe('{not json');
+  });
+
+  it('should run only once per page', async () => {
+    localStorage.setItem('auto_architect_vault', JSON.stringify([blueprint('a')]));
+    const { migrateLegacyStorage, db } = await load();
+
+    await Promise.all([migrateLegacyStorage(), migrateLegacyStorage()]);
+    await migrateLegacyStorage();
+    expect(db.blueprints.bulkPut).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,17 +1,112 @@
 
 
 import { Dexie, type Table } from 'dexie';
-import { SavedBlueprint, UserProfile } from '../types';
+import { AiTask, SavedBlueprint, UserProfile } from '../types';
+import { LogEntry, logger } from '../utils/logger';
+import { AiServiceError } from '../utils/errors';
+import { EncryptedValue, PBKDF2_ITERATIONS, decryptString, deriveKey, encryptString, randomSalt } from '../utils/crypto';
 
 /**
- * SecureKey interface for storing obfuscated API keys
+ * SecureKey interface for storing protected API keys.
+ * `xor` records use the legacy obfuscation below; `aes-gcm` records are
+ * encrypted with the vault key and need an unlocked vault to read.
  */
 export interface SecureKey {
   provider: string;
-  obfuscatedKey: string;
+  scheme: 'xor' | 'aes-gcm';
+  /** Base64 obfuscated key, or base64 AES-GCM ciphertext */
+  data: string;
+  /** AES-GCM nonce */
+  iv?: string;
   createdAt: number;
 }
 
+/**
+ * Setting record for small key/value application configuration
+ */
+export interface SettingRecord {
+  key: string;
+  value: any;
+  updatedAt: number;
+}
+
+/**
+ * Recorded AI response keyed by the request fingerprint
+ */
+export interface FixtureRecord {
+  key: string;
+  value: any;
+  provider: string;
+  recordedAt: number;
+}
+
+/**
+ * Persisted AI response keyed by a SHA-256 hash of the request.
+ * `pinned` is 0/1 rather than boolean so it stays indexable.
+ */
+export interface CacheRecord {
+  key: string;
+  value: any;
+  task: AiTask;
+  provider: string;
+  model: string;
+  /** Approximate size in bytes (serialized JSON length) */
+  size: number;
+  createdAt: number;
+  expiresAt: number;
+  lastAccessedAt: number;
+  hits: number;
+  pinned: 0 | 1;
+}
+
+/**
+ * One metered provider call (or cache hit) in the usage ledger.
+ * Flags are 0/1 so they stay indexable; `day` is the local YYYY-MM-DD.
+ */
+export interface UsageRecord {
+  id?: number;
+  timestamp: number;
+  day: string;
+  task: AiTask;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  /** Token counts came from the heuristic rather than provider metadata */
+  estimated: 0 | 1;
+  /** Served from the response cache; no provider call was billed */
+  cached: 0 | 1;
+  /** Saved blueprint id, or `<platform>:<timestamp>` for unsaved results */
+  blueprint?: string;
+}
+
+/**
+ * Immutable snapshot of a saved blueprint. Revisions count from 1 per
+ * blueprint; the `blueprints` row is a copy of the latest one.
+ */
+export interface RevisionRecord {
+  id?: number;
+  blueprintId: string;
+  revision: number;
+  version: string;
+  snapshot: SavedBlueprint;
+  createdAt: number;
+  /** Set when this revision restored an earlier one */
+  restoredFrom?: number;
+  /** Set when this revision ported an earlier one to another platform */
+  portedFrom?: number;
+}
+
+/**
+ * Persisted log entry; the `Error` is flattened so it survives
+ * structured cloning and NDJSON export
+ */
+export interface LogRecord extends Omit<LogEntry, 'error'> {
+  id?: number;
+  error?: { name: string; message: string; stack?: string };
+}
+
 /**
  * Standard Dexie database initialization.
  * Using named import for Dexie ensures that class methods like 'version' 
@@ -21,6 +116,12 @@ export class ArchitectDatabase extends Dexie {
   blueprints!: Table<SavedBlueprint>;
   profile!: Table<UserProfile & { id: string }>;
   secureKeys!: Table<SecureKey, string>;
+  settings!: Table<SettingRecord, string>;
+  fixtures!: Table<FixtureRecord, string>;
+  cache!: Table<CacheRecord, string>;
+  usage!: Table<UsageRecord, number>;
+  logs!: Table<LogRecord, number>;
+  revisions!: Table<RevisionRecord, number>;
 
   constructor() {
     // Initialize the database with its name
@@ -38,13 +139,163 @@ export class ArchitectDatabase extends Dexie {
       profile: 'id',
       secureKeys: 'provider, createdAt'
     });
+
+    // Version 3: Add settings table for provider selection and other configuration
+    (this as Dexie).version(3).stores({
+      blueprints: 'id, name, platform, timestamp',
+      profile: 'id',
+      secureKeys: 'provider, createdAt',
+      settings: 'key'
+    });
+
+    // Version 4: Add fixtures table for AI record/replay
+    (this as Dexie).version(4).stores({
+      blueprints: 'id, name, platform, timestamp',
+      profile: 'id',
+      secureKeys: 'provider, createdAt',
+      settings: 'key',
+      fixtures: 'key, recordedAt'
+    });
+
+    // Version 5: Add persistent AI response cache
+    (this as Dexie).version(5).stores({
+      blueprints: 'id, name, platform, timestamp',
+      profile: 'id',
+      secureKeys: 'provider, createdAt',
+      settings: 'key',
+      fixtures: 'key, recordedAt',
+      cache: 'key, task, expiresAt, lastAccessedAt, pinned'
+    });
+
+    // Version 6: Add usage ledger for token and cost accounting
+    (this as Dexie).version(6).stores({
+      blueprints: 'id, name, platform, timestamp',
+      profile: 'id',
+      secureKeys: 'provider, createdAt',
+      settings: 'key',
+      fixtures: 'key, recordedAt',
+      cache: 'key, task, expiresAt, lastAccessedAt, pinned',
+      usage: '++id, timestamp, day, task, model, blueprint'
+    });
+
+    // Version 7: Add persistent log store
+    (this as Dexie).version(7).stores({
+      blueprints: 'id, name, platform, timestamp',
+      profile: 'id',
+      secureKeys: 'provider, createdAt',
+      settings: 'key',
+      fixtures: 'key, recordedAt',
+      cache: 'key, task, expiresAt, lastAccessedAt, pinned',
+      usage: '++id, timestamp, day, task, model, blueprint',
+      logs: '++id, timestamp, level, traceId'
+    });
+
+    // Version 8: Secure keys record their protection scheme. Existing
+    // obfuscated keys become `xor` records; they are encrypted once a vault
+    // passphrase is set (key derivation cannot run inside the upgrade).
+    (this as Dexie).version(8).stores({
+      blueprints: 'id, name, platform, timestamp',
+      profile: 'id',
+      secureKeys: 'provider, createdAt, scheme',
+      settings: 'key',
+      fixtures: 'key, recordedAt',
+      cache: 'key, task, expiresAt, lastAccessedAt, pinned',
+      usage: '++id, timestamp, day, task, model, blueprint',
+      logs: '++id, timestamp, level, traceId'
+    }).upgrade(tx => tx.table('secureKeys').toCollection().modify((record: any) => {
+      record.scheme = 'xor';
+      record.data = record.obfuscatedKey;
+      delete record.obfuscatedKey;
+    }));
+
+    // Version 9: Compound index for per-platform vault listings, newest first
+    (this as Dexie).version(9).stores({
+      blueprints: 'id, name, platform, timestamp, [platform+timestamp]',
+      profile: 'id',
+      secureKeys: 'provider, createdAt, scheme',
+      settings: 'key',
+      fixtures: 'key, recordedAt',
+      cache: 'key, task, expiresAt, lastAccessedAt, pinned',
+      usage: '++id, timestamp, day, task, model, blueprint',
+      logs: '++id, timestamp, level, traceId'
+    });
+
+    // Version 10: Add immutable blueprint revision history
+    (this as Dexie).version(10).stores({
+      blueprints: 'id, name, platform, timestamp, [platform+timestamp]',
+      profile: 'id',
+      secureKeys: 'provider, createdAt, scheme',
+      settings: 'key',
+      fixtures: 'key, recordedAt',
+      cache: 'key, task, expiresAt, lastAccessedAt, pinned',
+      usage: '++id, timestamp, day, task, model, blueprint',
+      logs: '++id, timestamp, level, traceId',
+      revisions: '++id, blueprintId, &[blueprintId+revision], createdAt'
+    });
   }
 }
 
 export const db = new ArchitectDatabase();
 
 /**
- * Key Obfuscation Utilities
+ * localStorage keys used before the vault and profile moved to IndexedDB
+ */
+export const LEGACY_VAULT_KEY = 'auto_architect_vault';
+export const LEGACY_PROFILE_KEY = 'aa_user_profile';
+
+export interface LegacyMigration {
+  blueprints: number;
+  profile: boolean;
+}
+
+let legacyMigration: Promise<LegacyMigration> | null = null;
+
+/**
+ * One-time move of the localStorage vault and profile into Dexie. Existing
+ * database rows win over legacy copies with the same id. The legacy keys
+ * are removed only after the transaction commits; unreadable data is left
+ * in place and retried on the next load. Runs once per page; every
+ * blueprint and profile read awaits it.
+ */
+export function migrateLegacyStorage(): Promise<LegacyMigration> {
+  legacyMigration ??= (async () => {
+    const result: LegacyMigration = { blueprints: 0, profile: false };
+    const rawVault = localStorage.getItem(LEGACY_VAULT_KEY);
+    const rawProfile = localStorage.getItem(LEGACY_PROFILE_KEY);
+    if (rawVault === null && rawProfile === null) return result;
+
+    try {
+      const legacyVault: SavedBlueprint[] = rawVault ? JSON.parse(rawVault) : [];
+      const legacyProfile: UserProfile | null = rawProfile ? JSON.parse(rawProfile) : null;
+
+      await db.transaction('rw', db.blueprints, db.profile, async () => {
+        const valid = legacyVault.filter(b => b && typeof b.id === 'string');
+        const existing = new Set(await db.blueprints.where('id').anyOf(valid.map(b => b.id)).primaryKeys());
+        // Records without a timestamp would be missing from the timestamp index
+        const fresh = valid.filter(b => !existing.has(b.id)).map(b => ({ ...b, timestamp: b.timestamp ?? 0 }));
+        await db.blueprints.bulkPut(fresh);
+        result.blueprints = fresh.length;
+
+        if (legacyProfile && !(await db.profile.get('current'))) {
+          await db.profile.put({ ...legacyProfile, id: 'current' });
+          result.profile = true;
+        }
+      });
+
+      localStorage.removeItem(LEGACY_VAULT_KEY);
+      localStorage.removeItem(LEGACY_PROFILE_KEY);
+      logger.info('Migrated localStorage data to IndexedDB', { ...result });
+    } catch (error: any) {
+      logger.warn('Legacy storage migration failed', { errorMessage: error.message });
+    }
+    return result;
+  })();
+  return legacyMigration;
+}
+
+/**
+ * Key Obfuscation Utilities (legacy; superseded by the vault when a
+ * passphrase is set)
  * 
  * SECURITY MODEL: This is reversible obfuscation, NOT encryption.
  * The seed is intentionally visible in source code. This approach:
@@ -86,21 +337,217 @@ function deobfuscateKey(obfuscatedKey: string): string {
   }
 }
 
+/**
+ * Key Vault
+ *
+ * Optional passphrase protection for stored keys. The passphrase derives
+ * an AES-256-GCM key via PBKDF2 (`utils/crypto.ts`); only its salt and an
+ * encrypted check value are persisted. The derived key lives in memory
+ * while unlocked and is dropped on `lock()`, on reload, and after
+ * `autoLockMinutes` without key access.
+ */
+const VAULT_SETTING = 'vault.meta';
+const VAULT_CHECK = 'auto-architect-vault';
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface VaultMeta {
+  salt: string;
+  iterations: number;
+  check: EncryptedValue;
+  /** 0 disables auto-lock */
+  autoLockMinutes: number;
+}
+
+export interface VaultStatus {
+  enabled: boolean;
+  locked: boolean;
+  autoLockMinutes: number;
+}
+
+let vaultKey: CryptoKey | null = null;
+let autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES;
+let autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+const vaultListeners = new Set<(status: VaultStatus) => void>();
+
+const getVaultMeta = () => storage.getSetting<VaultMeta | null>(VAULT_SETTING, null);
+
+const validatePassphrase = (passphrase: string) => {
+  if (!passphrase || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+};
+
+/**
+ * Derive the key for `meta` and prove it against the stored check value
+ */
+const openVault = async (meta: VaultMeta, passphrase: string): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+  try {
+    if (await decryptString(key, meta.check) === VAULT_CHECK) return key;
+  } catch {
+    // Wrong key: AES-GCM authentication fails
+  }
+  throw new Error('Incorrect passphrase.');
+};
+
+const createVaultMeta = async (passphrase: string, minutes: number): Promise<{ meta: VaultMeta; key: CryptoKey }> => {
+  const salt = randomSalt();
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return { key, meta: { salt, iterations: PBKDF2_ITERATIONS, check: await encryptString(key, VAULT_CHECK), autoLockMinutes: minutes } };
+};
+
+/**
+ * Restart the inactivity countdown
+ */
+const touchVault = () => {
+  if (autoLockTimer) clearTimeout(autoLockTimer);
+  autoLockTimer = vaultKey && autoLockMinutes > 0
+    ? setTimeout(() => vault.lock(), autoLockMinutes * 60 * 1000)
+    : null;
+};
+
+const requireVaultKey = (): CryptoKey => {
+  if (!vaultKey) {
+    throw new AiServiceError('VAULT_LOCKED', "Key vault is locked. Run 'unlock <passphrase>' in Terminal.");
+  }
+  touchVault();
+  return vaultKey;
+};
+
+const sealKey = async (key: CryptoKey, provider: string, plainKey: string, createdAt: number): Promise<SecureKey> => {
+  const { iv, ciphertext } = await encryptString(key, plainKey);
+  return { provider, scheme: 'aes-gcm', data: ciphertext, iv, createdAt };
+};
+
+const openKey = async (record: SecureKey): Promise<string> =>
+  record.scheme === 'aes-gcm'
+    ? decryptString(requireVaultKey(), { iv: record.iv!, ciphertext: record.data })
+    : deobfuscateKey(record.data);
+
+const notifyVault = async () => {
+  const status = await vault.status();
+  vaultListeners.forEach(listener => listener(status));
+};
+
+export const vault = {
+  async status(): Promise<VaultStatus> {
+    const meta = await getVaultMeta();
+    return { enabled: meta !== null, locked: meta !== null && vaultKey === null, autoLockMinutes: meta?.autoLockMinutes ?? autoLockMinutes };
+  },
+
+  /**
+   * Set the first passphrase and encrypt every stored key with it. The
+   * vault is left unlocked.
+   */
+  async enable(passphrase: string): Promise<void> {
+    validatePassphrase(passphrase);
+    if (await getVaultMeta()) throw new Error('Vault already has a passphrase. Use change-passphrase.');
+
+    const { meta, key } = await createVaultMeta(passphrase, DEFAULT_AUTO_LOCK_MINUTES);
+    const records = await db.secureKeys.toArray();
+    const sealed = await Promise.all(records.map(async r => sealKey(key, r.provider, await openKey(r), r.createdAt)));
+    await db.transaction('rw', db.secureKeys, db.settings, async () => {
+      await db.secureKeys.bulkPut(sealed);
+      await storage.saveSetting(VAULT_SETTING, meta);
+    });
+
+    vaultKey = key;
+    autoLockMinutes = meta.autoLockMinutes;
+    touchVault();
+    await notifyVault();
+  },
+
+  async unlock(passphrase: string): Promise<void> {
+    const meta = await getVaultMeta();
+    if (!meta) throw new Error("No vault passphrase set. Use 'change-passphrase <new>' to create one.");
+
+    vaultKey = await openVault(meta, passphrase);
+    autoLockMinutes = meta.autoLockMinutes;
+    touchVault();
+    await notifyVault();
+  },
+
+  async lock(): Promise<void> {
+    vaultKey = null;
+    touchVault();
+    await notifyVault();
+  },
+
+  /**
+   * Re-encrypt every stored key under a new passphrase (and a fresh salt)
+   */
+  async changePassphrase(current: string, next: string): Promise<void> {
+    validatePassphrase(next);
+    const meta = await getVaultMeta();
+    if (!meta) throw new Error('Vault has no passphrase yet.');
+
+    const oldKey = await openVault(meta, current);
+    const { meta: nextMeta, key } = await createVaultMeta(next, meta.autoLockMinutes);
+    const records = await db.secureKeys.toArray();
+    const sealed = await Promise.all(records.map(async r => {
+      const plain = r.scheme === 'aes-gcm' ? await decryptString(oldKey, { iv: r.iv!, ciphertext: r.data }) : deobfuscateKey(r.data);
+      return sealKey(key, r.provider, plain, r.createdAt);
+    }));
+    await db.transaction('rw', db.secureKeys, db.settings, async () => {
+      await db.secureKeys.bulkPut(sealed);
+      await storage.saveSetting(VAULT_SETTING, nextMeta);
+    });
+
+    vaultKey = key;
+    touchVault();
+    await notifyVault();
+  },
+
+  /**
+   * Minutes without key access before the vault locks itself; 0 disables
+   */
+  async setAutoLock(minutes: number): Promise<void> {
+    if (!Number.isInteger(minutes) || minutes < 0) {
+      throw new Error('Auto-lock must be a whole number of minutes (0 to disable).');
+    }
+    const meta = await getVaultMeta();
+    if (!meta) throw new Error('Vault has no passphrase yet.');
+    await storage.saveSetting(VAULT_SETTING, { ...meta, autoLockMinutes: minutes });
+    autoLockMinutes = minutes;
+    touchVault();
+    await notifyVault();
+  },
+
+  subscribe(listener: (status: VaultStatus) => void): () => void {
+    vaultListeners.add(listener);
+    return () => vaultListeners.delete(listener);
+  }
+};
+
 /**
  * Storage API with Secure Key Management
  */
 export const storage = {
   async getProfile(): Promise<UserProfile | null> {
+    await migrateLegacyStorage();
     const p = await db.profile.get('current');
-    return p || null;
+    if (!p) return null;
+    const { id, ...profile } = p;
+    return profile;
   },
 
   async saveProfile(p: UserProfile) {
+    await migrateLegacyStorage();
     return await db.profile.put({ ...p, id: 'current' });
   },
 
   /**
-   * Save an API key for a provider with obfuscation
+   * Delete the whole database and any legacy localStorage data
+   */
+  async factoryReset(): Promise<void> {
+    await db.delete();
+    localStorage.clear();
+  },
+
+  /**
+   * Save an API key for a provider: encrypted when the vault has a
+   * passphrase (and must be unlocked), obfuscated otherwise
    */
   async saveSecureKey(provider: string, plainKey: string): Promise<void> {
     // Validate provider name (alphanumeric, hyphens, underscores only)
@@ -112,21 +559,21 @@ export const storage = {
       throw new Error('API key cannot be empty.');
     }
 
-    const obfuscatedKey = obfuscateKey(plainKey.trim());
-    await db.secureKeys.put({
-      provider: provider.toLowerCase(),
-      obfuscatedKey,
-      createdAt: Date.now()
-    });
+    const name = provider.toLowerCase();
+    const record: SecureKey = await getVaultMeta()
+      ? await sealKey(requireVaultKey(), name, plainKey.trim(), Date.now())
+      : { provider: name, scheme: 'xor', data: obfuscateKey(plainKey.trim()), createdAt: Date.now() };
+    await db.secureKeys.put(record);
   },
 
   /**
-   * Retrieve and deobfuscate an API key for a provider
+   * Retrieve and decrypt (or deobfuscate) an API key for a provider.
+   * Throws a `VAULT_LOCKED` error for an encrypted key while locked.
    */
   async getSecureKey(provider: string): Promise<string | null> {
     const record = await db.secureKeys.get(provider.toLowerCase());
     if (!record) return null;
-    return deobfuscateKey(record.obfuscatedKey);
+    return openKey(record);
   },
 
   /**
@@ -143,5 +590,20 @@ export const storage = {
   async listSecureKeys(): Promise<string[]> {
     const keys = await db.secureKeys.toArray();
     return keys.map(k => k.provider);
+  },
+
+  /**
+   * Read a configuration value, returning the fallback when unset
+   */
+  async getSetting<T>(key: string, fallback: T): Promise<T> {
+    const record = await db.settings.get(key);
+    return record ? (record.value as T) : fallback;
+  },
+
+  /**
+   * Persist a configuration value
+   */
+  async saveSetting<T>(key: string, value: T): Promise<void> {
+    await db.settings.put({ key, value, updatedAt: Date.now() });
   }
 };
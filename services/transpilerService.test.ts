@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { portBlueprint } from './transpilerService';
+import { AutomationResult } from '../types';
+
+const blueprint: AutomationResult = {
+  platform: 'zapier',
+  explanation: 'Route large orders',
+  codeSnippet: 'zap config',
+  steps: [
+    { id: 1, title: 'New order', description: '', type: 'trigger', inputs: { app: 'shopify' } },
+    { id: 2, title: 'Score order', description: '', type: 'logic', inputs: { js: 'return { big: input.total > 100 }' } },
+    { id: 3, title: 'Notify sales', description: '', type: 'action', inputs: { app: 'slack', text: '{{1.name}}' } },
+    { id: 4, title: 'Log failure', description: '', type: 'error-handler' }
+  ],
+  edges: [
+    { from: 1, to: 2, type: 'next' },
+    { from: 2, to: 3, type: 'branch', condition: 'big' },
+    { from: 2, to: 4, type: 'error' }
+  ]
+};
+
+describe('portBlueprint', () => {
+  it('should keep steps and edges and only change the platform', () => {
+    const { blueprint: ported } = portBlueprint(blueprint, 'pipedream');
+    expect(ported.platform).toBe('pipedream');
+    expect(ported.steps).toEqual(blueprint.steps);
+    expect(ported.edges).toEqual(blueprint.edges);
+    expect(ported.explanation).toBe(blueprint.explanation);
+    expect(ported.codeSnippet).toBeUndefined();
+  });
+
+  it('should flag constructs the target cannot express', () => {
+    const { mappings } = portBlueprint(blueprint, 'pipedream');
+    expect(mappings.map(m => [m.stepId, m.status])).toEqual([[1, 'native'], [2, 'partial'], [3, 'native'], [4, 'unsupported']]);
+    expect(mappings[1].notes).toEqual(['Errors stop the workflow; handle them with try/catch in a code step']);
+    expect(mappings[3]).toMatchObject({ source: 'error-handler', target: null, notes: ['Pipedream has no error-handler step'] });
+  });
+
+  it('should flag code steps in a language the target does not run', () => {
+    const { mappings } = portBlueprint(blueprint, 'openai');
+    expect(mappings[1].status).toBe('unsupported');
+    expect(mappings[1].notes[0]).toBe('JavaScript code must be rewritten in Python');
+  });
+
+  it('should use the native exporter for the code snippet and its report', () => {
+    const { blueprint: ported, mappings, notes } = portBlueprint(blueprint, 'n8n');
+    expect(JSON.parse(ported.codeSnippet!).nodes.length).toBeGreaterThan(0);
+    expect(mappings[0]).toMatchObject({ source: 'Trigger event', target: 'Trigger node', status: 'native' });
+    expect(notes).toEqual(['Code snippet replaced with the generated n8n Workflow.']);
+  });
+});
@@ -0,0 +1,178 @@
+import { AutomationResult, AutomationStep, EdgeType, Platform, StepType } from '../types';
+import { getExporter } from './exporters';
+import { outgoing, upgradeBlueprint } from '../utils/blueprintGraph';
+
+/**
+ * Re-targets a blueprint to another platform without changing what it does.
+ *
+ * Steps, edges and inputs carry over as they are: the blueprint model is
+ * platform-neutral, so only the construct each step is built from differs.
+ * `PLATFORM_PROFILES` names that construct per step kind and lists what a
+ * platform cannot express; the port reports it per step rather than
+ * dropping steps. When the target has a native exporter its output becomes
+ * the new code snippet, and the steps it could only export as placeholders
+ * are reported as partial.
+ */
+
+export interface PlatformProfile {
+  label: string;
+  /** Native construct per step kind; missing kinds have no equivalent */
+  steps: Partial<Record<StepType, string>>;
+  /** Edge kinds the platform cannot express, with the reason */
+  edges: Partial<Record<EdgeType, string>>;
+  /** Languages a code step can be written in */
+  code: ('js' | 'python')[];
+}
+
+export const PLATFORM_PROFILES: Record<Platform, PlatformProfile> = {
+  zapier: {
+    label: 'Zapier',
+    steps: { trigger: 'Trigger event', action: 'Action step', logic: 'Filter / Paths / Formatter', loop: 'Looping by Zapier', delay: 'Delay by Zapier', 'sub-workflow': 'Sub-Zap', 'human-approval': 'Human in the Loop' },
+    edges: { error: 'Zapier has no error path; a failing step stops the zap' },
+    code: ['js', 'python']
+  },
+  n8n: {
+    label: 'n8n',
+    steps: { trigger: 'Trigger node', action: 'App node', logic: 'Code / If / Switch node', loop: 'Loop Over Items', delay: 'Wait node', 'error-handler': 'Error output', 'sub-workflow': 'Execute Workflow', 'human-approval': 'Wait node (resume on webhook)' },
+    edges: {},
+    code: ['js', 'python']
+  },
+  make: {
+    label: 'Make',
+    steps: { trigger: 'Watch / webhook module', action: 'App module', logic: 'Router / Tools module', loop: 'Iterator + Array Aggregator', delay: 'Sleep', 'error-handler': 'Error handler route', 'sub-workflow': 'Run a scenario' },
+    edges: {},
+    code: []
+  },
+  pipedream: {
+    label: 'Pipedream',
+    steps: { trigger: 'Event source', action: 'Component step', logic: 'Code step', loop: 'Loop in a code step', delay: '$.flow.delay', 'sub-workflow': 'Workflow HTTP call', 'human-approval': '$.flow.suspend' },
+    edges: { error: 'Errors stop the workflow; handle them with try/catch in a code step' },
+    code: ['js', 'python']
+  },
+  langchain: {
+    label: 'LangChain',
+    steps: { trigger: 'Chain input', action: 'Tool call', logic: 'RunnableLambda', loop: 'Runnable .batch()', delay: 'RunnableLambda (sleep)', 'error-handler': 'withFallbacks()', 'sub-workflow': 'Nested runnable', 'human-approval': 'LangGraph interrupt' },
+    edges: {},
+    code: ['js']
+  },
+  'google-sheets': {
+    label: 'Google Sheets',
+    steps: { trigger: 'Apps Script trigger', action: 'Apps Script service call', logic: 'Apps Script function', loop: 'Apps Script loop', delay: 'Utilities.sleep', 'error-handler': 'try/catch', 'sub-workflow': 'Library function' },
+    edges: {},
+    code: ['js']
+  },
+  airtable: {
+    label: 'Airtable',
+    steps: { trigger: 'Automation trigger', action: 'Automation action', logic: 'Conditional group / script', loop: 'Repeating group' },
+    edges: { error: 'Airtable automations stop on the first failing action' },
+    code: ['js']
+  },
+  shopify: {
+    label: 'Shopify Flow',
+    steps: { trigger: 'Flow trigger', action: 'Flow action', logic: 'Condition / Run code', loop: 'For each', delay: 'Wait' },
+    edges: { error: 'Shopify Flow has no error path; a failing action stops the run' },
+    code: ['js']
+  },
+  openai: {
+    label: 'OpenAI',
+    steps: { trigger: 'User message', action: 'Function tool', logic: 'Function tool', 'sub-workflow': 'Agent handoff', 'human-approval': 'Tool approval' },
+    edges: {
+      branch: 'The model chooses which tool to call; conditions become instructions',
+      loop: 'The model repeats tool calls itself; loops become instructions',
+      error: 'Tool errors are returned to the model instead of routed'
+    },
+    code: ['python']
+  },
+  anthropic: {
+    label: 'Anthropic',
+    steps: { trigger: 'User message', action: 'Tool use', logic: 'Tool use', 'sub-workflow': 'Subagent', 'human-approval': 'Tool approval' },
+    edges: {
+      branch: 'The model chooses which tool to call; conditions become instructions',
+      loop: 'The model repeats tool calls itself; loops become instructions',
+      error: 'Tool errors are returned to the model instead of routed'
+    },
+    code: ['python']
+  }
+};
+
+export type MappingStatus = 'native' | 'partial' | 'unsupported';
+
+export interface StepMapping {
+  stepId: number;
+  title: string;
+  type: StepType;
+  /** Construct on the source platform */
+  source: string;
+  /** Construct on the target platform; null when there is none */
+  target: string | null;
+  status: MappingStatus;
+  notes: string[];
+}
+
+export interface PortResult {
+  blueprint: AutomationResult;
+  mappings: StepMapping[];
+  /** Notes about the blueprint as a whole */
+  notes: string[];
+}
+
+const codeLanguage = (step: AutomationStep): 'js' | 'python' | null =>
+  step.inputs?.js !== undefined ? 'js' : step.inputs?.python !== undefined ? 'python' : null;
+
+function mapStep(blueprint: AutomationResult, step: AutomationStep, from: PlatformProfile, to: PlatformProfile): StepMapping {
+  const notes: string[] = [];
+  const target = to.steps[step.type] ?? null;
+  let status: MappingStatus = target ? 'native' : 'unsupported';
+  if (!target) notes.push(`${to.label} has no ${step.type} step`);
+
+  const language = codeLanguage(step);
+  if (language && !to.code.includes(language)) {
+    status = 'unsupported';
+    notes.push(to.code.length > 0
+      ? `${language === 'js' ? 'JavaScript' : 'Python'} code must be rewritten in ${to.code.map(l => l === 'js' ? 'JavaScript' : 'Python').join(' or ')}`
+      : `${to.label} has no code steps; rebuild this logic from native modules`);
+  }
+
+  const edgeTypes = new Set(outgoing(blueprint, step.id).map(edge => edge.type));
+  for (const type of edgeTypes) {
+    const reason = to.edges[type];
+    if (!reason) continue;
+    if (status === 'native') status = 'partial';
+    notes.push(reason);
+  }
+
+  return { stepId: step.id, title: step.title, type: step.type, source: from.steps[step.type] ?? step.type, target, status, notes };
+}
+
+/**
+ * Port `source` to `target`. The result keeps steps, edges, inputs and
+ * documentation; only the platform and the code snippet change.
+ */
+export function portBlueprint(source: AutomationResult, target: Platform): PortResult {
+  const blueprint = upgradeBlueprint(source);
+  const from = PLATFORM_PROFILES[blueprint.platform];
+  const to = PLATFORM_PROFILES[target];
+  const { codeSnippet, ...content } = blueprint;
+  const ported: AutomationResult = { ...content, platform: target };
+  const mappings = blueprint.steps.map(step => mapStep(blueprint, step, from, to));
+  const notes: string[] = [];
+
+  const exporter = getExporter(target);
+  if (exporter) {
+    const file = exporter.export(ported);
+    if (typeof file.content === 'string') ported.codeSnippet = file.content;
+    for (const entry of file.unmapped) {
+      const mapping = mappings.find(m => m.stepId === entry.stepId);
+      if (!mapping) continue;
+      if (mapping.status === 'native') mapping.status = 'partial';
+      mapping.notes.push(entry.reason);
+    }
+    if (ported.codeSnippet) notes.push(`Code snippet replaced with the generated ${exporter.label}.`);
+  }
+  if (!ported.codeSnippet && codeSnippet) {
+    notes.push(`The ${from.label} code snippet was dropped; regenerate it for ${to.label} from the Generator.`);
+  }
+  if (blueprint.platform === target) notes.push(`The blueprint already targets ${to.label}.`);
+
+  return { blueprint: ported, mappings, notes };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UsageRecord } from './storageService';
+import { AiProvider } from './providers';
+import { blueprintRef, dayKey, estimateRequestTokens, meterProvider, summarizeUsage } from './usageService';
+
+const provider = (usage?: { inputTokens: number; outputTokens: number }): AiProvider => ({
+  id: 'gemini',
+  label: 'Test',
+  models: { pro: 'big', flash: 'small' },
+  generate: vi.fn().mockResolvedValue({ text: 'x'.repeat(40), usage })
+});
+
+describe('meterProvider', () => {
+  it('should report provider usage metadata when present', async () => {
+    const onUsage = vi.fn();
+    await meterProvider(provider({ inputTokens: 12, outputTokens: 34 }), onUsage).generate({ model: 'big', contents: 'hi' });
+    expect(onUsage).toHaveBeenCalledWith({ model: 'big', costKey: 'gemini-pro', inputTokens: 12, outputTokens: 34, estimated: false });
+  });
+
+  it('should fall back to the heuristic when metadata is missing', async () => {
+    const onUsage = vi.fn();
+    await meterProvider(provider(), onUsage).generate({ model: 'custom-model', contents: 'a'.repeat(20) });
+    expect(onUsage).toHaveBeenCalledWith({ model: 'custom-model', costKey: 'gemini-custom-model', inputTokens: 5, outputTokens: 10, estimated: true });
+  });
+
+  it('should not invent capabilities the provider lacks', () => {
+    const metered = meterProvider(provider(), () => {});
+    expect(metered.generateStream).toBeUndefined();
+    expect(metered.synthesizeSpeech).toBeUndefined();
+  });
+});
+
+describe('estimateRequestTokens', () => {
+  it('should count system text, prompt text and images', () => {
+    expect(estimateRequestTokens({
+      model: 'm',
+      systemInstruction: 'abcd',
+      contents: [{ inlineData: { mimeType: 'image/png', data: 'AAAA' } }, { text: 'abcdefgh' }]
+    })).toBe(1 + 258 + 2);
+  });
+});
+
+describe('blueprintRef', () => {
+  it('should prefer the vault id and fall back to platform and timestamp', () => {
+    expect(blueprintRef({ platform: 'n8n', steps: [], explanation: '', timestamp: 5, id: 'abc', name: 'x', version: '1' } as any)).toBe('abc');
+    expect(blueprintRef({ platform: 'n8n', steps: [], explanation: '', timestamp: 5 })).toBe('n8n:5');
+    expect(blueprintRef({ platform: 'n8n', steps: [], explanation: '' })).toBeUndefined();
+  });
+});
+
+describe('summarizeUsage', () => {
+  const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+    timestamp: 0,
+    day: '2026-10-01',
+    task: 'generate',
+    provider: 'gemini',
+    model: 'big',
+    inputTokens: 100,
+    outputTokens: 50,
+    cost: 0.01,
+    estimated: 0,
+    cached: 0,
+    ...overrides
+  });
+
+  it('should break usage down by task, model, day and blueprint', () => {
+    const summary = summarizeUsage([
+      record({ blueprint: 'bp-1' }),
+      record({ task: 'audit', day: '2026-10-02', blueprint: 'bp-1' }),
+      record({ task: 'chat', model: 'small', inputTokens: 0, outputTokens: 0, cost: 0, cached: 1 })
+    ]);
+
+    expect(summary.totals).toEqual({ requests: 3, cachedRequests: 1, inputTokens: 200, outputTokens: 100, cost: 0.02 });
+    expect(Object.keys(summary.byTask)).toEqual(['generate', 'audit', 'chat']);
+    expect(summary.byModel['gemini/big'].requests).toBe(2);
+    expect(summary.byDay['2026-10-02'].inputTokens).toBe(100);
+    expect(summary.byBlueprint).toEqual({ 'bp-1': { requests: 2, cachedRequests: 0, inputTokens: 200, outputTokens: 100, cost: 0.02 } });
+  });
+});
+
+describe('dayKey', () => {
+  it('should format the local calendar day', () => {
+    expect(dayKey(new Date(2026, 0, 9, 23, 59).getTime())).toBe('2026-01-09');
+  });
+});
@@ -0,0 +1,240 @@
+import { AiTask, AutomationResult, SavedBlueprint } from '../types';
+import { db, UsageRecord } from './storageService';
+import { AiProvider, AiRequest, AiResponse, ModelTier } from './providers';
+import { toParts } from './providers/schema';
+import { getPricingTable, priceCall } from './budgetService';
+import { estimateTokenCount, usageTracker } from '../utils/tokens';
+import { SpanContext, tracer } from '../utils/tracing';
+
+/**
+ * Token accounting and the persistent usage ledger.
+ *
+ * Every provider call made by `executeAiTask` goes through `meterProvider`,
+ * which reads real token counts from the response metadata and falls back
+ * to the character heuristic when a provider reports none. Records are
+ * priced with the workspace pricing table and written to the `usage`
+ * table so breakdowns survive reloads.
+ */
+
+/** Gemini bills each inline image as a fixed block of tokens */
+const IMAGE_TOKENS = 258;
+/** 24kHz 16-bit PCM bytes per audio token (Gemini audio runs at 25 tokens/s) */
+const AUDIO_BYTES_PER_TOKEN = 1920;
+
+/** Usage of one provider call, before task/blueprint attribution */
+export interface MeteredUsage {
+  model: string;
+  /** Pricing key: `<provider>-<tier>` when the model is a tier model */
+  costKey: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;
+}
+
+export interface UsageBreakdown {
+  requests: number;
+  cachedRequests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  totals: UsageBreakdown;
+  byTask: Record<string, UsageBreakdown>;
+  byModel: Record<string, UsageBreakdown>;
+  byDay: Record<string, UsageBreakdown>;
+  byBlueprint: Record<string, UsageBreakdown>;
+}
+
+/**
+ * Local calendar day (YYYY-MM-DD) used to bucket ledger records
+ */
+export function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Ledger key for a blueprint: its vault id once saved, otherwise the
+ * platform and generation timestamp
+ */
+export function blueprintRef(blueprint: AutomationResult): string | undefined {
+  const saved = (blueprint as Partial<SavedBlueprint>).id;
+  if (saved) return saved;
+  return blueprint.timestamp ? `${blueprint.platform}:${blueprint.timestamp}` : undefined;
+}
+
+/**
+ * Heuristic input size of a request: text at ~4 chars/token plus a fixed
+ * block per inline image
+ */
+export function estimateRequestTokens(request: AiRequest): number {
+  const parts = toParts(request.contents);
+  return estimateTokenCount(request.systemInstruction || '') + parts.reduce((sum, part) =>
+    sum + ('text' in part ? estimateTokenCount(part.text) : IMAGE_TOKENS), 0);
+}
+
+/**
+ * Legacy pricing key of a model: `<provider>-<tier>` for tier models
+ */
+export function costKeyFor(provider: Pick<AiProvider, 'id' | 'models'>, model: string): string {
+  const tier = (Object.keys(provider.models) as ModelTier[]).find(tier => provider.models[tier] === model);
+  return `${provider.id}-${tier ?? model}`;
+}
+
+/**
+ * Wrap a provider so every completed call reports its token usage
+ */
+export function meterProvider(provider: AiProvider, onUsage: (usage: MeteredUsage) => void): AiProvider {
+  const costKey = (model: string) => costKeyFor(provider, model);
+
+  const report = (request: AiRequest, response: AiResponse) => {
+    onUsage({
+      model: request.model,
+      costKey: costKey(request.model),
+      inputTokens: response.usage?.inputTokens ?? estimateRequestTokens(request),
+      outputTokens: response.usage?.outputTokens ?? estimateTokenCount(response.text),
+      estimated: !response.usage
+    });
+  };
+
+  return {
+    id: provider.id,
+    label: provider.label,
+    models: provider.models,
+
+    async generate(request) {
+      const response = await provider.generate(request);
+      report(request, response);
+      return response;
+    },
+
+    generateStream: provider.generateStream && (async (request, onDelta) => {
+      const response = await provider.generateStream!(request, onDelta);
+      report(request, response);
+      return response;
+    }),
+
+    // Speech responses carry no usage metadata; size the audio instead
+    synthesizeSpeech: provider.synthesizeSpeech && (async (request) => {
+      const audio = await provider.synthesizeSpeech!(request);
+      onUsage({
+        model: request.model,
+        costKey: costKey(request.model),
+        inputTokens: estimateTokenCount(request.text),
+        outputTokens: Math.ceil((audio.length * 3 / 4) / AUDIO_BYTES_PER_TOKEN),
+        estimated: true
+      });
+      return audio;
+    })
+  };
+}
+
+export const emptyBreakdown = (): UsageBreakdown => ({ requests: 0, cachedRequests: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+
+const accumulate = (entry: UsageBreakdown, record: UsageRecord) => {
+  entry.requests++;
+  entry.cachedRequests += record.cached;
+  entry.inputTokens += record.inputTokens;
+  entry.outputTokens += record.outputTokens;
+  entry.cost += record.cost;
+};
+
+const addTo = (bucket: Record<string, UsageBreakdown>, key: string, record: UsageRecord) =>
+  accumulate(bucket[key] ||= emptyBreakdown(), record);
+
+/**
+ * Aggregate ledger records into totals and per-task/model/day/blueprint breakdowns
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = { totals: emptyBreakdown(), byTask: {}, byModel: {}, byDay: {}, byBlueprint: {} };
+  for (const record of records) {
+    accumulate(summary.totals, record);
+    addTo(summary.byTask, record.task, record);
+    addTo(summary.byModel, `${record.provider}/${record.model}`, record);
+    addTo(summary.byDay, record.day, record);
+    if (record.blueprint) addTo(summary.byBlueprint, record.blueprint, record);
+  }
+  return summary;
+}
+
+export const usageLedger = {
+  /**
+   * Attribute metered calls to a task (and blueprint) and persist them
+   */
+  record(
+    task: AiTask,
+    provider: string,
+    usages: MeteredUsage[],
+    blueprint?: string,
+    trace?: SpanContext
+  ): Promise<void> {
+    return tracer.trace('usage.record', trace, async span => {
+      const now = Date.now();
+      const pricing = await getPricingTable();
+      const records: UsageRecord[] = usages.map(usage => {
+        const cost = priceCall(pricing, usage);
+        usageTracker.track(usage.inputTokens, usage.outputTokens, cost);
+        return {
+          timestamp: now,
+          day: dayKey(now),
+          task,
+          provider,
+          model: usage.model,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          cost,
+          estimated: usage.estimated ? 1 : 0,
+          cached: 0,
+          ...(blueprint && { blueprint })
+        };
+      });
+      span.setAttributes({
+        'usage.calls': records.length,
+        'usage.input_tokens': records.reduce((sum, r) => sum + r.inputTokens, 0),
+        'usage.output_tokens': records.reduce((sum, r) => sum + r.outputTokens, 0),
+        'usage.cost': records.reduce((sum, r) => sum + r.cost, 0)
+      });
+      await db.usage.bulkAdd(records);
+    });
+  },
+
+  /**
+   * Log a response served from cache: counted as a request, never billed
+   */
+  recordCacheHit(task: AiTask, provider: string, model: string, blueprint?: string, trace?: SpanContext): Promise<void> {
+    return tracer.trace('usage.record', trace, async () => {
+      const now = Date.now();
+      await db.usage.add({
+        timestamp: now,
+        day: dayKey(now),
+        task,
+        provider,
+        model,
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+        estimated: 0,
+        cached: 1,
+        ...(blueprint && { blueprint })
+      });
+    }, { 'usage.cached': true });
+  },
+
+  /**
+   * Records at or after `since` (all records when omitted), oldest first
+   */
+  async list(since: number = 0): Promise<UsageRecord[]> {
+    return db.usage.where('timestamp').aboveOrEqual(since).toArray();
+  },
+
+  async summarize(since: number = 0): Promise<UsageSummary> {
+    return summarizeUsage(await this.list(since));
+  },
+
+  async clear(): Promise<void> {
+    await db.usage.clear();
+  }
+};
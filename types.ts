@@ -10,12 +10,28 @@ export enum AppView {
   VAULT = 'VAULT',
   COMPARATOR = 'COMPARATOR',
   TERMINAL = 'TERMINAL',
+  ANALYTICS = 'ANALYTICS',
+  LOGS = 'LOGS',
   PROFILE = 'PROFILE'
 }
 
 export type Platform = 'zapier' | 'n8n' | 'langchain' | 'make' | 'pipedream' | 'google-sheets' | 'airtable' | 'shopify' | 'openai' | 'anthropic';
 
-export type StepType = 'trigger' | 'action' | 'logic';
+export type AiProviderId = 'gemini' | 'openai' | 'anthropic' | 'local';
+
+export type AiMode = 'live' | 'record' | 'replay' | 'mock';
+
+/** AI workloads that can be routed to their own model settings */
+export type AiTask = 'generate' | 'docs' | 'benchmark' | 'chat' | 'audit' | 'simulate' | 'secrets' | 'image' | 'tts' | 'live';
+
+export type StepType = 'trigger' | 'action' | 'logic' | 'loop' | 'delay' | 'error-handler' | 'sub-workflow' | 'human-approval';
+
+/**
+ * How control passes along an edge: `next` is unconditional (several
+ * from one node run in parallel), `branch` is taken when its condition
+ * holds, `loop` enters a loop body, `error` routes failures to a handler.
+ */
+export type EdgeType = 'next' | 'branch' | 'loop' | 'error';
 
 export interface GroundingSource {
   title: string;
@@ -27,16 +43,41 @@ export interface AutomationStep {
   title: string;
   description: string;
   type: StepType;
+  /** Parameter name -> literal or expression the step reads, e.g. `{{1.email}}` */
+  inputs?: Record<string, string>;
+  /** Parameter name -> description of what the step produces */
+  outputs?: Record<string, string>;
+}
+
+export interface BlueprintEdge {
+  from: number;
+  to: number;
+  type: EdgeType;
+  /** Expression that guards a `branch` edge, e.g. `amount > 100` */
+  condition?: string;
 }
 
 export interface AutomationResult {
   platform: Platform;
   steps: AutomationStep[];
+  /** Control flow between steps; absent on legacy flat blueprints */
+  edges?: BlueprintEdge[];
   codeSnippet?: string;
   explanation: string;
   sources?: GroundingSource[];
   timestamp?: number;
   documentation?: WorkflowDocumentation;
+  /** Prompt template that produced this blueprint */
+  prompt?: PromptRef;
+}
+
+/**
+ * Identifies the prompt template (and revision) behind an AI result.
+ * Overridden templates carry a `+custom.<rev>` version suffix.
+ */
+export interface PromptRef {
+  id: string;
+  version: string;
 }
 
 export interface WorkflowDocumentation {
@@ -76,6 +117,8 @@ export interface SavedBlueprint extends AutomationResult {
   id: string;
   name: string;
   version: string;
+  /** Head revision number; absent on records saved before revision history */
+  revision?: number;
 }
 
 export interface UserProfile {
@@ -119,6 +162,8 @@ export interface AuditResult {
   }[];
   roiAnalysis: string;
   optimizationTips: string[];
+  /** Prompt template that produced this audit */
+  prompt?: PromptRef;
 }
 
 export interface SimulationResponse {
@@ -157,3 +202,12 @@ export interface AsyncState<T> {
   loading: boolean;
   error: ApiError | null;
 }
+
+/**
+ * Recursively optional view of T, used for partially streamed results
+ */
+export type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
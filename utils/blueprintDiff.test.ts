@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { bumpVersion, diffBlueprints, diffLines, diffSteps, suggestBump } from './blueprintDiff';
+import { AutomationResult, AutomationStep } from '../types';
+
+const step = (id: number, title: string, type: AutomationStep['type'] = 'action'): AutomationStep => ({
+  id, title, description: `${title} step`, type
+});
+
+const blueprint = (overrides: Partial<AutomationResult> = {}): AutomationResult => ({
+  platform: 'zapier',
+  explanation: 'Sync leads',
+  steps: [step(1, 'New lead', 'trigger'), step(2, 'Create contact')],
+  codeSnippet: 'const a = 1;\nconst b = 2;',
+  ...overrides
+});
+
+describe('diffLines', () => {
+  it('should keep common lines and mark edits', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' }
+    ]);
+    expect(diffLines('', 'a')).toEqual([{ type: 'added', text: 'a' }]);
+  });
+});
+
+describe('diffSteps', () => {
+  it('should match steps by id', () => {
+    const before = [step(1, 'New lead', 'trigger'), step(2, 'Create contact'), step(3, 'Notify')];
+    const after = [step(1, 'New lead', 'trigger'), { ...step(2, 'Create contact'), description: 'Upsert' }, step(4, 'Log')];
+    expect(diffSteps(before, after).map(c => [c.type, c.id, c.fields])).toEqual([
+      ['changed', 2, ['description']],
+      ['removed', 3, undefined],
+      ['added', 4, undefined]
+    ]);
+  });
+});
+
+describe('suggestBump', () => {
+  it('should rank breaking, additive and cosmetic changes', () => {
+    const base = blueprint();
+    expect(suggestBump(base, blueprint({ platform: 'n8n' }))).toBe('major');
+    expect(suggestBump(base, blueprint({ steps: [step(1, 'New deal', 'trigger'), step(2, 'Create contact')] }))).toBe('major');
+    expect(suggestBump(base, blueprint({ steps: [step(1, 'New lead', 'trigger')] }))).toBe('major');
+    expect(suggestBump(base, blueprint({ steps: [...base.steps, step(3, 'Notify')] }))).toBe('minor');
+    expect(suggestBump(base, blueprint({ codeSnippet: 'const a = 2;' }))).toBe('patch');
+    expect(suggestBump(base, blueprint({ edges: [{ from: 1, to: 2, type: 'branch', condition: 'isNew' }] }))).toBe('minor');
+  });
+});
+
+describe('diffBlueprints', () => {
+  it('should report identical revisions as unchanged', () => {
+    const diff = diffBlueprints(blueprint(), blueprint());
+    expect(diff.changed).toBe(false);
+    expect(diffBlueprints(blueprint(), blueprint({ explanation: 'Sync all leads' })).changed).toBe(true);
+  });
+});
+
+describe('bumpVersion', () => {
+  it('should bump semver and tolerate loose versions', () => {
+    expect(bumpVersion('1.2.3', 'patch')).toBe('1.2.4');
+    expect(bumpVersion('1.2.3', 'minor')).toBe('1.3.0');
+    expect(bumpVersion('v1.2.3-beta', 'major')).toBe('2.0.0');
+    expect(bumpVersion('2', 'minor')).toBe('2.1.0');
+    expect(bumpVersion('draft', 'patch')).toBe('1.0.0');
+  });
+});
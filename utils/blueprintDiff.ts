@@ -0,0 +1,200 @@
+/**
+ * Structural diff between two blueprint revisions and the semver bump it
+ * implies.
+ *
+ * Steps are matched by id and edges by their endpoints and type. Code
+ * snippets and documentation are compared line by line (LCS), so the
+ * Vault can render them as unified diffs.
+ */
+
+import { AutomationResult, AutomationStep, BlueprintEdge, WorkflowDocumentation } from '../types';
+import { linearEdges } from './blueprintGraph';
+
+export type SemverBump = 'major' | 'minor' | 'patch';
+
+export interface LineChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface StepChange {
+  type: 'added' | 'removed' | 'changed';
+  id: number;
+  before?: AutomationStep;
+  after?: AutomationStep;
+  /** Fields that differ, for `changed` */
+  fields?: (keyof AutomationStep)[];
+}
+
+export interface EdgeChange {
+  type: 'added' | 'removed' | 'changed';
+  before?: BlueprintEdge;
+  after?: BlueprintEdge;
+}
+
+export interface BlueprintDiff {
+  platformChanged: boolean;
+  explanationChanged: boolean;
+  steps: StepChange[];
+  edges: EdgeChange[];
+  code: LineChange[];
+  docs: LineChange[];
+  /** Any difference at all */
+  changed: boolean;
+  bump: SemverBump;
+}
+
+/** Above this many lines per side the LCS table gets too large; fall back to replace-all */
+const MAX_DIFF_LINES = 1000;
+
+const splitLines = (text: string): string[] => text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n');
+
+/**
+ * Line diff via longest common subsequence
+ */
+export function diffLines(before: string = '', after: string = ''): LineChange[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [...a.map(text => ({ type: 'removed' as const, text })), ...b.map(text => ({ type: 'added' as const, text }))];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: 'removed', text: a[i++] });
+    } else {
+      changes.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) changes.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) changes.push({ type: 'added', text: b[j++] });
+  return changes;
+}
+
+const STEP_FIELDS: (keyof AutomationStep)[] = ['title', 'description', 'type', 'inputs', 'outputs'];
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function diffSteps(before: AutomationStep[] = [], after: AutomationStep[] = []): StepChange[] {
+  const previous = new Map(before.map(step => [step.id, step]));
+  const next = new Map(after.map(step => [step.id, step]));
+  const changes: StepChange[] = [];
+
+  for (const step of after) {
+    const old = previous.get(step.id);
+    if (!old) {
+      changes.push({ type: 'added', id: step.id, after: step });
+      continue;
+    }
+    const fields = STEP_FIELDS.filter(field => !same(old[field], step[field]));
+    if (fields.length > 0) changes.push({ type: 'changed', id: step.id, before: old, after: step, fields });
+  }
+  for (const step of before) {
+    if (!next.has(step.id)) changes.push({ type: 'removed', id: step.id, before: step });
+  }
+  return changes.sort((x, y) => x.id - y.id);
+}
+
+const edgeKey = (edge: BlueprintEdge) => `${edge.from}->${edge.to}:${edge.type}`;
+
+/**
+ * Edge changes; flat blueprints compare by their implicit sequential flow
+ */
+export function diffEdges(before: AutomationResult, after: AutomationResult): EdgeChange[] {
+  const previous = new Map((before.edges ?? linearEdges(before.steps || [])).map(edge => [edgeKey(edge), edge]));
+  const next = new Map((after.edges ?? linearEdges(after.steps || [])).map(edge => [edgeKey(edge), edge]));
+  const changes: EdgeChange[] = [];
+  for (const [key, edge] of next) {
+    const old = previous.get(key);
+    if (!old) changes.push({ type: 'added', after: edge });
+    else if ((old.condition ?? '') !== (edge.condition ?? '')) changes.push({ type: 'changed', before: old, after: edge });
+  }
+  for (const [key, edge] of previous) {
+    if (!next.has(key)) changes.push({ type: 'removed', before: edge });
+  }
+  return changes;
+}
+
+/**
+ * Documentation flattened to comparable lines
+ */
+export function docsText(docs?: WorkflowDocumentation): string {
+  if (!docs) return '';
+  return [
+    `Purpose: ${docs.purpose}`,
+    ...docs.logicFlow.map((flow, i) => `${i + 1}. ${flow}`),
+    `Maintenance: ${docs.maintenanceGuide}`,
+    `Input schema: ${JSON.stringify(docs.inputSchema)}`,
+    `Output schema: ${JSON.stringify(docs.outputSchema)}`
+  ].join('\n');
+}
+
+/**
+ * Semver impact of going from `before` to `after`: a different platform,
+ * removed steps or a changed trigger break consumers (major); added steps
+ * or rewired control flow extend the workflow (minor); anything else is a
+ * patch.
+ */
+export function suggestBump(
+  before: AutomationResult,
+  after: AutomationResult,
+  steps: StepChange[] = diffSteps(before.steps, after.steps),
+  edges: EdgeChange[] = diffEdges(before, after)
+): SemverBump {
+  const trigger = (result: AutomationResult) => (result.steps || []).find(step => step.type === 'trigger');
+  const triggerChanged = !same(trigger(before), trigger(after));
+  if (before.platform !== after.platform || triggerChanged || steps.some(change => change.type === 'removed')) return 'major';
+  if (steps.some(change => change.type === 'added') || edges.length > 0) return 'minor';
+  return 'patch';
+}
+
+export function diffBlueprints(before: AutomationResult, after: AutomationResult): BlueprintDiff {
+  const steps = diffSteps(before.steps, after.steps);
+  const edges = diffEdges(before, after);
+  const code = diffLines(before.codeSnippet, after.codeSnippet);
+  const docs = diffLines(docsText(before.documentation), docsText(after.documentation));
+  const platformChanged = before.platform !== after.platform;
+  const explanationChanged = before.explanation !== after.explanation;
+  return {
+    platformChanged,
+    explanationChanged,
+    steps,
+    edges,
+    code,
+    docs,
+    changed: platformChanged || explanationChanged || steps.length > 0 || edges.length > 0
+      || [...code, ...docs].some(line => line.type !== 'same'),
+    bump: suggestBump(before, after, steps, edges)
+  };
+}
+
+/**
+ * Apply a bump to a version string. Missing parts count as 0 and
+ * pre-release/build suffixes are dropped; anything unparseable restarts
+ * at 1.0.0.
+ */
+export function bumpVersion(version: string, bump: SemverBump): string {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(version.trim());
+  if (!match) return '1.0.0';
+  const [major, minor, patch] = [match[1], match[2], match[3]].map(part => Number(part ?? 0));
+  switch (bump) {
+    case 'major': return `${major + 1}.0.0`;
+    case 'minor': return `${major}.${minor + 1}.0`;
+    default: return `${major}.${minor}.${patch + 1}`;
+  }
+}
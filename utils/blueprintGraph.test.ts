@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { describeEdge, graphIssues, upgradeBlueprint } from './blueprintGraph';
+import { AutomationResult, AutomationStep } from '../types';
+
+const step = (id: number, type: AutomationStep['type'] = 'action'): AutomationStep => ({
+  id, title: `Step ${id}`, description: '', type
+});
+
+const blueprint = (overrides: Partial<AutomationResult> = {}): AutomationResult => ({
+  platform: 'n8n',
+  explanation: 'Route orders',
+  steps: [step(1, 'trigger'), step(2, 'logic'), step(3), step(4)],
+  ...overrides
+});
+
+describe('upgradeBlueprint', () => {
+  it('should chain legacy flat steps in order', () => {
+    const upgraded = upgradeBlueprint(blueprint());
+    expect(upgraded.edges).toEqual([
+      { from: 1, to: 2, type: 'next' },
+      { from: 2, to: 3, type: 'next' },
+      { from: 3, to: 4, type: 'next' }
+    ]);
+    expect(upgradeBlueprint(upgraded)).toEqual(upgraded);
+  });
+
+  it('should clean up loosely typed model output', () => {
+    const upgraded = upgradeBlueprint(blueprint({
+      steps: [{ ...step(1, 'trigger'), inputs: { path: '/orders', retries: 3 as any } }, { ...step(2), type: 'webhook' as any }],
+      edges: [
+        { from: 1, to: 2, type: 'unknown' as any, condition: ' amount > 100 ' },
+        { from: 1, to: 2, type: 'branch', condition: 'amount > 100' },
+        { from: 2, to: 2, type: 'next' },
+        { from: 2, to: 9, type: 'next' }
+      ]
+    }));
+    expect(upgraded.steps[0].inputs).toEqual({ path: '/orders', retries: '3' });
+    expect(upgraded.steps[1].type).toBe('action');
+    expect(upgraded.edges).toEqual([{ from: 1, to: 2, type: 'branch', condition: 'amount > 100' }]);
+  });
+});
+
+describe('graphIssues', () => {
+  it('should accept branches, loops and error handlers', () => {
+    const graph = blueprint({
+      steps: [step(1, 'trigger'), step(2, 'logic'), step(3, 'loop'), step(4), step(5, 'error-handler')],
+      edges: [
+        { from: 1, to: 2, type: 'next' },
+        { from: 2, to: 3, type: 'branch', condition: 'items.length > 0' },
+        { from: 3, to: 4, type: 'loop' },
+        { from: 4, to: 5, type: 'error' }
+      ]
+    });
+    expect(graphIssues(graph)).toEqual([]);
+  });
+
+  it('should report unreachable steps and incomplete constructs', () => {
+    const graph = blueprint({
+      steps: [step(1, 'trigger'), step(2, 'loop'), step(3), step(4, 'error-handler')],
+      edges: [{ from: 1, to: 2, type: 'branch' }]
+    });
+    expect(graphIssues(graph)).toEqual([
+      'Branch 1 → 2 has no condition.',
+      'Loop step 2 has no loop body.',
+      'Error handler 4 is not attached to any step.',
+      'Step 3 is unreachable.'
+    ]);
+  });
+});
+
+describe('describeEdge', () => {
+  it('should label typed and conditional edges', () => {
+    expect(describeEdge({ from: 1, to: 2, type: 'next' })).toBe('1 → 2');
+    expect(describeEdge({ from: 2, to: 3, type: 'branch', condition: 'ok' })).toBe('2 → 3 (branch: ok)');
+  });
+});
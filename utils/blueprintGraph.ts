@@ -0,0 +1,129 @@
+/**
+ * Graph model for blueprints: steps are nodes, `edges` carry control flow.
+ *
+ * Blueprints saved before edges existed are a flat list executed in order;
+ * `upgradeBlueprint` turns them (and loosely-typed model output) into a
+ * well-formed graph. It is idempotent, so callers apply it on every read.
+ */
+
+import { AutomationResult, AutomationStep, BlueprintEdge, EdgeType, StepType } from '../types';
+
+export const STEP_TYPES: StepType[] = ['trigger', 'action', 'logic', 'loop', 'delay', 'error-handler', 'sub-workflow', 'human-approval'];
+
+export const EDGE_TYPES: EdgeType[] = ['next', 'branch', 'loop', 'error'];
+
+const toParameterMap = (value: unknown): Record<string, string> | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined && v !== null)
+    .map(([k, v]) => [k, typeof v === 'string' ? v : JSON.stringify(v)]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const normalizeStep = (step: AutomationStep): AutomationStep => {
+  const { inputs, outputs, ...rest } = step;
+  const normalized: AutomationStep = { ...rest, type: STEP_TYPES.includes(step.type) ? step.type : 'action' };
+  const inputMap = toParameterMap(inputs);
+  const outputMap = toParameterMap(outputs);
+  if (inputMap) normalized.inputs = inputMap;
+  if (outputMap) normalized.outputs = outputMap;
+  return normalized;
+};
+
+/**
+ * Sequential `next` edges, the implicit flow of a legacy flat blueprint
+ */
+export function linearEdges(steps: AutomationStep[]): BlueprintEdge[] {
+  return steps.slice(1).map((step, i) => ({ from: steps[i].id, to: step.id, type: 'next' as const }));
+}
+
+/**
+ * Keep edges between known steps, default their type, and drop duplicates
+ * and self-references (only a loop may point back at its own step)
+ */
+const normalizeEdges = (edges: unknown, ids: Set<number>): BlueprintEdge[] => {
+  if (!Array.isArray(edges)) return [];
+  const seen = new Set<string>();
+  const result: BlueprintEdge[] = [];
+  for (const raw of edges as Partial<BlueprintEdge>[]) {
+    if (!raw || !ids.has(raw.from!) || !ids.has(raw.to!)) continue;
+    const condition = typeof raw.condition === 'string' && raw.condition.trim() ? raw.condition.trim() : undefined;
+    const type: EdgeType = EDGE_TYPES.includes(raw.type!) ? raw.type! : condition ? 'branch' : 'next';
+    if (raw.from === raw.to && type !== 'loop') continue;
+    const key = `${raw.from}->${raw.to}:${type}:${condition ?? ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    result.push({ from: raw.from!, to: raw.to!, type, ...(condition && { condition }) });
+  }
+  return result;
+};
+
+/**
+ * Bring a blueprint to the graph model. Without any usable edge the steps
+ * are chained in list order, which is how flat blueprints always ran.
+ */
+export function upgradeBlueprint<T extends AutomationResult>(blueprint: T): T {
+  const steps = (blueprint.steps || []).map(normalizeStep);
+  const edges = normalizeEdges(blueprint.edges, new Set(steps.map(step => step.id)));
+  return { ...blueprint, steps, edges: edges.length > 0 ? edges : linearEdges(steps) };
+}
+
+/**
+ * One-line label, e.g. `2 → 3 (branch: amount > 100)`
+ */
+export function describeEdge(edge: BlueprintEdge): string {
+  const label = edge.type === 'next' ? '' : ` (${edge.type}${edge.condition ? `: ${edge.condition}` : ''})`;
+  return `${edge.from} → ${edge.to}${label}`;
+}
+
+export function outgoing(blueprint: AutomationResult, id: number): BlueprintEdge[] {
+  return (blueprint.edges || []).filter(edge => edge.from === id);
+}
+
+export function incoming(blueprint: AutomationResult, id: number): BlueprintEdge[] {
+  return (blueprint.edges || []).filter(edge => edge.to === id);
+}
+
+/**
+ * Structural problems worth showing to the user; an empty list means the
+ * graph is well formed
+ */
+export function graphIssues(blueprint: AutomationResult): string[] {
+  const issues: string[] = [];
+  const steps = blueprint.steps || [];
+  const edges = blueprint.edges || [];
+  const ids = new Set(steps.map(step => step.id));
+
+  const triggers = steps.filter(step => step.type === 'trigger');
+  if (triggers.length === 0) issues.push('No trigger step.');
+
+  for (const edge of edges) {
+    if (!ids.has(edge.from) || !ids.has(edge.to)) issues.push(`Edge ${edge.from} → ${edge.to} references a missing step.`);
+    if (edge.type === 'branch' && !edge.condition) issues.push(`Branch ${edge.from} → ${edge.to} has no condition.`);
+  }
+
+  for (const step of steps) {
+    if (step.type === 'loop' && !outgoing(blueprint, step.id).some(edge => edge.type === 'loop')) {
+      issues.push(`Loop step ${step.id} has no loop body.`);
+    }
+    if (step.type === 'error-handler' && !incoming(blueprint, step.id).some(edge => edge.type === 'error')) {
+      issues.push(`Error handler ${step.id} is not attached to any step.`);
+    }
+  }
+
+  // Error handlers are entered only on failure, so they count as roots too
+  const reachable = new Set<number>();
+  const queue = steps.filter(step => step.type === 'trigger' || step.type === 'error-handler').map(step => step.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    queue.push(...outgoing(blueprint, id).map(edge => edge.to));
+  }
+  if (triggers.length > 0) {
+    for (const step of steps) {
+      if (!reachable.has(step.id)) issues.push(`Step ${step.id} is unreachable.`);
+    }
+  }
+  return issues;
+}
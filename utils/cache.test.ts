@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { LRUCache } from './cache';
+import { LRUCache, hashKey, planEviction } from './cache';
 
 describe('LRUCache', () => {
   let cache: LRUCache<string>;
@@ -71,4 +71,39 @@ describe('LRUCache', () => {
     expect(cache.get('key2')).toBeNull();
     expect(cache.getStats().size).toBe(0);
   });
+
+  it('should honour a per-entry TTL', async () => {
+    cache.set('short', 'value', 50);
+    cache.set('long', 'value');
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(cache.get('short')).toBeNull();
+    expect(cache.get('long')).toBe('value');
+  });
+});
+
+describe('hashKey', () => {
+  it('should produce a SHA-256 hex digest', async () => {
+    expect(await hashKey('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('planEviction', () => {
+  const entry = (key: string, size: number, lastAccessedAt: number, pinned = 0) => ({ key, size, lastAccessedAt, pinned });
+
+  it('should evict least recently used entries until within budget', () => {
+    const entries = [entry('a', 40, 3), entry('b', 40, 1), entry('c', 40, 2)];
+    expect(planEviction(entries, 80)).toEqual(['b']);
+    expect(planEviction(entries, 40)).toEqual(['b', 'c']);
+  });
+
+  it('should never evict pinned entries', () => {
+    const entries = [entry('a', 100, 1, 1), entry('b', 10, 2)];
+    expect(planEviction(entries, 50)).toEqual(['b']);
+  });
+
+  it('should evict nothing when within budget', () => {
+    expect(planEviction([entry('a', 10, 1)], 10)).toEqual([]);
+  });
 });
@@ -7,6 +7,8 @@ interface CacheEntry<T> {
   value: T;
   timestamp: number;
   hits: number;
+  /** Per-entry TTL overriding the cache default */
+  ttl: number;
 }
 
 interface CacheStats {
@@ -47,7 +49,7 @@ export class LRUCache<T> {
     }
 
     // Check if entry has expired
-    if (Date.now() - entry.timestamp > this.ttl) {
+    if (Date.now() - entry.timestamp > entry.ttl) {
       this.cache.delete(key);
       this.stats.misses++;
       return null;
@@ -62,7 +64,7 @@ export class LRUCache<T> {
     return entry.value;
   }
 
-  set(key: string, value: T): void {
+  set(key: string, value: T, ttl: number = this.ttl): void {
     // Remove oldest entry if cache is full
     if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
       const firstKey = this.cache.keys().next().value;
@@ -72,10 +74,15 @@ export class LRUCache<T> {
     this.cache.set(key, {
       value,
       timestamp: Date.now(),
-      hits: 0
+      hits: 0,
+      ttl
     });
   }
 
+  delete(key: string): boolean {
+    return this.cache.delete(key);
+  }
+
   clear(): void {
     this.cache.clear();
     this.stats = { hits: 0, misses: 0 };
@@ -92,9 +99,45 @@ export class LRUCache<T> {
   }
 
   has(key: string): boolean {
-    return this.cache.has(key) && (Date.now() - this.cache.get(key)!.timestamp <= this.ttl);
+    const entry = this.cache.get(key);
+    return !!entry && (Date.now() - entry.timestamp <= entry.ttl);
+  }
+}
+
+/**
+ * SHA-256 hex digest via WebCrypto, used for persistent cache keys so
+ * prompts are never stored verbatim as IndexedDB keys
+ */
+export async function hashKey(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+interface EvictionCandidate {
+  key: string;
+  size: number;
+  lastAccessedAt: number;
+  pinned: number;
+}
+
+/**
+ * Keys to evict so the total size fits within `maxBytes`: least recently
+ * used first, never pinned entries (which may leave the total above budget)
+ */
+export function planEviction(entries: EvictionCandidate[], maxBytes: number): string[] {
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const evicted: string[] = [];
+  const candidates = entries
+    .filter(entry => !entry.pinned)
+    .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+  for (const entry of candidates) {
+    if (total <= maxBytes) break;
+    total -= entry.size;
+    evicted.push(entry.key);
   }
+  return evicted;
 }
 
-// Singleton instance for AI responses
+// Singleton instance for AI responses (memory tier in front of the persistent cache)
 export const aiCache = new LRUCache<any>(100, 5 * 60 * 1000);
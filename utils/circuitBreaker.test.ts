@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CircuitBreaker } from './circuitBreaker';
+
+const outage = () => Object.assign(new Error('unavailable'), { status: 503 });
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive outage failures and fail fast', () => {
+    const breaker = new CircuitBreaker('gemini', { failureThreshold: 2, cooldownMs: 1000 });
+    breaker.recordFailure(outage(), 0);
+    expect(breaker.snapshot().state).toBe('closed');
+    breaker.recordFailure(outage(), 0);
+
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', retryAt: 1000 });
+    expect(() => breaker.acquire(500)).toThrow(expect.objectContaining({ code: 'CIRCUIT_OPEN' }));
+  });
+
+  it('should admit a single probe once the cooldown elapses', () => {
+    const breaker = new CircuitBreaker('gemini', { failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(outage(), 0);
+
+    expect(() => breaker.acquire(1000)).not.toThrow();
+    expect(breaker.snapshot().state).toBe('half-open');
+    expect(() => breaker.acquire(1001)).toThrow('probe is in progress');
+
+    breaker.recordSuccess();
+    expect(breaker.snapshot().state).toBe('closed');
+  });
+
+  it('should re-open when the probe fails', () => {
+    const breaker = new CircuitBreaker('gemini', { failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(outage(), 0);
+    breaker.acquire(1000);
+    breaker.recordFailure(outage(), 1000);
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', retryAt: 2000 });
+  });
+
+  it('should honour a longer quota-reset hint than the cooldown', () => {
+    const breaker = new CircuitBreaker('openai', { failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(Object.assign(outage(), { status: 429, retryAfterMs: 30000 }), 0);
+    expect(breaker.snapshot().retryAt).toBe(30000);
+  });
+
+  it('should ignore errors that say nothing about provider health', () => {
+    const breaker = new CircuitBreaker('anthropic', { failureThreshold: 2 });
+    breaker.recordFailure(outage());
+    breaker.recordFailure(Object.assign(new Error('bad key'), { status: 401 }));
+    breaker.recordFailure(new DOMException('aborted', 'AbortError'));
+    breaker.recordFailure(outage());
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', failures: 1 });
+  });
+
+  it('should notify on every change', () => {
+    const onChange = vi.fn();
+    const breaker = new CircuitBreaker('gemini', { failureThreshold: 1 }, onChange);
+    breaker.recordFailure(outage());
+    expect(onChange).toHaveBeenCalled();
+  });
+});
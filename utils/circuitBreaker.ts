@@ -0,0 +1,152 @@
+/**
+ * Per-provider circuit breaker
+ *
+ * closed    - requests flow; consecutive outage failures are counted
+ * open      - requests fail fast until the cooldown (or server hint) elapses
+ * half-open - a single probe request is let through; success closes the
+ *             circuit, failure re-opens it
+ *
+ * Only outage-type failures trip the breaker (throttling, 5xx, network);
+ * a bad key or invalid output says nothing about provider health.
+ */
+
+import { AiServiceError } from './errors';
+import { isAbortError, isRetryableError } from './retry';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitSnapshot {
+  key: string;
+  state: CircuitState;
+  failures: number;
+  /** When an open circuit admits its next probe */
+  retryAt?: number;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30000
+};
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private retryAt = 0;
+  private probeInFlight = false;
+  private key: string;
+  private options: CircuitBreakerOptions;
+  private onChange: () => void;
+
+  constructor(key: string, options: Partial<CircuitBreakerOptions> = {}, onChange: () => void = () => {}) {
+    this.key = key;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.onChange = onChange;
+  }
+
+  /**
+   * Admit a request or throw CIRCUIT_OPEN. An open circuit past its
+   * cooldown turns half-open and admits exactly one probe.
+   */
+  acquire(now: number = Date.now()): void {
+    if (this.state === 'open' && now >= this.retryAt) {
+      this.transition('half-open');
+    }
+    if (this.state === 'closed') return;
+    if (this.state === 'half-open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return;
+    }
+
+    const wait = Math.max(0, Math.ceil((this.retryAt - now) / 1000));
+    throw new AiServiceError(
+      'CIRCUIT_OPEN',
+      `${this.key} is temporarily unavailable after repeated failures. ${this.state === 'open' ? `Retrying in ${wait}s.` : 'A recovery probe is in progress.'}`,
+      { provider: this.key, retryAt: this.retryAt }
+    );
+  }
+
+  recordSuccess(): void {
+    this.probeInFlight = false;
+    this.failures = 0;
+    if (this.state !== 'closed') this.transition('closed');
+  }
+
+  /**
+   * Count an outage failure; other errors release a probe without judging health
+   */
+  recordFailure(error: any, now: number = Date.now()): void {
+    this.probeInFlight = false;
+    // A cancelled call says nothing either way
+    if (isAbortError(error)) return;
+    if (!isRetryableError(error)) {
+      // The provider answered, so it is reachable
+      this.failures = 0;
+      if (this.state === 'half-open') this.transition('closed');
+      return;
+    }
+
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      // Never probe before the provider's own quota-reset hint
+      this.retryAt = now + Math.max(this.options.cooldownMs, error?.retryAfterMs ?? 0);
+      this.transition('open');
+    } else {
+      this.onChange();
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      key: this.key,
+      state: this.state,
+      failures: this.failures,
+      ...(this.state === 'open' && { retryAt: this.retryAt })
+    };
+  }
+
+  private transition(state: CircuitState): void {
+    this.state = state;
+    this.onChange();
+  }
+}
+
+type Listener = (snapshots: CircuitSnapshot[]) => void;
+
+/**
+ * Breakers keyed by provider, shared by every service call, with change
+ * notifications for the UI
+ */
+class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private listeners = new Set<Listener>();
+
+  get(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(key, {}, () => this.notify());
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  snapshot(): CircuitSnapshot[] {
+    return [...this.breakers.values()].map(breaker => breaker.snapshot());
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private notify(): void {
+    const snapshots = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshots));
+  }
+}
+
+export const circuitBreakers = new CircuitBreakerRegistry();
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { decryptString, deriveKey, encryptString, fromBase64, randomSalt, toBase64 } from './crypto';
+
+// Low iteration count keeps the tests fast; production uses PBKDF2_ITERATIONS
+const ITERATIONS = 1000;
+
+describe('crypto', () => {
+  it('should round-trip base64', () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+    expect(fromBase64(toBase64(bytes))).toEqual(bytes);
+  });
+
+  it('should decrypt with a key derived from the same passphrase and salt', async () => {
+    const salt = randomSalt();
+    const sealed = await encryptString(await deriveKey('correct horse', salt, ITERATIONS), 'sk-live-123');
+    expect(sealed.ciphertext).not.toContain('sk-live');
+    await expect(decryptString(await deriveKey('correct horse', salt, ITERATIONS), sealed)).resolves.toBe('sk-live-123');
+  });
+
+  it('should reject a wrong passphrase or tampered ciphertext', async () => {
+    const salt = randomSalt();
+    const key = await deriveKey('correct horse', salt, ITERATIONS);
+    const sealed = await encryptString(key, 'sk-live-123');
+
+    await expect(decryptString(await deriveKey('wrong horse', salt, ITERATIONS), sealed)).rejects.toThrow();
+    const bytes = fromBase64(sealed.ciphertext);
+    bytes[0] ^= 1;
+    await expect(decryptString(key, { ...sealed, ciphertext: toBase64(bytes) })).rejects.toThrow();
+  });
+
+  it('should use a fresh IV for every encryption', async () => {
+    const key = await deriveKey('correct horse', randomSalt(), ITERATIONS);
+    const [a, b] = await Promise.all([encryptString(key, 'same'), encryptString(key, 'same')]);
+    expect(a.iv).not.toBe(b.iv);
+    expect(a.ciphertext).not.toBe(b.ciphertext);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * WebCrypto helpers for the key vault: PBKDF2 key derivation and AES-GCM
+ * encryption of short strings. Binary values are stored as base64.
+ */
+
+/** OWASP 2023 guidance for PBKDF2-HMAC-SHA256 */
+export const PBKDF2_ITERATIONS = 600_000;
+
+const SALT_BYTES = 16;
+/** 96-bit nonce, the recommended size for AES-GCM */
+const IV_BYTES = 12;
+
+export interface EncryptedValue {
+  iv: string;
+  ciphertext: string;
+}
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export const randomSalt = (): string => toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+
+/**
+ * Derive a non-extractable AES-256-GCM key from a passphrase
+ */
+export async function deriveKey(passphrase: string, salt: string, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt with a fresh random IV
+ */
+export async function encryptString(key: CryptoKey, plaintext: string): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Decrypt and authenticate; rejects when the key is wrong or the data was
+ * tampered with
+ */
+export async function decryptString(key: CryptoKey, value: EncryptedValue): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
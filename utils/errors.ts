@@ -0,0 +1,43 @@
+/**
+ * Typed errors surfaced by the AI service to views
+ */
+
+import { ApiError } from "../types";
+
+export type ApiErrorCode =
+  /** Structured output still failed schema validation after repair attempts */
+  | 'INVALID_RESPONSE'
+  /** The provider's circuit breaker is open after repeated outage failures */
+  | 'CIRCUIT_OPEN'
+  /** The workspace's daily or monthly spending limit has been reached */
+  | 'BUDGET_EXCEEDED'
+  /** Stored keys are encrypted and the key vault is locked */
+  | 'VAULT_LOCKED';
+
+/**
+ * Throwable counterpart of the `ApiError` shape held in `AsyncState`.
+ * Marked non-retryable: re-sending the same request is not expected to help.
+ */
+export class AiServiceError extends Error implements ApiError {
+  code: ApiErrorCode;
+  details?: any;
+  readonly retryable = false;
+
+  constructor(code: ApiErrorCode, message: string, details?: any) {
+    super(message);
+    this.name = 'AiServiceError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Normalize anything thrown by a service call into view state
+ */
+export function toApiError(error: any): ApiError {
+  return {
+    message: error?.message || 'Synthesis Engine Failure',
+    code: error?.code,
+    details: error?.details
+  };
+}
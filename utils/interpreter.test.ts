@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { executeBlueprint, getPath, lockDownGlobals } from './interpreter';
+import { AutomationResult, AutomationStep, BlueprintEdge } from '../types';
+
+const step = (id: number, type: AutomationStep['type'], title: string, inputs?: Record<string, string>): AutomationStep => ({
+  id, title, description: '', type, ...(inputs && { inputs })
+});
+
+const blueprint = (steps: AutomationStep[], edges?: BlueprintEdge[]): AutomationResult => ({
+  platform: 'n8n',
+  explanation: 'Sandbox',
+  steps,
+  ...(edges && { edges })
+});
+
+const payment = { customer: { email: 'jane@example.com' }, amount: 1500, items: [{ sku: 'a', qty: 2 }, { sku: 'b', qty: 1 }] };
+
+describe('executeBlueprint', () => {
+  it('should run flat blueprints in order with templates and mock connectors', async () => {
+    const result = await executeBlueprint(blueprint([
+      step(1, 'trigger', 'Stripe payment'),
+      step(2, 'action', 'Send Slack alert', { channel: '#sales', text: 'Paid by {{1.customer.email}}' }),
+      step(3, 'action', 'Log to Google Sheet', { amount: '{{1.amount}}' })
+    ]), payment);
+
+    expect(result.overallStatus).toBe('success');
+    expect(result.stepResults.map(r => r.status)).toEqual(['success', 'success', 'success']);
+    expect(JSON.parse(result.stepResults[1].output)).toEqual({ ok: true, channel: '#sales', ts: '2.000100' });
+    expect(JSON.parse(result.stepResults[2].output).row).toEqual({ amount: 1500 });
+  });
+
+  it('should evaluate JS and JSONata transforms and follow branch conditions', async () => {
+    const result = await executeBlueprint(blueprint([
+      step(1, 'trigger', 'Webhook'),
+      step(2, 'logic', 'Total', { jsonata: '$sum(items.qty)' }),
+      step(3, 'logic', 'Bulk order', { js: 'data * 10' }),
+      step(4, 'action', 'Small order email', { to: '{{$input.customer.email}}' })
+    ], [
+      { from: 1, to: 2, type: 'next' },
+      { from: 2, to: 3, type: 'branch', condition: '$ >= 3' },
+      { from: 2, to: 4, type: 'branch', condition: '$ < 3' }
+    ]), payment);
+
+    expect(result.stepResults.map(r => [r.stepId, r.status, r.output])).toEqual([
+      [1, 'success', JSON.stringify(payment, null, 2)],
+      [2, 'success', '3'],
+      [3, 'success', '30'],
+      [4, 'skipped', '']
+    ]);
+  });
+
+  it('should run loop bodies per item', async () => {
+    const result = await executeBlueprint(blueprint([
+      step(1, 'trigger', 'Order'),
+      step(2, 'loop', 'Each line', { items: '{{1.items}}' }),
+      step(3, 'logic', 'Line label', { js: '`${item.sku}x${item.qty}`' }),
+      step(4, 'action', 'Done', { count: '{{$count(2)}}' })
+    ], [
+      { from: 1, to: 2, type: 'next' },
+      { from: 2, to: 3, type: 'loop' },
+      { from: 2, to: 4, type: 'next' }
+    ]), payment);
+
+    expect(JSON.parse(result.stepResults[1].output)).toEqual(['ax2', 'bx1']);
+    expect(result.stepResults[2].reasoning).toContain('Ran 2 times');
+    expect(result.overallStatus).toBe('success');
+  });
+
+  it('should route failures to error handlers and stop otherwise', async () => {
+    const steps = [
+      step(1, 'trigger', 'Webhook'),
+      step(2, 'logic', 'Parse', { js: 'throw new Error("bad payload")' }),
+      step(3, 'action', 'Notify'),
+      step(4, 'error-handler', 'Alert on-call')
+    ];
+    const handled = await executeBlueprint(blueprint(steps, [
+      { from: 1, to: 2, type: 'next' },
+      { from: 2, to: 3, type: 'next' },
+      { from: 2, to: 4, type: 'error' }
+    ]), payment);
+    expect(handled.overallStatus).toBe('success');
+    expect(handled.stepResults.map(r => r.status)).toEqual(['success', 'failure', 'skipped', 'success']);
+    expect(handled.stepResults[3].reasoning).toBe('Handled failure: bad payload.');
+
+    const unhandled = await executeBlueprint(blueprint(steps.slice(0, 3)), payment);
+    expect(unhandled.overallStatus).toBe('failure');
+    expect(unhandled.summary).toContain('Stopped at step 2: bad payload');
+    expect(unhandled.stepResults[2].reasoning).toBe('Not run; execution stopped early.');
+  });
+
+  it('should prefer connector fixtures and bound executions', async () => {
+    const fixture = await executeBlueprint(blueprint([
+      step(1, 'trigger', 'Webhook'),
+      step(2, 'action', 'Charge card', { app: 'stripe', amount: '{{1.amount}}' })
+    ]), payment, { connectors: [{ app: 'stripe', response: { charged: '{{params.amount}}', status: 'succeeded' } }] });
+    expect(JSON.parse(fixture.stepResults[1].output)).toEqual({ charged: 1500, status: 'succeeded' });
+
+    const limited = await executeBlueprint(blueprint([
+      step(1, 'trigger', 'Webhook'),
+      step(2, 'loop', 'Each', { items: '{{1.items}}' }),
+      step(3, 'action', 'Body')
+    ], [{ from: 1, to: 2, type: 'next' }, { from: 2, to: 3, type: 'loop' }]), payment, { maxExecutions: 3 });
+    expect(limited.overallStatus).toBe('failure');
+    expect(limited.summary).toContain('Execution limit of 3 steps');
+  });
+
+  it('should keep network and storage globals out of JS transforms', async () => {
+    const result = await executeBlueprint(blueprint([
+      step(1, 'trigger', 'Webhook'),
+      step(2, 'logic', 'Exfiltrate', { js: '[typeof fetch, typeof indexedDB, typeof XMLHttpRequest].join()' })
+    ]), payment);
+    expect(result.stepResults[1].output).toBe('undefined,undefined,undefined');
+  });
+});
+
+describe('lockDownGlobals', () => {
+  it('should remove blocked globals from the scope and its prototypes', () => {
+    const proto = { fetch: () => 'sent', postMessage: () => 'ok' };
+    const scope: any = Object.assign(Object.create(proto), { indexedDB: {}, importScripts: () => {} });
+    lockDownGlobals(scope);
+    expect([scope.fetch, scope.indexedDB, scope.importScripts, proto.fetch]).toEqual([undefined, undefined, undefined, undefined]);
+    expect(scope.postMessage()).toBe('ok');
+    expect(() => { scope.fetch = () => 'sent'; }).toThrow();
+  });
+});
+
+describe('getPath', () => {
+  it('should read nested keys and array indexes', () => {
+    expect(getPath(payment, 'items[1].sku')).toBe('b');
+    expect(getPath(payment, 'customer.phone.number')).toBeUndefined();
+  });
+});
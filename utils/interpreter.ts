@@ -0,0 +1,435 @@
+/**
+ * Deterministic blueprint interpreter for the Logic Sandbox.
+ *
+ * Walks the blueprint graph from its triggers against a JSON payload and
+ * returns a `SimulationResponse`, so local runs and AI simulations render
+ * and compare the same way. External apps are never called: each action
+ * resolves to a mock connector. Transforms are evaluated for real:
+ * - `inputs.jsonata` - JSONata expression over the incoming data
+ * - `inputs.js` - JavaScript body (or a bare expression) receiving
+ *   `data`, `input`, `steps`, `params` and `item`
+ *
+ * Parameter values may reference earlier results with `{{...}}`:
+ * `{{1.email}}` reads step 1's output, anything else is JSONata over the
+ * incoming data with `$input`, `$steps` and `$item` bound.
+ *
+ * Runs inside a Web Worker (see `interpreter.worker.ts`) with network and
+ * storage globals removed; everything here must stay free of DOM and
+ * storage access.
+ */
+
+import jsonata from 'jsonata';
+import { AutomationResult, AutomationStep, SimulationResponse } from '../types';
+import { outgoing, upgradeBlueprint } from './blueprintGraph';
+
+export type StepResult = SimulationResponse['stepResults'][number];
+
+export interface ConnectorRequest {
+  step: AutomationStep;
+  app: string;
+  /** Step inputs with templates resolved, minus reserved keys */
+  params: Record<string, unknown>;
+  /** Output of the step that led here */
+  data: unknown;
+}
+
+export interface MockConnector {
+  app: string;
+  /** Matched case-insensitively against the step title when `inputs.app` is not set */
+  keywords: string[];
+  execute(request: ConnectorRequest): unknown | Promise<unknown>;
+}
+
+/**
+ * Serializable connector override: `response` is returned as the step
+ * output, with `{{...}}` templates resolved against `{ data, params }`
+ */
+export interface ConnectorFixture {
+  app: string;
+  keywords?: string[];
+  response: unknown;
+}
+
+export interface InterpreterOptions {
+  connectors?: ConnectorFixture[];
+  /** Step executions before the run is aborted, loop iterations included */
+  maxExecutions?: number;
+}
+
+export const DEFAULT_MAX_EXECUTIONS = 1000;
+
+/** Parameter keys that configure the interpreter rather than the connector */
+const RESERVED_INPUTS = ['app', 'js', 'jsonata'];
+
+const MAX_OUTPUT_CHARS = 4000;
+
+/**
+ * Network, storage and script-loading globals that `inputs.js` transforms
+ * must not reach: blueprints come from imports and model output, and the
+ * app's IndexedDB holds the stored provider keys
+ */
+export const BLOCKED_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'BroadcastChannel',
+  'indexedDB', 'caches', 'importScripts', 'Worker', 'SharedWorker'
+] as const;
+
+/**
+ * Remove `BLOCKED_GLOBALS` from `scope` and its prototype chain, then pin
+ * them to undefined. Called by the worker before it accepts a run.
+ */
+export function lockDownGlobals(scope: object): void {
+  for (let target: any = scope; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+    for (const name of BLOCKED_GLOBALS) {
+      if (Object.prototype.hasOwnProperty.call(target, name)) {
+        try { delete target[name]; } catch { /* non-configurable; shadowed below */ }
+      }
+    }
+  }
+  for (const name of BLOCKED_GLOBALS) {
+    Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+  }
+}
+
+export const BUILTIN_CONNECTORS: MockConnector[] = [
+  {
+    app: 'slack',
+    keywords: ['slack'],
+    execute: ({ step, params }) => ({ ok: true, channel: params.channel ?? 'C0MOCK', ts: `${step.id}.000100` })
+  },
+  {
+    app: 'email',
+    keywords: ['gmail', 'email', 'mail', 'sendgrid'],
+    execute: ({ step, params }) => ({ id: `msg_${step.id}`, accepted: [params.to].filter(Boolean) })
+  },
+  {
+    app: 'sheets',
+    keywords: ['sheet', 'airtable', 'spreadsheet'],
+    execute: ({ params }) => ({ updatedRows: 1, row: params })
+  },
+  {
+    app: 'llm',
+    keywords: ['openai', 'gpt', 'llm', 'anthropic', 'claude', 'gemini'],
+    execute: ({ step }) => ({ text: `[mock completion for step ${step.id}]` })
+  },
+  {
+    app: 'http',
+    keywords: ['http', 'webhook', 'api', 'request'],
+    execute: ({ params }) => ({ status: 200, body: params })
+  }
+];
+
+/** Used when no connector matches: echoes the parameters */
+const ECHO_CONNECTOR: MockConnector = {
+  app: 'echo',
+  keywords: [],
+  execute: ({ params }) => ({ ok: true, ...params })
+};
+
+interface Scope {
+  input: unknown;
+  steps: Record<number, unknown>;
+  /** Output of the step that led here */
+  data: unknown;
+  /** Current element inside a loop body */
+  item?: unknown;
+}
+
+interface RunState {
+  steps: Map<number, AutomationStep>;
+  blueprint: AutomationResult;
+  connectors: MockConnector[];
+  input: unknown;
+  outputs: Record<number, unknown>;
+  results: Map<number, StepResult>;
+  runs: Map<number, number>;
+  executions: number;
+  maxExecutions: number;
+}
+
+class StepFailure extends Error {
+  stepId: number;
+
+  constructor(stepId: number, message: string) {
+    super(message);
+    this.name = 'StepFailure';
+    this.stepId = stepId;
+  }
+}
+
+class ExecutionLimitError extends Error {
+  constructor(limit: number) {
+    super(`Execution limit of ${limit} steps reached; check loops for unbounded input.`);
+    this.name = 'ExecutionLimitError';
+  }
+}
+
+const messageOf = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/**
+ * Read `a.b[0].c` from a value
+ */
+export function getPath(value: unknown, path: string): unknown {
+  return path.split(/\.|\[(\d+)\]/).filter(Boolean).reduce<unknown>(
+    (current, key) => current == null ? undefined : (current as Record<string, unknown>)[key],
+    value
+  );
+}
+
+const bindings = (scope: Scope) => ({ input: scope.input, steps: scope.steps, item: scope.item });
+
+async function evaluateExpression(expression: string, scope: Scope): Promise<unknown> {
+  const stepRef = /^(\d+)(?:\.(.+))?$/.exec(expression);
+  if (stepRef) {
+    const output = scope.steps[Number(stepRef[1])];
+    return stepRef[2] ? getPath(output, stepRef[2]) : output;
+  }
+  return jsonata(expression).evaluate(scope.data, bindings(scope));
+}
+
+/**
+ * Resolve `{{...}}` references. A value that is exactly one reference keeps
+ * the referenced type; references inside text are interpolated.
+ */
+async function resolveTemplate(value: string, scope: Scope): Promise<unknown> {
+  const whole = /^\{\{\s*([^}]+?)\s*\}\}$/.exec(value);
+  if (whole) return evaluateExpression(whole[1], scope);
+
+  const parts: string[] = [];
+  let last = 0;
+  for (const match of value.matchAll(/\{\{\s*([^}]+?)\s*\}\}/g)) {
+    const resolved = await evaluateExpression(match[1], scope);
+    parts.push(value.slice(last, match.index), typeof resolved === 'object' && resolved !== null ? JSON.stringify(resolved) : String(resolved ?? ''));
+    last = match.index! + match[0].length;
+  }
+  parts.push(value.slice(last));
+  return parts.join('');
+}
+
+async function resolveValue(value: unknown, scope: Scope): Promise<unknown> {
+  if (typeof value === 'string') return resolveTemplate(value, scope);
+  if (Array.isArray(value)) return Promise.all(value.map(v => resolveValue(v, scope)));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await resolveValue(v, scope)] as const));
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+async function resolveParams(step: AutomationStep, scope: Scope): Promise<Record<string, unknown>> {
+  const params: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(step.inputs || {})) {
+    if (!RESERVED_INPUTS.includes(key)) params[key] = await resolveTemplate(value, scope);
+  }
+  return params;
+}
+
+async function runTransform(step: AutomationStep, params: Record<string, unknown>, scope: Scope): Promise<unknown> {
+  const inputs = step.inputs || {};
+  if (inputs.jsonata) {
+    return jsonata(inputs.jsonata).evaluate(scope.data, { ...bindings(scope), params });
+  }
+  // Blocked globals are shadowed here too; the worker removes them outright
+  const compile = (body: string) => new Function('data', 'input', 'steps', 'params', 'item', ...BLOCKED_GLOBALS, `"use strict";\n${body}`);
+  let fn: Function;
+  try {
+    // A bare expression is returned; anything else runs as a function body
+    fn = compile(`return (${inputs.js}\n);`);
+  } catch {
+    fn = compile(inputs.js!);
+  }
+  return fn(scope.data, scope.input, scope.steps, params, scope.item);
+}
+
+const toConnector = (fixture: ConnectorFixture): MockConnector => ({
+  app: fixture.app,
+  keywords: fixture.keywords ?? [fixture.app],
+  execute: ({ data, params }) => resolveValue(fixture.response, { input: undefined, steps: {}, data: { data, params } })
+});
+
+/**
+ * Fixtures first, then built-ins; `inputs.app` wins over title keywords
+ */
+export function findConnector(step: AutomationStep, connectors: MockConnector[]): MockConnector {
+  const app = step.inputs?.app?.toLowerCase();
+  if (app) return connectors.find(c => c.app.toLowerCase() === app) ?? { ...ECHO_CONNECTOR, app };
+  const title = step.title.toLowerCase();
+  return connectors.find(c => c.keywords.some(keyword => title.includes(keyword.toLowerCase()))) ?? ECHO_CONNECTOR;
+}
+
+const describeKeys = (value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value) ? `{ ${Object.keys(value).join(', ')} }` : typeof value;
+
+/**
+ * Execute one non-loop step; returns its output and the reasoning line
+ */
+async function executeStep(step: AutomationStep, scope: Scope, state: RunState): Promise<[unknown, string]> {
+  if (step.type === 'trigger') return [scope.input, 'Trigger fired with the sandbox payload.'];
+
+  const params = await resolveParams(step, scope);
+  if (step.inputs?.js || step.inputs?.jsonata) {
+    const output = await runTransform(step, params, scope);
+    return [output, `Evaluated ${step.inputs.jsonata ? 'JSONata' : 'JavaScript'} transform.`];
+  }
+
+  switch (step.type) {
+    case 'logic':
+      return Object.keys(params).length > 0
+        ? [params, 'Resolved logic parameters.']
+        : [scope.data, 'No transform; passed the incoming data through.'];
+    case 'delay':
+      return [scope.data, `Delay${params.duration ? ` of ${params.duration}` : ''} skipped; the sandbox does not wait.`];
+    case 'human-approval': {
+      const approved = params.approved === undefined || (params.approved !== false && params.approved !== 'false');
+      return [{ approved, approver: params.approver ?? 'sandbox' }, approved ? 'Auto-approved in the sandbox.' : 'Rejected by the configured approval.'];
+    }
+    case 'error-handler':
+      return [scope.data, `Handled failure: ${getPath(scope.data, 'error') ?? 'unknown error'}.`];
+    default: {
+      const connector = findConnector(step, state.connectors);
+      const output = await connector.execute({ step, app: connector.app, params, data: scope.data });
+      return [output, `Mock ${connector.app} connector returned ${describeKeys(output)}.`];
+    }
+  }
+}
+
+const record = (state: RunState, stepId: number, status: StepResult['status'], output: unknown, reasoning: string) => {
+  const text = typeof output === 'string' ? output : JSON.stringify(output ?? null, null, 2);
+  state.results.set(stepId, {
+    stepId,
+    status,
+    output: text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}…` : text,
+    reasoning
+  });
+  state.runs.set(stepId, (state.runs.get(stepId) ?? 0) + 1);
+};
+
+async function conditionHolds(condition: string, output: unknown, scope: Scope): Promise<boolean> {
+  const expression = condition.replace(/^\{\{\s*|\s*\}\}$/g, '');
+  return !!(await jsonata(expression).evaluate(output, bindings(scope)));
+}
+
+interface Entry {
+  id: number;
+  data: unknown;
+}
+
+/**
+ * Breadth-first walk from `entries`. Each step runs at most once per walk;
+ * failures follow `error` edges when present and otherwise abort the walk.
+ * Returns the last output produced.
+ */
+async function walk(entries: Entry[], state: RunState, visited: Set<number>, item?: unknown): Promise<unknown> {
+  const queue = [...entries];
+  let last: unknown;
+
+  while (queue.length > 0) {
+    const { id, data } = queue.shift()!;
+    const step = state.steps.get(id);
+    if (!step || visited.has(id)) continue;
+    visited.add(id);
+    if (++state.executions > state.maxExecutions) throw new ExecutionLimitError(state.maxExecutions);
+
+    const scope: Scope = { input: state.input, steps: state.outputs, data, item };
+    let output: unknown;
+    try {
+      if (step.type === 'loop') {
+        output = await runLoop(step, scope, state, visited);
+        record(state, id, 'success', output, `Ran the loop body for ${(output as unknown[]).length} item(s).`);
+      } else {
+        const [result, reasoning] = await executeStep(step, scope, state);
+        output = result;
+        record(state, id, 'success', output, reasoning);
+      }
+    } catch (error) {
+      if (error instanceof ExecutionLimitError) throw error;
+      const message = messageOf(error);
+      record(state, id, 'failure', { error: message }, error instanceof StepFailure ? `Loop body failed at step ${error.stepId}.` : `Failed: ${message}`);
+      const handlers = outgoing(state.blueprint, id).filter(edge => edge.type === 'error');
+      if (handlers.length === 0) throw error instanceof StepFailure ? error : new StepFailure(id, message);
+      queue.push(...handlers.map(edge => ({ id: edge.to, data: { error: message, stepId: id } })));
+      continue;
+    }
+
+    state.outputs[id] = output;
+    last = output;
+    for (const edge of outgoing(state.blueprint, id)) {
+      if (edge.type === 'next') {
+        queue.push({ id: edge.to, data: output });
+      } else if (edge.type === 'branch') {
+        try {
+          if (!edge.condition || await conditionHolds(edge.condition, output, scope)) queue.push({ id: edge.to, data: output });
+        } catch (error) {
+          throw new StepFailure(id, `Condition "${edge.condition}" could not be evaluated: ${messageOf(error)}`);
+        }
+      }
+    }
+  }
+  return last;
+}
+
+/**
+ * Run the loop body once per item. Items come from `inputs.items`, or the
+ * incoming data when it is an array. Body steps are then marked visited so
+ * the outer walk does not run them again.
+ */
+async function runLoop(step: AutomationStep, scope: Scope, state: RunState, visited: Set<number>): Promise<unknown[]> {
+  const params = await resolveParams(step, scope);
+  const source = params.items ?? scope.data;
+  const items = Array.isArray(source) ? source : [source];
+  const body = outgoing(state.blueprint, step.id).filter(edge => edge.type === 'loop');
+
+  const results: unknown[] = [];
+  const executed = new Set<number>();
+  for (const item of items) {
+    const bodyVisited = new Set([step.id]);
+    results.push(await walk(body.map(edge => ({ id: edge.to, data: item })), state, bodyVisited, item));
+    bodyVisited.forEach(id => executed.add(id));
+  }
+  executed.forEach(id => visited.add(id));
+  return results;
+}
+
+/**
+ * Execute `blueprint` against `input` and report every step, in blueprint
+ * order. Steps off the executed path are `skipped`.
+ */
+export async function executeBlueprint(blueprint: AutomationResult, input: unknown, options: InterpreterOptions = {}): Promise<SimulationResponse> {
+  const graph = upgradeBlueprint(blueprint);
+  const state: RunState = {
+    steps: new Map(graph.steps.map(step => [step.id, step])),
+    blueprint: graph,
+    connectors: [...(options.connectors || []).map(toConnector), ...BUILTIN_CONNECTORS],
+    input,
+    outputs: {},
+    results: new Map(),
+    runs: new Map(),
+    executions: 0,
+    maxExecutions: options.maxExecutions ?? DEFAULT_MAX_EXECUTIONS
+  };
+
+  const triggers = graph.steps.filter(step => step.type === 'trigger');
+  const roots = triggers.length > 0 ? triggers : graph.steps.slice(0, 1);
+  let failure: string | null = null;
+  try {
+    await walk(roots.map(step => ({ id: step.id, data: input })), state, new Set());
+  } catch (error) {
+    failure = error instanceof StepFailure ? `Stopped at step ${error.stepId}: ${error.message}` : messageOf(error);
+  }
+
+  const stepResults = graph.steps.map((step): StepResult => {
+    const result = state.results.get(step.id);
+    if (!result) {
+      return { stepId: step.id, status: 'skipped', output: '', reasoning: failure ? 'Not run; execution stopped early.' : 'Not on the executed path.' };
+    }
+    const runs = state.runs.get(step.id)!;
+    return runs > 1 ? { ...result, reasoning: `${result.reasoning} Ran ${runs} times; showing the last run.` } : result;
+  });
+
+  const count = (status: StepResult['status']) => stepResults.filter(r => r.status === status).length;
+  const summary = `Local run: ${count('success')} succeeded, ${count('failure')} failed, ${count('skipped')} skipped of ${stepResults.length} steps.`;
+  return {
+    overallStatus: failure ? 'failure' : 'success',
+    stepResults,
+    summary: failure ? `${summary} ${failure}` : summary
+  };
+}
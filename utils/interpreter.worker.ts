@@ -0,0 +1,26 @@
+/**
+ * Web Worker entry for the blueprint interpreter. Keeps user transforms off
+ * the main thread, and lets `sandboxService` terminate a run that never
+ * finishes. Network and storage globals are removed before any run, so a
+ * transform cannot read the app's database or send data out.
+ */
+
+import { AutomationResult } from '../types';
+import { InterpreterOptions, executeBlueprint, lockDownGlobals } from './interpreter';
+
+export interface InterpreterRequest {
+  blueprint: AutomationResult;
+  input: unknown;
+  options: InterpreterOptions;
+}
+
+lockDownGlobals(self);
+
+self.onmessage = async (event: MessageEvent<InterpreterRequest>) => {
+  const { blueprint, input, options } = event.data;
+  try {
+    self.postMessage({ ok: true, result: await executeBlueprint(blueprint, input, options) });
+  } catch (error) {
+    self.postMessage({ ok: false, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LogEntry, LogSink, logger } from './logger';
+
+const collect = (name: string) => {
+  const entries: LogEntry[] = [];
+  return { sink: { name, write: (entry: LogEntry) => { entries.push(entry); } } as LogSink, entries };
+};
+
+afterEach(() => {
+  logger.removeSink('test');
+  logger.removeSink('broken');
+});
+
+describe('logger sinks', () => {
+  it('should redact sensitive context before any sink sees it', () => {
+    const { sink, entries } = collect('test');
+    logger.addSink(sink);
+    logger.info('Key saved', { provider: 'openai', apiKey: 'sk-123', nested: { password: 'hunter2' }, inputTokens: 12 });
+
+    expect(entries[0].context).toEqual({ provider: 'openai', apiKey: '[REDACTED]', nested: { password: '[REDACTED]' }, inputTokens: 12 });
+    expect(logger.getLogs().at(-1)?.context?.apiKey).toBe('[REDACTED]');
+  });
+
+  it('should keep logging when a sink throws', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { sink, entries } = collect('test');
+    logger.addSink({ name: 'broken', write: () => { throw new Error('quota'); } });
+    logger.addSink(sink);
+
+    logger.info('still delivered');
+    expect(entries.map(e => e.message)).toEqual(['still delivered']);
+    expect(warn).toHaveBeenCalledWith(`[Logger] Sink 'broken' failed`, expect.any(Error));
+    warn.mockRestore();
+  });
+
+  it('should replace a sink of the same name', () => {
+    const first = collect('test');
+    const second = collect('test');
+    logger.addSink(first.sink);
+    logger.addSink(second.sink);
+    logger.info('once');
+
+    expect(first.entries).toHaveLength(0);
+    expect(second.entries).toHaveLength(1);
+    expect(logger.getSinks()).toEqual(['memory', 'console', 'test']);
+  });
+});
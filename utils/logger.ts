@@ -1,7 +1,14 @@
 /**
  * Structured logging utility for AI requests and system events
+ *
+ * Entries are redacted, then fanned out to pluggable sinks. The memory and
+ * console sinks are always installed; persistent and remote sinks are added
+ * at startup by `services/logStoreService.ts`.
  */
 
+import type { SpanContext } from './tracing';
+import { sanitizeJson } from './sanitize';
+
 export enum LogLevel {
   DEBUG = 'DEBUG',
   INFO = 'INFO',
@@ -15,32 +22,72 @@ export interface LogEntry {
   timestamp: number;
   context?: Record<string, any>;
   error?: Error;
+  /** Set for entries written inside a traced span */
+  traceId?: string;
+  spanId?: string;
 }
 
-class Logger {
+/** Logger bound to a span: every entry carries its trace and span ids */
+export type TraceLogger = Pick<Logger, 'debug' | 'info' | 'warn' | 'error'>;
+
+/**
+ * Destination for log entries. `write` must not throw or log through
+ * `logger` itself; slow sinks should buffer and flush in the background.
+ */
+export interface LogSink {
+  readonly name: string;
+  write(entry: LogEntry): void;
+}
+
+/** Levels in ascending severity */
+export const LOG_LEVELS: LogLevel[] = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR];
+
+export const meetsLevel = (level: LogLevel, minLevel: LogLevel): boolean =>
+  LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+
+/**
+ * Context fields replaced with `[REDACTED]` before an entry reaches any
+ * sink. Matching is by substring, so `token` alone is deliberately absent:
+ * it would also hide token counts.
+ */
+export const REDACTED_LOG_FIELDS = ['password', 'passphrase', 'secret', 'apiKey', 'api_key', 'authorization', 'accessToken', 'refreshToken', 'obfuscatedKey'];
+
+/**
+ * Bounded in-memory buffer backing `logger.getLogs()`
+ */
+export class MemorySink implements LogSink {
+  readonly name = 'memory';
   private logs: LogEntry[] = [];
-  private maxLogs: number = 1000;
+  private maxLogs: number;
 
-  private log(level: LogLevel, message: string, context?: Record<string, any>, error?: Error): void {
-    const entry: LogEntry = {
-      level,
-      message,
-      timestamp: Date.now(),
-      context,
-      error
-    };
+  constructor(maxLogs: number = 1000) {
+    this.maxLogs = maxLogs;
+  }
 
+  write(entry: LogEntry): void {
     this.logs.push(entry);
-    
+
     // Trim logs if exceeding max
     if (this.logs.length > this.maxLogs) {
       this.logs = this.logs.slice(-this.maxLogs);
     }
+  }
+
+  entries(): LogEntry[] {
+    return [...this.logs];
+  }
 
-    // Console output
-    const prefix = `[${level}] ${new Date(entry.timestamp).toISOString()}`;
+  clear(): void {
+    this.logs = [];
+  }
+}
+
+export const consoleSink: LogSink = {
+  name: 'console',
+  write({ level, message, timestamp, context, error, traceId }) {
+    const prefix = `[${level}] ${new Date(timestamp).toISOString()}${traceId ? ` trace=${traceId.slice(0, 8)}` : ''}`;
     const contextStr = context ? JSON.stringify(context) : '';
-    
+
     switch (level) {
       case LogLevel.ERROR:
         console.error(prefix, message, contextStr, error);
@@ -55,6 +102,51 @@ class Logger {
         console.log(prefix, message, contextStr);
     }
   }
+};
+
+class Logger {
+  private memory: MemorySink;
+  private sinks: LogSink[];
+
+  constructor() {
+    this.memory = new MemorySink();
+    this.sinks = [this.memory, consoleSink];
+  }
+
+  private log(level: LogLevel, message: string, context?: Record<string, any>, error?: Error, trace?: SpanContext): void {
+    const entry: LogEntry = {
+      level,
+      message,
+      timestamp: Date.now(),
+      context: context && sanitizeJson(context, REDACTED_LOG_FIELDS),
+      error,
+      ...(trace && { traceId: trace.traceId, spanId: trace.spanId })
+    };
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(entry);
+      } catch (sinkError) {
+        // Never through the logger: a failing sink would recurse
+        console.warn(`[Logger] Sink '${sink.name}' failed`, sinkError);
+      }
+    }
+  }
+
+  /**
+   * Install a sink, replacing any sink with the same name
+   */
+  addSink(sink: LogSink): void {
+    this.sinks = [...this.sinks.filter(s => s.name !== sink.name), sink];
+  }
+
+  removeSink(name: string): void {
+    this.sinks = this.sinks.filter(s => s.name !== name);
+  }
+
+  getSinks(): string[] {
+    return this.sinks.map(s => s.name);
+  }
 
   debug(message: string, context?: Record<string, any>): void {
     this.log(LogLevel.DEBUG, message, context);
@@ -72,13 +164,29 @@ class Logger {
     this.log(LogLevel.ERROR, message, context, error);
   }
 
+  /**
+   * A logger whose entries are attributed to `trace` (plain logging when undefined)
+   */
+  withTrace(trace?: SpanContext): TraceLogger {
+    return {
+      debug: (message, context) => this.log(LogLevel.DEBUG, message, context, undefined, trace),
+      info: (message, context) => this.log(LogLevel.INFO, message, context, undefined, trace),
+      warn: (message, context) => this.log(LogLevel.WARN, message, context, undefined, trace),
+      error: (message, error, context) => this.log(LogLevel.ERROR, message, context, error, trace)
+    };
+  }
+
   getLogs(level?: LogLevel): LogEntry[] {
-    if (!level) return [...this.logs];
-    return this.logs.filter(log => log.level === level);
+    const logs = this.memory.entries();
+    if (!level) return logs;
+    return logs.filter(log => log.level === level);
   }
 
+  /**
+   * Clear the in-memory buffer; persisted entries are untouched
+   */
   clear(): void {
-    this.logs = [];
+    this.memory.clear();
   }
 }
 
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('should parse complete documents unchanged', () => {
+    expect(parsePartialJson('{"a":1,"b":[1,2]}')).toEqual({ a: 1, b: [1, 2] });
+  });
+
+  it('should return undefined before any JSON arrives', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('thinking...')).toBeUndefined();
+  });
+
+  it('should close open objects and arrays', () => {
+    expect(parsePartialJson('{"steps":[{"id":1},{"id":2')).toEqual({ steps: [{ id: 1 }, { id: 2 }] });
+  });
+
+  it('should keep half-streamed string values', () => {
+    expect(parsePartialJson('{"explanation":"Sync leads to Air')).toEqual({ explanation: 'Sync leads to Air' });
+  });
+
+  it('should drop dangling keys', () => {
+    expect(parsePartialJson('{"a":1,"expl')).toEqual({ a: 1 });
+    expect(parsePartialJson('{"a":1,"b":')).toEqual({ a: 1 });
+  });
+
+  it('should drop incomplete literals', () => {
+    expect(parsePartialJson('{"a":1,"ok":tru')).toEqual({ a: 1 });
+  });
+
+  it('should ignore braces inside strings', () => {
+    expect(parsePartialJson('{"code":"if (x) { return [1,')).toEqual({ code: 'if (x) { return [1,' });
+  });
+
+  it('should skip markdown fences around the payload', () => {
+    expect(parsePartialJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+  });
+
+  it('should handle a trailing escape character', () => {
+    expect(parsePartialJson('{"a":"line\\')).toEqual({ a: 'line' });
+  });
+});
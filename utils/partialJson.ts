@@ -0,0 +1,82 @@
+/**
+ * Incremental JSON parsing for streamed model output
+ * Turns a truncated JSON document into the most complete valid value
+ */
+
+interface CutPoint {
+  index: number;
+  closers: string;
+}
+
+const closersFor = (stack: string[]) => [...stack].reverse().join('');
+
+/**
+ * Parse a possibly incomplete JSON document.
+ * Open strings, arrays and objects are closed; a trailing token that cannot
+ * be completed (dangling key, half-written literal) is dropped.
+ * Returns undefined when nothing usable has arrived yet.
+ */
+export function parsePartialJson<T = any>(text: string): T | undefined {
+  if (!text) return undefined;
+
+  const start = text.search(/[{[]/);
+  if (start === -1) return undefined;
+  const source = text.slice(start);
+
+  try {
+    return JSON.parse(source) as T;
+  } catch {
+    // Incomplete; fall through to repair
+  }
+
+  const stack: string[] = [];
+  const cuts: CutPoint[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        break;
+      case '{':
+      case '[':
+        stack.push(char === '{' ? '}' : ']');
+        cuts.push({ index: i + 1, closers: closersFor(stack) });
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        cuts.push({ index: i + 1, closers: closersFor(stack) });
+        break;
+      case ',':
+        cuts.push({ index: i, closers: closersFor(stack) });
+        break;
+    }
+  }
+
+  // Prefer keeping the tail (e.g. a half-streamed string value) when it closes cleanly
+  const body = inString ? `${escaped ? source.slice(0, -1) : source}"` : source;
+  const attempts = [body + closersFor(stack)];
+  for (let i = cuts.length - 1; i >= 0; i--) {
+    attempts.push(source.slice(0, cuts[i].index) + cuts[i].closers);
+  }
+
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt) as T;
+    } catch {
+      // Try the next shorter prefix
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { retryWithBackoff, isAbortError, isRetryableError, parseRetryAfter, RetryBudget } from './retry';
+
+const fastRetry = { maxRetries: 3, initialDelay: 1, maxDelay: 1 };
+
+describe('retryWithBackoff', () => {
+  it('should retry retryable failures until success', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('busy'), { status: 503 }))
+      .mockResolvedValue('ok');
+
+    await expect(retryWithBackoff(fn, fastRetry)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry non-retryable statuses', async () => {
+    const fn = vi.fn().mockRejectedValue(Object.assign(new Error('bad key'), { status: 401 }));
+
+    await expect(retryWithBackoff(fn, fastRetry)).rejects.toThrow('bad key');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry errors that opt out', async () => {
+    const fn = vi.fn().mockRejectedValue(Object.assign(new Error('invalid output'), { retryable: false }));
+
+    await expect(retryWithBackoff(fn, fastRetry)).rejects.toThrow('invalid output');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not start when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fn = vi.fn().mockResolvedValue('ok');
+
+    const error = await retryWithBackoff(fn, { ...fastRetry, signal: controller.signal }).catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should stop sleeping and retrying when aborted mid-backoff', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockImplementation(async () => {
+      setTimeout(() => controller.abort(), 0);
+      throw Object.assign(new Error('busy'), { status: 503 });
+    });
+
+    const started = Date.now();
+    const error = await retryWithBackoff(fn, { maxRetries: 3, initialDelay: 5000, maxDelay: 5000, signal: controller.signal }).catch(e => e);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('should never retry an abort error raised by the task', async () => {
+    const fn = vi.fn().mockRejectedValue(new DOMException('aborted', 'AbortError'));
+
+    const error = await retryWithBackoff(fn, fastRetry).catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('should accept network failures and throttling, but not client errors', () => {
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('unreachable'), { retryable: true }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('slow down'), { status: 429 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('bad key'), { status: 401 }))).toBe(false);
+  });
+
+  it('should reject aborts and errors that opt out', () => {
+    expect(isRetryableError(new DOMException('aborted', 'AbortError'))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('invalid output'), { retryable: false }))).toBe(false);
+  });
+
+  it('should not retry plain errors without a status', () => {
+    expect(isRetryableError(new Error('No API key configured'))).toBe(false);
+  });
+});
+
+describe('server retry hints', () => {
+  it('should parse delta-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('7')).toBe(7000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'))).toBe(5000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it('should wait at least as long as the server asked', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('slow down'), { status: 429, retryAfterMs: 120 }))
+      .mockResolvedValue('ok');
+
+    const started = Date.now();
+    await expect(retryWithBackoff(fn, fastRetry)).resolves.toBe('ok');
+    expect(Date.now() - started).toBeGreaterThanOrEqual(110);
+  });
+
+  it('should stop when the hint exceeds the longest acceptable wait', async () => {
+    const fn = vi.fn().mockRejectedValue(Object.assign(new Error('quota'), { status: 429, retryAfterMs: 3600000 }));
+
+    await expect(retryWithBackoff(fn, fastRetry)).rejects.toThrow('quota');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('RetryBudget', () => {
+  it('should cap retries within the window and refill afterwards', () => {
+    const budget = new RetryBudget(2, 1000);
+    expect(budget.tryAcquire(0)).toBe(true);
+    expect(budget.tryAcquire(10)).toBe(true);
+    expect(budget.tryAcquire(20)).toBe(false);
+    expect(budget.remaining(20)).toBe(0);
+    expect(budget.tryAcquire(1001)).toBe(true);
+  });
+
+  it('should be shared by concurrent calls', async () => {
+    const budget = new RetryBudget(1, 60000);
+    const failing = () => vi.fn().mockRejectedValue(Object.assign(new Error('busy'), { status: 503 }));
+    const a = failing();
+    const b = failing();
+
+    await Promise.all([
+      retryWithBackoff(a, { ...fastRetry, budget }).catch(() => {}),
+      retryWithBackoff(b, { ...fastRetry, budget }).catch(() => {})
+    ]);
+    expect(a.mock.calls.length + b.mock.calls.length).toBe(3);
+  });
+});
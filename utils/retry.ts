@@ -3,12 +3,22 @@
  * Provides resilient error handling for API calls
  */
 
+import { Span, SpanContext, tracer } from './tracing';
+
 export interface RetryOptions {
   maxRetries: number;
   initialDelay: number;
   maxDelay: number;
   backoffMultiplier: number;
   retryableErrors?: number[];
+  /** Stops further attempts and interrupts the backoff sleep when aborted */
+  signal?: AbortSignal;
+  /** Shared allowance that every retry (not first attempt) draws from */
+  budget?: RetryBudget;
+  /** Server hints longer than this end the retries instead of waiting */
+  maxRetryAfter?: number;
+  /** Parent span; each attempt then runs in its own `retry.attempt` child span */
+  trace?: SpanContext;
 }
 
 const DEFAULT_RETRY_OPTIONS: RetryOptions = {
@@ -16,33 +26,140 @@ const DEFAULT_RETRY_OPTIONS: RetryOptions = {
   initialDelay: 1000,
   maxDelay: 10000,
   backoffMultiplier: 2,
-  retryableErrors: [429, 500, 502, 503, 504]
+  retryableErrors: [429, 500, 502, 503, 504],
+  maxRetryAfter: 60000
 };
 
+/**
+ * True for errors raised by an aborted fetch, SDK call or `abortError`
+ */
+export function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError';
+}
+
+/**
+ * The error to throw for an aborted signal, preferring its own reason
+ */
+export function abortError(signal?: AbortSignal): Error {
+  return isAbortError(signal?.reason)
+    ? signal!.reason
+    : new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Whether retrying (or falling back) could help: throttling/server statuses
+ * and network failures qualify. An error without a status is only retried
+ * when it says so (`retryable: true`) or is a fetch-level `TypeError`, so
+ * configuration and programming errors fail fast.
+ */
+export function isRetryableError(error: any, retryableErrors: number[] = DEFAULT_RETRY_OPTIONS.retryableErrors!): boolean {
+  if (isAbortError(error) || error?.retryable === false) return false;
+  if (error?.status) return retryableErrors.includes(error.status);
+  return error?.retryable === true || error instanceof TypeError;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Sliding-window cap on retries shared by concurrent calls, so an outage
+ * cannot multiply traffic by the per-call retry count
+ */
+export class RetryBudget {
+  private spent: number[] = [];
+  private maxRetries: number;
+  private windowMs: number;
+
+  constructor(maxRetries: number = 10, windowMs: number = 60000) {
+    this.maxRetries = maxRetries;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Take one retry from the budget; false when it is exhausted
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    this.spent = this.spent.filter(t => now - t < this.windowMs);
+    if (this.spent.length >= this.maxRetries) return false;
+    this.spent.push(now);
+    return true;
+  }
+
+  remaining(now: number = Date.now()): number {
+    return this.maxRetries - this.spent.filter(t => now - t < this.windowMs).length;
+  }
+}
+
+// Shared by all AI service calls
+export const retryBudget = new RetryBudget();
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError(signal));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError(signal));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Run `fn` until it succeeds, a non-retryable error occurs or the retries
+ * run out. With `options.trace`, `fn` receives its attempt's span.
+ */
 export async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
+  fn: (span?: Span) => Promise<T>,
   options: Partial<RetryOptions> = {}
 ): Promise<T> {
   const opts = { ...DEFAULT_RETRY_OPTIONS, ...options };
   let lastError: Error;
   
   for (let attempt = 0; attempt <= opts.maxRetries; attempt++) {
+    if (opts.signal?.aborted) {
+      throw abortError(opts.signal);
+    }
+    const span = opts.trace && tracer.startSpan('retry.attempt', opts.trace, { 'retry.attempt': attempt + 1 });
     try {
-      return await fn();
+      const result = await fn(span);
+      span?.end();
+      return result;
     } catch (error: any) {
+      span?.end(error);
       lastError = error;
+
+      // Cancellation is final, never a reason to retry
+      if (opts.signal?.aborted || isAbortError(error)) {
+        throw opts.signal?.aborted ? abortError(opts.signal) : error;
+      }
       
       // Don't retry if it's the last attempt
       if (attempt === opts.maxRetries) {
         break;
       }
 
-      // Check if error is retryable
-      const isRetryable = 
-        !error.status || 
-        (opts.retryableErrors && opts.retryableErrors.includes(error.status));
-      
-      if (!isRetryable) {
+      if (!isRetryableError(error, opts.retryableErrors)) {
+        throw error;
+      }
+
+      // A server asking us to wait longer than we are willing to is a stop signal
+      const hint: number | undefined = error.retryAfterMs;
+      if (hint !== undefined && opts.maxRetryAfter !== undefined && hint > opts.maxRetryAfter) {
+        throw error;
+      }
+
+      if (opts.budget && !opts.budget.tryAcquire()) {
+        span?.setAttributes({ 'retry.budget_exhausted': true });
         throw error;
       }
 
@@ -52,13 +169,16 @@ export async function retryWithBackoff<T>(
         opts.maxDelay
       );
 
-      // Add jitter to prevent thundering herd
+      // Add jitter to prevent thundering herd; never retry sooner than the server asked
       const jitter = Math.random() * 0.3 * delay;
-      const actualDelay = delay + jitter;
+      const actualDelay = Math.max(delay + jitter, hint ?? 0);
 
       console.log(`Retry attempt ${attempt + 1}/${opts.maxRetries} after ${Math.round(actualDelay)}ms`);
-      
-      await new Promise(resolve => setTimeout(resolve, actualDelay));
+
+      const backoff = () => sleep(actualDelay, opts.signal);
+      await (opts.trace
+        ? tracer.trace('retry.backoff', opts.trace, backoff, { 'retry.delay_ms': Math.round(actualDelay), 'retry.after_hint_ms': hint })
+        : backoff());
     }
   }
 
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RequestScheduler } from './scheduler';
+import { isAbortError } from './retry';
+
+const deferred = <T = void>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RequestScheduler', () => {
+  it('should cap concurrent calls per key', async () => {
+    const scheduler = new RequestScheduler({ gemini: 2 });
+    const gate = deferred();
+    let running = 0;
+    let peak = 0;
+    const job = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await gate.promise;
+      running--;
+    };
+
+    const all = Promise.all([1, 2, 3, 4].map(() => scheduler.run('gemini', 'normal', job)));
+    await tick();
+    expect(scheduler.getStats()).toEqual([{ key: 'gemini', active: 2, queued: 2, limit: 2 }]);
+
+    gate.resolve();
+    await all;
+    expect(peak).toBe(2);
+    expect(scheduler.getStats()[0]).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('should start higher priority requests first, FIFO within a class', async () => {
+    const scheduler = new RequestScheduler({}, 1);
+    const gate = deferred();
+    const order: string[] = [];
+    const job = (name: string) => async () => { order.push(name); };
+
+    const blocker = scheduler.run('p', 'normal', () => gate.promise);
+    const queued = [
+      scheduler.run('p', 'background', job('docs')),
+      scheduler.run('p', 'normal', job('audit')),
+      scheduler.run('p', 'interactive', job('chat-1')),
+      scheduler.run('p', 'interactive', job('chat-2'))
+    ];
+    gate.resolve();
+    await Promise.all([blocker, ...queued]);
+
+    expect(order).toEqual(['chat-1', 'chat-2', 'audit', 'docs']);
+  });
+
+  it('should drop a queued request when its signal aborts', async () => {
+    const scheduler = new RequestScheduler({}, 1);
+    const gate = deferred();
+    const controller = new AbortController();
+    const job = vi.fn().mockResolvedValue('never');
+
+    const blocker = scheduler.run('p', 'normal', () => gate.promise);
+    const cancelled = scheduler.run('p', 'normal', job, controller.signal).catch(e => e);
+    controller.abort();
+
+    expect(isAbortError(await cancelled)).toBe(true);
+    expect(scheduler.getStats()[0].queued).toBe(0);
+    gate.resolve();
+    await blocker;
+    expect(job).not.toHaveBeenCalled();
+  });
+
+  it('should share one call between identical in-flight requests', async () => {
+    const scheduler = new RequestScheduler();
+    const gate = deferred<string>();
+    const fn = vi.fn().mockReturnValue(gate.promise);
+
+    const first = scheduler.dedupe('key', fn);
+    const second = scheduler.dedupe('key', fn);
+    expect(scheduler.sharedCount('key')).toBe(2);
+    gate.resolve('result');
+
+    expect(await Promise.all([first, second])).toEqual(['result', 'result']);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(scheduler.sharedCount('key')).toBe(0);
+  });
+
+  it('should only abort a shared call once every caller has cancelled', async () => {
+    const scheduler = new RequestScheduler();
+    const gate = deferred<string>();
+    let sharedSignal!: AbortSignal;
+    const fn = (signal: AbortSignal) => { sharedSignal = signal; return gate.promise; };
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const first = scheduler.dedupe('key', fn, a.signal).catch(e => e);
+    const second = scheduler.dedupe('key', fn, b.signal).catch(e => e);
+
+    a.abort();
+    expect(isAbortError(await first)).toBe(true);
+    expect(sharedSignal.aborted).toBe(false);
+
+    b.abort();
+    expect(isAbortError(await second)).toBe(true);
+    expect(sharedSignal.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Central AI request scheduler
+ *
+ * - Per-provider concurrency: at most `limit` calls run at once per key;
+ *   the rest wait in a queue ordered by priority, then arrival
+ * - Priority classes: interactive (user is watching) > normal > background
+ * - De-duplication: identical in-flight requests share one underlying call;
+ *   it is only aborted once every caller sharing it has cancelled
+ */
+
+import { abortError } from './retry';
+
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  background: 2
+};
+
+export interface QueueStats {
+  key: string;
+  active: number;
+  queued: number;
+  limit: number;
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  seq: number;
+  start: () => void;
+}
+
+interface Lane {
+  active: number;
+  queue: Waiter[];
+}
+
+interface SharedCall {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+type Listener = (stats: QueueStats[]) => void;
+
+export class RequestScheduler {
+  private lanes = new Map<string, Lane>();
+  private limits: Record<string, number>;
+  private defaultLimit: number;
+  private inFlight = new Map<string, SharedCall>();
+  private listeners = new Set<Listener>();
+  private seq = 0;
+
+  constructor(limits: Record<string, number> = {}, defaultLimit: number = 4) {
+    this.limits = { ...limits };
+    this.defaultLimit = defaultLimit;
+  }
+
+  setLimit(key: string, limit: number): void {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('Concurrency limit must be a positive integer.');
+    }
+    this.limits[key] = limit;
+    this.drain(key);
+    this.notify();
+  }
+
+  getLimit(key: string): number {
+    return this.limits[key] ?? this.defaultLimit;
+  }
+
+  /**
+   * Run `fn` once a slot for `key` is free. Aborting while queued removes
+   * the request from the queue; aborting while running is up to `fn`.
+   */
+  async run<T>(key: string, priority: RequestPriority, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(key, priority, signal);
+    try {
+      return await fn();
+    } finally {
+      this.release(key);
+    }
+  }
+
+  /**
+   * Share one in-flight call between identical requests. `fn` receives a
+   * signal that aborts only when every caller has aborted; a caller that
+   * aborts early is rejected immediately without affecting the others.
+   */
+  dedupe<T>(key: string, fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+
+    let call = this.inFlight.get(key);
+    if (!call) {
+      const controller = new AbortController();
+      const created: SharedCall = { promise: Promise.resolve(), controller, subscribers: 0 };
+      created.promise = fn(controller.signal).finally(() => {
+        if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+      });
+      // Callers observe the promise through their own wrapper; avoid an unhandled rejection here
+      created.promise.catch(() => {});
+      this.inFlight.set(key, created);
+      call = created;
+    }
+
+    const shared = call;
+    shared.subscribers++;
+    if (!signal) return shared.promise as Promise<T>;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          shared.controller.abort(signal.reason);
+          if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+        }
+        reject(abortError(signal));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      (shared.promise as Promise<T>).then(
+        value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+        error => { signal.removeEventListener('abort', onAbort); reject(error); }
+      );
+    });
+  }
+
+  /**
+   * Number of callers currently sharing an in-flight request
+   */
+  sharedCount(key: string): number {
+    return this.inFlight.get(key)?.subscribers ?? 0;
+  }
+
+  getStats(): QueueStats[] {
+    return [...this.lanes.entries()].map(([key, lane]) => ({
+      key,
+      active: lane.active,
+      queued: lane.queue.length,
+      limit: this.getLimit(key)
+    }));
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private lane(key: string): Lane {
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = { active: 0, queue: [] };
+      this.lanes.set(key, lane);
+    }
+    return lane;
+  }
+
+  private acquire(key: string, priority: RequestPriority, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+    const lane = this.lane(key);
+
+    if (lane.active < this.getLimit(key) && lane.queue.length === 0) {
+      lane.active++;
+      this.notify();
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = {
+        priority,
+        seq: this.seq++,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+      const onAbort = () => {
+        lane.queue = lane.queue.filter(w => w !== waiter);
+        this.notify();
+        reject(abortError(signal));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      lane.queue.push(waiter);
+      lane.queue.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.seq - b.seq);
+      this.notify();
+    });
+  }
+
+  private release(key: string): void {
+    this.lane(key).active--;
+    this.drain(key);
+    this.notify();
+  }
+
+  private drain(key: string): void {
+    const lane = this.lane(key);
+    while (lane.active < this.getLimit(key) && lane.queue.length > 0) {
+      lane.active++;
+      lane.queue.shift()!.start();
+    }
+  }
+
+  private notify(): void {
+    const stats = this.getStats();
+    this.listeners.forEach(listener => listener(stats));
+  }
+}
+
+// Shared by all AI service calls; local models are usually single-slot
+export const requestScheduler = new RequestScheduler({ anthropic: 2, local: 1 }, 4);
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Type, type Schema } from '@google/genai';
+import { validateAgainstSchema, formatViolations } from './schemaValidator';
+import { synthesizeFromSchema } from '../services/providers/mockProvider';
+
+const blueprintSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    platform: { type: Type.STRING },
+    explanation: { type: Type.STRING },
+    steps: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER },
+          title: { type: Type.STRING },
+          type: { type: Type.STRING, enum: ['trigger', 'action', 'logic'] }
+        },
+        required: ['id', 'title', 'type']
+      }
+    }
+  },
+  required: ['platform', 'explanation', 'steps']
+};
+
+describe('validateAgainstSchema', () => {
+  it('should accept conforming values', () => {
+    const value = {
+      platform: 'n8n',
+      explanation: 'Sync leads',
+      steps: [{ id: 1, title: 'Webhook', type: 'trigger' }]
+    };
+    expect(validateAgainstSchema(value, blueprintSchema)).toEqual([]);
+  });
+
+  it('should accept mock provider output for the same schema', () => {
+    expect(validateAgainstSchema(synthesizeFromSchema(blueprintSchema, 42), blueprintSchema)).toEqual([]);
+  });
+
+  it('should report missing required fields with their path', () => {
+    const violations = validateAgainstSchema({ platform: 'n8n' }, blueprintSchema);
+    expect(violations.map(v => v.path)).toEqual(['$.explanation', '$.steps']);
+  });
+
+  it('should report wrong enum values inside arrays', () => {
+    const value = { platform: 'n8n', explanation: 'x', steps: [{ id: 1, title: 'a', type: 'step' }] };
+    const violations = validateAgainstSchema(value, blueprintSchema);
+    expect(violations).toHaveLength(1);
+    expect(violations[0].path).toBe('$.steps[0].type');
+    expect(violations[0].message).toContain('trigger | action | logic');
+  });
+
+  it('should report type mismatches', () => {
+    const value = { platform: 'n8n', explanation: 'x', steps: [{ id: '1', title: 'a', type: 'action' }] };
+    expect(validateAgainstSchema(value, blueprintSchema)[0]).toEqual({ path: '$.steps[0].id', message: 'expected integer, got "1"' });
+    expect(validateAgainstSchema({ ...value, steps: 'none' }, blueprintSchema)[0].message).toBe('expected array, got "none"');
+  });
+
+  it('should allow undeclared properties and free-form objects', () => {
+    const schema: Schema = { type: Type.OBJECT, properties: { inputSchema: { type: Type.OBJECT } }, required: ['inputSchema'] };
+    expect(validateAgainstSchema({ inputSchema: { anything: [1, 2] }, extra: true }, schema)).toEqual([]);
+  });
+
+  it('should reject an empty object in place of the document', () => {
+    expect(validateAgainstSchema({}, blueprintSchema)).toHaveLength(3);
+  });
+});
+
+describe('formatViolations', () => {
+  it('should cap the list and note the remainder', () => {
+    const violations = Array.from({ length: 4 }, (_, i) => ({ path: `$.a[${i}]`, message: 'bad' }));
+    expect(formatViolations(violations, 2)).toBe('- $.a[0]: bad\n- $.a[1]: bad\n- ...and 2 more');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Runtime validation against the Gemini-style response schemas
+ * declared in the AI service, so model output is checked with the
+ * same contract the model was asked to follow.
+ */
+
+import { Type, type Schema } from "@google/genai";
+
+export interface SchemaViolation {
+  /** JSONPath-like location, e.g. `$.steps[2].type` */
+  path: string;
+  message: string;
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}...` : value}"`;
+  return typeof value;
+};
+
+/**
+ * Validate a parsed value against a schema.
+ * Returns every violation found; an empty list means the value conforms.
+ * Properties not declared in the schema are allowed.
+ */
+export function validateAgainstSchema(value: unknown, schema: Schema, path: string = '$'): SchemaViolation[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [{ path, message: `expected ${String(schema.type || 'value').toLowerCase()}, got ${describe(value)}` }];
+  }
+
+  const violations: SchemaViolation[] = [];
+  const fail = (message: string) => violations.push({ path, message });
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        fail(`expected object, got ${describe(value)}`);
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          violations.push({ path: `${path}.${key}`, message: 'missing required field' });
+        }
+      }
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined && record[key] !== null) {
+          violations.push(...validateAgainstSchema(record[key], child, `${path}.${key}`));
+        }
+      }
+      break;
+    }
+    case Type.ARRAY:
+      if (!Array.isArray(value)) {
+        fail(`expected array, got ${describe(value)}`);
+        break;
+      }
+      if (schema.items) {
+        value.forEach((item, index) => violations.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)));
+      }
+      break;
+    case Type.STRING:
+      if (typeof value !== 'string') fail(`expected string, got ${describe(value)}`);
+      break;
+    case Type.INTEGER:
+      if (typeof value !== 'number' || !Number.isInteger(value)) fail(`expected integer, got ${describe(value)}`);
+      break;
+    case Type.NUMBER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail(`expected number, got ${describe(value)}`);
+      break;
+    case Type.BOOLEAN:
+      if (typeof value !== 'boolean') fail(`expected boolean, got ${describe(value)}`);
+      break;
+  }
+
+  if (schema.enum && schema.enum.length > 0 && violations.length === 0 && !schema.enum.includes(value as string)) {
+    fail(`expected one of ${schema.enum.join(' | ')}, got ${describe(value)}`);
+  }
+
+  return violations;
+}
+
+/**
+ * Render violations as a bullet list for logs and repair prompts
+ */
+export function formatViolations(violations: SchemaViolation[], limit: number = 20): string {
+  const lines = violations.slice(0, limit).map(v => `- ${v.path}: ${v.message}`);
+  if (violations.length > limit) lines.push(`- ...and ${violations.length - limit} more`);
+  return lines.join('\n');
+}
@@ -28,19 +28,44 @@ export function truncateToTokenLimit(text: string, maxTokens: number): string {
   return text.slice(0, maxChars) + '...';
 }
 
+/** Price of a model in USD per 1M tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PricingTable = Record<string, ModelPrice>;
+
 /**
- * Calculate cost estimate based on token count
- * Prices are approximate and should be updated based on actual pricing
+ * Built-in prices, keyed by model id, by legacy `<provider>-<tier>` key,
+ * or `default`. Approximate list prices; workspaces can override them.
  */
-export function estimateCost(inputTokens: number, outputTokens: number, modelType: string = 'default'): number {
-  // Approximate costs per 1M tokens (adjust based on actual pricing)
-  const pricing: Record<string, { input: number; output: number }> = {
-    'gemini-pro': { input: 0.5, output: 1.5 },
-    'gemini-flash': { input: 0.15, output: 0.6 },
-    'default': { input: 0.5, output: 1.5 }
-  };
-  
-  const model = pricing[modelType] || pricing.default;
+export const DEFAULT_PRICING: PricingTable = {
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'llama3.1': { input: 0, output: 0 },
+  'mock-pro': { input: 0, output: 0 },
+  'mock-flash': { input: 0, output: 0 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+  'gemini-flash': { input: 0.15, output: 0.6 },
+  'default': { input: 0.5, output: 1.5 }
+};
+
+/**
+ * Calculate cost estimate based on token count.
+ * Unknown models are priced at the table's `default` entry.
+ */
+export function estimateCost(
+  inputTokens: number,
+  outputTokens: number,
+  modelType: string = 'default',
+  pricing: PricingTable = DEFAULT_PRICING
+): number {
+  const model = pricing[modelType] || pricing.default || DEFAULT_PRICING.default;
   
   const inputCost = (inputTokens / 1_000_000) * model.input;
   const outputCost = (outputTokens / 1_000_000) * model.output;
@@ -68,11 +93,12 @@ class UsageTracker {
     lastReset: Date.now()
   };
 
-  track(inputTokens: number, outputTokens: number, modelType: string = 'default'): void {
+  /** `cost` is the call's price, as priced for the usage ledger */
+  track(inputTokens: number, outputTokens: number, cost: number): void {
     this.metrics.requestCount++;
     this.metrics.totalInputTokens += inputTokens;
     this.metrics.totalOutputTokens += outputTokens;
-    this.metrics.totalCost += estimateCost(inputTokens, outputTokens, modelType);
+    this.metrics.totalCost += cost;
   }
 
   getMetrics(): UsageMetrics {
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { Tracer, toOtlpJson, tracer } from './tracing';
+import { logger } from './logger';
+import { retryWithBackoff } from './retry';
+
+describe('Tracer', () => {
+  it('should start child spans in the parent trace', () => {
+    const tracer = new Tracer();
+    const root = tracer.startSpan('user.action');
+    const child = tracer.startSpan('ai.generate', root.context);
+
+    expect(root.context.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(child.context.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(child.record.traceId).toBe(root.context.traceId);
+    expect(child.record.parentSpanId).toBe(root.context.spanId);
+  });
+
+  it('should record the outcome of traced work', async () => {
+    const tracer = new Tracer();
+    await tracer.trace('ok', undefined, async () => 1);
+    await expect(tracer.trace('failed', undefined, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(tracer.trace('cancelled', undefined, async () => {
+      throw new DOMException('Aborted', 'AbortError');
+    })).rejects.toThrow('Aborted');
+
+    const [ok, failed, cancelled] = tracer.getSpans();
+    expect(ok.status).toBe('ok');
+    expect(failed).toMatchObject({ status: 'error', statusMessage: 'boom' });
+    expect(failed.events[0].name).toBe('exception');
+    expect(cancelled.status).toBe('unset');
+    expect(cancelled.attributes.cancelled).toBe(true);
+  });
+
+  it('should summarize traces under their root span', () => {
+    const tracer = new Tracer();
+    const root = tracer.startSpan('user.generate_blueprint');
+    tracer.startSpan('cache.get', root.context).end();
+    tracer.startSpan('ai.generate', root.context).end(new Error('down'));
+    root.end();
+
+    const [summary] = tracer.listTraces();
+    expect(summary).toMatchObject({ traceId: root.context.traceId, name: 'user.generate_blueprint', spans: 3, status: 'error' });
+  });
+
+  it('should keep only the most recent spans', () => {
+    const tracer = new Tracer(2);
+    ['a', 'b', 'c'].forEach(name => tracer.startSpan(name).end());
+    expect(tracer.getSpans().map(s => s.name)).toEqual(['b', 'c']);
+  });
+
+  it('should trace each retry attempt under the caller span', async () => {
+    let calls = 0;
+    const parent = tracer.startSpan('ai.generate');
+    await retryWithBackoff(async () => {
+      if (calls++ === 0) throw Object.assign(new Error('busy'), { status: 503 });
+      return 'ok';
+    }, { maxRetries: 2, initialDelay: 1, maxDelay: 1, trace: parent.context });
+
+    const attempts = tracer.getSpans(parent.context.traceId).filter(s => s.name === 'retry.attempt');
+    expect(attempts.map(s => [s.attributes['retry.attempt'], s.status])).toEqual([[1, 'error'], [2, 'ok']]);
+    expect(attempts.every(s => s.parentSpanId === parent.context.spanId)).toBe(true);
+  });
+});
+
+describe('toOtlpJson', () => {
+  it('should encode spans as an OTLP export request', () => {
+    const tracer = new Tracer();
+    const root = tracer.startSpan('root', undefined, { 'ai.task': 'generate', tokens: 120, cost: 0.25, cached: false });
+    tracer.startSpan('child', root.context).end(new Error('bad'));
+    root.end();
+
+    const payload = toOtlpJson(tracer.getSpans()) as any;
+    const [child, encoded] = payload.resourceSpans[0].scopeSpans[0].spans;
+    expect(payload.resourceSpans[0].resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'auto-architect' } }]);
+    expect(encoded.attributes).toEqual([
+      { key: 'ai.task', value: { stringValue: 'generate' } },
+      { key: 'tokens', value: { intValue: '120' } },
+      { key: 'cost', value: { doubleValue: 0.25 } },
+      { key: 'cached', value: { boolValue: false } }
+    ]);
+    expect(encoded.status).toEqual({ code: 1 });
+    expect(encoded.parentSpanId).toBeUndefined();
+    expect(encoded.startTimeUnixNano).toMatch(/^\d+000000$/);
+    expect(child).toMatchObject({ parentSpanId: root.context.spanId, status: { code: 2, message: 'bad' } });
+  });
+});
+
+describe('logger.withTrace', () => {
+  it('should stamp entries with the trace and span ids', () => {
+    const span = new Tracer().startSpan('action');
+    logger.clear();
+    logger.withTrace(span.context).info('traced');
+    logger.info('untraced');
+
+    const [traced, untraced] = logger.getLogs();
+    expect(traced).toMatchObject({ message: 'traced', ...span.context });
+    expect(untraced.traceId).toBeUndefined();
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Lightweight request tracing
+ *
+ * A trace groups everything one user action caused. Its spans form a tree:
+ * the AI request, its cache lookup, each retry attempt, the usage write.
+ * Log entries written inside a span carry its trace and span ids.
+ * Finished spans are kept in a bounded buffer and can be exported as
+ * OTLP/JSON, the OpenTelemetry trace export format, for inspection in any
+ * OTel-compatible tool.
+ */
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+export type SpanStatus = 'unset' | 'ok' | 'error';
+
+export type AttributeValue = string | number | boolean;
+
+export interface SpanEvent {
+  name: string;
+  time: number;
+  attributes: Record<string, AttributeValue>;
+}
+
+export interface SpanRecord extends SpanContext {
+  parentSpanId?: string;
+  name: string;
+  startTime: number;
+  endTime?: number;
+  attributes: Record<string, AttributeValue>;
+  events: SpanEvent[];
+  status: SpanStatus;
+  statusMessage?: string;
+}
+
+export interface TraceSummary {
+  traceId: string;
+  name: string;
+  startTime: number;
+  duration: number;
+  spans: number;
+  status: SpanStatus;
+}
+
+export const SERVICE_NAME = 'auto-architect';
+
+const randomHex = (bytes: number): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('');
+
+const defined = (attributes: Record<string, AttributeValue | undefined>): Record<string, AttributeValue> =>
+  Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined)) as Record<string, AttributeValue>;
+
+export class Span {
+  readonly record: SpanRecord;
+  private onEnd: (record: SpanRecord) => void;
+
+  constructor(record: SpanRecord, onEnd: (record: SpanRecord) => void) {
+    this.record = record;
+    this.onEnd = onEnd;
+  }
+
+  get context(): SpanContext {
+    return { traceId: this.record.traceId, spanId: this.record.spanId };
+  }
+
+  /**
+   * Set attributes; undefined values are skipped
+   */
+  setAttributes(attributes: Record<string, AttributeValue | undefined>): this {
+    Object.assign(this.record.attributes, defined(attributes));
+    return this;
+  }
+
+  addEvent(name: string, attributes: Record<string, AttributeValue | undefined> = {}): this {
+    this.record.events.push({ name, time: Date.now(), attributes: defined(attributes) });
+    return this;
+  }
+
+  /**
+   * Finish the span, as failed when given an error. A cancellation is not a
+   * failure: the span is marked `cancelled` and its status left unset.
+   * Later calls are ignored.
+   */
+  end(error?: any): void {
+    if (this.record.endTime !== undefined) return;
+    this.record.endTime = Date.now();
+    if (error === undefined) {
+      this.record.status = 'ok';
+    } else if (error?.name === 'AbortError') {
+      this.record.attributes.cancelled = true;
+    } else {
+      this.record.status = 'error';
+      this.record.statusMessage = error?.message || String(error);
+      this.addEvent('exception', {
+        'exception.type': error?.code || error?.name || 'Error',
+        'exception.message': this.record.statusMessage
+      });
+    }
+    this.onEnd(this.record);
+  }
+}
+
+export class Tracer {
+  private spans: SpanRecord[] = [];
+  private maxSpans: number;
+
+  constructor(maxSpans: number = 2000) {
+    this.maxSpans = maxSpans;
+  }
+
+  /**
+   * Start a span under `parent`, or as the root of a new trace
+   */
+  startSpan(name: string, parent?: SpanContext, attributes: Record<string, AttributeValue | undefined> = {}): Span {
+    return new Span({
+      traceId: parent?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+      ...(parent && { parentSpanId: parent.spanId }),
+      name,
+      startTime: Date.now(),
+      attributes: defined(attributes),
+      events: [],
+      status: 'unset'
+    }, record => this.finish(record));
+  }
+
+  /**
+   * Run `fn` inside a child span that ends with its outcome
+   */
+  async trace<T>(
+    name: string,
+    parent: SpanContext | undefined,
+    fn: (span: Span) => Promise<T>,
+    attributes: Record<string, AttributeValue | undefined> = {}
+  ): Promise<T> {
+    const span = this.startSpan(name, parent, attributes);
+    try {
+      const result = await fn(span);
+      span.end();
+      return result;
+    } catch (error) {
+      span.end(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finished spans, oldest first; only those of `traceId` when given
+   */
+  getSpans(traceId?: string): SpanRecord[] {
+    return traceId ? this.spans.filter(s => s.traceId === traceId) : [...this.spans];
+  }
+
+  /**
+   * Finished traces, most recent first. A trace is named after its root
+   * span, or its earliest span while the root is still running.
+   */
+  listTraces(): TraceSummary[] {
+    const byTrace = new Map<string, SpanRecord[]>();
+    this.spans.forEach(span => byTrace.set(span.traceId, [...(byTrace.get(span.traceId) || []), span]));
+
+    return [...byTrace.entries()].map(([traceId, spans]) => {
+      const root = spans.find(s => !s.parentSpanId) ?? spans.reduce((a, b) => a.startTime <= b.startTime ? a : b);
+      const startTime = Math.min(...spans.map(s => s.startTime));
+      return {
+        traceId,
+        name: root.name,
+        startTime,
+        duration: Math.max(...spans.map(s => s.endTime!)) - startTime,
+        spans: spans.length,
+        status: spans.some(s => s.status === 'error') ? 'error' : root.status
+      } as TraceSummary;
+    }).sort((a, b) => b.startTime - a.startTime);
+  }
+
+  clear(): void {
+    this.spans = [];
+  }
+
+  private finish(record: SpanRecord): void {
+    this.spans.push(record);
+    if (this.spans.length > this.maxSpans) {
+      this.spans = this.spans.slice(-this.maxSpans);
+    }
+  }
+}
+
+const otlpValue = (value: AttributeValue) =>
+  typeof value === 'string' ? { stringValue: value }
+    : typeof value === 'boolean' ? { boolValue: value }
+    : Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+
+const otlpAttributes = (attributes: Record<string, AttributeValue>) =>
+  Object.entries(attributes).map(([key, value]) => ({ key, value: otlpValue(value) }));
+
+const unixNano = (ms: number) => `${ms}000000`;
+
+/** OTLP status codes: UNSET, OK, ERROR */
+const STATUS_CODE: Record<SpanStatus, number> = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * Encode finished spans as an OTLP/JSON `ExportTraceServiceRequest`
+ */
+export function toOtlpJson(spans: SpanRecord[]): object {
+  return {
+    resourceSpans: [{
+      resource: { attributes: otlpAttributes({ 'service.name': SERVICE_NAME }) },
+      scopeSpans: [{
+        scope: { name: SERVICE_NAME },
+        spans: spans.map(span => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+          name: span.name,
+          // SPAN_KIND_INTERNAL
+          kind: 1,
+          startTimeUnixNano: unixNano(span.startTime),
+          endTimeUnixNano: unixNano(span.endTime ?? span.startTime),
+          attributes: otlpAttributes(span.attributes),
+          events: span.events.map(event => ({
+            timeUnixNano: unixNano(event.time),
+            name: event.name,
+            attributes: otlpAttributes(event.attributes)
+          })),
+          status: {
+            code: STATUS_CODE[span.status],
+            ...(span.statusMessage && { message: span.statusMessage })
+          }
+        }))
+      }]
+    }]
+  };
+}
+
+// Shared by all services
+export const tracer = new Tracer();
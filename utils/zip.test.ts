@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip, readZip } from './zip';
+
+const text = (content: string | Uint8Array) => typeof content === 'string' ? content : new TextDecoder().decode(content);
+
+describe('zip', () => {
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610A686);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('should store entries that read back unchanged', () => {
+    const files = [
+      { path: 'project/package.json', content: '{ "name": "demo" }' },
+      { path: 'project/src/ünïcode.ts', content: 'export const café = "☕";' }
+    ];
+    const entries = readZip(createZip(files));
+    expect(entries.map(e => [e.path, text(e.content)])).toEqual(files.map(f => [f.path, f.content]));
+  });
+
+  it('should write a central directory that lists every entry', () => {
+    const zip = createZip([{ path: 'a.txt', content: 'a' }, { path: 'b.txt', content: 'bb' }]);
+    const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054B50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    expect(view.getUint32(view.getUint32(end + 16, true), true)).toBe(0x02014B50);
+  });
+
+  it('should be deterministic', () => {
+    const files = [{ path: 'x.md', content: '# x' }];
+    expect(createZip(files)).toEqual(createZip(files));
+  });
+});
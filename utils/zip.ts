@@ -0,0 +1,127 @@
+/**
+ * Minimal ZIP writer for browser downloads.
+ *
+ * Entries are stored uncompressed (method 0), which every unzip tool
+ * accepts, and stamped with a fixed date so the same files always produce
+ * the same archive. Paths use forward slashes; directories are implied by
+ * the file paths.
+ */
+
+export interface ZipEntry {
+  path: string;
+  content: string | Uint8Array;
+}
+
+/** 1980-01-01 00:00, the earliest DOS date */
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+const DOS_TIME = 0;
+
+/** UTF-8 file names (general purpose bit 11) */
+const UTF8_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Archive `entries` in order; returns the bytes of the .zip file
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content;
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034B50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, 0, true);
+    lv.setUint16(10, DOS_TIME, true);
+    lv.setUint16(12, DOS_DATE, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014B50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, DOS_TIME, true);
+    cv.setUint16(14, DOS_DATE, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054B50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const zip = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+/**
+ * Read back the stored entries of a zip written by `createZip`
+ */
+export function readZip(zip: Uint8Array): ZipEntry[] {
+  const decoder = new TextDecoder();
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const entries: ZipEntry[] = [];
+  let position = 0;
+  while (view.getUint32(position, true) === 0x04034B50) {
+    const size = view.getUint32(position + 18, true);
+    const nameLength = view.getUint16(position + 26, true);
+    const extraLength = view.getUint16(position + 28, true);
+    const start = position + 30 + nameLength + extraLength;
+    entries.push({
+      path: decoder.decode(zip.subarray(position + 30, position + 30 + nameLength)),
+      content: zip.slice(start, start + size)
+    });
+    position = start + size;
+  }
+  return entries;
+}
@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card } from '../components/ui/Card';
+import { BarChart } from '../components/ui/BarChart';
+import { AnalyticsReport, analytics, usageCsv } from '../services/analyticsService';
+import { startOfDay, formatCost } from '../services/budgetService';
+import { blueprintStore } from '../services/blueprintService';
+import { TASK_LABELS } from '../services/routingService';
+import { Activity, Coins, Database, Download, Gauge, Layers, Loader2, RefreshCw, ShieldAlert, Timer } from 'lucide-react';
+
+type Metric = 'requests' | 'tokens' | 'cost';
+
+const RANGES = [7, 30, 90];
+
+const formatTokens = (value: number) =>
+  value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)}M` : value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(Math.round(value));
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(value > 0 && value < 0.1 ? 1 : 0)}%`;
+
+const formatMs = (value: number | null) => value === null ? '—' : value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${Math.round(value)}ms`;
+
+const AnalyticsView: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [metric, setMetric] = useState<Metric>('requests');
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [blueprintNames, setBlueprintNames] = useState<Record<string, string>>({});
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const start = new Date(startOfDay(Date.now()));
+      start.setDate(start.getDate() - (days - 1));
+      setReport(await analytics.report(start.getTime()));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => { load(); }, [load]);
+
+  useEffect(() => {
+    blueprintStore.names().then(setBlueprintNames).catch(() => {});
+  }, []);
+
+  const exportCsv = () => {
+    if (!report) return;
+    const blob = new Blob([usageCsv(report.records)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `auto_architect_usage_${new Date().toISOString().split('T')[0]}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!report) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        {error ? <p className="text-xs font-bold text-red-600">{error}</p> : <Loader2 className="animate-spin text-indigo-600" />}
+      </div>
+    );
+  }
+
+  const { totals } = report.summary;
+  const chartData = report.daily.map(point => ({
+    label: point.day.slice(5),
+    value: metric === 'requests' ? point.requests : metric === 'tokens' ? point.inputTokens + point.outputTokens : point.cost
+  }));
+  const slowest = Math.max(0, ...report.latency.map(l => l.p95 ?? 0));
+  const measured = report.latency.filter(l => l.count > 0);
+
+  const tiles = [
+    { label: 'Requests', value: totals.requests.toLocaleString(), detail: `${totals.cachedRequests} from cache`, icon: Activity, color: 'text-indigo-600' },
+    { label: 'Tokens', value: formatTokens(totals.inputTokens + totals.outputTokens), detail: `${formatTokens(totals.inputTokens)} in / ${formatTokens(totals.outputTokens)} out`, icon: Layers, color: 'text-emerald-600' },
+    { label: 'Cost', value: formatCost(totals.cost), detail: `Session ${formatCost(report.session.totalCost)}`, icon: Coins, color: 'text-orange-500' },
+    { label: 'Cache Hit Rate', value: formatPercent(report.cacheHitRate), detail: `Memory tier ${formatPercent(report.memoryCache.hitRate)}`, icon: Database, color: 'text-pink-500' }
+  ];
+
+  return (
+    <div className="space-y-8 animate-in pb-20">
+      <div className="flex flex-wrap items-center gap-3">
+        {RANGES.map(range => (
+          <button
+            key={range}
+            onClick={() => setDays(range)}
+            className={`px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+              days === range
+              ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg'
+              : 'bg-white border-slate-100 text-slate-500 hover:bg-slate-50'
+            }`}
+          >
+            {range} Days
+          </button>
+        ))}
+        <div className="ml-auto flex gap-3">
+          <button onClick={load} disabled={loading} className="flex items-center gap-2 px-5 py-3 bg-white border border-slate-100 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 disabled:opacity-40">
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} /> Refresh
+          </button>
+          <button onClick={exportCsv} disabled={report.records.length === 0} className="flex items-center gap-2 px-5 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg disabled:opacity-40">
+            <Download size={14} /> Export CSV
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-[11px] font-bold text-red-600">{error}</p>}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+        {tiles.map(tile => (
+          <div key={tile.label} className="p-6 bg-white border border-slate-100 rounded-[2rem] shadow-sm space-y-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+              <tile.icon size={14} className={tile.color} /> {tile.label}
+            </span>
+            <p className="text-2xl font-black text-slate-900 tracking-tight">{tile.value}</p>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{tile.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      <Card
+        title="Activity"
+        subtitle={`Last ${days} Days`}
+        headerAction={
+          <div className="flex gap-2">
+            {(['requests', 'tokens', 'cost'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${
+                  metric === m ? 'bg-slate-900 border-slate-900 text-white' : 'bg-white border-slate-100 text-slate-500 hover:bg-slate-50'
+                }`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        }
+      >
+        <BarChart
+          data={chartData}
+          format={metric === 'cost' ? formatCost : metric === 'tokens' ? formatTokens : String}
+          color={metric === 'cost' ? '#f97316' : metric === 'tokens' ? '#10b981' : '#6366f1'}
+        />
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <Card title="Latency by Task" subtitle="p50 / p95 · This Session">
+          {measured.length === 0 ? (
+            <p className="text-[11px] font-bold text-slate-400 flex items-center gap-2"><Timer size={14} /> No AI requests completed this session.</p>
+          ) : (
+            <div className="space-y-4">
+              {measured.map(l => (
+                <div key={l.task} className="space-y-1.5">
+                  <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+                    <span className="text-slate-600">{TASK_LABELS[l.task]} <span className="text-slate-300">×{l.count}</span></span>
+                    <span className="text-slate-400">{formatMs(l.p50)} / {formatMs(l.p95)}</span>
+                  </div>
+                  <div className="relative h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="absolute inset-y-0 left-0 bg-indigo-200 rounded-full" style={{ width: `${((l.p95 ?? 0) / slowest) * 100}%` }} />
+                    <div className="absolute inset-y-0 left-0 bg-indigo-600 rounded-full" style={{ width: `${((l.p50 ?? 0) / slowest) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        <Card title="Error Rates" subtitle="By Error Code · This Session">
+          {report.errors.length === 0 ? (
+            <p className="text-[11px] font-bold text-slate-400 flex items-center gap-2"><Gauge size={14} /> No failed AI requests this session.</p>
+          ) : (
+            <div className="space-y-3">
+              {report.errors.map(e => (
+                <div key={e.code} className="flex items-center justify-between px-4 py-3 bg-red-50 border border-red-100 rounded-xl">
+                  <span className="text-[10px] font-black text-red-700 uppercase tracking-widest flex items-center gap-2"><ShieldAlert size={12} /> {e.code}</span>
+                  <span className="text-[10px] font-black text-red-600/70 uppercase tracking-widest">{e.count} · {formatPercent(e.rate)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+
+      <Card title="Most Expensive Blueprints" subtitle={`Last ${days} Days`}>
+        {report.topBlueprints.length === 0 ? (
+          <p className="text-[11px] font-bold text-slate-400">No usage has been attributed to a blueprint yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {report.topBlueprints.map(({ blueprint, usage }) => (
+              <div key={blueprint} className="flex items-center justify-between px-5 py-4 bg-slate-50 border border-slate-100 rounded-2xl">
+                <div className="min-w-0">
+                  <p className="text-xs font-black text-slate-800 truncate">{blueprintNames[blueprint] ?? blueprint}</p>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {usage.requests} requests · {formatTokens(usage.inputTokens + usage.outputTokens)} tokens
+                  </p>
+                </div>
+                <span className="text-sm font-black text-orange-500">{formatCost(usage.cost)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default AnalyticsView;
@@ -1,20 +1,23 @@
 
 import React, { useState, useEffect } from 'react';
-import { auditAutomation } from '../services/geminiService';
+import { auditAutomation, isAbortError } from '../services/geminiService';
+import { useAbortController } from '../hooks/useAbortController';
+import { toApiError } from '../utils/errors';
 import { AutomationResult, AuditResult, AsyncState } from '../types';
 import { Card } from '../components/ui/Card';
+import { ErrorNotice } from '../components/ui/ErrorNotice';
 import { 
   ShieldAlert, 
   DollarSign, 
   TrendingUp, 
   CheckCircle2, 
-  AlertTriangle, 
   Loader2, 
   ArrowRight,
   ShieldCheck,
   Zap,
   Lock,
-  Target
+  Target,
+  X
 } from 'lucide-react';
 
 interface AuditViewProps {
@@ -27,18 +30,27 @@ const AuditView: React.FC<AuditViewProps> = ({ activeBlueprint }) => {
     loading: false,
     error: null
   });
+  const { begin, cancel } = useAbortController();
 
   const handleAudit = async () => {
     if (!activeBlueprint) return;
+    const signal = begin();
     setAuditState({ data: null, loading: true, error: null });
     try {
-      const result = await auditAutomation(activeBlueprint);
+      const result = await auditAutomation(activeBlueprint, { signal });
       setAuditState({ data: result, loading: false, error: null });
     } catch (err: any) {
-      setAuditState({ data: null, loading: false, error: { message: err.message } });
+      // Cancelled or superseded scans are not faults; whoever aborted owns the state
+      if (isAbortError(err)) return;
+      setAuditState({ data: null, loading: false, error: toApiError(err) });
     }
   };
 
+  const handleCancel = () => {
+    cancel();
+    setAuditState({ data: null, loading: false, error: null });
+  };
+
   useEffect(() => {
     if (activeBlueprint && !auditState.data && !auditState.loading) {
       handleAudit();
@@ -70,10 +82,21 @@ const AuditView: React.FC<AuditViewProps> = ({ activeBlueprint }) => {
              </div>
              <p className="text-xl font-black text-slate-900 uppercase tracking-[0.4em] mb-2">Auditing Architecture</p>
              <span className="text-xs text-slate-400 font-black uppercase tracking-[0.2em] animate-pulse">Scanning endpoints for vulnerabilities...</span>
+             <button onClick={handleCancel} className="mt-8 mx-auto px-6 py-3 bg-slate-50 border border-slate-200 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition-all flex items-center gap-2">
+               <X size={14} /> Cancel Audit
+             </button>
            </div>
         </div>
       )}
 
+      {!auditState.loading && !auditState.data && !auditState.error && (
+        <div className="h-[300px] flex flex-col items-center justify-center text-center bg-white border border-slate-100 rounded-[4rem]">
+          <ShieldAlert size={40} className="text-slate-200 mb-6" />
+          <p className="text-sm font-black text-slate-400 uppercase tracking-[0.3em] mb-6">Audit Cancelled</p>
+          <button onClick={handleAudit} className="px-6 py-3 bg-orange-500 text-white rounded-xl text-[10px] font-black uppercase tracking-widest">Run Audit</button>
+        </div>
+      )}
+
       {auditState.data && (
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 items-start">
           {/* Main Dashboard */}
@@ -208,18 +231,7 @@ const AuditView: React.FC<AuditViewProps> = ({ activeBlueprint }) => {
         </div>
       )}
 
-      {auditState.error && (
-        <div className="p-8 bg-red-50 border border-red-100 rounded-[3rem] flex items-center gap-6 text-red-700 animate-in">
-          <div className="w-16 h-16 bg-red-100 rounded-3xl flex items-center justify-center shrink-0">
-            <AlertTriangle size={32} />
-          </div>
-          <div className="space-y-1">
-            <h4 className="font-black uppercase tracking-widest text-sm">Audit System Fault</h4>
-            <p className="text-xs font-bold opacity-70">{auditState.error.message}</p>
-          </div>
-          <button onClick={handleAudit} className="ml-auto px-6 py-3 bg-red-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest">Retry Scan</button>
-        </div>
-      )}
+      {auditState.error && <ErrorNotice error={auditState.error} title="Audit System Fault" onRetry={handleAudit} />}
     </div>
   );
 };
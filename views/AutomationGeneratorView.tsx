@@ -1,8 +1,17 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { generateAutomation, chatWithAssistant, generateWorkflowDocs } from '../services/geminiService';
-import { AutomationResult, Platform, AsyncState, AutomationStep, AppView, SavedBlueprint, ChatMessage, WorkflowDocumentation } from '../types';
+import { generateAutomation, chatWithAssistant, generateWorkflowDocs, isAbortError, estimateAutomationCost } from '../services/geminiService';
+import { CostEstimate, formatCost } from '../services/budgetService';
+import { blueprintStore, suggestVersion } from '../services/blueprintService';
+import { ExportFile, getExporter } from '../services/exporters';
+import { toOtlpJson, tracer } from '../utils/tracing';
+import { useAbortController } from '../hooks/useAbortController';
+import { toApiError } from '../utils/errors';
+import { AutomationResult, Platform, AsyncState, AutomationStep, AppView, ChatMessage, WorkflowDocumentation, DeepPartial, SavedBlueprint, BlueprintEdge, StepType } from '../types';
+import { describeEdge, graphIssues, outgoing } from '../utils/blueprintGraph';
 import { Card } from '../components/ui/Card';
+import { ErrorNotice } from '../components/ui/ErrorNotice';
+import { ExportReport } from '../components/ui/ExportReport';
 import { 
   Loader2, 
   Play, 
@@ -32,7 +41,10 @@ import {
   User,
   History,
   FileText,
-  Code2
+  Code2,
+  Activity,
+  GitBranch,
+  Download
 } from 'lucide-react';
 
 interface PlatformConfig {
@@ -149,15 +161,43 @@ const PLATFORMS: PlatformConfig[] = [
   },
 ];
 
-const StepItem: React.FC<{ step: AutomationStep; index: number }> = ({ step, index }) => (
+const STEP_BADGES: Partial<Record<StepType, string>> = {
+  trigger: 'bg-orange-50 text-orange-600 border-orange-100',
+  'error-handler': 'bg-red-50 text-red-600 border-red-100',
+  'human-approval': 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  loop: 'bg-amber-50 text-amber-600 border-amber-100',
+  delay: 'bg-slate-50 text-slate-500 border-slate-200'
+};
+
+const ParameterList: React.FC<{ label: string; params?: DeepPartial<Record<string, string>> }> = ({ label, params }) => {
+  const entries = Object.entries(params || {});
+  if (entries.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3">
+      <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
+      {entries.map(([name, value]) => (
+        <code key={name} className="text-[10px] font-mono bg-slate-50 border border-slate-100 rounded-lg px-2 py-0.5 text-slate-600">{name}: {value}</code>
+      ))}
+    </div>
+  );
+};
+
+const StepItem: React.FC<{ step: DeepPartial<AutomationStep>; index: number; edges?: BlueprintEdge[] }> = ({ step, index, edges = [] }) => (
   <div className="flex gap-10 relative group">
-    <div className={`w-14 h-14 rounded-[1.25rem] flex items-center justify-center shrink-0 font-black text-white shadow-2xl transition-all duration-500 group-hover:scale-110 group-hover:rotate-6 ${step.type === 'trigger' ? 'bg-orange-500 shadow-orange-500/30' : 'bg-indigo-600 shadow-indigo-600/30'}`}>{index + 1}</div>
+    <div className={`w-14 h-14 rounded-[1.25rem] flex items-center justify-center shrink-0 font-black text-white shadow-2xl transition-all duration-500 group-hover:scale-110 group-hover:rotate-6 ${step.type === 'trigger' ? 'bg-orange-500 shadow-orange-500/30' : 'bg-indigo-600 shadow-indigo-600/30'}`}>{step.id ?? index + 1}</div>
     <div className="pt-2 flex-1">
       <div className="flex items-center gap-3 mb-2">
         <h4 className="font-black text-slate-900 text-xl tracking-tight group-hover:text-indigo-600 transition-colors">{step.title}</h4>
-        <span className={`text-[9px] font-black uppercase tracking-[0.2em] px-3 py-1 rounded-full border ${step.type === 'trigger' ? 'bg-orange-50 text-orange-600 border-orange-100' : 'bg-indigo-50 text-indigo-600 border-indigo-100'}`}>{step.type}</span>
+        <span className={`text-[9px] font-black uppercase tracking-[0.2em] px-3 py-1 rounded-full border ${(step.type && STEP_BADGES[step.type]) || 'bg-indigo-50 text-indigo-600 border-indigo-100'}`}>{step.type}</span>
       </div>
       <p className="text-slate-500 text-sm font-semibold leading-relaxed group-hover:text-slate-700">{step.description}</p>
+      <ParameterList label="In" params={step.inputs} />
+      <ParameterList label="Out" params={step.outputs} />
+      {edges.filter(edge => edge.type !== 'next' || edges.length > 1).map((edge, i) => (
+        <div key={i} className="flex items-center gap-2 mt-2 text-[10px] font-bold text-slate-400">
+          <GitBranch size={12} /> {describeEdge(edge)}
+        </div>
+      ))}
     </div>
   </div>
 );
@@ -170,48 +210,144 @@ const AutomationGeneratorView: React.FC<Props> = ({ onBlueprintGenerated, onNavi
   const [touched, setTouched] = useState(false);
   const [state, setState] = useState<AsyncState<AutomationResult>>({ data: null, loading: false, error: null });
   const [docsState, setDocsState] = useState<AsyncState<WorkflowDocumentation>>({ data: null, loading: false, error: null });
+  // Blueprint as it streams in; cleared once the final result lands
+  const [partial, setPartial] = useState<DeepPartial<AutomationResult> | null>(null);
+  const { begin, cancel } = useAbortController();
   const [activeTab, setActiveTab] = useState<'blueprint' | 'docs'>('blueprint');
+  // Trace of the last generation (blueprint + docs), exportable for inspection
+  const [traceId, setTraceId] = useState<string | null>(null);
+  const [exported, setExported] = useState<ExportFile | null>(null);
 
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [saveName, setSaveName] = useState('');
   const [saveVersion, setSaveVersion] = useState('1.0.0');
   const [saveSuccess, setSaveSuccess] = useState(false);
+  // Vault blueprint this save becomes a new revision of; '' starts a new lineage
+  const [lineageId, setLineageId] = useState('');
+  const [lineageHeads, setLineageHeads] = useState<SavedBlueprint[]>([]);
+
+  const graphWarnings = useMemo(() => state.data ? graphIssues(state.data) : [], [state.data]);
 
   const validation = useMemo(() => ({ isValid: description.trim().length >= 20, progress: Math.min(100, (description.trim().length / 20) * 100) }), [description]);
 
+  // Pre-flight cost, recomputed once typing pauses
+  const [estimate, setEstimate] = useState<CostEstimate | null>(null);
+  useEffect(() => {
+    if (!validation.isValid) {
+      setEstimate(null);
+      return;
+    }
+    let current = true;
+    const timer = setTimeout(() => {
+      estimateAutomationCost(selectedPlatform, description)
+        .then(result => { if (current) setEstimate(result); })
+        .catch(() => { if (current) setEstimate(null); });
+    }, 400);
+    return () => { current = false; clearTimeout(timer); };
+  }, [selectedPlatform, description, validation.isValid]);
+
   const handleGenerate = async () => {
     if (!validation.isValid) return;
-    setState({ ...state, loading: true, error: null });
+    const signal = begin();
+    setState({ data: null, loading: true, error: null });
     setDocsState({ data: null, loading: false, error: null });
+    setPartial(null);
+    setExported(null);
     setActiveTab('blueprint');
+    const action = tracer.startSpan('user.generate_blueprint', undefined, { 'blueprint.platform': selectedPlatform });
+    setTraceId(action.context.traceId);
     
     try {
-      const data = await generateAutomation(selectedPlatform, description);
+      const data = await generateAutomation(selectedPlatform, description, { onPartial: setPartial, signal, trace: action.context });
+      setPartial(null);
       setState({ data, loading: false, error: null });
       if (onBlueprintGenerated) onBlueprintGenerated(data);
       
       // Auto-generate documentation in the background
       setDocsState(prev => ({ ...prev, loading: true }));
-      const docs = await generateWorkflowDocs(data);
+      const docs = await generateWorkflowDocs(data, { signal, trace: action.context });
       setDocsState({ data: docs, loading: false, error: null });
+      action.end();
     } catch (err: any) {
-      setState({ data: null, loading: false, error: { message: err.message } });
+      action.end(err);
+      if (isAbortError(err)) return;
+      setPartial(null);
+      setState({ data: null, loading: false, error: toApiError(err) });
       setDocsState({ data: null, loading: false, error: null });
     }
   };
 
-  const handleSaveToVault = () => {
-    if (!state.data || !saveName.trim()) return;
-    const vault = JSON.parse(localStorage.getItem('auto_architect_vault') || '[]');
-    const newSaved: SavedBlueprint = {
-      ...state.data,
-      id: crypto.randomUUID(),
-      name: saveName,
-      version: saveVersion,
-      timestamp: Date.now()
-    };
-    vault.push(newSaved);
-    localStorage.setItem('auto_architect_vault', JSON.stringify(vault));
+  const handleExportTrace = () => {
+    if (!traceId) return;
+    const blob = new Blob([JSON.stringify(toOtlpJson(tracer.getSpans(traceId)), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `trace_${traceId}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportNative = () => {
+    const exporter = state.data && getExporter(state.data.platform);
+    if (!exporter) return;
+    const file = exporter.export(state.data!);
+    setExported(file);
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Cancelling during the docs pass keeps the blueprint that already landed
+  const handleCancel = () => {
+    cancel();
+    setPartial(null);
+    setState(prev => prev.loading ? { data: null, loading: false, error: null } : prev);
+    setDocsState(prev => ({ ...prev, loading: false }));
+  };
+
+  // Vault failures close the modal and surface in the view's error notice
+  const failSave = (err: any) => {
+    setShowSaveModal(false);
+    setState(prev => ({ ...prev, error: toApiError(err) }));
+  };
+
+  const openSaveModal = async () => {
+    setShowSaveModal(true);
+    try {
+      setLineageHeads(await blueprintStore.list());
+    } catch (err: any) {
+      failSave(err);
+    }
+  };
+
+  const handleLineageChange = (id: string) => {
+    setLineageId(id);
+    const head = lineageHeads.find(b => b.id === id);
+    if (head && state.data) {
+      setSaveName(head.name);
+      setSaveVersion(suggestVersion(head, state.data));
+    } else {
+      setSaveVersion('1.0.0');
+    }
+  };
+
+  const handleSaveToVault = async () => {
+    if (!state.data || !saveName.trim() || !saveVersion.trim()) return;
+    const result = { ...state.data, documentation: docsState.data ?? state.data.documentation };
+    try {
+      if (lineageId) {
+        await blueprintStore.commit(lineageId, result, { name: saveName, version: saveVersion });
+      } else {
+        await blueprintStore.create(result, saveName, saveVersion);
+      }
+    } catch (err: any) {
+      failSave(err);
+      return;
+    }
     setSaveSuccess(true);
     setTimeout(() => {
       setShowSaveModal(false);
@@ -298,6 +434,18 @@ const AutomationGeneratorView: React.FC<Props> = ({ onBlueprintGenerated, onNavi
               {state.loading ? <Loader2 className="animate-spin" size={20} /> : <Zap size={20} />}
               <span>{state.loading ? 'Synthesizing...' : 'Architect Automation'}</span>
             </button>
+            {estimate && !state.loading && (
+              <p className={`text-[10px] font-bold uppercase tracking-widest text-center ${estimate.exceedsBudget || estimate.status.level !== 'ok' ? 'text-orange-500' : 'text-slate-400'}`}>
+                Est. up to {formatCost(estimate.cost)} · {estimate.inputTokens.toLocaleString()} in / {estimate.outputTokens.toLocaleString()} out · {estimate.model}
+                {estimate.status.level === 'exceeded' ? ' · Budget reached' : estimate.exceedsBudget ? ' · Exceeds remaining budget' : ''}
+              </p>
+            )}
+            {(state.loading || docsState.loading) && (
+              <button onClick={handleCancel} className="w-full py-4 rounded-3xl font-black uppercase tracking-widest text-[10px] flex items-center justify-center gap-3 bg-slate-50 border border-slate-200 text-slate-500 hover:bg-slate-100 transition-all">
+                <X size={16} /> {state.loading ? 'Cancel Synthesis' : 'Cancel Documentation'}
+              </button>
+            )}
+            {state.error && <ErrorNotice error={state.error} onRetry={handleGenerate} />}
           </div>
         </Card>
       </div>
@@ -325,21 +473,48 @@ const AutomationGeneratorView: React.FC<Props> = ({ onBlueprintGenerated, onNavi
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-10 animate-in">
                 <Card 
                   title="Strategy Manifest" 
-                  subtitle={state.data.platform.toUpperCase()}
+                  subtitle={state.data.prompt ? `${state.data.platform.toUpperCase()} · ${state.data.prompt.id} v${state.data.prompt.version}` : state.data.platform.toUpperCase()}
                   headerAction={
-                    <button 
-                      onClick={() => setShowSaveModal(true)}
-                      className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-[10px] font-black uppercase tracking-widest border border-indigo-100"
-                    >
-                      <Save size={14} /> Save to Vault
-                    </button>
+                    <div className="flex gap-2">
+                      <button 
+                        onClick={handleExportTrace}
+                        disabled={!traceId}
+                        title="Download this generation's trace as OpenTelemetry JSON"
+                        className="flex items-center gap-2 px-4 py-2 bg-slate-50 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-widest border border-slate-100 disabled:opacity-40"
+                      >
+                        <Activity size={14} /> Trace
+                      </button>
+                      {getExporter(state.data.platform) && (
+                        <button 
+                          onClick={handleExportNative}
+                          title={`Download an importable ${getExporter(state.data.platform)!.label}`}
+                          className="flex items-center gap-2 px-4 py-2 bg-slate-50 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-widest border border-slate-100"
+                        >
+                          <Download size={14} /> Export
+                        </button>
+                      )}
+                      <button 
+                        onClick={openSaveModal}
+                        className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-600 rounded-xl text-[10px] font-black uppercase tracking-widest border border-indigo-100"
+                      >
+                        <Save size={14} /> Save to Vault
+                      </button>
+                    </div>
                   }
                 >
                   <div className="mb-10 p-8 bg-indigo-50/30 rounded-[2.5rem] italic text-slate-700 font-semibold leading-relaxed">"{state.data.explanation}"</div>
                   <div className="space-y-12 relative pl-6 mb-8">
                     <div className="absolute left-[41px] top-8 bottom-8 w-1 bg-gradient-to-b from-orange-400 via-indigo-500 to-indigo-50 opacity-10" />
-                    {state.data.steps.map((step, idx) => <StepItem key={step.id} step={step} index={idx} />)}
+                    {state.data.steps.map((step, idx) => <StepItem key={step.id} step={step} index={idx} edges={outgoing(state.data!, step.id)} />)}
                   </div>
+                  {graphWarnings.length > 0 && (
+                    <div className="mb-8 p-5 bg-amber-50 border border-amber-100 rounded-2xl space-y-1">
+                      {graphWarnings.map(issue => (
+                        <div key={issue} className="flex items-center gap-2 text-xs font-bold text-amber-700"><AlertCircle size={14} /> {issue}</div>
+                      ))}
+                    </div>
+                  )}
+                  {exported && <ExportReport file={exported} className="mb-8" />}
                   <div className="grid grid-cols-1 gap-4">
                     <button onClick={() => onNavigate?.(AppView.DEPLOYMENT, state.data!)} className="flex items-center justify-center gap-3 py-5 bg-indigo-600 text-white rounded-2xl font-black text-[11px] uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-500/20"><Rocket size={18} /> Configure for Deployment</button>
                   </div>
@@ -415,6 +590,20 @@ const AutomationGeneratorView: React.FC<Props> = ({ onBlueprintGenerated, onNavi
               </div>
             )}
           </div>
+        ) : state.loading && partial ? (
+          <div className="animate-in">
+            <Card title="Strategy Manifest" subtitle={`${(partial.platform || selectedPlatform).toUpperCase()} · STREAMING`}>
+              {partial.explanation && (
+                <div className="mb-10 p-8 bg-indigo-50/30 rounded-[2.5rem] italic text-slate-700 font-semibold leading-relaxed">"{partial.explanation}"</div>
+              )}
+              <div className="space-y-12 relative pl-6">
+                {(partial.steps || []).filter(step => step?.title).map((step, idx) => <StepItem key={idx} step={step} index={idx} />)}
+                <div className="flex items-center gap-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  <Loader2 className="animate-spin text-indigo-600" size={16} /> Synthesizing next step...
+                </div>
+              </div>
+            </Card>
+          </div>
         ) : (
           <div className="h-full min-h-[600px] border-2 border-dashed border-slate-200 rounded-[4rem] flex flex-col items-center justify-center p-12 text-center bg-white/40">
             <div className="w-24 h-24 bg-indigo-50 text-indigo-200 rounded-[3rem] flex items-center justify-center mb-10 border border-indigo-100"><Zap size={48} /></div>
@@ -435,7 +624,17 @@ const AutomationGeneratorView: React.FC<Props> = ({ onBlueprintGenerated, onNavi
             <div className="space-y-6">
               {saveSuccess ? <div className="text-center font-black text-emerald-600 py-8">Archived!</div> : (
                 <>
+                  <select value={lineageId} onChange={(e) => handleLineageChange(e.target.value)} className="w-full bg-slate-50 border rounded-2xl px-6 py-4 font-bold text-sm">
+                    <option value="">New blueprint</option>
+                    {lineageHeads.map(b => (
+                      <option key={b.id} value={b.id}>New revision of {b.name} (v{b.version})</option>
+                    ))}
+                  </select>
                   <input type="text" value={saveName} onChange={(e) => setSaveName(e.target.value)} placeholder="Blueprint Name..." className="w-full bg-slate-50 border rounded-2xl px-6 py-4" />
+                  <div>
+                    <input type="text" value={saveVersion} onChange={(e) => setSaveVersion(e.target.value)} placeholder="Version" className="w-full bg-slate-50 border rounded-2xl px-6 py-4 font-mono" />
+                    {lineageId && <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-2 ml-2">Suggested from structural changes since the current revision</p>}
+                  </div>
                   <button onClick={handleSaveToVault} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black uppercase">Confirm Persist</button>
                 </>
               )}
@@ -1,14 +1,18 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { chatWithAssistant, resetChat } from '../services/geminiService';
+import { chatWithAssistant, resetChat, isAbortError } from '../services/geminiService';
+import { useAbortController } from '../hooks/useAbortController';
 import { ChatMessage } from '../types';
 import { Card } from '../components/ui/Card';
-import { Send, User, Sparkles, Loader2, Bot, Trash2, RefreshCw } from 'lucide-react';
+import { Send, User, Sparkles, Loader2, Bot, Trash2, RefreshCw, X } from 'lucide-react';
 
 const ChatbotView: React.FC = () => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  // True once the first tokens of the reply have arrived
+  const [streaming, setStreaming] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const { begin, cancel } = useAbortController();
 
   const MAX_HISTORY = 30;
 
@@ -33,16 +37,24 @@ const ChatbotView: React.FC = () => {
     setInput('');
     setLoading(true);
 
+    const signal = begin();
+    const assistantId = `a-${Date.now()}`;
+    const upsertAssistant = (content: string) => setMessages(prev => prev.some(m => m.id === assistantId)
+      ? prev.map(m => m.id === assistantId ? { ...m, content } : m)
+      : [...prev, { id: assistantId, role: 'model' as const, content, timestamp: Date.now() }].slice(-MAX_HISTORY));
+
     try {
-      const response = await chatWithAssistant(trimmedInput);
-      const assistantMessage: ChatMessage = {
-        id: `a-${Date.now()}`,
-        role: 'model',
-        content: response,
-        timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, assistantMessage].slice(-MAX_HISTORY));
+      const response = await chatWithAssistant(trimmedInput, {
+        signal,
+        onPartial: (text) => {
+          setStreaming(true);
+          upsertAssistant(text);
+        }
+      });
+      upsertAssistant(response);
     } catch (err: any) {
+      // Whatever streamed before the cancel stays in the thread
+      if (isAbortError(err)) return;
       setMessages(prev => [...prev, {
         id: `e-${Date.now()}`,
         role: 'model',
@@ -51,6 +63,7 @@ const ChatbotView: React.FC = () => {
       }]);
     } finally {
       setLoading(false);
+      setStreaming(false);
     }
   };
 
@@ -112,7 +125,7 @@ const ChatbotView: React.FC = () => {
             </div>
           ))}
 
-          {loading && (
+          {loading && !streaming && (
             <div className="flex justify-start">
               <div className="bg-white border border-slate-100 p-6 rounded-[2.5rem] rounded-tl-none shadow-lg flex items-center gap-5">
                 <div className="flex gap-1.5">
@@ -138,11 +151,17 @@ const ChatbotView: React.FC = () => {
               className="flex-1 bg-slate-50 border border-slate-100 rounded-[2rem] px-8 py-5 text-sm font-semibold focus:ring-4 focus:ring-indigo-500/10 focus:bg-white focus:border-indigo-500 outline-none transition-all pr-20 disabled:opacity-50"
             />
             <button
-              onClick={handleSend}
-              disabled={!input.trim() || loading}
-              className={`absolute right-2 top-2 bottom-2 bg-indigo-600 text-white px-6 rounded-2xl hover:bg-indigo-700 disabled:bg-slate-100 disabled:text-slate-300 transition-all shadow-xl shadow-indigo-500/30 active:scale-95 flex items-center justify-center ${loading ? 'cursor-not-allowed' : 'hover-lift'}`}
+              onClick={loading ? cancel : handleSend}
+              disabled={!input.trim() && !loading}
+              title={loading ? 'Cancel response' : 'Send'}
+              className={`absolute right-2 top-2 bottom-2 text-white px-6 rounded-2xl disabled:bg-slate-100 disabled:text-slate-300 transition-all shadow-xl active:scale-95 flex items-center justify-center group/send ${loading ? 'bg-slate-500 hover:bg-slate-600 shadow-slate-500/30' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-500/30 hover-lift'}`}
             >
-              {loading ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} />}
+              {loading ? (
+                <>
+                  <Loader2 size={20} className="animate-spin group-hover/send:hidden" />
+                  <X size={20} className="hidden group-hover/send:block" />
+                </>
+              ) : <Send size={20} />}
             </button>
           </div>
           <div className="flex justify-center mt-5">
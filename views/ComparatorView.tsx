@@ -1,8 +1,12 @@
 
 import React, { useState } from 'react';
-import { benchmarkPlatforms } from '../services/geminiService';
-import { ComparisonResult, Platform, AsyncState, SavedBlueprint } from '../types';
+import { benchmarkPlatforms, isAbortError } from '../services/geminiService';
+import { useAbortController } from '../hooks/useAbortController';
+import { toApiError } from '../utils/errors';
+import { blueprintStore } from '../services/blueprintService';
+import { ComparisonResult, Platform, AsyncState, AutomationResult } from '../types';
 import { Card } from '../components/ui/Card';
+import { ErrorNotice } from '../components/ui/ErrorNotice';
 import { Scale, Zap, Loader2, ArrowRight, ShieldCheck, AlertCircle, TrendingUp, Terminal, Save, CheckCircle2, X } from 'lucide-react';
 
 const ComparatorView: React.FC = () => {
@@ -11,37 +15,43 @@ const ComparatorView: React.FC = () => {
   const [state, setState] = useState<AsyncState<ComparisonResult>>({ data: null, loading: false, error: null });
   
   // Save State
-  const [saveTarget, setSaveTarget] = useState<{ p: any, name: string } | null>(null);
+  const [saveTarget, setSaveTarget] = useState<{ p: ComparisonResult['platforms'][number], name: string } | null>(null);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const { begin, cancel } = useAbortController();
 
   const handleBenchmark = async () => {
     if (!description.trim() || state.loading) return;
+    const signal = begin();
     setState({ data: null, loading: true, error: null });
     try {
-      const data = await benchmarkPlatforms(description, selectedPlatforms);
+      const data = await benchmarkPlatforms(description, selectedPlatforms, { signal });
       setState({ data, loading: false, error: null });
     } catch (err: any) {
-      setState({ data: null, loading: false, error: { message: err.message } });
+      if (isAbortError(err)) return;
+      setState({ data: null, loading: false, error: toApiError(err) });
     }
   };
 
-  const handleSaveResult = (p: any) => {
-    const vault = JSON.parse(localStorage.getItem('auto_architect_vault') || '[]');
-    const newSaved: SavedBlueprint = {
+  const handleCancel = () => {
+    cancel();
+    setState({ data: null, loading: false, error: null });
+  };
+
+  const handleSaveResult = async (p: ComparisonResult['platforms'][number]) => {
+    const result: AutomationResult = {
       platform: p.platform as Platform,
       explanation: `Benchmarked: ${state.data?.task}`,
       codeSnippet: p.config,
-      steps: [{ id: 1, title: 'Implementation', description: p.pros.join('. '), type: 'logic' }],
-      id: crypto.randomUUID(),
-      name: `Benchmark - ${p.platform.toUpperCase()}`,
-      version: '1.0.0',
-      timestamp: Date.now()
+      steps: [{ id: 1, title: 'Implementation', description: p.pros.join('. '), type: 'logic' }]
     };
-    
-    vault.push(newSaved);
-    localStorage.setItem('auto_architect_vault', JSON.stringify(vault));
-    setSaveSuccess(true);
-    setTimeout(() => setSaveSuccess(false), 2000);
+
+    try {
+      await blueprintStore.create(result, `Benchmark - ${p.platform.toUpperCase()}`, '1.0.0');
+      setSaveSuccess(true);
+      setTimeout(() => setSaveSuccess(false), 2000);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: toApiError(err) }));
+    }
   };
 
   return (
@@ -60,6 +70,12 @@ const ComparatorView: React.FC = () => {
                 {state.loading ? <Loader2 className="animate-spin" /> : <Scale size={18} />}
                 {state.loading ? 'Analyzing...' : 'Execute Benchmark'}
               </button>
+              {state.loading && (
+                <button onClick={handleCancel} className="w-full py-3 bg-slate-50 border border-slate-200 text-slate-500 rounded-2xl font-black uppercase tracking-widest text-[10px] flex items-center justify-center gap-2 hover:bg-slate-100 transition-all">
+                  <X size={14} /> Cancel
+                </button>
+              )}
+              {state.error && <ErrorNotice error={state.error} title="Benchmark Fault" onRetry={handleBenchmark} />}
             </div>
           </Card>
         </div>
@@ -1,8 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { identifySecrets } from '../services/geminiService';
+import { identifySecrets, isAbortError } from '../services/geminiService';
+import { ExportFile, getExporter } from '../services/exporters';
+import { useAbortController } from '../hooks/useAbortController';
+import { toApiError } from '../utils/errors';
 import { AutomationResult, DeploymentConfig, AsyncState, PipelineStage } from '../types';
 import { Card } from '../components/ui/Card';
+import { ErrorNotice } from '../components/ui/ErrorNotice';
+import { ExportReport } from '../components/ui/ExportReport';
 import { 
   Rocket, 
   Terminal, 
@@ -21,7 +26,8 @@ import {
   Play,
   Activity,
   Box,
-  Server
+  Server,
+  X
 } from 'lucide-react';
 
 interface Props { activeBlueprint: AutomationResult | null; }
@@ -30,21 +36,52 @@ const DeploymentHubView: React.FC<Props> = ({ activeBlueprint }) => {
   const [configState, setConfigState] = useState<AsyncState<DeploymentConfig>>({ data: null, loading: false, error: null });
   const [envVars, setEnvVars] = useState<Record<string, string>>({});
   const [activeFormat, setActiveFormat] = useState<string>('');
+  const [exported, setExported] = useState<ExportFile | null>(null);
+  const { begin, cancel } = useAbortController();
+  const exporter = activeBlueprint ? getExporter(activeBlueprint.platform) : undefined;
   
   const fetchConfig = async () => {
     if (!activeBlueprint) return;
+    // Switching blueprints supersedes the previous scan
+    const signal = begin();
     setConfigState({ data: null, loading: true, error: null });
+    setExported(null);
     try {
-      const data = await identifySecrets(activeBlueprint);
+      const data = await identifySecrets(activeBlueprint, { signal });
       setConfigState({ data, loading: false, error: null });
-      if (data.exportFormats.length > 0) setActiveFormat(data.exportFormats[0]);
+      setActiveFormat(exporter?.label ?? data.exportFormats[0] ?? '');
     } catch (err: any) {
-      setConfigState({ data: null, loading: false, error: { message: err.message } });
+      if (isAbortError(err)) return;
+      setConfigState({ data: null, loading: false, error: toApiError(err) });
     }
   };
 
+  const handleCancel = () => {
+    cancel();
+    setConfigState({ data: null, loading: false, error: null });
+  };
+
   useEffect(() => { fetchConfig(); }, [activeBlueprint]);
 
+  // Native exporters are listed alongside the formats the scan suggests
+  const formats = configState.data
+    ? [...(exporter ? [exporter.label] : []), ...configState.data.exportFormats.filter(format => format !== exporter?.label)]
+    : [];
+  const canDownload = !!exporter && activeFormat === exporter.label;
+
+  // Credential placeholders are named after the scanned secrets
+  const handleDownload = () => {
+    if (!activeBlueprint || !exporter || !canDownload) return;
+    const file = exporter.export(activeBlueprint, { secrets: configState.data?.secrets });
+    setExported(file);
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   if (!activeBlueprint) {
     return (
       <div className="h-full flex flex-col items-center justify-center text-center p-12">
@@ -60,6 +97,20 @@ const DeploymentHubView: React.FC<Props> = ({ activeBlueprint }) => {
         <div className="h-[400px] flex flex-col items-center justify-center bg-white border border-slate-100 rounded-[3rem]">
            <Loader2 className="animate-spin text-indigo-600 mb-6" size={48} />
            <p className="text-xl font-black text-slate-900 uppercase tracking-widest">Identifying Deployment Paths</p>
+           <button onClick={handleCancel} className="mt-8 px-6 py-3 bg-slate-50 border border-slate-200 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition-all flex items-center gap-2">
+             <X size={14} /> Cancel
+           </button>
+        </div>
+      )}
+
+      {configState.error && <ErrorNotice error={configState.error} title="Deployment Scan Fault" onRetry={fetchConfig} />}
+
+      {!configState.loading && !configState.data && !configState.error && (
+        <div className="h-[300px] flex flex-col items-center justify-center bg-white border border-slate-100 rounded-[3rem]">
+           <p className="text-sm font-black text-slate-400 uppercase tracking-widest mb-6">Scan Cancelled</p>
+           <button onClick={fetchConfig} className="px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2">
+             <RefreshCw size={14} /> Scan Again
+           </button>
         </div>
       )}
 
@@ -84,10 +135,29 @@ const DeploymentHubView: React.FC<Props> = ({ activeBlueprint }) => {
                 ))}
                 <div className="p-6 bg-[#0a0b0e] rounded-[2rem] text-white space-y-4">
                   <h4 className="text-[10px] font-black uppercase tracking-widest text-indigo-400">Readiness: {configState.data.readinessCheck}</h4>
-                  <button className="w-full py-4 bg-indigo-600 text-white rounded-xl font-black uppercase tracking-widest text-[10px] hover:bg-indigo-700 transition-all flex items-center justify-center gap-2 shadow-lg shadow-indigo-500/20">
+                  {formats.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {formats.map(format => (
+                        <button
+                          key={format}
+                          onClick={() => setActiveFormat(format)}
+                          className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all ${activeFormat === format ? 'bg-indigo-500/20 border-indigo-400 text-indigo-200' : 'border-white/10 text-slate-400 hover:text-white'}`}
+                        >
+                          {format === exporter?.label && <Box size={10} className="inline mr-1" />}{format}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <button
+                    onClick={handleDownload}
+                    disabled={!canDownload}
+                    title={canDownload ? undefined : 'Only native platform formats can be generated locally'}
+                    className="w-full py-4 bg-indigo-600 text-white rounded-xl font-black uppercase tracking-widest text-[10px] hover:bg-indigo-700 transition-all flex items-center justify-center gap-2 shadow-lg shadow-indigo-500/20 disabled:opacity-40"
+                  >
                     <Download size={14} /> Download Bundle
                   </button>
                 </div>
+                {exported && <ExportReport file={exported} />}
               </div>
             </Card>
           </div>
@@ -1,6 +1,7 @@
 
 import React, { useState } from 'react';
-import { analyzeImage } from '../services/geminiService';
+import { analyzeImage, isAbortError } from '../services/geminiService';
+import { useAbortController } from '../hooks/useAbortController';
 import { Upload, Image as ImageIcon, Loader2, Search, X, AlertCircle, Link as LinkIcon, Globe } from 'lucide-react';
 
 const ImageAnalysisView: React.FC = () => {
@@ -12,6 +13,7 @@ const ImageAnalysisView: React.FC = () => {
   const [fetching, setFetching] = useState(false);
   const [result, setResult] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const { begin, cancel } = useAbortController();
 
   const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
@@ -76,12 +78,14 @@ const ImageAnalysisView: React.FC = () => {
 
   const handleAnalyze = async () => {
     if (!image) return;
+    const signal = begin();
     setLoading(true);
     setError(null);
     try {
-      const res = await analyzeImage(image, prompt, mimeType);
+      const res = await analyzeImage(image, prompt, mimeType, { signal });
       setResult(res);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
       setError(err.message || 'Analysis failed. Please try again.');
     } finally {
@@ -196,6 +200,14 @@ const ImageAnalysisView: React.FC = () => {
                 {loading ? <Loader2 className="animate-spin" size={18} /> : <Search size={18} />}
                 {loading ? 'Synthesizing Visual Data...' : 'Start Vision Analysis'}
               </button>
+              {loading && (
+                <button
+                  onClick={cancel}
+                  className="w-full bg-gray-100 text-gray-500 py-3 rounded-xl font-black uppercase tracking-widest text-[10px] hover:bg-gray-200 transition-all flex items-center justify-center gap-2"
+                >
+                  <X size={14} /> Cancel Analysis
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -1,6 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
-import { simulateAutomation } from '../services/geminiService';
+import { simulateAutomation, isAbortError } from '../services/geminiService';
+import { compareSimulations, getConnectorFixtures, runLocalSimulation, saveConnectorFixtures } from '../services/sandboxService';
+import { useAbortController } from '../hooks/useAbortController';
+import { toApiError } from '../utils/errors';
 import { AutomationResult, SimulationResponse, AsyncState } from '../types';
 import { Card } from '../components/ui/Card';
 import { 
@@ -17,13 +20,99 @@ import {
   ArrowRightCircle,
   Bug,
   Zap,
-  Cpu
+  Cpu,
+  X,
+  Sparkles,
+  Columns,
+  Plug
 } from 'lucide-react';
 
 interface LogicSandboxViewProps {
   activeBlueprint: AutomationResult | null;
 }
 
+const STATUS_ICON_STYLES = { success: 'bg-emerald-500', failure: 'bg-red-500', skipped: 'bg-slate-400' };
+
+const STATUS_BADGE_STYLES = {
+  success: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  failure: 'bg-red-50 text-red-600 border-red-100',
+  skipped: 'bg-slate-50 text-slate-500 border-slate-100'
+};
+
+const TraceCard: React.FC<{ title: string; trace: SimulationResponse; compact?: boolean }> = ({ title, trace, compact = false }) => (
+  <Card 
+    title={title} 
+    subtitle={`Final Protocol Status: ${trace.overallStatus.toUpperCase()}`}
+    headerAction={
+      <span className={`px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest flex items-center gap-2 border ${
+        trace.overallStatus === 'success' ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-red-50 text-red-700 border-red-100'
+      }`}>
+        {trace.overallStatus === 'success' ? <CheckCircle2 size={14} /> : <XCircle size={14} />}
+        {trace.overallStatus}
+      </span>
+    }
+  >
+    <div className={`${compact ? 'mb-6 p-5' : 'mb-10 p-8'} bg-slate-50/50 rounded-[2.5rem] border border-slate-100/50 italic text-slate-600 font-semibold leading-relaxed text-sm`}>
+      "{trace.summary}"
+    </div>
+
+    <div className="space-y-6 relative pl-6">
+      <div className="absolute left-[34px] top-6 bottom-6 w-1 bg-slate-100 rounded-full" />
+      {trace.stepResults.map((step, idx) => (
+        <div key={idx} className={`group relative bg-white border border-slate-100 ${compact ? 'p-5' : 'p-8'} rounded-[2.5rem] hover:shadow-2xl transition-all duration-500 hover:-translate-y-1`}>
+          <div className={`flex items-start ${compact ? 'gap-4' : 'gap-8'}`}>
+            <div className={`w-10 h-10 rounded-2xl flex items-center justify-center shrink-0 text-white shadow-lg transition-transform group-hover:scale-110 ${STATUS_ICON_STYLES[step.status]}`}>
+              {step.status === 'success' ? <CheckCircle2 size={20} /> : step.status === 'failure' ? <XCircle size={20} /> : <ArrowRightCircle size={20} />}
+            </div>
+            <div className="flex-1 space-y-4 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <h4 className="font-black text-slate-900 text-lg tracking-tight">Step {step.stepId} Node Verification</h4>
+                <span className={`text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full border ${STATUS_BADGE_STYLES[step.status]}`}>
+                  {step.status}
+                </span>
+              </div>
+              <p className="text-sm text-slate-500 font-semibold leading-relaxed group-hover:text-slate-800 transition-colors">
+                {step.reasoning}
+              </p>
+              {step.output && (
+                <div className="bg-[#0b0c10] p-6 rounded-[2rem] border border-white/5 shadow-inner">
+                   <div className="text-[9px] font-black text-white/30 uppercase tracking-[0.2em] mb-3 flex items-center gap-2">
+                     <Terminal size={12} className="text-indigo-400" /> Trace State Output
+                   </div>
+                   <pre className="text-[11px] text-emerald-400 font-mono overflow-x-auto custom-scrollbar whitespace-pre-wrap leading-relaxed">
+                     {step.output}
+                   </pre>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  </Card>
+);
+
+const ComparisonCard: React.FC<{ local: SimulationResponse; ai: SimulationResponse }> = ({ local, ai }) => {
+  const rows = compareSimulations(local, ai);
+  const disagreements = rows.filter(row => !row.agrees).length;
+  return (
+    <Card title="Local vs AI" subtitle={disagreements === 0 ? 'Traces agree on every step' : `${disagreements} step${disagreements === 1 ? '' : 's'} differ`}>
+      <div className="space-y-2">
+        {rows.map(row => (
+          <div key={row.stepId} className={`flex items-center gap-4 p-3 rounded-2xl border text-xs font-bold ${row.agrees ? 'border-slate-100' : 'border-amber-200 bg-amber-50/50'}`}>
+            <span className="w-16 text-slate-700">Step {row.stepId}</span>
+            {[row.local, row.ai].map((result, i) => (
+              <span key={i} className={`flex-1 text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full border text-center ${result ? STATUS_BADGE_STYLES[result.status] : 'border-dashed border-slate-200 text-slate-300'}`}>
+                {i === 0 ? 'Local' : 'AI'}: {result?.status ?? 'not reported'}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
 const LogicSandboxView: React.FC<LogicSandboxViewProps> = ({ activeBlueprint }) => {
   const [inputData, setInputData] = useState<string>(JSON.stringify({
     event: "new_payment",
@@ -37,11 +126,18 @@ const LogicSandboxView: React.FC<LogicSandboxViewProps> = ({ activeBlueprint })
   }, null, 2));
 
   const [automationSpec, setAutomationSpec] = useState<string>('');
+  // AI dry run and local interpreter run; both may be shown side by side
   const [simState, setSimState] = useState<AsyncState<SimulationResponse>>({
     data: null,
     loading: false,
     error: null
   });
+  const [localState, setLocalState] = useState<AsyncState<SimulationResponse>>({ data: null, loading: false, error: null });
+  const [connectorMocks, setConnectorMocks] = useState('[]');
+  const [mocksOpen, setMocksOpen] = useState(false);
+  const [mocksError, setMocksError] = useState<string | null>(null);
+  const { begin, cancel } = useAbortController();
+  const loading = simState.loading || localState.loading;
 
   useEffect(() => {
     if (activeBlueprint) {
@@ -49,38 +145,62 @@ const LogicSandboxView: React.FC<LogicSandboxViewProps> = ({ activeBlueprint })
     }
   }, [activeBlueprint]);
 
-  const handleSimulate = async () => {
-    let targetBlueprint: AutomationResult;
+  useEffect(() => {
+    getConnectorFixtures().then(fixtures => setConnectorMocks(JSON.stringify(fixtures, null, 2)));
+  }, []);
 
-    if (activeBlueprint) {
-      targetBlueprint = activeBlueprint;
-    } else {
-      if (!automationSpec.trim()) {
-        setSimState(prev => ({ ...prev, error: { message: "Please provide an automation blueprint or description first." } }));
-        return;
-      }
-      try {
-        // Attempt to parse manually entered blueprint if JSON, otherwise mock
-        targetBlueprint = JSON.parse(automationSpec);
-      } catch (e) {
-        // Fallback for text descriptions in sandbox
-        targetBlueprint = {
-          platform: 'zapier',
-          explanation: 'Simulated from manual sandbox input',
-          steps: [
-            { id: 1, title: 'Input Parse', description: automationSpec, type: 'trigger' },
-            { id: 2, title: 'Logic Simulation', description: 'Heuristic evaluation of requirements', type: 'logic' }
-          ]
-        };
-      }
+  const resolveBlueprint = (): AutomationResult | null => {
+    if (activeBlueprint) return activeBlueprint;
+    if (!automationSpec.trim()) return null;
+    try {
+      // Attempt to parse manually entered blueprint if JSON, otherwise mock
+      return JSON.parse(automationSpec);
+    } catch (e) {
+      // Fallback for text descriptions in sandbox
+      return {
+        platform: 'zapier',
+        explanation: 'Simulated from manual sandbox input',
+        steps: [
+          { id: 1, title: 'Input Parse', description: automationSpec, type: 'trigger' },
+          { id: 2, title: 'Logic Simulation', description: 'Heuristic evaluation of requirements', type: 'logic' }
+        ]
+      };
+    }
+  };
+
+  const run = async (engine: 'local' | 'ai') => {
+    const setState = engine === 'local' ? setLocalState : setSimState;
+    const targetBlueprint = resolveBlueprint();
+    if (!targetBlueprint) {
+      setState(prev => ({ ...prev, error: { message: "Please provide an automation blueprint or description first." } }));
+      return;
+    }
+
+    const signal = begin();
+    setState({ data: null, loading: true, error: null });
+    try {
+      const result = engine === 'local'
+        ? await runLocalSimulation(targetBlueprint, inputData, { signal })
+        : await simulateAutomation(targetBlueprint, inputData, { signal });
+      setState({ data: result, loading: false, error: null });
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      setState({ data: null, loading: false, error: toApiError(err) });
     }
+  };
+
+  const handleCancel = () => {
+    cancel();
+    setSimState(prev => prev.loading ? { data: null, loading: false, error: null } : prev);
+    setLocalState(prev => prev.loading ? { data: null, loading: false, error: null } : prev);
+  };
 
-    setSimState({ data: null, loading: true, error: null });
+  const handleSaveMocks = async () => {
     try {
-      const result = await simulateAutomation(targetBlueprint, inputData);
-      setSimState({ data: result, loading: false, error: null });
+      await saveConnectorFixtures(JSON.parse(connectorMocks));
+      setMocksError(null);
     } catch (err: any) {
-      setSimState({ data: null, loading: false, error: { message: err.message } });
+      setMocksError(err instanceof SyntaxError ? 'Connector mocks are not valid JSON.' : err.message);
     }
   };
 
@@ -127,25 +247,67 @@ const LogicSandboxView: React.FC<LogicSandboxViewProps> = ({ activeBlueprint })
               </div>
             </div>
 
+            <div className="space-y-3">
+              <button
+                onClick={() => setMocksOpen(open => !open)}
+                className="text-[10px] font-black text-gray-400 uppercase tracking-widest flex items-center gap-2 hover:text-indigo-500 transition-colors"
+              >
+                <Plug size={14} className="text-indigo-400" />
+                Connector Mocks {mocksOpen ? '−' : '+'}
+              </button>
+              {mocksOpen && (
+                <div className="space-y-3 animate-in">
+                  <p className="text-[10px] text-gray-400 font-semibold leading-relaxed">
+                    {'[{ "app": "stripe", "keywords": ["stripe"], "response": { "charge": "{{params.amount}}" } }]'} - matched by <code>inputs.app</code> or step title; built-in Slack, email, sheets, LLM and HTTP mocks apply otherwise.
+                  </p>
+                  <textarea
+                    value={connectorMocks}
+                    onChange={(e) => setConnectorMocks(e.target.value)}
+                    className="w-full h-32 bg-gray-50 border border-gray-100 rounded-3xl p-5 text-xs font-mono focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all"
+                  />
+                  <button onClick={handleSaveMocks} className="px-4 py-2 bg-white border border-gray-100 rounded-xl text-[10px] font-black uppercase tracking-widest text-gray-600 hover:bg-gray-50 transition-all">
+                    Save Mocks
+                  </button>
+                  {mocksError && <p className="text-[10px] font-bold text-red-600">{mocksError}</p>}
+                </div>
+              )}
+            </div>
+
             <button
-              onClick={handleSimulate}
-              disabled={simState.loading}
+              onClick={() => run('local')}
+              disabled={loading}
               className={`w-full py-5 rounded-2xl font-black uppercase tracking-[0.2em] text-[11px] flex items-center justify-center gap-3 transition-all duration-300 ${
-                simState.loading 
+                loading 
                   ? 'bg-gray-100 text-gray-400 cursor-not-allowed' 
                   : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-xl shadow-indigo-500/30 active:scale-95'
               }`}
             >
-              {simState.loading ? <Loader2 className="animate-spin" size={18} /> : <Play size={18} fill="currentColor" />}
-              {simState.loading ? 'Running Trace...' : 'Execute Logic Simulation'}
+              {localState.loading ? <Loader2 className="animate-spin" size={18} /> : <Play size={18} fill="currentColor" />}
+              {localState.loading ? 'Running Trace...' : 'Execute Locally'}
             </button>
+            <button
+              onClick={() => run('ai')}
+              disabled={loading}
+              className="w-full py-4 rounded-2xl font-black uppercase tracking-[0.2em] text-[10px] flex items-center justify-center gap-3 transition-all bg-white border border-indigo-100 text-indigo-600 hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {simState.loading ? <Loader2 className="animate-spin" size={16} /> : <Sparkles size={16} />}
+              {simState.loading ? 'Simulating...' : 'AI Simulation'}
+            </button>
+            {loading && (
+              <button
+                onClick={handleCancel}
+                className="w-full py-3 rounded-2xl font-black uppercase tracking-[0.2em] text-[10px] flex items-center justify-center gap-2 bg-gray-50 border border-gray-100 text-gray-500 hover:bg-gray-100 transition-all"
+              >
+                <X size={14} /> Abort Trace
+              </button>
+            )}
             
-            {simState.error && (
-              <div className="p-5 bg-red-50 border border-red-100 rounded-3xl text-[10px] font-bold text-red-600 flex items-center gap-3 animate-in">
+            {[localState.error, simState.error].map((error, i) => error && (
+              <div key={i} className="p-5 bg-red-50 border border-red-100 rounded-3xl text-[10px] font-bold text-red-600 flex items-center gap-3 animate-in">
                 <AlertTriangle size={18} />
-                {simState.error.message}
+                {i === 0 ? 'Local run' : 'AI simulation'}: {error.message}
               </div>
-            )}
+            ))}
           </div>
         </Card>
 
@@ -156,7 +318,7 @@ const LogicSandboxView: React.FC<LogicSandboxViewProps> = ({ activeBlueprint })
            <div className="space-y-1">
              <h5 className="text-[10px] font-black text-indigo-900 uppercase tracking-widest">Edge Case Engine</h5>
              <p className="text-[11px] text-indigo-700 font-medium leading-relaxed opacity-80">
-               Automatically detects type mismatches and potential logic loops within your synthesized branches.
+               Execute Locally runs the blueprint graph in a worker with mock connectors and real JS/JSONata transforms. It is deterministic and free; compare it with the AI dry run to spot reasoning drift.
              </p>
            </div>
         </div>
@@ -164,7 +326,7 @@ const LogicSandboxView: React.FC<LogicSandboxViewProps> = ({ activeBlueprint })
 
       {/* Simulation Output */}
       <div className="xl:col-span-7 space-y-6">
-        {!simState.data && !simState.loading && (
+        {!simState.data && !localState.data && !loading && (
           <div className="h-[700px] border-2 border-dashed border-slate-200 rounded-[4rem] flex flex-col items-center justify-center p-12 text-center bg-white/40">
             <div className="w-24 h-24 bg-slate-50 text-slate-200 rounded-[3rem] flex items-center justify-center mb-10 border border-slate-100">
               <FlaskConical size={48} />
@@ -174,7 +336,7 @@ const LogicSandboxView: React.FC<LogicSandboxViewProps> = ({ activeBlueprint })
           </div>
         )}
 
-        {simState.loading && (
+        {loading && (
           <div className="h-[700px] bg-white border border-slate-100 rounded-[4rem] flex flex-col items-center justify-center relative overflow-hidden shadow-2xl shadow-slate-200/50">
              <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-indigo-50/40 via-transparent to-transparent animate-pulse-soft" />
              <div className="relative flex flex-col items-center z-10 text-center">
@@ -192,60 +354,22 @@ const LogicSandboxView: React.FC<LogicSandboxViewProps> = ({ activeBlueprint })
           </div>
         )}
 
-        {simState.data && (
+        {!loading && (simState.data || localState.data) && (
           <div className="space-y-8 animate-in fade-in slide-in-from-right-8 duration-700">
-            <Card 
-              title="Execution Trace" 
-              subtitle={`Final Protocol Status: ${simState.data.overallStatus.toUpperCase()}`}
-              headerAction={
-                <span className={`px-5 py-2 rounded-full text-[10px] font-black uppercase tracking-widest flex items-center gap-2 border ${
-                  simState.data.overallStatus === 'success' ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-red-50 text-red-700 border-red-100'
-                }`}>
-                  {simState.data.overallStatus === 'success' ? <CheckCircle2 size={14} /> : <XCircle size={14} />}
-                  {simState.data.overallStatus}
-                </span>
-              }
-            >
-              <div className="mb-10 p-8 bg-slate-50/50 rounded-[2.5rem] border border-slate-100/50 italic text-slate-600 font-semibold leading-relaxed text-sm">
-                "{simState.data.summary}"
-              </div>
-
-              <div className="space-y-6 relative pl-6">
-                <div className="absolute left-[34px] top-6 bottom-6 w-1 bg-slate-100 rounded-full" />
-                {simState.data.stepResults.map((step, idx) => (
-                  <div key={idx} className="group relative bg-white border border-slate-100 p-8 rounded-[2.5rem] hover:shadow-2xl transition-all duration-500 hover:-translate-y-1">
-                    <div className="flex items-start gap-8">
-                      <div className={`w-10 h-10 rounded-2xl flex items-center justify-center shrink-0 text-white shadow-lg transition-transform group-hover:scale-110 ${
-                        step.status === 'success' ? 'bg-emerald-500' : step.status === 'failure' ? 'bg-red-500' : 'bg-slate-400'
-                      }`}>
-                        {step.status === 'success' ? <CheckCircle2 size={20} /> : step.status === 'failure' ? <XCircle size={20} /> : <ArrowRightCircle size={20} />}
-                      </div>
-                      <div className="flex-1 space-y-4">
-                        <div className="flex items-center justify-between">
-                          <h4 className="font-black text-slate-900 text-lg tracking-tight">Step {step.stepId} Node Verification</h4>
-                          <span className={`text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full border ${
-                            step.status === 'success' ? 'bg-emerald-50 text-emerald-600 border-emerald-100' : 'bg-red-50 text-red-600 border-red-100'
-                          }`}>
-                            {step.status}
-                          </span>
-                        </div>
-                        <p className="text-sm text-slate-500 font-semibold leading-relaxed group-hover:text-slate-800 transition-colors">
-                          {step.reasoning}
-                        </p>
-                        <div className="bg-[#0b0c10] p-6 rounded-[2rem] border border-white/5 shadow-inner">
-                           <div className="text-[9px] font-black text-white/30 uppercase tracking-[0.2em] mb-3 flex items-center gap-2">
-                             <Terminal size={12} className="text-indigo-400" /> Trace State Output
-                           </div>
-                           <pre className="text-[11px] text-emerald-400 font-mono overflow-x-auto custom-scrollbar whitespace-pre-wrap leading-relaxed">
-                             {step.output}
-                           </pre>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </Card>
+            {simState.data && localState.data ? (
+              <>
+                <ComparisonCard local={localState.data} ai={simState.data} />
+                <div className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  <Columns size={14} /> Side by side
+                </div>
+                <div className="grid grid-cols-1 2xl:grid-cols-2 gap-6">
+                  <TraceCard title="Local Execution" trace={localState.data} compact />
+                  <TraceCard title="AI Simulation" trace={simState.data} compact />
+                </div>
+              </>
+            ) : (
+              <TraceCard title={localState.data ? 'Local Execution' : 'Execution Trace'} trace={(localState.data ?? simState.data)!} />
+            )}
           </div>
         )}
       </div>
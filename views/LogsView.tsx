@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card } from '../components/ui/Card';
+import { LogRecord } from '../services/storageService';
+import { LogSettings, getLogSettings, installLogSinks, logStore, saveLogSettings } from '../services/logStoreService';
+import { LOG_LEVELS, LogLevel, logger } from '../utils/logger';
+import { CheckCircle2, ChevronDown, ChevronRight, Download, Loader2, RefreshCw, Save, Search, Trash2 } from 'lucide-react';
+
+const HOUR = 60 * 60 * 1000;
+
+const RANGES: { label: string; ms: number | null }[] = [
+  { label: '15m', ms: HOUR / 4 },
+  { label: '1h', ms: HOUR },
+  { label: '24h', ms: 24 * HOUR },
+  { label: '7d', ms: 7 * 24 * HOUR },
+  { label: 'All', ms: null }
+];
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  [LogLevel.DEBUG]: 'bg-slate-100 text-slate-500',
+  [LogLevel.INFO]: 'bg-indigo-50 text-indigo-600',
+  [LogLevel.WARN]: 'bg-orange-50 text-orange-600',
+  [LogLevel.ERROR]: 'bg-red-50 text-red-600'
+};
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl px-5 py-3 text-xs font-mono text-slate-700 dark:text-slate-200 outline-none focus:ring-4 focus:ring-indigo-500/10';
+
+const LogsView: React.FC = () => {
+  const [minLevel, setMinLevel] = useState<LogLevel>(LogLevel.INFO);
+  const [range, setRange] = useState<number | null>(24 * HOUR);
+  const [text, setText] = useState('');
+  const [query, setQuery] = useState('');
+  const [records, setRecords] = useState<LogRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<LogSettings | null>(null);
+  const [settingsSaved, setSettingsSaved] = useState(false);
+
+  const filter = useCallback(() => ({
+    minLevel,
+    since: range === null ? undefined : Date.now() - range,
+    text: query.trim() || undefined
+  }), [minLevel, range, query]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [matching, count] = await Promise.all([logStore.query(filter()), logStore.count()]);
+      setRecords(matching);
+      setTotal(count);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => { load(); }, [load]);
+
+  useEffect(() => {
+    getLogSettings().then(setSettings);
+  }, []);
+
+  // Apply the search text once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(text), 300);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  const handleExport = async () => {
+    const ndjson = await logStore.export(filter());
+    const blob = new Blob([ndjson], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `auto_architect_logs_${new Date().toISOString().split('T')[0]}.ndjson`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Delete all persisted log entries?')) return;
+    await logStore.clear();
+    logger.clear();
+    await load();
+  };
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+    try {
+      await saveLogSettings(settings);
+      await installLogSinks();
+      setError(null);
+      setSettingsSaved(true);
+      setTimeout(() => setSettingsSaved(false), 2000);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-in pb-20">
+      <div className="flex flex-wrap items-center gap-3">
+        {LOG_LEVELS.map(level => (
+          <button
+            key={level}
+            onClick={() => setMinLevel(level)}
+            className={`px-5 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+              minLevel === level
+              ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg'
+              : 'bg-white border-slate-100 text-slate-500 hover:bg-slate-50'
+            }`}
+          >
+            {level}+
+          </button>
+        ))}
+        <span className="w-px h-8 bg-slate-100 mx-1" />
+        {RANGES.map(r => (
+          <button
+            key={r.label}
+            onClick={() => setRange(r.ms)}
+            className={`px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+              range === r.ms
+              ? 'bg-slate-900 border-slate-900 text-white'
+              : 'bg-white border-slate-100 text-slate-500 hover:bg-slate-50'
+            }`}
+          >
+            {r.label}
+          </button>
+        ))}
+        <div className="ml-auto flex gap-3">
+          <button onClick={load} disabled={loading} className="flex items-center gap-2 px-5 py-3 bg-white border border-slate-100 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-50 disabled:opacity-40">
+            <RefreshCw size={14} className={loading ? 'animate-spin' : ''} /> Refresh
+          </button>
+          <button onClick={handleClear} disabled={total === 0} className="flex items-center gap-2 px-5 py-3 bg-white border border-slate-100 text-red-500 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-red-50 disabled:opacity-40">
+            <Trash2 size={14} /> Clear
+          </button>
+          <button onClick={handleExport} disabled={records.length === 0} className="flex items-center gap-2 px-5 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg disabled:opacity-40">
+            <Download size={14} /> Export NDJSON
+          </button>
+        </div>
+      </div>
+
+      <div className="relative">
+        <Search size={14} className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400" />
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Filter by message, context, error or trace id"
+          className={`${inputClass} pl-12`}
+        />
+      </div>
+
+      {error && <p className="text-[11px] font-bold text-red-600">{error}</p>}
+
+      <Card title="Log Entries" subtitle={`${records.length} shown · ${total.toLocaleString()} stored`}>
+        {loading && records.length === 0 ? (
+          <div className="flex justify-center py-8"><Loader2 className="animate-spin text-indigo-600" /></div>
+        ) : records.length === 0 ? (
+          <p className="text-[11px] font-bold text-slate-400">No log entries match these filters.</p>
+        ) : (
+          <div className="space-y-1 max-h-[32rem] overflow-y-auto custom-scrollbar pr-1">
+            {records.map(record => {
+              const open = expanded === record.id;
+              return (
+                <div key={record.id} className="border border-slate-100 rounded-xl overflow-hidden">
+                  <button
+                    onClick={() => setExpanded(open ? null : record.id ?? null)}
+                    className="w-full flex items-center gap-3 px-4 py-2 text-left hover:bg-slate-50"
+                  >
+                    {open ? <ChevronDown size={12} className="text-slate-400 shrink-0" /> : <ChevronRight size={12} className="text-slate-400 shrink-0" />}
+                    <span className="text-[10px] font-mono text-slate-400 shrink-0">{new Date(record.timestamp).toLocaleString()}</span>
+                    <span className={`text-[8px] px-2 py-0.5 rounded-full font-black uppercase tracking-widest shrink-0 ${LEVEL_STYLES[record.level]}`}>{record.level}</span>
+                    <span className="text-xs font-bold text-slate-700 truncate">{record.message}</span>
+                    {record.error && <span className="text-[10px] font-mono text-red-500 truncate">{record.error.message}</span>}
+                    {record.traceId && <span className="ml-auto text-[9px] font-mono text-slate-300 shrink-0">trace {record.traceId.slice(0, 8)}</span>}
+                  </button>
+                  {open && (
+                    <pre className="px-4 py-3 bg-slate-900 text-slate-200 text-[10px] font-mono whitespace-pre-wrap break-all">
+                      {JSON.stringify({ context: record.context, error: record.error, traceId: record.traceId, spanId: record.spanId }, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Card>
+
+      {settings && (
+        <Card title="Log Sinks" subtitle={`Active: ${logger.getSinks().join(', ')}`}>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Persist Level</label>
+              <select
+                value={settings.persistLevel}
+                onChange={(e) => setSettings({ ...settings, persistLevel: e.target.value as LogLevel })}
+                className={inputClass}
+              >
+                {LOG_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Retention (Days)</label>
+              <input
+                type="number"
+                min={1}
+                value={settings.retentionDays}
+                onChange={(e) => setSettings({ ...settings, retentionDays: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Max Entries</label>
+              <input
+                type="number"
+                min={100}
+                value={settings.maxEntries}
+                onChange={(e) => setSettings({ ...settings, maxEntries: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Collector Endpoint (Optional)</label>
+              <input
+                value={settings.httpEndpoint ?? ''}
+                placeholder="http://localhost:8080/logs"
+                onChange={(e) => setSettings({ ...settings, httpEndpoint: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Collector Level</label>
+              <select
+                value={settings.httpLevel}
+                onChange={(e) => setSettings({ ...settings, httpLevel: e.target.value as LogLevel })}
+                className={inputClass}
+              >
+                {LOG_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="flex items-center justify-between mt-6">
+            <p className="text-[11px] text-slate-400 font-bold">
+              Context fields such as passwords and API keys are redacted before any sink sees them. The collector receives NDJSON batches by POST.
+            </p>
+            <button
+              onClick={handleSaveSettings}
+              className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg shrink-0"
+            >
+              {settingsSaved ? <CheckCircle2 size={14} /> : <Save size={14} />} {settingsSaved ? 'Sinks Updated' : 'Save Sinks'}
+            </button>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default LogsView;
@@ -1,7 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
 import { Card } from '../components/ui/Card';
-import { UserProfile, Platform } from '../types';
+import { UserProfile, Platform, AiProviderId, AiTask } from '../types';
+import { PROVIDER_IDS, PROVIDER_INFO, getActiveProviderId, setActiveProviderId } from '../services/providers';
+import { PROMPT_IDS, PROMPT_TEMPLATES, PromptId, PromptOverride, prompts, promptVersion } from '../services/promptService';
+import { AI_TASKS, DEFAULT_ROUTES, RoutingConfig, TASK_LABELS, getRoutingConfig, resetRoute, saveRoute } from '../services/routingService';
+import { BudgetStatus, budget, formatCost, getBudgetLimits, getPricingTable, resetPrice, saveBudgetLimits, savePrice } from '../services/budgetService';
+import { DEFAULT_PRICING, PricingTable } from '../utils/tokens';
+import { storage } from '../services/storageService';
 import { 
   UserCircle, 
   Settings, 
@@ -13,7 +19,12 @@ import {
   Trash2,
   Sun,
   Moon,
-  Monitor
+  Monitor,
+  Cpu,
+  FileText,
+  RotateCcw,
+  GitBranch,
+  Wallet
 } from 'lucide-react';
 
 const ProfileView: React.FC = () => {
@@ -29,17 +40,167 @@ const ProfileView: React.FC = () => {
   });
 
   const [isSaved, setIsSaved] = useState(false);
+  const [activeProvider, setActiveProvider] = useState<AiProviderId>('gemini');
 
   useEffect(() => {
-    const saved = localStorage.getItem('aa_user_profile');
-    if (saved) {
-      const parsed = JSON.parse(saved);
-      setProfile(parsed);
+    getActiveProviderId().then(setActiveProvider);
+  }, []);
+
+  const handleProviderChange = async (id: AiProviderId) => {
+    setActiveProvider(id);
+    await setActiveProviderId(id);
+  };
+
+  // Prompt template overrides (stored in this workspace's settings)
+  const [promptOverrides, setPromptOverrides] = useState<Partial<Record<PromptId, PromptOverride>>>({});
+  const [selectedPrompt, setSelectedPrompt] = useState<PromptId>('automation.generate');
+  const [promptDraft, setPromptDraft] = useState<{ system: string; user: string }>({ system: '', user: '' });
+  const [promptError, setPromptError] = useState<string | null>(null);
+  const [promptSaved, setPromptSaved] = useState(false);
+
+  useEffect(() => {
+    prompts.getOverrides().then(setPromptOverrides);
+  }, []);
+
+  useEffect(() => {
+    const template = PROMPT_TEMPLATES[selectedPrompt];
+    const override = promptOverrides[selectedPrompt];
+    setPromptDraft({
+      system: override?.system ?? template.system ?? '',
+      user: override?.user ?? template.user ?? ''
+    });
+    setPromptError(null);
+  }, [selectedPrompt, promptOverrides]);
+
+  const handleSavePrompt = async () => {
+    const template = PROMPT_TEMPLATES[selectedPrompt];
+    try {
+      await prompts.saveOverride(selectedPrompt, {
+        system: template.system !== undefined ? promptDraft.system : undefined,
+        user: template.user !== undefined ? promptDraft.user : undefined
+      });
+      setPromptOverrides(await prompts.getOverrides());
+      setPromptSaved(true);
+      setTimeout(() => setPromptSaved(false), 2000);
+    } catch (err: any) {
+      setPromptError(err.message);
     }
+  };
+
+  const handleResetPrompt = async () => {
+    await prompts.resetOverride(selectedPrompt);
+    setPromptOverrides(await prompts.getOverrides());
+  };
+
+  // Per-task model routing; numeric fields are edited as text and parsed on save
+  const [routes, setRoutes] = useState<RoutingConfig>(DEFAULT_ROUTES);
+  const [selectedTask, setSelectedTask] = useState<AiTask>('generate');
+  const [routeDraft, setRouteDraft] = useState({ model: '', fallbackModel: '', temperature: '', thinkingBudget: '' });
+  const [routeError, setRouteError] = useState<string | null>(null);
+  const [routeSaved, setRouteSaved] = useState(false);
+
+  useEffect(() => {
+    getRoutingConfig().then(setRoutes);
   }, []);
 
-  const handleSave = () => {
-    localStorage.setItem('aa_user_profile', JSON.stringify(profile));
+  useEffect(() => {
+    const route = routes[selectedTask];
+    setRouteDraft({
+      model: route.model,
+      fallbackModel: route.fallbackModel ?? '',
+      temperature: route.temperature?.toString() ?? '',
+      thinkingBudget: route.thinkingBudget?.toString() ?? ''
+    });
+    setRouteError(null);
+  }, [selectedTask, routes]);
+
+  const isCustomRoute = (task: AiTask) => JSON.stringify(routes[task]) !== JSON.stringify(DEFAULT_ROUTES[task]);
+
+  const handleSaveRoute = async () => {
+    const toNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+    try {
+      await saveRoute(selectedTask, {
+        model: routeDraft.model.trim(),
+        ...(routeDraft.fallbackModel.trim() && { fallbackModel: routeDraft.fallbackModel.trim() }),
+        ...(toNumber(routeDraft.temperature) !== undefined && { temperature: toNumber(routeDraft.temperature) }),
+        ...(toNumber(routeDraft.thinkingBudget) !== undefined && { thinkingBudget: toNumber(routeDraft.thinkingBudget) })
+      });
+      setRoutes(await getRoutingConfig());
+      setRouteSaved(true);
+      setTimeout(() => setRouteSaved(false), 2000);
+    } catch (err: any) {
+      setRouteError(err.message);
+    }
+  };
+
+  const handleResetRoute = async () => {
+    await resetRoute(selectedTask);
+    setRoutes(await getRoutingConfig());
+  };
+
+  // Spending limits (edited as dollars / percent) and the per-model pricing table
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus | null>(null);
+  const [limitsDraft, setLimitsDraft] = useState({ daily: '', monthly: '', warnAt: '80' });
+  const [pricing, setPricing] = useState<PricingTable>(DEFAULT_PRICING);
+  const [priceDraft, setPriceDraft] = useState({ model: '', input: '', output: '' });
+  const [budgetError, setBudgetError] = useState<string | null>(null);
+  const [budgetSaved, setBudgetSaved] = useState(false);
+
+  useEffect(() => {
+    getBudgetLimits().then(limits => setLimitsDraft({
+      daily: limits.daily?.toString() ?? '',
+      monthly: limits.monthly?.toString() ?? '',
+      warnAt: String(Math.round(limits.warnAt * 100))
+    }));
+    getPricingTable().then(setPricing);
+    budget.status().then(setBudgetStatus);
+  }, []);
+
+  const isCustomPrice = (model: string) => JSON.stringify(pricing[model]) !== JSON.stringify(DEFAULT_PRICING[model]);
+
+  const handleSaveLimits = async () => {
+    const toNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+    try {
+      await saveBudgetLimits({
+        daily: toNumber(limitsDraft.daily),
+        monthly: toNumber(limitsDraft.monthly),
+        warnAt: Number(limitsDraft.warnAt) / 100
+      });
+      setBudgetStatus(await budget.refresh());
+      setBudgetError(null);
+      setBudgetSaved(true);
+      setTimeout(() => setBudgetSaved(false), 2000);
+    } catch (err: any) {
+      setBudgetError(err.message);
+    }
+  };
+
+  const handleSavePrice = async () => {
+    try {
+      await savePrice(priceDraft.model, { input: Number(priceDraft.input), output: Number(priceDraft.output) });
+      setPricing(await getPricingTable());
+      setBudgetError(null);
+    } catch (err: any) {
+      setBudgetError(err.message);
+    }
+  };
+
+  const handleResetPrice = async () => {
+    await resetPrice(priceDraft.model);
+    const table = await getPricingTable();
+    setPricing(table);
+    const price = table[priceDraft.model];
+    setPriceDraft(prev => ({ ...prev, input: price?.input.toString() ?? '', output: price?.output.toString() ?? '' }));
+  };
+
+  useEffect(() => {
+    storage.getProfile().then(saved => {
+      if (saved) setProfile(saved);
+    });
+  }, []);
+
+  const handleSave = async () => {
+    await storage.saveProfile(profile);
     setIsSaved(true);
     setTimeout(() => setIsSaved(false), 2000);
   };
@@ -100,6 +261,30 @@ const ProfileView: React.FC = () => {
                 System authenticated via pre-configured environment variables. API_KEY protocol is locked for security.
               </p>
             </div>
+
+            <div className="space-y-4">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                <Cpu size={14} className="text-indigo-400" /> Inference Provider
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                {PROVIDER_IDS.map(id => (
+                  <button
+                    key={id}
+                    onClick={() => handleProviderChange(id)}
+                    className={`px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                      activeProvider === id
+                      ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg'
+                      : 'bg-white dark:bg-slate-800 border-slate-100 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700'
+                    }`}
+                  >
+                    {PROVIDER_INFO[id].label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-slate-400 font-bold">
+                Configure keys with <code>set-key {activeProvider}</code> in the API Terminal.
+              </p>
+            </div>
           </div>
         </Card>
 
@@ -168,6 +353,243 @@ const ProfileView: React.FC = () => {
         </Card>
       </div>
 
+      <Card
+        title="Prompt Templates"
+        subtitle="Workspace Overrides"
+        headerAction={
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            v{promptVersion(PROMPT_TEMPLATES[selectedPrompt], promptOverrides[selectedPrompt])}
+          </span>
+        }
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div className="space-y-2">
+            {PROMPT_IDS.map(id => (
+              <button
+                key={id}
+                onClick={() => setSelectedPrompt(id)}
+                className={`w-full flex items-center justify-between px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                  selectedPrompt === id
+                  ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg'
+                  : 'bg-white dark:bg-slate-800 border-slate-100 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700'
+                }`}
+              >
+                <span className="flex items-center gap-2 truncate"><FileText size={12} /> {PROMPT_TEMPLATES[id].label}</span>
+                {promptOverrides[id] && <span className="text-[8px] px-2 py-0.5 rounded-full bg-orange-400 text-white">Custom</span>}
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2 space-y-4">
+            <p className="text-[11px] text-slate-400 font-bold">
+              <code>{selectedPrompt}</code> · Variables: {PROMPT_TEMPLATES[selectedPrompt].variables.map(v => `{{${v}}}`).join(', ') || 'none'}
+            </p>
+            {PROMPT_TEMPLATES[selectedPrompt].system !== undefined && (
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">System Instruction</label>
+                <textarea
+                  value={promptDraft.system}
+                  onChange={(e) => setPromptDraft(prev => ({ ...prev, system: e.target.value }))}
+                  className="w-full min-h-[80px] bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl px-5 py-4 text-xs font-mono text-slate-700 dark:text-slate-200 outline-none focus:ring-4 focus:ring-indigo-500/10"
+                />
+              </div>
+            )}
+            {PROMPT_TEMPLATES[selectedPrompt].user !== undefined && (
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Prompt</label>
+                <textarea
+                  value={promptDraft.user}
+                  onChange={(e) => setPromptDraft(prev => ({ ...prev, user: e.target.value }))}
+                  className="w-full min-h-[120px] bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl px-5 py-4 text-xs font-mono text-slate-700 dark:text-slate-200 outline-none focus:ring-4 focus:ring-indigo-500/10"
+                />
+              </div>
+            )}
+            {promptError && <p className="text-[11px] font-bold text-red-600">{promptError}</p>}
+            <div className="flex gap-3">
+              <button
+                onClick={handleSavePrompt}
+                className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg"
+              >
+                {promptSaved ? <CheckCircle2 size={14} /> : <Save size={14} />} {promptSaved ? 'Override Saved' : 'Save Override'}
+              </button>
+              <button
+                onClick={handleResetPrompt}
+                disabled={!promptOverrides[selectedPrompt]}
+                className="flex items-center gap-2 px-6 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+              >
+                <RotateCcw size={14} /> Reset to Default
+              </button>
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      <Card
+        title="Model Routing"
+        subtitle="Per-Task Inference Settings"
+        headerAction={
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            {routes[selectedTask].model}{routes[selectedTask].fallbackModel && ` → ${routes[selectedTask].fallbackModel}`}
+          </span>
+        }
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div className="space-y-2">
+            {AI_TASKS.map(task => (
+              <button
+                key={task}
+                onClick={() => setSelectedTask(task)}
+                className={`w-full flex items-center justify-between px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                  selectedTask === task
+                  ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg'
+                  : 'bg-white dark:bg-slate-800 border-slate-100 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700'
+                }`}
+              >
+                <span className="flex items-center gap-2 truncate"><GitBranch size={12} /> {TASK_LABELS[task]}</span>
+                {isCustomRoute(task) && <span className="text-[8px] px-2 py-0.5 rounded-full bg-orange-400 text-white">Custom</span>}
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2 space-y-4">
+            <p className="text-[11px] text-slate-400 font-bold">
+              Use <code>pro</code> or <code>flash</code> for the active provider's tier models, or enter a model id. The fallback runs once the primary exhausts its retries.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              {([
+                { key: 'model', label: 'Model', placeholder: 'pro' },
+                { key: 'fallbackModel', label: 'Fallback Model', placeholder: 'none' },
+                { key: 'temperature', label: 'Temperature', placeholder: 'provider default' },
+                { key: 'thinkingBudget', label: 'Thinking Budget', placeholder: 'none' }
+              ] as const).map(field => (
+                <div key={field.key} className="space-y-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{field.label}</label>
+                  <input
+                    value={routeDraft[field.key]}
+                    placeholder={field.placeholder}
+                    onChange={(e) => setRouteDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                    className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl px-5 py-3 text-xs font-mono text-slate-700 dark:text-slate-200 outline-none focus:ring-4 focus:ring-indigo-500/10"
+                  />
+                </div>
+              ))}
+            </div>
+            {routeError && <p className="text-[11px] font-bold text-red-600">{routeError}</p>}
+            <div className="flex gap-3">
+              <button
+                onClick={handleSaveRoute}
+                className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg"
+              >
+                {routeSaved ? <CheckCircle2 size={14} /> : <Save size={14} />} {routeSaved ? 'Route Saved' : 'Save Route'}
+              </button>
+              <button
+                onClick={handleResetRoute}
+                disabled={!isCustomRoute(selectedTask)}
+                className="flex items-center gap-2 px-6 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+              >
+                <RotateCcw size={14} /> Reset to Default
+              </button>
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      <Card
+        title="Budget & Pricing"
+        subtitle="Workspace Spending Limits"
+        headerAction={budgetStatus && (
+          <span className={`text-[10px] font-black uppercase tracking-widest ${budgetStatus.level === 'exceeded' ? 'text-red-600' : budgetStatus.level === 'warning' ? 'text-orange-500' : 'text-slate-400'}`}>
+            Today {formatCost(budgetStatus.daily.spent)} · Month {formatCost(budgetStatus.monthly.spent)}
+          </span>
+        )}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+          <div className="space-y-4">
+            <p className="text-[11px] text-slate-400 font-bold">
+              Leave a limit empty for no cap. New AI requests are blocked once a limit is reached; cached results stay available.
+            </p>
+            {([
+              { key: 'daily', label: 'Daily Limit (USD)', placeholder: 'unlimited' },
+              { key: 'monthly', label: 'Monthly Limit (USD)', placeholder: 'unlimited' },
+              { key: 'warnAt', label: 'Warn At (%)', placeholder: '80' }
+            ] as const).map(field => (
+              <div key={field.key} className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{field.label}</label>
+                <input
+                  value={limitsDraft[field.key]}
+                  placeholder={field.placeholder}
+                  onChange={(e) => setLimitsDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl px-5 py-3 text-xs font-mono text-slate-700 dark:text-slate-200 outline-none focus:ring-4 focus:ring-indigo-500/10"
+                />
+              </div>
+            ))}
+            <button
+              onClick={handleSaveLimits}
+              className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg"
+            >
+              {budgetSaved ? <CheckCircle2 size={14} /> : <Save size={14} />} {budgetSaved ? 'Limits Saved' : 'Save Limits'}
+            </button>
+          </div>
+
+          <div className="md:col-span-2 space-y-4">
+            <p className="text-[11px] text-slate-400 font-bold">
+              USD per 1M tokens. Calls are priced by model id; unlisted models use <code>default</code>.
+            </p>
+            <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+              {Object.entries(pricing).map(([model, price]) => (
+                <button
+                  key={model}
+                  onClick={() => setPriceDraft({ model, input: price.input.toString(), output: price.output.toString() })}
+                  className={`w-full flex items-center justify-between px-4 py-2 rounded-xl text-[10px] font-mono border transition-all ${
+                    priceDraft.model === model
+                    ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg'
+                    : 'bg-white dark:bg-slate-800 border-slate-100 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700'
+                  }`}
+                >
+                  <span className="flex items-center gap-2 truncate"><Wallet size={12} /> {model}</span>
+                  <span className="flex items-center gap-2">
+                    {isCustomPrice(model) && <span className="text-[8px] px-2 py-0.5 rounded-full bg-orange-400 text-white font-sans font-black uppercase tracking-widest">Custom</span>}
+                    ${price.input} / ${price.output}
+                  </span>
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              {([
+                { key: 'model', label: 'Model Id', placeholder: 'gpt-4o' },
+                { key: 'input', label: 'Input', placeholder: '0.5' },
+                { key: 'output', label: 'Output', placeholder: '1.5' }
+              ] as const).map(field => (
+                <div key={field.key} className="space-y-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{field.label}</label>
+                  <input
+                    value={priceDraft[field.key]}
+                    placeholder={field.placeholder}
+                    onChange={(e) => setPriceDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                    className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-2xl px-5 py-3 text-xs font-mono text-slate-700 dark:text-slate-200 outline-none focus:ring-4 focus:ring-indigo-500/10"
+                  />
+                </div>
+              ))}
+            </div>
+            {budgetError && <p className="text-[11px] font-bold text-red-600">{budgetError}</p>}
+            <div className="flex gap-3">
+              <button
+                onClick={handleSavePrice}
+                className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg"
+              >
+                <Save size={14} /> Save Price
+              </button>
+              <button
+                onClick={handleResetPrice}
+                disabled={!priceDraft.model || !isCustomPrice(priceDraft.model)}
+                className="flex items-center gap-2 px-6 py-3 bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 text-slate-500 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+              >
+                <RotateCcw size={14} /> Reset Price
+              </button>
+            </div>
+          </div>
+        </div>
+      </Card>
+
       <div className="p-10 bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/20 rounded-[3rem] flex items-center justify-between group overflow-hidden relative">
         <div className="absolute right-0 top-0 p-10 opacity-5 group-hover:opacity-10 transition-opacity">
            <Trash2 size={120} className="text-red-600" />
@@ -177,7 +599,7 @@ const ProfileView: React.FC = () => {
           <p className="text-xs font-bold text-red-700/60 dark:text-red-400/60 uppercase tracking-widest">Wipe all local vault data and configurations.</p>
         </div>
         <button 
-          onClick={() => { if(confirm('Wipe all local architect data?')) { localStorage.clear(); window.location.reload(); } }}
+          onClick={async () => { if(confirm('Wipe all local architect data?')) { await storage.factoryReset(); window.location.reload(); } }}
           className="relative z-10 px-8 py-4 bg-red-600 text-white rounded-2xl font-black uppercase tracking-widest text-xs shadow-xl shadow-red-500/20 hover:bg-red-700 transition-all active:scale-95"
         >
           Factory Reset
@@ -1,9 +1,10 @@
 
 import React, { useState, useRef } from 'react';
-import { generateSpeech, decode, decodeAudioData, generateProcedureManual } from '../services/geminiService';
+import { generateSpeech, decode, decodeAudioData, generateProcedureManual, isAbortError } from '../services/geminiService';
+import { useAbortController } from '../hooks/useAbortController';
 import { Card } from '../components/ui/Card';
 import { VoiceModel } from '../types';
-import { Mic2, Play, Download, Loader2, Music, Volume2, AlertTriangle, FileText, CheckCircle2 } from 'lucide-react';
+import { Mic2, Play, Download, Loader2, Music, Volume2, AlertTriangle, FileText, CheckCircle2, X } from 'lucide-react';
 
 const TTSView: React.FC = () => {
   const [text, setText] = useState('Sync Shopify VIP orders to Airtable, then trigger Slack alert.');
@@ -13,6 +14,7 @@ const TTSView: React.FC = () => {
   const [manual, setManual] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
+  const { begin, cancel } = useAbortController();
 
   const voices: VoiceModel[] = [
     { id: 'Kore', name: 'Kore', type: 'Professional', description: 'Clear corporate tone' },
@@ -22,6 +24,8 @@ const TTSView: React.FC = () => {
 
   const handleSynthesize = async () => {
     if (!text.trim() || loading) return;
+    // One signal cancels both halves of the bundle
+    const signal = begin();
     setLoading(true);
     setAudioUrl(null);
     setManual(null);
@@ -30,8 +34,8 @@ const TTSView: React.FC = () => {
     try {
       // Parallel execution for high-fidelity deliverable
       const [base64Data, procedureDoc] = await Promise.all([
-        generateSpeech(text, voice),
-        generateProcedureManual(text)
+        generateSpeech(text, voice, { signal }),
+        generateProcedureManual(text, { signal })
       ]);
 
       setManual(procedureDoc);
@@ -44,6 +48,7 @@ const TTSView: React.FC = () => {
         setAudioUrl(URL.createObjectURL(wavBlob));
       }
     } catch (err: any) {
+      if (isAbortError(err)) return;
       setError(err.message || "Synthesis failed.");
     } finally {
       setLoading(false);
@@ -109,6 +114,11 @@ const TTSView: React.FC = () => {
               {loading ? <Loader2 className="animate-spin" size={20} /> : <Mic2 size={20} />}
               {loading ? 'Synthesizing Bundle...' : 'Synthesize Procedure Bundle'}
             </button>
+            {loading && (
+              <button onClick={cancel} className="w-full py-3 rounded-2xl font-black uppercase tracking-widest text-[10px] flex items-center justify-center gap-2 bg-slate-50 border border-slate-100 text-slate-500 hover:bg-slate-100 transition-all">
+                <X size={14} /> Cancel
+              </button>
+            )}
           </div>
         </Card>
       </div>
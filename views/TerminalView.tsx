@@ -1,9 +1,18 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Card } from '../components/ui/Card';
-import { TerminalEntry } from '../types';
-import { GoogleGenAI } from '@google/genai';
-import { storage } from '../services/storageService';
+import { AiTask, TerminalEntry } from '../types';
+import { storage, vault } from '../services/storageService';
+import { executePrompt, testProviderKey, isAbortError } from '../services/geminiService';
+import { useAbortController } from '../hooks/useAbortController';
+import { fixtures, getAiMode, isAiMode, setAiMode, FixtureFile } from '../services/fixtureService';
+import { responseCache, getCacheTtls, setCacheTtl } from '../services/cacheService';
+import { AI_TASKS } from '../services/routingService';
+import { UsageBreakdown, usageLedger } from '../services/usageService';
+import { SpanRecord, toOtlpJson, tracer } from '../utils/tracing';
+import { logger } from '../utils/logger';
+import { logStore } from '../services/logStoreService';
+import { PROVIDER_IDS, PROVIDER_INFO, getActiveProviderId, getProviderSettings, isProviderId, saveProviderSettings, setActiveProviderId } from '../services/providers';
 import { 
   Terminal as TerminalIcon, 
   Send, 
@@ -23,13 +32,20 @@ const TerminalView: React.FC = () => {
   const [input, setInput] = useState('');
   const [isExecuting, setIsExecuting] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const { begin, cancel } = useAbortController();
 
   useEffect(() => {
     if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
   }, [entries]);
 
   const addEntry = (type: TerminalEntry['type'], content: string) => {
-    setEntries(prev => [...prev, { id: crypto.randomUUID(), type, content, timestamp: Date.now() }]);
+    const id = crypto.randomUUID();
+    setEntries(prev => [...prev, { id, type, content, timestamp: Date.now() }]);
+    return id;
+  };
+
+  const updateEntry = (id: string, content: string) => {
+    setEntries(prev => prev.map(entry => entry.id === id ? { ...entry, content } : entry));
   };
 
   const processCommand = async (cmd: string) => {
@@ -37,7 +53,7 @@ const TerminalView: React.FC = () => {
     
     switch (action.toLowerCase()) {
       case 'help':
-        addEntry('info', 'Available Commands:\n  help - Show this menu\n  clear - Wipe terminal history\n  set-key <provider> <key> - Store API key (e.g., set-key gemini YOUR_KEY)\n  test-key <provider> - Test stored API key\n  list-keys - Show configured providers\n  delete-key <provider> - Remove stored API key\n  exec <prompt> - Direct model execution');
+        addEntry('info', 'Available Commands:\n  help - Show this menu\n  clear - Wipe terminal history\n  set-key <provider> <key> - Store API key (e.g., set-key gemini YOUR_KEY)\n  test-key <provider> - Test stored API key\n  list-keys - Show configured providers\n  delete-key <provider> - Remove stored API key\n  lock [auto <minutes>] - Lock the key vault, or set its auto-lock timeout\n  unlock <passphrase> - Unlock encrypted API keys\n  change-passphrase [current] <new> - Set or change the vault passphrase\n  providers - List inference providers\n  use-provider <provider> [base_url] [model] - Switch active provider\n  ai-mode [live|record|replay|mock] - Show or set AI execution mode\n  fixtures <count|export|import|clear> - Manage recorded fixtures\n  cache <list|stats|purge|pin|unpin|ttl> - Inspect the AI response cache\n  usage [days|clear] - Token and cost breakdown from the usage ledger\n  trace <list|show|export|clear> - Inspect request traces (export as OpenTelemetry JSON)\n  logs [count|export|clear] - Tail, export (NDJSON) or clear the persisted log store\n  exec <prompt> - Direct model execution');
         break;
       case 'clear':
         setEntries([]);
@@ -51,9 +67,42 @@ const TerminalView: React.FC = () => {
       case 'list-keys':
         await handleListKeys();
         break;
+      case 'lock':
+        await handleLock(args);
+        break;
+      case 'unlock':
+        await handleUnlock(args);
+        break;
+      case 'change-passphrase':
+        await handleChangePassphrase(args);
+        break;
       case 'delete-key':
         await handleDeleteKey(args);
         break;
+      case 'providers':
+        await handleListProviders();
+        break;
+      case 'use-provider':
+        await handleUseProvider(args);
+        break;
+      case 'ai-mode':
+        await handleAiMode(args);
+        break;
+      case 'fixtures':
+        await handleFixtures(args);
+        break;
+      case 'cache':
+        await handleCache(args);
+        break;
+      case 'usage':
+        await handleUsage(args);
+        break;
+      case 'trace':
+        handleTrace(args);
+        break;
+      case 'logs':
+        await handleLogs(args);
+        break;
       case 'exec':
         await executeAI(args.join(' '));
         break;
@@ -65,27 +114,23 @@ const TerminalView: React.FC = () => {
   const executeAI = async (prompt: string) => {
     setIsExecuting(true);
     try {
-      // First check for locally stored key
-      let apiKey = await storage.getSecureKey('gemini');
-      
-      // Fallback to environment variable
-      if (!apiKey) {
-        apiKey = process.env.API_KEY || null;
-      }
-
-      if (!apiKey) {
-        throw new Error("No API key configured. Use 'set-key gemini YOUR_KEY' to configure.");
-      }
-
-      // Direct usage of GoogleGenAI per guidelines
-      const ai = new GoogleGenAI({ apiKey });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt
+      // Routed through the service so the active provider, retry and logging apply
+      // Streamed tokens render into a single entry that grows in place
+      let streamId: string | null = null;
+      const output = await executePrompt(prompt, {
+        signal: begin(),
+        onPartial: (text) => {
+          if (streamId) updateEntry(streamId, text);
+          else streamId = addEntry('response', text);
+        }
       });
-
-      addEntry('response', response.text || "Execution complete. No output payload.");
+      if (streamId) updateEntry(streamId, output);
+      else addEntry('response', output);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        addEntry('info', '^C Execution cancelled.');
+        return;
+      }
       addEntry('error', `Kernel Panic: ${err.message}`);
     } finally {
       setIsExecuting(false);
@@ -120,25 +165,28 @@ const TerminalView: React.FC = () => {
     setIsExecuting(true);
 
     try {
-      const apiKey = await storage.getSecureKey(provider);
-      if (!apiKey) {
+      if (!isProviderId(provider)) {
+        addEntry('error', `Unknown provider '${provider}'. Supported: ${PROVIDER_IDS.join(', ')}`);
+        return;
+      }
+      if (PROVIDER_INFO[provider].requiresKey && !(await storage.getSecureKey(provider))) {
         addEntry('error', `No API key found for provider '${provider}'.\nUse 'set-key ${provider} YOUR_KEY' first.`);
         return;
       }
 
       // Test the key with a simple API call
-      const ai = new GoogleGenAI({ apiKey });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: 'Respond with: OK'
-      });
+      const text = await testProviderKey(provider, { signal: begin() });
 
-      if (response.text) {
-        addEntry('response', `✓ API key for '${provider}' is valid and working.\nTest response: ${response.text}`);
+      if (text) {
+        addEntry('response', `✓ API key for '${provider}' is valid and working.\nTest response: ${text}`);
       } else {
         addEntry('error', `API key for '${provider}' returned empty response.`);
       }
     } catch (err: any) {
+      if (isAbortError(err)) {
+        addEntry('info', '^C Key test cancelled.');
+        return;
+      }
       addEntry('error', `API key test failed for '${provider}': ${err.message}\nVerify your key and try again.`);
     } finally {
       setIsExecuting(false);
@@ -152,13 +200,73 @@ const TerminalView: React.FC = () => {
         addEntry('info', 'No API keys stored.\nUse \'set-key <provider> <key>\' to add one.');
       } else {
         const list = providers.map(p => `  • ${p}`).join('\n');
-        addEntry('info', `Configured Providers:\n${list}\n\nUse 'test-key <provider>' to verify.`);
+        const status = await vault.status();
+        const protection = !status.enabled ? 'obfuscated (no vault passphrase)' : status.locked ? 'encrypted, vault locked' : 'encrypted, vault unlocked';
+        addEntry('info', `Configured Providers:\n${list}\n\nKeys: ${protection}\nUse 'test-key <provider>' to verify.`);
       }
     } catch (err: any) {
       addEntry('error', `Failed to list keys: ${err.message}`);
     }
   };
 
+  const handleLock = async (args: string[]) => {
+    try {
+      if (args[0]?.toLowerCase() === 'auto') {
+        const minutes = Number(args[1]);
+        if (args[1] === undefined || !Number.isInteger(minutes)) {
+          addEntry('error', 'Usage: lock auto <minutes>\nExample: lock auto 30 (0 disables auto-lock)');
+          return;
+        }
+        await vault.setAutoLock(minutes);
+        addEntry('response', minutes > 0 ? `✓ Vault locks after ${minutes} minute(s) without key access.` : '✓ Auto-lock disabled.');
+        return;
+      }
+      const status = await vault.status();
+      if (!status.enabled) {
+        addEntry('info', "No vault passphrase set; keys are only obfuscated.\nUse 'change-passphrase <new>' to encrypt them.");
+        return;
+      }
+      await vault.lock();
+      addEntry('response', "✓ Vault locked. Use 'unlock <passphrase>' to use stored keys again.");
+    } catch (err: any) {
+      addEntry('error', `Lock failed: ${err.message}`);
+    }
+  };
+
+  const handleUnlock = async (args: string[]) => {
+    const passphrase = args.join(' ');
+    if (!passphrase) {
+      addEntry('error', 'Usage: unlock <passphrase>');
+      return;
+    }
+    try {
+      await vault.unlock(passphrase);
+      const { autoLockMinutes } = await vault.status();
+      addEntry('response', `✓ Vault unlocked.${autoLockMinutes > 0 ? ` Auto-locks after ${autoLockMinutes} minute(s) idle.` : ''}`);
+    } catch (err: any) {
+      addEntry('error', `Unlock failed: ${err.message}`);
+    }
+  };
+
+  const handleChangePassphrase = async (args: string[]) => {
+    try {
+      const { enabled } = await vault.status();
+      if (!enabled && args.length === 1) {
+        await vault.enable(args[0]);
+        addEntry('response', `✓ Vault passphrase set. Stored keys are now encrypted (AES-GCM).\nThe vault locks on reload; use 'unlock <passphrase>' to open it.`);
+      } else if (enabled && args.length === 2) {
+        await vault.changePassphrase(args[0], args[1]);
+        addEntry('response', '✓ Passphrase changed. Stored keys were re-encrypted.');
+      } else {
+        addEntry('error', enabled
+          ? 'Usage: change-passphrase <current> <new>'
+          : 'Usage: change-passphrase <new>\nSets the first vault passphrase (min. 8 characters, no spaces).');
+      }
+    } catch (err: any) {
+      addEntry('error', `Passphrase change failed: ${err.message}`);
+    }
+  };
+
   const handleDeleteKey = async (args: string[]) => {
     if (args.length < 1) {
       addEntry('error', 'Usage: delete-key <provider>\nExample: delete-key gemini');
@@ -179,15 +287,372 @@ const TerminalView: React.FC = () => {
     }
   };
 
+  const handleListProviders = async () => {
+    const active = await getActiveProviderId();
+    const lines = await Promise.all(PROVIDER_IDS.map(async (id) => {
+      const settings = await getProviderSettings(id);
+      const endpoint = settings.baseUrl || PROVIDER_INFO[id].defaultBaseUrl;
+      return `  ${id === active ? '▸' : '•'} ${id} - ${PROVIDER_INFO[id].label}${endpoint ? ` (${endpoint})` : ''}`;
+    }));
+    addEntry('info', `Inference Providers:\n${lines.join('\n')}\n\nUse 'use-provider <provider>' to switch.`);
+  };
+
+  const handleUseProvider = async (args: string[]) => {
+    if (args.length < 1) {
+      addEntry('error', 'Usage: use-provider <provider> [base_url] [model]\nExample: use-provider local http://localhost:11434/v1 llama3.1');
+      return;
+    }
+
+    const provider = args[0].toLowerCase();
+    if (!isProviderId(provider)) {
+      addEntry('error', `Unknown provider '${provider}'. Supported: ${PROVIDER_IDS.join(', ')}`);
+      return;
+    }
+
+    try {
+      const [baseUrl, model] = args.slice(1);
+      if (baseUrl || model) {
+        const current = await getProviderSettings(provider);
+        await saveProviderSettings(provider, {
+          ...current,
+          ...(baseUrl && { baseUrl }),
+          ...(model && { models: { pro: model, flash: model } })
+        });
+      }
+      await setActiveProviderId(provider);
+      addEntry('response', `✓ Active provider set to '${provider}' (${PROVIDER_INFO[provider].label}).`);
+    } catch (err: any) {
+      addEntry('error', `Failed to switch provider: ${err.message}`);
+    }
+  };
+
+  const handleAiMode = async (args: string[]) => {
+    if (args.length < 1) {
+      const mode = await getAiMode();
+      addEntry('info', `AI mode: ${mode}${process.env.AI_MODE ? ' (forced by AI_MODE build variable)' : ''}`);
+      return;
+    }
+
+    const mode = args[0].toLowerCase();
+    if (!isAiMode(mode)) {
+      addEntry('error', 'Usage: ai-mode [live|record|replay|mock]');
+      return;
+    }
+
+    await setAiMode(mode);
+    addEntry('response', `✓ AI mode set to '${mode}'.`);
+  };
+
+  const handleFixtures = async (args: string[]) => {
+    const sub = (args[0] || 'count').toLowerCase();
+
+    try {
+      switch (sub) {
+        case 'count':
+          addEntry('info', `${await fixtures.count()} fixture(s) recorded.`);
+          break;
+        case 'export': {
+          const file = await fixtures.exportFile();
+          const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `auto_architect_fixtures_${new Date().toISOString().split('T')[0]}.json`;
+          link.click();
+          URL.revokeObjectURL(url);
+          addEntry('response', `✓ Exported ${file.fixtures.length} fixture(s).`);
+          break;
+        }
+        case 'import': {
+          const picker = document.createElement('input');
+          picker.type = 'file';
+          picker.accept = '.json';
+          picker.onchange = async () => {
+            const file = picker.files?.[0];
+            if (!file) return;
+            try {
+              const parsed = JSON.parse(await file.text()) as FixtureFile;
+              const imported = await fixtures.importFile(parsed);
+              addEntry('response', `✓ Imported ${imported} fixture(s) from ${file.name}.`);
+            } catch (err: any) {
+              addEntry('error', `Fixture import failed: ${err.message}`);
+            }
+          };
+          picker.click();
+          break;
+        }
+        case 'clear':
+          await fixtures.clear();
+          addEntry('response', '✓ All fixtures removed.');
+          break;
+        default:
+          addEntry('error', 'Usage: fixtures <count|export|import|clear>');
+      }
+    } catch (err: any) {
+      addEntry('error', `Fixture command failed: ${err.message}`);
+    }
+  };
+
+  const formatBytes = (bytes: number) =>
+    bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+  const formatDuration = (ms: number) =>
+    ms >= 60 * 60 * 1000 ? `${Math.round(ms / (60 * 60 * 1000))}h` : `${Math.max(0, Math.round(ms / 60000))}m`;
+
+  const isTask = (value: string): value is AiTask => (AI_TASKS as string[]).includes(value);
+
+  const handleCache = async (args: string[]) => {
+    const sub = (args[0] || 'stats').toLowerCase();
+    const usage = 'Usage: cache list [task]\n       cache stats\n       cache purge <key|task|expired|all>\n       cache pin|unpin <key>\n       cache ttl [task minutes]';
+
+    try {
+      switch (sub) {
+        case 'stats': {
+          const summary = await responseCache.summary();
+          addEntry('info', `Persistent: ${summary.entries} entr${summary.entries === 1 ? 'y' : 'ies'} (${summary.pinned} pinned), ${formatBytes(summary.bytes)} of ${formatBytes(summary.maxBytes)}\nMemory: ${summary.memory.size} entries, hit rate ${(summary.memory.hitRate * 100).toFixed(0)}% (${summary.memory.hits} hits / ${summary.memory.misses} misses)`);
+          break;
+        }
+        case 'list': {
+          const task = args[1]?.toLowerCase();
+          const entries = (await responseCache.list()).filter(e => !task || e.task === task);
+          if (entries.length === 0) {
+            addEntry('info', 'Cache is empty.');
+            break;
+          }
+          const now = Date.now();
+          const lines = entries.slice(0, 50).map(e =>
+            `  ${e.pinned ? '📌' : '  '} ${e.key.slice(0, 12)}  ${e.task.padEnd(9)} ${`${e.provider}/${e.model}`.padEnd(28)} ${formatBytes(e.size).padStart(8)}  ${e.hits} hit(s)  ${e.pinned ? 'pinned' : `expires in ${formatDuration(e.expiresAt - now)}`}`
+          );
+          const more = entries.length > 50 ? `\n  ...and ${entries.length - 50} more` : '';
+          addEntry('info', `Cache Entries (most recent first):\n${lines.join('\n')}${more}`);
+          break;
+        }
+        case 'purge': {
+          const target = args[1]?.toLowerCase();
+          if (!target) {
+            addEntry('error', usage);
+            break;
+          }
+          let removed: number;
+          if (target === 'all' || target === 'expired' || isTask(target)) {
+            removed = await responseCache.purge(target);
+          } else {
+            const entry = await responseCache.find(target);
+            if (!entry) {
+              addEntry('error', `No cache entry matching '${target}'.`);
+              break;
+            }
+            removed = await responseCache.purge({ key: entry.key });
+          }
+          addEntry('response', `✓ Purged ${removed} cache entr${removed === 1 ? 'y' : 'ies'}.`);
+          break;
+        }
+        case 'pin':
+        case 'unpin': {
+          const entry = args[1] ? await responseCache.find(args[1]) : null;
+          if (!entry) {
+            addEntry('error', args[1] ? `No cache entry matching '${args[1]}'.` : usage);
+            break;
+          }
+          await responseCache.setPinned(entry.key, sub === 'pin');
+          addEntry('response', `✓ ${entry.key.slice(0, 12)} ${sub === 'pin' ? 'pinned; it will not expire or be evicted' : 'unpinned'}.`);
+          break;
+        }
+        case 'ttl': {
+          if (args.length < 2) {
+            const ttls = await getCacheTtls();
+            addEntry('info', `Cache TTL per task:\n${AI_TASKS.map(t => `  ${t.padEnd(10)} ${ttls[t] > 0 ? formatDuration(ttls[t]) : 'not cached'}`).join('\n')}`);
+            break;
+          }
+          const task = args[1].toLowerCase();
+          const minutes = Number(args[2]);
+          if (!isTask(task) || args[2] === undefined || !Number.isFinite(minutes) || minutes < 0) {
+            addEntry('error', `Usage: cache ttl <task> <minutes>\nTasks: ${AI_TASKS.join(', ')}`);
+            break;
+          }
+          await setCacheTtl(task, minutes * 60 * 1000);
+          addEntry('response', `✓ '${task}' responses now cached for ${minutes > 0 ? `${minutes} minute(s)` : 'no time (disabled)'}.`);
+          break;
+        }
+        default:
+          addEntry('error', usage);
+      }
+    } catch (err: any) {
+      addEntry('error', `Cache command failed: ${err.message}`);
+    }
+  };
+
+  const handleUsage = async (args: string[]) => {
+    try {
+      if (args[0]?.toLowerCase() === 'clear') {
+        await usageLedger.clear();
+        addEntry('response', '✓ Usage ledger cleared.');
+        return;
+      }
+
+      const days = args[0] ? Number(args[0]) : 30;
+      if (!Number.isInteger(days) || days < 1) {
+        addEntry('error', 'Usage: usage [days|clear]\nExample: usage 7');
+        return;
+      }
+
+      const start = new Date();
+      start.setHours(0, 0, 0, 0);
+      start.setDate(start.getDate() - (days - 1));
+      const summary = await usageLedger.summarize(start.getTime());
+      if (summary.totals.requests === 0) {
+        addEntry('info', `No AI usage recorded in the last ${days} day(s).`);
+        return;
+      }
+
+      const line = (label: string, b: UsageBreakdown) =>
+        `  ${label.padEnd(30)} ${String(b.requests).padStart(5)} req ${String(b.inputTokens).padStart(9)} in ${String(b.outputTokens).padStart(9)} out  $${b.cost.toFixed(4)}`;
+      const section = (title: string, bucket: Record<string, UsageBreakdown>, limit = 10) => {
+        const rows = Object.entries(bucket).sort(([, a], [, b]) => b.cost - a.cost || b.requests - a.requests);
+        return `${title}:\n${rows.slice(0, limit).map(([key, b]) => line(key, b)).join('\n')}`;
+      };
+
+      addEntry('info', [
+        `Usage, last ${days} day(s) (${summary.totals.cachedRequests} served from cache):`,
+        line('Total', summary.totals),
+        section('By task', summary.byTask),
+        section('By model', summary.byModel),
+        `By day:\n${Object.entries(summary.byDay).sort(([a], [b]) => b.localeCompare(a)).slice(0, 14).map(([day, b]) => line(day, b)).join('\n')}`,
+        ...(Object.keys(summary.byBlueprint).length > 0 ? [section('By blueprint', summary.byBlueprint, 5)] : [])
+      ].join('\n\n'));
+    } catch (err: any) {
+      addEntry('error', `Usage command failed: ${err.message}`);
+    }
+  };
+
+  const handleTrace = (args: string[]) => {
+    const sub = (args[0] || 'list').toLowerCase();
+    const traces = tracer.listTraces();
+    const formatMs = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms}ms`;
+    // Abbreviated ids resolve like cache keys; no id means the latest trace
+    const resolve = (prefix?: string) => {
+      if (!prefix) return traces[0];
+      const matches = traces.filter(t => t.traceId.startsWith(prefix.toLowerCase()));
+      if (matches.length > 1) throw new Error(`Trace id '${prefix}' is ambiguous.`);
+      return matches[0];
+    };
+
+    try {
+      switch (sub) {
+        case 'list':
+          if (traces.length === 0) {
+            addEntry('info', 'No traces recorded this session.');
+            break;
+          }
+          addEntry('info', traces.slice(0, 20).map(t =>
+            `  ${t.traceId.slice(0, 12)}  ${t.name.padEnd(28)} ${String(t.spans).padStart(3)} spans ${formatMs(t.duration).padStart(8)}  ${t.status}  ${new Date(t.startTime).toLocaleTimeString()}`
+          ).join('\n'));
+          break;
+        case 'show': {
+          const trace = resolve(args[1]);
+          if (!trace) {
+            addEntry('error', 'Usage: trace show [trace_id]\nNo matching trace.');
+            break;
+          }
+          const spans = tracer.getSpans(trace.traceId).sort((a, b) => a.startTime - b.startTime);
+          const byId = new Map(spans.map(span => [span.spanId, span]));
+          const depth = (span: SpanRecord): number => {
+            const parent = span.parentSpanId && byId.get(span.parentSpanId);
+            return parent ? depth(parent) + 1 : 0;
+          };
+          const logs = logger.getLogs().filter(entry => entry.traceId === trace.traceId);
+          addEntry('info', [
+            `Trace ${trace.traceId}`,
+            ...spans.map(span => {
+              const attributes = Object.entries(span.attributes).map(([key, value]) => `${key}=${value}`).join(' ');
+              return `${'  '.repeat(depth(span) + 1)}${span.name} ${formatMs((span.endTime ?? span.startTime) - span.startTime)} [${span.status}]${span.statusMessage ? ` ${span.statusMessage}` : ''}${attributes ? `  ${attributes}` : ''}`;
+            }),
+            ...(logs.length > 0 ? [`Logs:`, ...logs.map(entry => `  ${entry.level.padEnd(5)} ${entry.message} (span ${entry.spanId?.slice(0, 8)})`)] : [])
+          ].join('\n'));
+          break;
+        }
+        case 'export': {
+          const trace = args[1] ? resolve(args[1]) : undefined;
+          const spans = tracer.getSpans(trace?.traceId);
+          if (args[1] && !trace) {
+            addEntry('error', `No trace matches '${args[1]}'.`);
+            break;
+          }
+          const blob = new Blob([JSON.stringify(toOtlpJson(spans), null, 2)], { type: 'application/json' });
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = trace ? `trace_${trace.traceId}.json` : `auto_architect_traces_${new Date().toISOString().split('T')[0]}.json`;
+          link.click();
+          URL.revokeObjectURL(url);
+          addEntry('response', `✓ Exported ${spans.length} span(s) as OTLP JSON.`);
+          break;
+        }
+        case 'clear':
+          tracer.clear();
+          addEntry('response', '✓ Trace buffer cleared.');
+          break;
+        default:
+          addEntry('error', 'Usage: trace <list|show [id]|export [id]|clear>\nExample: trace show 4bf92f35');
+      }
+    } catch (err: any) {
+      addEntry('error', `Trace command failed: ${err.message}`);
+    }
+  };
+
+  const handleLogs = async (args: string[]) => {
+    const sub = (args[0] || '20').toLowerCase();
+    try {
+      if (sub === 'export') {
+        const blob = new Blob([await logStore.export()], { type: 'application/x-ndjson' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `auto_architect_logs_${new Date().toISOString().split('T')[0]}.ndjson`;
+        link.click();
+        URL.revokeObjectURL(url);
+        addEntry('response', `✓ Exported ${await logStore.count()} log entries as NDJSON.`);
+      } else if (sub === 'clear') {
+        await logStore.clear();
+        addEntry('response', '✓ Log store cleared.');
+      } else if (/^\d+$/.test(sub)) {
+        const records = await logStore.query({ limit: Number(sub) });
+        addEntry('info', records.length === 0
+          ? 'Log store is empty.'
+          : records.reverse().map(r =>
+            `  ${new Date(r.timestamp).toLocaleTimeString()} ${r.level.padEnd(5)} ${r.message}${r.error ? ` - ${r.error.message}` : ''}${r.traceId ? `  trace=${r.traceId.slice(0, 8)}` : ''}`
+          ).join('\n'));
+      } else {
+        addEntry('error', 'Usage: logs [count|export|clear]\nExample: logs 50');
+      }
+    } catch (err: any) {
+      addEntry('error', `Logs command failed: ${err.message}`);
+    }
+  };
+
   const maskKey = (key: string): string => {
     if (key.length <= 8) return '****';
     return `${key.substring(0, 4)}...${key.substring(key.length - 4)}`;
   };
 
+  // Keys and passphrases never reach the on-screen history
+  const redactCommand = (cmd: string): string => {
+    const [action, ...args] = cmd.split(' ');
+    switch (action.toLowerCase()) {
+      case 'set-key':
+        return args.length < 2 ? cmd : `${action} ${args[0]} ${maskKey(args.slice(1).join(' '))}`;
+      case 'unlock':
+      case 'change-passphrase':
+        return [action, ...args.map(() => '********')].join(' ');
+      default:
+        return cmd;
+    }
+  };
+
   const handleSubmit = async () => {
     if (!input.trim() || isExecuting) return;
     const cmd = input.trim();
-    addEntry('command', cmd);
+    addEntry('command', redactCommand(cmd));
     setInput('');
     await processCommand(cmd);
   };
@@ -237,6 +702,7 @@ const TerminalView: React.FC = () => {
              <div className="flex items-center gap-3 text-indigo-400/60 font-mono">
                <Loader2 className="animate-spin" size={14} />
                <span className="animate-pulse">Fetching Neural Context...</span>
+               <button onClick={cancel} className="ml-2 text-white/30 hover:text-red-400 transition-colors">[ctrl+c to cancel]</button>
              </div>
           )}
         </div>
@@ -247,7 +713,10 @@ const TerminalView: React.FC = () => {
               type="text" 
               value={input}
               onChange={(e) => setInput(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSubmit();
+                else if (e.ctrlKey && e.key === 'c' && isExecuting) cancel();
+              }}
               placeholder="arch@vault:~$ help"
               className="w-full bg-white/[0.03] border border-white/10 rounded-2xl px-8 py-5 text-indigo-300 font-mono text-sm focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500/50 outline-none transition-all"
             />
@@ -1,8 +1,15 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { SavedBlueprint, AppView, AutomationResult } from '../types';
+import { SavedBlueprint, AppView, AutomationResult, Platform } from '../types';
 import { Card } from '../components/ui/Card';
-import { Library, Search, Trash2, Rocket, Clock, Zap, Layers, ArrowRight, Download, Upload as UploadIcon, FileJson, AlertCircle } from 'lucide-react';
+import { ExportReport } from '../components/ui/ExportReport';
+import { blueprintStore } from '../services/blueprintService';
+import { generateWorkflowDocs } from '../services/geminiService';
+import { EXPORTERS, ExportFile } from '../services/exporters';
+import { findImporter, importWorkflows } from '../services/importers';
+import { BlueprintHistory } from '../components/BlueprintHistory';
+import { BlueprintPort } from '../components/BlueprintPort';
+import { History, Library, Search, Trash2, Rocket, Clock, Zap, Layers, ArrowRight, Download, Upload as UploadIcon, FileJson, AlertCircle, ShieldCheck, FlaskConical, FileText, Loader2, Shuffle } from 'lucide-react';
 
 interface Props { onNavigate: (v: AppView, b?: AutomationResult) => void; }
 
@@ -10,25 +17,52 @@ const VaultView: React.FC<Props> = ({ onNavigate }) => {
   const [blueprints, setBlueprints] = useState<SavedBlueprint[]>([]);
   const [filter, setFilter] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<SavedBlueprint | null>(null);
+  const [portFor, setPortFor] = useState<SavedBlueprint | null>(null);
+  // Outcome of the last workflow import: summary line plus importer warnings
+  const [imported, setImported] = useState<{ summary: string; warnings: string[] } | null>(null);
+  const [exported, setExported] = useState<ExportFile | null>(null);
+  const [documenting, setDocumenting] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => {
-    const saved = localStorage.getItem('auto_architect_vault');
-    if (saved) setBlueprints(JSON.parse(saved));
-  }, []);
-
-  const saveToStorage = (data: SavedBlueprint[]) => {
-    setBlueprints(data);
-    localStorage.setItem('auto_architect_vault', JSON.stringify(data));
+  // Search runs in the store, so `blueprints` holds only the matches
+  const load = async () => {
+    try {
+      setBlueprints(await blueprintStore.list({ search: filter }));
+    } catch (err: any) {
+      setError(err.message);
+    }
   };
 
-  const deleteBlueprint = (id: string) => {
-    const updated = blueprints.filter(b => b.id !== id);
-    saveToStorage(updated);
+  // Re-query once typing pauses; stale results are dropped
+  useEffect(() => {
+    let current = true;
+    const timer = setTimeout(() => {
+      blueprintStore.list({ search: filter })
+        .then(result => { if (current) setBlueprints(result); })
+        .catch((err: any) => { if (current) setError(err.message); });
+    }, filter ? 250 : 0);
+    return () => { current = false; clearTimeout(timer); };
+  }, [filter]);
+
+  const deleteBlueprint = async (id: string) => {
+    try {
+      await blueprintStore.remove(id);
+      setBlueprints(prev => prev.filter(b => b.id !== id));
+    } catch (err: any) {
+      setError(err.message || 'Delete failed.');
+    }
   };
 
-  const exportVault = () => {
-    const blob = new Blob([JSON.stringify(blueprints, null, 2)], { type: 'application/json' });
+  const exportVault = async () => {
+    let vault: SavedBlueprint[];
+    try {
+      vault = await blueprintStore.list();
+    } catch (err: any) {
+      setError(err.message || 'Export failed.');
+      return;
+    }
+    const blob = new Blob([JSON.stringify(vault, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -42,21 +76,24 @@ const VaultView: React.FC<Props> = ({ onNavigate }) => {
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
       try {
         const json = JSON.parse(event.target?.result as string);
-        if (Array.isArray(json)) {
-          // Merge or overwrite? Let's merge by ID to prevent duplicates
-          const merged = [...blueprints];
-          json.forEach((item: any) => {
-            if (item.id && !merged.find(b => b.id === item.id)) {
-              merged.push(item);
-            }
-          });
-          saveToStorage(merged);
+        if (Array.isArray(json) && !findImporter(json)) {
+          // Vault manifest: merge by ID to prevent duplicates
+          await blueprintStore.import(json);
+          await load();
           setError(null);
         } else {
-          throw new Error("Invalid format: Expected an array of blueprints.");
+          // Workflows exported from n8n, Make or Zapier become new blueprints
+          const { importer, workflows } = importWorkflows(json);
+          for (const workflow of workflows) await blueprintStore.create(workflow.blueprint, workflow.name, '1.0.0');
+          await load();
+          setError(null);
+          setImported({
+            summary: `Imported ${workflows.length} ${importer.label}${workflows.length === 1 ? '' : 's'}.`,
+            warnings: workflows.flatMap(w => w.warnings.map(warning => `${w.name}: ${warning}`))
+          });
         }
       } catch (err: any) {
         setError(err.message || "Failed to parse JSON file.");
@@ -66,11 +103,32 @@ const VaultView: React.FC<Props> = ({ onNavigate }) => {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const filtered = blueprints.filter(b => 
-    b.name.toLowerCase().includes(filter.toLowerCase()) || 
-    b.platform.includes(filter.toLowerCase()) ||
-    b.explanation.toLowerCase().includes(filter.toLowerCase())
-  );
+  const documentBlueprint = async (b: SavedBlueprint) => {
+    setDocumenting(b.id);
+    try {
+      const documentation = await generateWorkflowDocs(b);
+      const head = await blueprintStore.commit(b.id, { ...b, documentation });
+      setBlueprints(prev => prev.map(item => item.id === head.id ? head : item));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Documentation failed.');
+    } finally {
+      setDocumenting(null);
+    }
+  };
+
+  const exportBlueprint = (b: SavedBlueprint, platform: Platform) => {
+    const exporter = EXPORTERS[platform];
+    if (!exporter) return;
+    const file = exporter.export(b, { name: b.name });
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    setExported(file);
+  };
 
   return (
     <div className="space-y-10 animate-in">
@@ -101,7 +159,7 @@ const VaultView: React.FC<Props> = ({ onNavigate }) => {
            </button>
            <div className="h-10 w-[1px] bg-slate-100 mx-2 shrink-0 hidden md:block" />
            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest bg-white px-5 py-3 rounded-2xl border border-slate-100 shadow-sm whitespace-nowrap">
-             {blueprints.length} Artifacts Stored
+             {blueprints.length} {filter ? 'Matching' : 'Artifacts Stored'}
            </span>
            <input type="file" ref={fileInputRef} onChange={importVault} className="hidden" accept=".json" />
         </div>
@@ -113,27 +171,71 @@ const VaultView: React.FC<Props> = ({ onNavigate }) => {
         </div>
       )}
 
-      {blueprints.length === 0 ? (
+      {imported && (
+        <div className="p-4 bg-emerald-50 border border-emerald-100 rounded-2xl text-emerald-700 text-xs font-bold space-y-1 animate-in">
+          <div className="flex items-center justify-between gap-3">
+            <span>{imported.summary}</span>
+            <button onClick={() => setImported(null)} className="text-[10px] font-black uppercase tracking-widest opacity-60 hover:opacity-100">Dismiss</button>
+          </div>
+          {imported.warnings.map((warning, i) => (
+            <div key={i} className="flex items-center gap-2 text-amber-700"><AlertCircle size={14} /> {warning}</div>
+          ))}
+        </div>
+      )}
+
+      {exported && <ExportReport file={exported} />}
+
+      {blueprints.length === 0 && !filter ? (
         <div className="h-[600px] border-2 border-dashed border-slate-200 rounded-[4rem] flex flex-col items-center justify-center p-12 text-center bg-white/40">
           <div className="w-24 h-24 bg-indigo-50 text-indigo-200 rounded-[3rem] flex items-center justify-center mb-8 border border-indigo-100"><Library size={48} /></div>
           <h3 className="text-2xl font-black text-slate-300 uppercase tracking-widest">Vault Empty</h3>
-          <p className="text-slate-400 text-sm max-w-sm mt-3 font-bold opacity-60 leading-relaxed uppercase tracking-widest">Generate and save blueprints or import a JSON manifest to populate your vault.</p>
+          <p className="text-slate-400 text-sm max-w-sm mt-3 font-bold opacity-60 leading-relaxed uppercase tracking-widest">Generate and save blueprints, or import a vault manifest or an n8n, Make or Zapier workflow.</p>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
-          {filtered.map((b) => (
+          {blueprints.map((b) => (
             <Card 
               key={b.id} 
               title={b.name} 
-              subtitle={`v${b.version} • ${b.platform.toUpperCase()}`}
+              subtitle={`v${b.version}${b.revision ? ` • r${b.revision}` : ''} • ${b.platform.toUpperCase()}`}
               headerAction={
-                <button onClick={() => deleteBlueprint(b.id)} className="text-slate-300 hover:text-red-500 transition-colors p-2">
-                  <Trash2 size={16} />
-                </button>
+                <div className="flex">
+                  <button onClick={() => setHistoryFor(b)} title="Revision history" className="text-slate-300 hover:text-indigo-500 transition-colors p-2">
+                    <History size={16} />
+                  </button>
+                  <button onClick={() => deleteBlueprint(b.id)} className="text-slate-300 hover:text-red-500 transition-colors p-2">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
               }
             >
               <div className="space-y-8">
                 <p className="text-xs text-slate-500 font-semibold line-clamp-2 leading-relaxed opacity-80">"{b.explanation}"</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <button onClick={() => onNavigate(AppView.AUDIT, b)} title="Audit" className="flex items-center gap-1.5 px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 transition-all">
+                    <ShieldCheck size={12} /> Audit
+                  </button>
+                  <button onClick={() => onNavigate(AppView.LOGIC_SANDBOX, b)} title="Simulate" className="flex items-center gap-1.5 px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 transition-all">
+                    <FlaskConical size={12} /> Simulate
+                  </button>
+                  <button onClick={() => documentBlueprint(b)} disabled={documenting !== null} title={b.documentation ? 'Regenerate documentation' : 'Generate documentation'} className="flex items-center gap-1.5 px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 transition-all disabled:opacity-40">
+                    {documenting === b.id ? <Loader2 size={12} className="animate-spin" /> : <FileText size={12} />} {b.documentation ? 'Docs ✓' : 'Document'}
+                  </button>
+                  <button onClick={() => setPortFor(b)} title="Port to another platform" className="flex items-center gap-1.5 px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-indigo-600 transition-all">
+                    <Shuffle size={12} /> Port to…
+                  </button>
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && exportBlueprint(b, e.target.value as Platform)}
+                    title="Export to another platform"
+                    className="px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-500 outline-none"
+                  >
+                    <option value="">Export as…</option>
+                    {(Object.keys(EXPORTERS) as Platform[]).map(platform => (
+                      <option key={platform} value={platform}>{EXPORTERS[platform]!.label}</option>
+                    ))}
+                  </select>
+                </div>
                 <div className="flex items-center justify-between pt-6 border-t border-slate-50">
                    <div className="flex flex-col">
                      <div className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
@@ -157,6 +259,25 @@ const VaultView: React.FC<Props> = ({ onNavigate }) => {
           ))}
         </div>
       )}
+
+      {historyFor && (
+        <BlueprintHistory
+          blueprint={historyFor}
+          onClose={() => setHistoryFor(null)}
+          onRestored={head => setBlueprints(prev => [head, ...prev.filter(b => b.id !== head.id)])}
+        />
+      )}
+
+      {portFor && (
+        <BlueprintPort
+          blueprint={portFor}
+          onClose={() => setPortFor(null)}
+          onPorted={head => {
+            setPortFor(null);
+            setBlueprints(prev => [head, ...prev.filter(b => b.id !== head.id)]);
+          }}
+        />
+      )}
     </div>
   );
 };